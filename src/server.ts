@@ -1,7 +1,16 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { analyzeTool, handleAnalyzeProject } from "./tools/analyze.tool.js";
+import { analyzeRoutesTool, handleAnalyzeRoutes } from "./tools/analyze_routes.tool.js";
 import { handleScaffoldProject, scaffoldTool } from "./tools/scaffold.tool.js";
+import { handlePlanUpgrade, planUpgradeTool } from "./tools/plan_upgrade.tool.js";
+import { compareAnalysisTool, handleCompareAnalysis } from "./tools/compare_analysis.tool.js";
+import { handleMigrateRxjs, migrateRxjsTool } from "./tools/migrate_rxjs.tool.js";
+import { handleMigrateTests, migrateTestsTool } from "./tools/migrate_tests.tool.js";
+import { handleMigrateMaterial, migrateMaterialTool } from "./tools/migrate_material.tool.js";
+import { handleMigrateModule, migrateModuleTool } from "./tools/migrate_module.tool.js";
+import { handleMigrateGuardsInterceptors, migrateGuardsInterceptorsTool } from "./tools/migrate_guards_interceptors.tool.js";
+import { handleMigrateInject, migrateInjectTool } from "./tools/migrate_inject.tool.js";
 import { handleMigrateAssets, migrateAssetsTool } from "./tools/migrate_assets.tool.js";
 import { handleMigrateComponent, migrateComponentTool } from "./tools/migrate_component.tool.js";
 
@@ -23,6 +32,28 @@ export async function createServer() {
             await handleAnalyzeProject(args as any) as any
     );
 
+    const AnalyzeRoutesInput = z.object(analyzeRoutesTool.inputSchema).strict();
+    server.registerTool(analyzeRoutesTool.name,
+        {
+            title: analyzeRoutesTool.title,
+            description: analyzeRoutesTool.description,
+            inputSchema: analyzeRoutesTool.inputSchema,
+        },
+        async (args: z.infer<typeof AnalyzeRoutesInput>, _extra: unknown) =>
+            await handleAnalyzeRoutes(args as any) as any
+    );
+
+    const CompareAnalysisInput = z.object(compareAnalysisTool.inputSchema).strict();
+    server.registerTool(compareAnalysisTool.name,
+        {
+            title: compareAnalysisTool.title,
+            description: compareAnalysisTool.description,
+            inputSchema: compareAnalysisTool.inputSchema,
+        },
+        async (args: z.infer<typeof CompareAnalysisInput>, _extra: unknown) =>
+            await handleCompareAnalysis(args as any) as any
+    );
+
     const ScaffoldInput = z.object(scaffoldTool.inputSchema).strict();
     server.registerTool(scaffoldTool.name,
         {
@@ -34,6 +65,17 @@ export async function createServer() {
             await handleScaffoldProject(args as any) as any
     );
 
+    const PlanUpgradeInput = z.object(planUpgradeTool.inputSchema).strict();
+    server.registerTool(planUpgradeTool.name,
+        {
+            title: planUpgradeTool.title,
+            description: planUpgradeTool.description,
+            inputSchema: planUpgradeTool.inputSchema,
+        },
+        async (args: z.infer<typeof PlanUpgradeInput>, _extra: unknown) =>
+            await handlePlanUpgrade(args as any) as any
+    );
+
     const MigrateAssetsInput = z.object(migrateAssetsTool.inputSchema).strict();
     server.registerTool(migrateAssetsTool.name,
         {
@@ -56,5 +98,71 @@ export async function createServer() {
             await handleMigrateComponent(args as any) as any
     );
 
+    const MigrateRxjsInput = z.object(migrateRxjsTool.inputSchema).strict();
+    server.registerTool(migrateRxjsTool.name,
+        {
+            title: migrateRxjsTool.title,
+            description: migrateRxjsTool.description,
+            inputSchema: migrateRxjsTool.inputSchema,
+        },
+        async (args: z.infer<typeof MigrateRxjsInput>, _extra: unknown) =>
+            await handleMigrateRxjs(args as any) as any
+    );
+
+    const MigrateTestsInput = z.object(migrateTestsTool.inputSchema).strict();
+    server.registerTool(migrateTestsTool.name,
+        {
+            title: migrateTestsTool.title,
+            description: migrateTestsTool.description,
+            inputSchema: migrateTestsTool.inputSchema,
+        },
+        async (args: z.infer<typeof MigrateTestsInput>, _extra: unknown) =>
+            await handleMigrateTests(args as any) as any
+    );
+
+    const MigrateMaterialInput = z.object(migrateMaterialTool.inputSchema).strict();
+    server.registerTool(migrateMaterialTool.name,
+        {
+            title: migrateMaterialTool.title,
+            description: migrateMaterialTool.description,
+            inputSchema: migrateMaterialTool.inputSchema,
+        },
+        async (args: z.infer<typeof MigrateMaterialInput>, _extra: unknown) =>
+            await handleMigrateMaterial(args as any) as any
+    );
+
+    const MigrateModuleInput = z.object(migrateModuleTool.inputSchema).strict();
+    server.registerTool(migrateModuleTool.name,
+        {
+            title: migrateModuleTool.title,
+            description: migrateModuleTool.description,
+            inputSchema: migrateModuleTool.inputSchema,
+        },
+        async (args: z.infer<typeof MigrateModuleInput>, _extra: unknown) =>
+            await handleMigrateModule(args as any) as any
+    );
+
+    const MigrateGuardsInterceptorsInput = z.object(migrateGuardsInterceptorsTool.inputSchema).strict();
+    server.registerTool(migrateGuardsInterceptorsTool.name,
+        {
+            title: migrateGuardsInterceptorsTool.title,
+            description: migrateGuardsInterceptorsTool.description,
+            inputSchema: migrateGuardsInterceptorsTool.inputSchema,
+        },
+        async (args: z.infer<typeof MigrateGuardsInterceptorsInput>, _extra: unknown) =>
+            await handleMigrateGuardsInterceptors(args as any) as any
+    );
+
+    const MigrateInjectInput = z.object(migrateInjectTool.inputSchema).strict();
+    server.registerTool(migrateInjectTool.name,
+        {
+            title: migrateInjectTool.title,
+            description: migrateInjectTool.description,
+            inputSchema: migrateInjectTool.inputSchema,
+        },
+        async (args: z.infer<typeof MigrateInjectInput>, _extra: unknown) =>
+            await handleMigrateInject(args as any) as any
+    );
+
     return server;
 }
@@ -1,5 +1,7 @@
 import { z } from "zod";
 import { AnalyzeOptions, analyzeProject } from "./analyze_project.js";
+import { renderAnalysis, ReportFormat, writeReport } from "./analyze_report.js";
+import { saveSnapshot } from "./compare_analysis.js";
 
 // Exported tool metadata + handler (index.ts will import this and register it)
 export const analyzeTool = {
@@ -11,6 +13,14 @@ export const analyzeTool = {
         concurrency: z.number().optional().default(6).describe("Maximum number of concurrent operations (optional, default is 6)"),
         includeDev: z.boolean().optional().default(true).describe("Include development dependencies (optional, default is true)"),
         modulesTop: z.number().optional().default(10).describe("Maximum number of modules to analyze (optional, default is 10)"),
+        targetAngularVersion: z.string().optional().describe("Target Angular version used to classify deprecated/removed APIs, e.g. \"18\" (optional, default is latest)"),
+        advisoryDbPath: z.string().optional().describe("Local advisory database JSON, relative to the project (optional, for offline checks)"),
+        npmAuditPath: z.string().optional().describe("Saved `npm audit --json` output, relative to the project (optional, for offline checks)"),
+        checkAdvisories: z.boolean().optional().default(true).describe("Check dependencies against security advisories (optional, default is true)"),
+        project: z.string().optional().describe("Only analyze this angular.json / project.json project (optional, default is every project)"),
+        format: z.enum(["json", "markdown", "html", "sarif"]).optional().default("json").describe("Report format: json, markdown, self-contained html, or sarif for file/line findings (optional, default is json)"),
+        outputFile: z.string().optional().describe("Also write the report to this file, relative to the project (optional)"),
+        snapshotFile: z.string().optional().describe("Save this run as a baseline snapshot for compare_analysis, relative to the project (optional)"),
     } as z.ZodRawShape
 };
 
@@ -31,10 +41,32 @@ export async function handleAnalyzeProject(request: any) {
         maxPackages: args.maxPackages ?? 150,
         concurrency: args.concurrency ?? 6,
         includeDev: args.includeDev ?? true,
-        modulesTop: args.modulesTop ?? 10
+        modulesTop: args.modulesTop ?? 10,
+        targetAngularVersion: args.targetAngularVersion,
+        advisoryDbPath: args.advisoryDbPath,
+        npmAuditPath: args.npmAuditPath,
+        checkAdvisories: args.checkAdvisories ?? true,
+        project: args.project
     }
 
     const out = await analyzeProject(opts);
+    const format: ReportFormat = args.format ?? "json";
+    const text = renderAnalysis(out, format);
 
-    return { content: [{ type: "text", text: JSON.stringify(out, null, 2) }] };
+    const content = [{ type: "text", text }];
+    if (args.outputFile) {
+        const written = writeReport(projectPath, args.outputFile, text);
+        content.push({ type: "text", text: `Report written to ${written}` });
+    }
+    if (args.snapshotFile) {
+        const written = saveSnapshot(projectPath, args.snapshotFile, out, {
+            project: opts.project,
+            includeDev: opts.includeDev,
+            maxPackages: opts.maxPackages,
+            modulesTop: opts.modulesTop,
+            targetAngularVersion: opts.targetAngularVersion,
+        });
+        content.push({ type: "text", text: `Snapshot saved to ${written}` });
+    }
+    return { content };
 }
\ No newline at end of file
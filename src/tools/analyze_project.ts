@@ -1,9 +1,23 @@
 import fs from "fs";
 import path from "path";
+import ts from "typescript";
 import semver from "semver";
 import { ensureInsideAllowed } from "../utils/fs.js";
-import { getLatestVersion } from "../utils/npm.js";
-import { listFilesByGlob, readTextSafe, approxFolderFileCount } from "../utils/scan.js";
+import { getLatestVersion, getPackument } from "../utils/npm.js";
+import { listFilesByGlob, approxFolderFileCount, SOURCE_GLOBS, IGNORE_GLOBS } from "../utils/scan.js";
+import { isFrameworkPackage, LibraryCompat, peerAcceptsMajor, resolveAngularCompat } from "../utils/compat.js";
+import { DeprecatedApiFinding, LATEST_KNOWN_MAJOR, rulesForTarget, scanDeprecatedApis } from "../utils/deprecated_apis.js";
+import { collectLazyRoutes, findStandaloneDeclarables, LazyRouteRef, NgModuleInfo, readNgModules, resolveRelativeImport } from "../utils/ng_modules.js";
+import { getImportBindings, parseTsFile, walk } from "../utils/ast.js";
+import { EffortReport, estimateEffort } from "../utils/effort.js";
+import { detectTestRunner, readWorkspaceProjects, TestRunner, WorkspaceProject } from "../utils/workspace.js";
+import { Advisory, AdvisoryFinding, AdvisoryTarget, fetchAdvisories, loadAdvisoryFile, matchAdvisories, Severity } from "../utils/advisories.js";
+import { dependentsOf, findDuplicates, LockfileKind, readLockfile } from "../utils/lockfile.js";
+import { analyzeTemplates, TemplateAnalysis } from "../utils/templates.js";
+import { RxjsFinding, scanRxjs } from "../utils/rxjs.js";
+import { getRelease } from "../utils/angular_versions.js";
+import { analyzeStyles, StyleAnalysis } from "../utils/styles.js";
+import { analyzeMaterial, MaterialAnalysis } from "../utils/material.js";
 
 export type AnalyzeOptions = {
   projectPath: string;
@@ -11,6 +25,35 @@ export type AnalyzeOptions = {
   concurrency?: number;   // default 6
   includeDev?: boolean;   // default true
   modulesTop?: number;    // default 10
+  targetAngularVersion?: string; // e.g. "18"; default latest published @angular/core
+  advisoryDbPath?: string;  // local advisory database (bulk map or array), relative to the project
+  npmAuditPath?: string;    // saved `npm audit --json` output, relative to the project
+  checkAdvisories?: boolean; // default true; without a file, asks the registry's bulk advisory endpoint
+  project?: string;         // limit structure, modules and API scans to one angular.json / project.json project
+};
+
+type ModulesOverview = {
+  ngModules: number;
+  lazyModules: number;
+  topModules: Array<NgModuleInfo & { lazy: boolean; files: number }>;
+  graph: Array<{ name: string; path: string; dependsOn: string[]; lazy: boolean; declarations: string[] }>;
+  standaloneDeclarables: string[];   // standalone components / directives / pipes (class names)
+  unresolvedLazyRoutes: LazyRouteRef[];
+  special: { appModule?: string | null; coreModule?: string | null; sharedModule?: string | null };
+};
+
+export type ProjectReport = {
+  name: string;
+  type: WorkspaceProject["projectType"];
+  root: string;
+  sourceRoot: string;
+  config: WorkspaceProject["config"];
+  builder?: string;
+  entryPoint?: string;
+  standalone: boolean;      // applications: bootstrapApplication; libraries: no NgModules
+  appModule: string | null;
+  testRunner: TestRunner;
+  modulesOverview: ModulesOverview;
 };
 
 export type AnalyzeOutput = {
@@ -21,16 +64,48 @@ export type AnalyzeOutput = {
   rxjs: string | "unknown";
   typescript: string | "unknown";
   structure: { apps: number; libs: number; hasStandalone: boolean };
+  projects: ProjectReport[];
   entryPoints: { main?: string; appModule?: string | null };
   testing: { hasKarma: boolean; hasJest: boolean };
-  suggestions: Array<{ name: string; current: string; latest?: string; updateHint?: string; type: "dep" | "devDep" }>;
+  suggestions: Array<{ name: string; current: string; installed?: string; latest?: string; updateHint?: string; type: "dep" | "devDep" }>;
   packagesInfo: { totalDeps: number; totalDevDeps: number; scanned: number; capped: boolean; concurrency: number };
-  modulesOverview: {
-    ngModules: number;
-    lazyModules: number;
-    topModules: Array<{ name: string; path: string; lazy: boolean; files: number }>;
-    special: { appModule?: string | null; coreModule?: string | null; sharedModule?: string | null };
+  modulesOverview: ModulesOverview;
+  compatibility: { targetMajor: number; libraries: LibraryCompat[]; blockers: string[] };
+  installed: {
+    lockfile: { kind: LockfileKind; file: string } | null;
+    packages: number;                  // installed packages, transitive included
+    direct: Array<{ name: string; declared: string; installed?: string }>;
+    duplicates: Array<{ name: string; versions: string[] }>;   // Angular / rxjs copies
+    oldAngularPeers: Array<{ name: string; version: string; direct: boolean; peer: string; range: string; requiredBy: string[] }>;
+    notes: string[];
+  };
+  advisories: {
+    source: "advisoryDb" | "npmAudit" | "npmAudit+advisoryDb" | "registry" | "none";
+    checked: number;
+    vulnerable: number;
+    bySeverity: Partial<Record<Severity, number>>;
+    crossingUpgrade: number;
+    findings: AdvisoryFinding[];
+    notes: string[];
+  };
+  deprecatedApis: {
+    targetMajor: number;
+    rulesChecked: number;
+    removed: number;
+    deprecated: number;
+    findings: DeprecatedApiFinding[];
+  };
+  templates: TemplateAnalysis;
+  rxjsPatterns: {
+    targetMajor: number;     // rxjs major pinned by the target Angular release
+    removed: number;
+    deprecated: number;
+    fixable: number;         // rewritable by migrate_rxjs
+    findings: RxjsFinding[];
   };
+  styles: StyleAnalysis;
+  material?: MaterialAnalysis;   // when @angular/material or @angular/cdk is a dependency
+  effort: EffortReport;
   recommendations: string[];
 };
 
@@ -60,8 +135,92 @@ async function mapLimit<T, R>(items: T[], limit: number, task: (it: T) => Promis
   });
 }
 
+// NgModule passed to platformBrowserDynamic().bootstrapModule(X) in main.ts
+function findBootstrapModule(mainAbs: string): string | undefined {
+  const sf = parseTsFile(mainAbs);
+  const bindings = getImportBindings(sf);
+  let found: string | undefined;
+  walk(sf, n => {
+    if (found || !ts.isCallExpression(n) || !ts.isPropertyAccessExpression(n.expression)) return;
+    if (n.expression.name.text !== "bootstrapModule" || !n.arguments.length || !ts.isIdentifier(n.arguments[0])) return;
+    const from = bindings.get(n.arguments[0].text)?.from;
+    found = from ? resolveRelativeImport(mainAbs, from) : undefined;
+  });
+  return found;
+}
+
+// Module globs: fixed CLI/Nx locations, or the given source roots
+function moduleGlobs(scopes: string[] | null) {
+  if (!scopes) {
+    return {
+      modules: [
+        "src/app/**/*.module.ts",
+        "apps/**/src/app/**/*.module.ts",
+        "libs/**/src/**/*.module.ts"
+      ],
+      routing: [
+        "src/app/**/*-routing.module.ts",
+        "apps/**/src/app/**/*-routing.module.ts",
+        "src/app/**/app-routing.module.ts",
+        "apps/**/src/app/**/app-routing.module.ts",
+        "libs/**/src/**/*-routing.module.ts",
+        "src/app/**/*.routes.ts",
+        "apps/**/src/app/**/*.routes.ts",
+        "libs/**/src/**/*.routes.ts"
+      ]
+    };
+  }
+  const prefix = (s: string) => s ? `${s}/` : "";
+  return {
+    modules: scopes.map(s => `${prefix(s)}**/*.module.ts`),
+    routing: scopes.flatMap(s => [`${prefix(s)}**/*-routing.module.ts`, `${prefix(s)}**/*.routes.ts`])
+  };
+}
+
+async function buildModulesOverview(abs: string, scopes: string[] | null, modulesTop: number, appModuleRel: string | null, defaultStandalone: boolean): Promise<ModulesOverview> {
+  const globs = moduleGlobs(scopes);
+  const sourceFiles = await listFilesByGlob(abs, scopes ? scopes.map(r => r ? `${r}/**/*.ts` : "**/*.ts") : SOURCE_GLOBS, IGNORE_GLOBS);
+  const moduleFilesAll = await listFilesByGlob(abs, globs.modules, IGNORE_GLOBS);
+  const routingFiles = await listFilesByGlob(abs, globs.routing, IGNORE_GLOBS);
+
+  // Parse @NgModule metadata (a file may hold several classes; only decorated ones count)
+  const ngModules = readNgModules(abs, moduleFilesAll);
+
+  // loadChildren references from routing files and modules with inline RouterModule.forRoot/forChild
+  const lazyRefs = collectLazyRoutes(abs, [...new Set([...routingFiles, ...moduleFilesAll])]);
+
+  const isLazyModule = (m: NgModuleInfo) => lazyRefs.some(r => {
+    if (r.resolved) return r.resolved === m.path && (!r.className || r.className === m.name);
+    return r.className === m.name;
+  });
+
+  // Build list for reporting (sorted by approximate size desc)
+  const mods = ngModules
+    .map(m => ({ ...m, lazy: isLazyModule(m), files: approxFolderFileCount(path.dirname(path.join(abs, m.path))) }))
+    .sort((a, b) => b.files - a.files);
+
+  const moduleFiles = [...new Set(ngModules.map(m => m.path))];
+
+  // Special modules (search within *filtered* module list)
+  const special = {
+    appModule: appModuleRel,
+    coreModule: moduleFiles.find(p => /(^|\/)core\.module\.ts$/i.test(p)) || null,
+    sharedModule: moduleFiles.find(p => /(^|\/)shared\.module\.ts$/i.test(p)) || null
+  };
+
+  return {
+    ngModules: ngModules.length,                       // exact count of @NgModule classes
+    lazyModules: mods.filter(m => m.lazy).length,      // targets of loadChildren
+    topModules: mods.slice(0, Math.max(1, Math.min(50, modulesTop))),
+    graph: mods.map(m => ({ name: m.name, path: m.path, dependsOn: m.dependsOn, lazy: m.lazy, declarations: m.declarations })),
+    standaloneDeclarables: findStandaloneDeclarables(abs, sourceFiles, defaultStandalone),
+    unresolvedLazyRoutes: lazyRefs.filter(r => !r.resolved && !ngModules.some(m => m.name === r.className)),
+    special
+  };
+}
+
 export async function analyzeProject(opts: AnalyzeOptions): Promise<AnalyzeOutput> {
-  const { projectPath, maxPackages = 150, concurrency = 6, includeDev = true, modulesTop = 10 } = opts;
+  const { projectPath, maxPackages = 150, concurrency = 6, includeDev = true, modulesTop = 10, targetAngularVersion, checkAdvisories = true } = opts;
   const abs = ensureInsideAllowed(projectPath);
 
   //#region Basic package info
@@ -77,31 +236,52 @@ export async function analyzeProject(opts: AnalyzeOptions): Promise<AnalyzeOutpu
   const rxjs = deps["rxjs"] ?? devDeps["rxjs"] ?? "unknown";
   const typescript = devDeps["typescript"] ?? deps["typescript"] ?? "unknown";
 
+  // Versions actually installed, when a lockfile is present
+  const lock = readLockfile(abs);
+
   const isNx = !!deps["nx"] || !!devDeps["nx"] || fs.existsSync(path.join(abs, "nx.json"));
   const workspace: AnalyzeOutput["workspace"] = isNx ? "nx" : (fs.existsSync(path.join(abs, "angular.json")) ? "angular-cli" : "unknown");
 
+  // Angular major the compatibility and deprecation checks are keyed to
+  const targetMajor =
+    semver.coerce(targetAngularVersion)?.major ??
+    semver.coerce(await getLatestVersion("@angular/core"))?.major ??
+    LATEST_KNOWN_MAJOR;
+
+  //#endregion
+
+  //#region Workspace projects (angular.json / workspace.json / project.json)
+
+  const workspaceProjects = await readWorkspaceProjects(abs);
+  if (opts.project && !workspaceProjects.some(p => p.name === opts.project)) {
+    throw new Error(`Project "${opts.project}" not found; available: ${workspaceProjects.map(p => p.name).join(", ") || "none"}`);
+  }
+  const selected = opts.project ? workspaceProjects.filter(p => p.name === opts.project) : workspaceProjects;
+  const scopes = selected.length ? selected.map(p => p.sourceRoot) : null;
+
   //#endregion
 
   //#region Structure
 
-  const appsDir = path.join(abs, "apps");
-  const libsDir = path.join(abs, "libs");
-  const srcApp = path.join(abs, "src", "app");
-  const apps = fs.existsSync(appsDir) ? fs.readdirSync(appsDir).filter(d => !d.startsWith(".")).length : (fs.existsSync(srcApp) ? 1 : 0);
-  const libs = fs.existsSync(libsDir) ? fs.readdirSync(libsDir).filter(d => !d.startsWith(".")).length : 0;
+  let apps: number;
+  let libs: number;
+  if (workspaceProjects.length) {
+    apps = selected.filter(p => p.projectType === "application").length;
+    libs = selected.filter(p => p.projectType === "library").length;
+  } else {
+    const appsDir = path.join(abs, "apps");
+    const libsDir = path.join(abs, "libs");
+    const srcApp = path.join(abs, "src", "app");
+    apps = fs.existsSync(appsDir) ? fs.readdirSync(appsDir).filter(d => !d.startsWith(".")).length : (fs.existsSync(srcApp) ? 1 : 0);
+    libs = fs.existsSync(libsDir) ? fs.readdirSync(libsDir).filter(d => !d.startsWith(".")).length : 0;
+  }
 
   //#endregion
 
   //#region Entry points
 
-  const angularJson = safeReadJson<any>(path.join(abs, "angular.json"));
-  let mainRel: string | undefined;
-  if (angularJson?.projects) {
-    const values = Object.values<any>(angularJson.projects);
-    const firstApp = values.find((p: any) => p?.projectType === "application") || values[0];
-    mainRel = firstApp?.architect?.build?.options?.main || firstApp?.targets?.build?.options?.main;
-  }
-  const mainPath = mainRel ? path.join(abs, mainRel) : findFirstFile(abs, ["src/main.ts", "apps/app/src/main.ts", "apps/web/src/main.ts"]);
+  const firstApp = selected.find(p => p.projectType === "application" && p.main) ?? selected.find(p => p.main);
+  const mainPath = firstApp?.main ? path.join(abs, firstApp.main) : findFirstFile(abs, ["src/main.ts", "apps/app/src/main.ts", "apps/web/src/main.ts"]);
 
   //#endregion
 
@@ -112,8 +292,9 @@ export async function analyzeProject(opts: AnalyzeOptions): Promise<AnalyzeOutpu
   if (mainPath && fs.existsSync(mainPath)) {
     const mainSrc = fs.readFileSync(mainPath, "utf-8");
     hasStandalone = /bootstrapApplication\s*\(/.test(mainSrc);
+    appModulePath = findBootstrapModule(mainPath) ?? null;
   }
-  appModulePath = findFirstFile(abs, ["src/app/app.module.ts", "apps/app/src/app/app.module.ts"]) ?? null;
+  appModulePath ??= findFirstFile(abs, ["src/app/app.module.ts", "apps/app/src/app/app.module.ts"]) ?? null;
 
   //#endregion
 
@@ -135,10 +316,13 @@ export async function analyzeProject(opts: AnalyzeOptions): Promise<AnalyzeOutpu
 
   const suggestions = await mapLimit(scanList, concurrency, async ({ name, current, type }) => {
     const latest = await getLatestVersion(name);
+    const installed = lock?.direct[name];
     let updateHint: string | undefined;
     if (latest) {
       try {
-        if (current && semver.validRange(current)) {
+        if (installed && semver.valid(installed)) {
+          if (semver.lt(installed, latest)) updateHint = `update to ${name}@${latest}`;
+        } else if (current && semver.validRange(current)) {
           const min = semver.minVersion(current);
           if (min && semver.lt(min, latest)) updateHint = `update to ${name}@${latest}`;
         } else if (!current) {
@@ -146,145 +330,244 @@ export async function analyzeProject(opts: AnalyzeOptions): Promise<AnalyzeOutpu
         }
       } catch { }
     }
-    return { name, current, latest, updateHint, type };
+    return { name, current, installed, latest, updateHint, type };
   });
 
   //#endregion
 
-  //#region Modules overview (app-only scope)
-
-  // Normalize to forward slashes, strip leading "./" and ".ts"
-  const normNoExt = (p: string) => p.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\.ts$/i, "");
+  //#region Third-party compatibility with the target Angular major
 
-  // Read the real exported class name from a module file
-  const readModuleClassName = (fullPath: string): string | undefined => {
-    const txt = readTextSafe(fullPath);
-    const m = /export\s+class\s+(\w+)\b/.exec(txt);
-    return m?.[1];
+  const libraries = await mapLimit(scanList.filter(d => !isFrameworkPackage(d.name)), concurrency,
+    ({ name, current }) => resolveAngularCompat(name, targetMajor, current));
+  const compatibility = {
+    targetMajor,
+    libraries: libraries.filter(l => l.status !== "unconstrained"),
+    blockers: libraries.filter(l => l.status === "blocked").map(l => l.name)
   };
 
-  // Check file really defines an NgModule (not just named *.module.ts)
-  const isRealNgModuleFile = (fullPath: string): boolean => {
-    const txt = readTextSafe(fullPath);
-    const hasDecorator = /@NgModule\s*\(/.test(txt);
-    const hasExportedClass = /export\s+class\s+\w+\b/.test(txt);
-    return hasDecorator && hasExportedClass;
-  };
+  //#endregion
+
+  //#region Installed versions (lockfile): duplicates and old Angular peers
+
+  const installedNotes: string[] = [];
+  if (!lock) installedNotes.push("No readable lockfile (package-lock.json, yarn.lock or pnpm-lock.yaml); versions are declared ranges only");
+  if (lock?.others.length) installedNotes.push(`Several lockfiles present; used ${lock.file}, ignored ${lock.others.join(", ")}`);
+
+  const direct = allDeps.map(d => ({ name: d.name, declared: d.current, installed: lock?.direct[d.name] }));
+  if (lock) {
+    const missing = direct.filter(d => !d.installed).map(d => d.name);
+    if (missing.length) installedNotes.push(`Not found in ${lock.file} (lockfile out of sync?): ${missing.join(", ")}`);
+  }
+
+  const duplicates = lock ? findDuplicates(lock, n => n.startsWith("@angular/") || n === "rxjs" || n === "zone.js") : [];
 
-  // Fallback: convert kebab to PascalCase + 'Module'
-  const kebabToPascal = (s: string) =>
-    s
-      .split(/[^a-zA-Z0-9]/)
-      .filter(Boolean)
-      .map(w => (w[0] ? w[0].toUpperCase() + w.slice(1) : w))
-      .join("");
-
-  const inferClassFromFile = (relPath: string): string => {
-    // e.g. "src/app/modules/raw-materials/raw-materials.module.ts"
-    const base = path.basename(relPath).replace(/\.module\.ts$/i, "");
-    return `${kebabToPascal(base)}Module`;
+  // Packages whose @angular/* peers exclude the target major; lockfiles without peers fall back to the registry
+  const oldAngularPeers: AnalyzeOutput["installed"]["oldAngularPeers"] = [];
+  if (lock) {
+    const candidates = lock.packages.filter(p => !isFrameworkPackage(p.name));
+    let checked = candidates;
+    if (!lock.recordsPeers) {
+      checked = candidates.slice(0, maxPackages);
+      if (candidates.length > checked.length) installedNotes.push(`${lock.file} has no peer data; looked up ${checked.length} of ${candidates.length} packages in the registry`);
+    }
+    const peersOf = await mapLimit(checked, concurrency, async p =>
+      lock.recordsPeers ? p.peerDependencies ?? {} : (await getPackument(p.name))?.versions[p.version]?.peerDependencies ?? {});
+    checked.forEach((p, i) => {
+      const hit = Object.entries(peersOf[i]).find(([peer, range]) =>
+        peer.startsWith("@angular/") && isFrameworkPackage(peer) && semver.validRange(range) && !peerAcceptsMajor(range, targetMajor));
+      if (!hit) return;
+      oldAngularPeers.push({
+        name: p.name,
+        version: p.version,
+        direct: lock.direct[p.name] === p.version,
+        peer: hit[0],
+        range: hit[1],
+        requiredBy: dependentsOf(lock, p.name).slice(0, 5),
+      });
+    });
+  }
+
+  const installed = {
+    lockfile: lock ? { kind: lock.kind, file: lock.file } : null,
+    packages: lock?.packages.length ?? 0,
+    direct,
+    duplicates,
+    oldAngularPeers,
+    notes: installedNotes
   };
 
+  //#endregion
 
-  // -----------------------------
-  // Collect lazy-load hints from routing (import path + className)
-  // -----------------------------
-  type LazyHint = { importPath: string; className: string };
-  const lazyHints: LazyHint[] = [];
+  //#region Security advisories (declared ranges + locked versions)
 
-  // Dynamic import: import('...').then(mod => mod.SomeModule) — any variable name/spacing
-  const dynRe =
-    /loadChildren\s*:\s*\(\s*\)\s*=>\s*import\(['"]([^'"]+)['"]\)\.then\(\s*\(?\s*\w+\s*\)?\s*=>\s*\w+\.(\w+)\s*\)/g;
+  const advisoryNotes: string[] = [];
+  if (!lock) advisoryNotes.push("No lockfile; only the lowest version of each declared range was checked");
 
-  // Legacy string syntax: 'path#SomeModule'
-  const legacyRe = /loadChildren\s*:\s*['"]([^#'"]+)#(\w+)['"]/g;
+  const declaredNames = new Set(allDeps.map(d => d.name));
+  const targets: AdvisoryTarget[] = [];
+  const targetKeys = new Set<string>();
+  const addTarget = (t: AdvisoryTarget) => {
+    if (targetKeys.has(`${t.name}@${t.version}`)) return;
+    targetKeys.add(`${t.name}@${t.version}`);
+    targets.push(t);
+  };
+  for (const p of lock?.packages ?? []) addTarget({ name: p.name, version: p.version, source: "locked", direct: declaredNames.has(p.name) });
+  for (const d of allDeps) {
+    if (lock?.direct[d.name]) continue;
+    const floor = semver.validRange(d.current) ? semver.minVersion(d.current)?.version : undefined;
+    if (floor) addTarget({ name: d.name, version: floor, source: "declared", direct: true });
+  }
 
-  const MODULE_GLOBS = [
-    "src/app/**/*.module.ts",
-    "apps/**/src/app/**/*.module.ts",
-    "libs/**/src/**/*.module.ts"
-  ];
+  let advisorySource: AnalyzeOutput["advisories"]["source"] = "none";
+  let advisoryMap: Map<string, Advisory[]> | null = null;
+  if (checkAdvisories) {
+    const files = ([["npmAudit", opts.npmAuditPath], ["advisoryDb", opts.advisoryDbPath]] as const).filter(([, f]) => f);
+    if (files.length) {
+      // Both files given: one map, an advisory listed in both counted once
+      const loaded: string[] = [];
+      for (const [kind, file] of files) {
+        try {
+          const map = loadAdvisoryFile(ensureInsideAllowed(path.resolve(abs, file!)));
+          advisoryMap ??= new Map();
+          for (const [name, list] of map) {
+            const known = advisoryMap.get(name) ?? [];
+            const keys = new Set(known.map(a => a.url ?? a.id));
+            advisoryMap.set(name, [...known, ...list.filter(a => !keys.has(a.url ?? a.id))]);
+          }
+          loaded.push(kind);
+        } catch (e: any) {
+          advisoryNotes.push(`Could not read advisories from ${file}: ${e?.message ?? e}`);
+        }
+      }
+      if (loaded.length) advisorySource = loaded.join("+") as typeof advisorySource;
+      if (loaded.length > 1) advisoryNotes.push(`Advisories merged from ${opts.npmAuditPath} and ${opts.advisoryDbPath}`);
+    } else {
+      const query: Record<string, string[]> = {};
+      for (const t of targets) (query[t.name] ??= []).push(t.version);
+      advisoryMap = await fetchAdvisories(query);
+      if (advisoryMap) advisorySource = "registry";
+      else advisoryNotes.push("Advisory lookup unavailable (offline registry or no response); pass advisoryDbPath or npmAuditPath");
+    }
+  }
 
-  const ROUTING_GLOBS = [
-    "src/app/**/*-routing.module.ts",
-    "apps/**/src/app/**/*-routing.module.ts",
-    "src/app/**/app-routing.module.ts",
-    "apps/**/src/app/**/app-routing.module.ts",
-    "libs/**/src/**/*-routing.module.ts"
-  ];
+  const installedCore = lock?.direct["@angular/core"];
+  const currentMajor = installedCore && semver.valid(installedCore) ? semver.major(installedCore)
+    : angularCore !== "unknown" && semver.validRange(angularCore) ? semver.minVersion(angularCore)?.major ?? null : null;
+  const advisoryFindings = advisoryMap ? await matchAdvisories(advisoryMap, targets, { currentMajor, targetMajor }) : [];
+  const bySeverity: Partial<Record<Severity, number>> = {};
+  for (const f of advisoryFindings) bySeverity[f.severity] = (bySeverity[f.severity] ?? 0) + 1;
+  const advisories = {
+    source: advisorySource,
+    checked: advisoryMap ? targets.length : 0,
+    vulnerable: new Set(advisoryFindings.map(f => f.package)).size,
+    bySeverity,
+    crossingUpgrade: advisoryFindings.filter(f => f.crossesAngularUpgrade).length,
+    findings: advisoryFindings,
+    notes: advisoryNotes
+  };
 
-  const IGNORE_GLOBS = [
-    "**/node_modules/**",
-    "**/dist/**",
-    "**/.angular/**",
-    "**/.git/**"
-  ];
+  //#endregion
 
-  const moduleFilesAll = await listFilesByGlob(abs, MODULE_GLOBS, IGNORE_GLOBS);
-  const routingFiles = await listFilesByGlob(abs, ROUTING_GLOBS, IGNORE_GLOBS);
+  //#region Modules overview (app-only scope without workspace config, else the selected projects)
 
+  const toRel = (p: string | null | undefined) => p ? path.relative(abs, p).replace(/\\/g, "/") : null;
+  const defaultStandalone = (currentMajor ?? 0) >= 19;
+  const modulesOverview = await buildModulesOverview(abs, scopes, modulesTop, toRel(appModulePath), defaultStandalone);
+
+  //#endregion
 
-  for (const rel of routingFiles) {
-    const src = readTextSafe(path.join(abs, rel));
-    let m: RegExpExecArray | null;
-    while ((m = dynRe.exec(src))) lazyHints.push({ importPath: m[1], className: m[2] });
-    while ((m = legacyRe.exec(src))) lazyHints.push({ importPath: m[1], className: m[2] });
+  //#region Per-project reports
+
+  const projects: ProjectReport[] = [];
+  for (const p of selected) {
+    const mainAbs = p.main ? path.join(abs, p.main) : undefined;
+    const mainSrc = mainAbs && fs.existsSync(mainAbs) ? fs.readFileSync(mainAbs, "utf-8") : "";
+    const appModule = mainSrc ? toRel(findBootstrapModule(mainAbs!)) : null;
+    const overview = await buildModulesOverview(abs, [p.sourceRoot], modulesTop, appModule, defaultStandalone);
+    projects.push({
+      name: p.name,
+      type: p.projectType,
+      root: p.root,
+      sourceRoot: p.sourceRoot,
+      config: p.config,
+      builder: p.buildBuilder,
+      entryPoint: p.main,
+      standalone: p.projectType === "library" ? overview.ngModules === 0 : /bootstrapApplication\s*\(/.test(mainSrc),
+      appModule,
+      testRunner: detectTestRunner(abs, p),
+      modulesOverview: overview
+    });
   }
 
+  //#endregion
 
-  // -----------------------------
-  // Filter to *real* NgModules, then build module list with lazy + size
-  // -----------------------------
+  //#region Deprecated / removed Angular APIs (relative to the target major)
 
-  // Only real NgModules (have @NgModule + exported class)
-  const moduleFiles = moduleFilesAll.filter(rel => {
-    const full = path.join(abs, rel);
-    return isRealNgModuleFile(full);
-  });
+  const sourceFiles = await listFilesByGlob(abs, opts.project && scopes ? scopes.map(r => r ? `${r}/**/*.ts` : "**/*.ts") : SOURCE_GLOBS, IGNORE_GLOBS);
+  const deprecatedFindings = scanDeprecatedApis(abs, sourceFiles, targetMajor);
+  const deprecatedApis = {
+    targetMajor,
+    rulesChecked: rulesForTarget(targetMajor).length,
+    removed: deprecatedFindings.filter(f => f.status === "removed").length,
+    deprecated: deprecatedFindings.filter(f => f.status === "deprecated").length,
+    findings: deprecatedFindings
+  };
 
-  // Build list for reporting (sorted by approximate size desc)
-  const mods = moduleFiles
-    .map(rel => {
-      const full = path.join(abs, rel);
-      const folder = path.dirname(full);
-
-      // Prefer reading the class name from the file, fallback to filename inference
-      const classNameFromFile = readModuleClassName(full) || inferClassFromFile(rel);
-
-      // Match against routing hints by class name OR import path containment
-      const relNoExt = normNoExt(rel);
-      const isLazy = lazyHints.some(h => {
-        const hintClass = h.className;
-        const hintImport = normNoExt(h.importPath);
-
-        // Case-insensitive match on Windows
-        const a = process.platform === "win32" ? classNameFromFile.toLowerCase() : classNameFromFile;
-        const b = process.platform === "win32" ? hintClass.toLowerCase() : hintClass;
-
-        const classMatch = a === b;
-        const pathMatch = relNoExt.endsWith(hintImport) || relNoExt.includes("/" + hintImport);
-        return classMatch || pathMatch;
-      });
+  //#endregion
 
-      const files = approxFolderFileCount(folder);
-      return { name: classNameFromFile, path: rel, lazy: isLazy, files };
-    })
-    .sort((a, b) => b.files - a.files);
+  //#region RxJS 5/6 patterns (relative to the rxjs major of the target release)
 
-  // Special modules (search within *filtered* module list)
-  const special = {
-    appModule: appModulePath ? path.relative(abs, appModulePath) : null,
-    coreModule: moduleFiles.find(p => /(^|\/)core\.module\.ts$/i.test(p)) || null,
-    sharedModule: moduleFiles.find(p => /(^|\/)shared\.module\.ts$/i.test(p)) || null
+  const targetRxjsMajor = semver.coerce(getRelease(targetMajor)?.rxjs.pin)?.major ?? 7;
+  const rxjsFindings = scanRxjs(abs, sourceFiles, targetRxjsMajor);
+  const rxjsPatterns = {
+    targetMajor: targetRxjsMajor,
+    removed: rxjsFindings.filter(f => f.status === "removed").length,
+    deprecated: rxjsFindings.filter(f => f.status === "deprecated").length,
+    fixable: rxjsFindings.filter(f => f.fixable).length,
+    findings: rxjsFindings
   };
 
-  // Final overview
-  const modulesOverview = {
-    ngModules: moduleFiles.length,                     // exact count of real NgModules
-    lazyModules: mods.filter(m => m.lazy).length,      // matched via routing hints
-    topModules: mods.slice(0, Math.max(1, Math.min(50, modulesTop))),
-    special
-  } as AnalyzeOutput["modulesOverview"];
+  //#endregion
+
+  //#region Templates (structural directives, pipes, elements, control-flow readiness)
+
+  const templateFiles = await listFilesByGlob(abs, (opts.project && scopes ? scopes.map(r => r ? `${r}/**/*.ts` : "**/*.ts") : SOURCE_GLOBS).map(g => g.replace(/\.ts$/, ".html")), IGNORE_GLOBS);
+  const templates = analyzeTemplates(abs, sourceFiles, templateFiles);
+
+  //#endregion
+
+  //#region Stylesheets (/deep/, ~ imports, @import, Dart Sass, Material theming, url() assets)
+
+  const styleGlobs = (opts.project && scopes ? scopes.map(r => r ? `${r}/**/*.ts` : "**/*.ts") : SOURCE_GLOBS)
+    .flatMap(g => ["css", "scss", "sass", "less"].map(ext => g.replace(/\.ts$/, `.${ext}`)));
+  const styleFiles = await listFilesByGlob(abs, styleGlobs, IGNORE_GLOBS);
+  const styles = analyzeStyles(abs, styleFiles, targetMajor);
+
+  //#endregion
+
+  //#region Angular Material / CDK (legacy imports, MDC switch, class overrides, theming)
+
+  const material = deps["@angular/material"] || deps["@angular/cdk"] || devDeps["@angular/material"] || devDeps["@angular/cdk"]
+    ? analyzeMaterial(abs, sourceFiles, templateFiles, styleFiles, targetMajor)
+    : undefined;
+
+  //#endregion
+
+  //#region Effort scoring
+
+  const runners = projects.filter(p => p.type === "application").map(p => p.testRunner);
+  const testRunner: TestRunner = runners.find(r => r !== "none") ?? (hasJest ? "jest" : hasKarma ? "karma" : "none");
+  const effort = estimateEffort({
+    abs,
+    modules: modulesOverview.graph,
+    files: [...sourceFiles, ...templateFiles],
+    deprecated: deprecatedFindings,
+    currentMajor,
+    targetMajor,
+    testRunner,
+    libraries,
+    oldAngularPeers: oldAngularPeers.length
+  });
 
   //#endregion
 
@@ -295,6 +578,51 @@ export async function analyzeProject(opts: AnalyzeOptions): Promise<AnalyzeOutpu
   if (rxjs !== "unknown" && isRange(rxjs) && semver.intersects(rxjs, "<7")) rec.push("Consider upgrading rxjs to ^7 during migration");
   if (angularCli !== "unknown" && isRange(angularCli) && semver.intersects(angularCli, "<15")) rec.push("Create a fresh workspace and migrate features incrementally");
   if (!hasStandalone) rec.push("If upgrading to Angular 15+, consider moving to standalone bootstrap gradually");
+  if (compatibility.blockers.length) rec.push(`No release of ${compatibility.blockers.join(", ")} supports Angular ${targetMajor}; replace or fork before upgrading`);
+  const severe = advisoryFindings.filter(f => f.severity === "high" || f.severity === "critical");
+  if (severe.length) rec.push(`Fix ${severe.length} high/critical advisory finding(s) in ${[...new Set(severe.map(f => f.package))].join(", ")}`);
+  if (advisories.crossingUpgrade) {
+    const pkgs = [...new Set(advisoryFindings.filter(f => f.crossesAngularUpgrade).map(f => f.package))];
+    rec.push(`Security fixes for ${pkgs.join(", ")} need a newer Angular major; schedule them with the upgrade`);
+  }
+  if (duplicates.length) rec.push(`Deduplicate ${duplicates.map(d => `${d.name} (${d.versions.join(", ")})`).join("; ")} before upgrading`);
+  if (oldAngularPeers.length) {
+    rec.push(`${oldAngularPeers.length} installed package(s) have @angular peers that exclude Angular ${targetMajor} (${[...new Set(oldAngularPeers.map(p => p.name))].slice(0, 8).join(", ")}); update or drop them or npm install will fail`);
+  }
+  if (effort.recommendation === "fresh-workspace") rec.push(`Effort: a fresh workspace is cheaper than upgrading in place (${effort.freshWorkspacePoints} vs ${effort.inPlacePoints} points)`);
+  if (deprecatedApis.removed) {
+    const ids = [...new Set(deprecatedFindings.filter(f => f.status === "removed").map(f => f.ruleId))];
+    rec.push(`Replace ${deprecatedApis.removed} usage(s) of APIs removed by Angular ${targetMajor} (${ids.join(", ")}) before upgrading`);
+  }
+  if (rxjsFindings.length) {
+    const ids = [...new Set(rxjsFindings.map(f => f.ruleId))];
+    rec.push(`RxJS: ${rxjsFindings.length} pattern(s) removed or deprecated by rxjs ${targetRxjsMajor} (${ids.join(", ")}); ${rxjsPatterns.fixable} can be rewritten with migrate_rxjs`);
+  }
+  const styleIssues = styles.findings.filter(f => f.ruleId !== "asset-url");
+  if (styleIssues.length) {
+    const ids = [...new Set(styleIssues.map(f => f.ruleId))];
+    rec.push(`Styles: ${styleIssues.length} outdated pattern(s) in stylesheets (${ids.join(", ")}); ${styles.fixable} are rewritten when copying with rewriteStyles`);
+  }
+  if (styles.missingUrls) rec.push(`Styles: ${styles.missingUrls} url() reference(s) point to files that do not exist; fix them before moving to the esbuild builder`);
+  if (material) {
+    const pending = material.components.filter(c => c.status !== "ok");
+    const overrides = material.components.reduce((n, c) => n + c.classOverrides.length, 0);
+    if (pending.length) rec.push(`Material: ${pending.length} component(s) move to the MDC implementation or off legacy imports (${pending.map(c => c.component).join(", ")}); see migrate_material for the per-component report`);
+    if (overrides) rec.push(`Material: ${overrides} style override(s) target pre-MDC class names and stop matching after the switch`);
+    if (material.fixableImports) rec.push(`Material: ${material.fixableImports} legacy or barrel import(s) can be moved to the component entry points with migrate_material rewriteImports`);
+    rec.push(...material.versionIssues.map(v => `Material: ${v}`));
+  }
+  const karmaProjects = projects.filter(p => p.testRunner === "karma").length;
+  if (karmaProjects || (!projects.length && hasKarma)) {
+    rec.push(`Testing: Karma is deprecated; move ${karmaProjects || 1} project(s) to Jest or Vitest with migrate_tests`);
+  }
+  const cf = templates.controlFlow;
+  const literals = cf.issues.filter(i => i.rule === "unescaped-at" || i.rule === "unescaped-brace").length;
+  if (targetMajor >= 17 && literals) rec.push(`Escape ${literals} literal @, { or } in template text (&#64;, &#123;, &#125;); they stop compiling from Angular 17`);
+  if (targetMajor >= 17 && cf.legacyTemplates) {
+    const blockers = cf.issues.filter(i => i.severity === "blocker").length;
+    rec.push(`Control flow: ${cf.ready} of ${cf.legacyTemplates} template(s) can go through \`ng generate @angular/core:control-flow\`${blockers ? `; fix ${blockers} blocking issue(s) first` : ""}`);
+  }
 
   //#endregion
 
@@ -306,11 +634,21 @@ export async function analyzeProject(opts: AnalyzeOptions): Promise<AnalyzeOutpu
     rxjs,
     typescript,
     structure: { apps, libs, hasStandalone },
+    projects,
     entryPoints: { main: mainPath ? path.relative(abs, mainPath) : undefined, appModule: appModulePath ? path.relative(abs, appModulePath) : null },
     testing: { hasKarma, hasJest },
     modulesOverview,
     packagesInfo: { totalDeps: Object.keys(deps).length, totalDevDeps: Object.keys(devDeps).length, scanned: suggestions.length, capped, concurrency },
     suggestions,
+    compatibility,
+    installed,
+    advisories,
+    deprecatedApis,
+    templates,
+    rxjsPatterns,
+    styles,
+    material,
+    effort,
     recommendations: rec.length ? rec : ["Run incremental copy + verify after each step"]
   };
 }
\ No newline at end of file
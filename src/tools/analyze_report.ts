@@ -0,0 +1,385 @@
+import fs from "fs";
+import path from "path";
+import { ensureInsideAllowed } from "../utils/fs.js";
+import { DEPRECATED_API_RULES } from "../utils/deprecated_apis.js";
+import { STYLE_RULES } from "../utils/styles.js";
+import { AnalyzeOutput } from "./analyze_project.js";
+
+export type ReportFormat = "json" | "markdown" | "html" | "sarif";
+
+type Table = { headers: string[]; rows: Array<Array<string | number | undefined>> };
+type Section = { title: string; paragraphs?: string[]; list?: string[]; table?: Table };
+
+const TOOL_NAME = "mcp-angular-migrator";
+
+//#region Section model (shared by Markdown and HTML)
+
+function buildSections(out: AnalyzeOutput): Section[] {
+  const sections: Section[] = [];
+
+  sections.push({
+    title: "Summary",
+    table: {
+      headers: ["Item", "Value"],
+      rows: [
+        ["Workspace", out.workspace],
+        ["@angular/core", out.angularCore],
+        ["@angular/cli", out.angularCli],
+        ["rxjs", out.rxjs],
+        ["typescript", out.typescript],
+        ["Target Angular major", out.compatibility.targetMajor],
+        ["Apps / libs", `${out.structure.apps} / ${out.structure.libs}`],
+        ["Standalone bootstrap", out.structure.hasStandalone ? "yes" : "no"],
+        ["NgModules (lazy)", `${out.modulesOverview.ngModules} (${out.modulesOverview.lazyModules})`],
+        ["Effort", `${out.effort.level} (score ${out.effort.score}, ~${out.effort.points} points, ${out.effort.recommendation})`],
+      ],
+    },
+  });
+
+  sections.push({ title: "Recommendations", list: out.recommendations });
+
+  if (out.projects.length) {
+    sections.push({
+      title: "Projects",
+      table: {
+        headers: ["Name", "Type", "Root", "Builder", "Standalone", "NgModules", "Tests"],
+        rows: out.projects.map(p => [p.name, p.type, p.root || ".", p.builder, p.standalone ? "yes" : "no", p.modulesOverview.ngModules, p.testRunner]),
+      },
+    });
+  }
+
+  sections.push({
+    title: "Effort",
+    paragraphs: [
+      `In place: ${out.effort.inPlacePoints} points. Fresh workspace: ${out.effort.freshWorkspacePoints} points.`,
+      out.effort.rationale,
+    ],
+    table: {
+      headers: ["Factor", "Count", "Points"],
+      rows: out.effort.factors.map(f => [f.label, f.count, f.points]),
+    },
+  });
+
+  if (out.effort.modules.length) {
+    sections.push({
+      title: "Costliest modules",
+      table: {
+        headers: ["Module", "Path", "Lazy", "Files", "Template lines", "Points"],
+        rows: out.effort.modules.slice(0, 15).map(m => [m.name, m.path, m.lazy ? "yes" : "no", m.files, m.templateLines, m.points]),
+      },
+    });
+  }
+
+  sections.push({
+    title: `Deprecated and removed APIs (Angular ${out.deprecatedApis.targetMajor})`,
+    paragraphs: [`${out.deprecatedApis.removed} removed, ${out.deprecatedApis.deprecated} deprecated (${out.deprecatedApis.rulesChecked} rules checked).`],
+    table: out.deprecatedApis.findings.length ? {
+      headers: ["Status", "API", "Location", "Replacement"],
+      rows: out.deprecatedApis.findings.map(f => [f.status, f.api, `${f.file}:${f.line}`, f.replacement]),
+    } : undefined,
+  });
+
+  const rx = out.rxjsPatterns;
+  sections.push({
+    title: `RxJS patterns (rxjs ${rx.targetMajor})`,
+    paragraphs: [`${rx.removed} removed, ${rx.deprecated} deprecated, ${rx.fixable} rewritable with migrate_rxjs.`],
+    table: rx.findings.length ? {
+      headers: ["Status", "Pattern", "Location", "Replacement", "Fixable"],
+      rows: rx.findings.map(f => [f.status, f.title, `${f.file}:${f.line}`, f.replacement, f.fixable ? "yes" : "no"]),
+    } : undefined,
+  });
+
+  const st = out.styles;
+  const styleRows = st.findings
+    .filter(f => f.ruleId !== "asset-url" || f.exists === false)
+    .map(f => [f.ruleId, `${f.file}:${f.line}`, f.snippet, f.exists === false ? `${f.resolved} does not exist` : f.message, f.fixable ? "yes" : "no"]);
+  sections.push({
+    title: "Stylesheets",
+    paragraphs: [`${st.files} stylesheet(s), ${st.fixable} finding(s) rewritable when copied with rewriteStyles, ${st.missingUrls} url() target(s) missing.`],
+    table: styleRows.length ? { headers: ["Rule", "Location", "Snippet", "Message", "Fixable"], rows: styleRows } : undefined,
+  });
+
+  const mat = out.material;
+  if (mat) {
+    sections.push({
+      title: `Angular Material (${mat.material ?? "not installed"}, CDK ${mat.cdk ?? "not installed"})`,
+      paragraphs: [
+        `${mat.components.length} component(s) used, ${mat.legacyImports} legacy import(s), ${mat.fixableImports} import(s) movable with migrate_material.`,
+        ...mat.versionIssues,
+        ...mat.components.filter(c => c.changes.length).map(c => `${c.component}: ${c.changes.join("; ")}`),
+      ],
+      table: mat.components.length ? {
+        headers: ["Component", "Status", "Imports", "Template usages", "Class overrides", "Theme mixins"],
+        rows: mat.components.map(c => [c.component, c.status, c.imports.length, c.templateUsages, c.classOverrides.length, c.themeMixins.length]),
+      } : undefined,
+    });
+  }
+
+  const tpl = out.templates;
+  const u = tpl.usage;
+  sections.push({
+    title: "Templates and control flow",
+    paragraphs: [
+      `${tpl.templates} template(s), ${tpl.inline} inline. *ngIf ${u.ngIf}, *ngFor ${u.ngFor}, [ngSwitch] ${u.ngSwitch}, ng-template ${u.ngTemplate}, built-in blocks ${u.controlFlowBlocks}.`,
+      `Control flow: ${tpl.controlFlow.ready} of ${tpl.controlFlow.legacyTemplates} legacy template(s) ready, ${tpl.controlFlow.blocked} blocked, ${tpl.controlFlow.alreadyMigrated} already migrated.`,
+      ...(tpl.unknownElements.length ? [`Elements outside the project: ${tpl.unknownElements.map(e => e.package ? `${e.name} (${e.package})` : e.name).join(", ")}`] : []),
+    ],
+    table: tpl.controlFlow.issues.length ? {
+      headers: ["Severity", "Rule", "Location", "Message"],
+      rows: tpl.controlFlow.issues.map(i => [i.severity, i.rule, `${i.file}:${i.line}`, i.message]),
+    } : undefined,
+  });
+  if (tpl.controlFlow.directives.length) {
+    sections.push({
+      title: "Legacy template directives",
+      paragraphs: [`${tpl.controlFlow.directives.length} usage(s) the control-flow migration rewrites or removes.`],
+      table: {
+        headers: ["Directive", "Location", "Snippet"],
+        rows: tpl.controlFlow.directives.map(d => [d.directive, `${d.file}:${d.line}`, d.snippet]),
+      },
+    });
+  }
+
+  const libs = out.compatibility.libraries.filter(l => l.status !== "ok");
+  sections.push({
+    title: `Third-party compatibility (Angular ${out.compatibility.targetMajor})`,
+    paragraphs: [out.compatibility.blockers.length ? `Blockers: ${out.compatibility.blockers.join(", ")}` : "No blocking libraries."],
+    table: libs.length ? {
+      headers: ["Package", "Current", "Status", "Compatible version", "Note"],
+      rows: libs.map(l => [l.name, l.current, l.status, l.compatibleVersion ?? (l.lastSupportedAngularMajor ? `last: Angular ${l.lastSupportedAngularMajor}` : undefined), l.note]),
+    } : undefined,
+  });
+
+  const adv = out.advisories;
+  sections.push({
+    title: "Security advisories",
+    paragraphs: [
+      adv.source === "none" ? "Not checked." : `${adv.vulnerable} vulnerable package(s) among ${adv.checked} checked (source: ${adv.source}).`,
+      ...adv.notes,
+    ],
+    table: adv.findings.length ? {
+      headers: ["Severity", "Package", "Version", "Advisory", "Affected", "Fixed in", "Needs Angular upgrade"],
+      rows: adv.findings.map(f => [f.severity, f.package, f.version, f.url ? `${f.title} (${f.url})` : f.title, f.affectedRange, f.firstFixedVersion, f.crossesAngularUpgrade ? `yes (${f.fixAngularMajor})` : "no"]),
+    } : undefined,
+  });
+
+  const inst = out.installed;
+  if (inst.lockfile || inst.notes.length) {
+    sections.push({
+      title: "Installed packages",
+      paragraphs: [
+        inst.lockfile ? `${inst.packages} package(s) in ${inst.lockfile.file}.` : "No lockfile.",
+        ...inst.duplicates.map(d => `Duplicate ${d.name}: ${d.versions.join(", ")}`),
+        ...inst.notes,
+      ],
+      table: inst.oldAngularPeers.length ? {
+        headers: ["Package", "Version", "Direct", "Peer", "Range", "Required by"],
+        rows: inst.oldAngularPeers.map(p => [p.name, p.version, p.direct ? "yes" : "no", p.peer, p.range, p.requiredBy.join(", ")]),
+      } : undefined,
+    });
+  }
+
+  const updates = out.suggestions.filter(s => s.updateHint);
+  if (updates.length) {
+    sections.push({
+      title: "Dependency updates",
+      table: {
+        headers: ["Package", "Declared", "Installed", "Latest", "Type"],
+        rows: updates.map(s => [s.name, s.current, s.installed, s.latest, s.type]),
+      },
+    });
+  }
+
+  return sections;
+}
+
+//#endregion
+
+//#region Markdown
+
+const mdCell = (v: string | number | undefined) => String(v ?? "").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+export function renderMarkdown(out: AnalyzeOutput, title = "Angular migration analysis"): string {
+  const lines: string[] = [`# ${title}`, ""];
+  for (const s of buildSections(out)) {
+    lines.push(`## ${s.title}`, "");
+    for (const p of s.paragraphs ?? []) lines.push(p, "");
+    if (s.list?.length) lines.push(...s.list.map(i => `- ${i}`), "");
+    if (s.table) {
+      lines.push(`| ${s.table.headers.join(" | ")} |`, `| ${s.table.headers.map(() => "---").join(" | ")} |`);
+      for (const r of s.table.rows) lines.push(`| ${r.map(mdCell).join(" | ")} |`);
+      lines.push("");
+    }
+  }
+  return lines.join("\n");
+}
+
+//#endregion
+
+//#region HTML (self-contained)
+
+const esc = (v: string | number | undefined) => String(v ?? "")
+  .replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const HTML_STYLE = `
+body{font-family:system-ui,-apple-system,Segoe UI,Roboto,sans-serif;margin:2rem auto;max-width:1100px;color:#1f2933;padding:0 1rem}
+h1{border-bottom:2px solid #dd0031;padding-bottom:.3rem}
+h2{margin-top:2rem;color:#3e4c59}
+table{border-collapse:collapse;width:100%;font-size:.9rem;margin:.5rem 0}
+th,td{border:1px solid #cbd2d9;padding:.3rem .5rem;text-align:left;vertical-align:top}
+th{background:#f5f7fa}
+tr:nth-child(even) td{background:#fafbfc}
+li{margin:.2rem 0}`;
+
+export function renderHtml(out: AnalyzeOutput, title = "Angular migration analysis"): string {
+  const body: string[] = [`<h1>${esc(title)}</h1>`];
+  for (const s of buildSections(out)) {
+    body.push(`<h2>${esc(s.title)}</h2>`);
+    for (const p of s.paragraphs ?? []) body.push(`<p>${esc(p)}</p>`);
+    if (s.list?.length) body.push(`<ul>${s.list.map(i => `<li>${esc(i)}</li>`).join("")}</ul>`);
+    if (s.table) {
+      body.push(`<table><thead><tr>${s.table.headers.map(h => `<th>${esc(h)}</th>`).join("")}</tr></thead><tbody>`);
+      for (const r of s.table.rows) body.push(`<tr>${r.map(c => `<td>${esc(c)}</td>`).join("")}</tr>`);
+      body.push(`</tbody></table>`);
+    }
+  }
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
+
+//#endregion
+
+//#region SARIF 2.1.0 (findings with a file and line)
+
+export function renderSarif(out: AnalyzeOutput): string {
+  const materialResults = (out.material?.components ?? []).flatMap(c => [
+    ...c.imports.filter(i => i.legacy).map(i => ({ rule: "legacy-import", level: "error", file: i.file, line: i.line, text: `${i.symbols.join(", ")} from ${i.from}: legacy entry points are removed in Material 17` })),
+    ...c.classOverrides.map(f => ({ rule: "class-override", level: "warning", file: f.file, line: f.line, text: f.message })),
+    ...c.themeMixins.map(f => ({ rule: "theme-mixin", level: "error", file: f.file, line: f.line, text: f.message })),
+  ]);
+  const styleResults = out.styles.findings.filter(f => f.ruleId !== "asset-url" || f.exists === false);
+  const rules = [
+    ...DEPRECATED_API_RULES
+      .filter(r => out.deprecatedApis.findings.some(f => f.ruleId === r.id))
+      .map(r => ({
+        id: r.id,
+        name: r.id,
+        shortDescription: { text: `${r.api} (deprecated in Angular ${r.deprecatedIn}${r.removedIn ? `, removed in ${r.removedIn}` : ""})` },
+        help: { text: `Replace with ${r.replacement}` },
+      })),
+    ...[...new Map(out.rxjsPatterns.findings.map(f => [f.ruleId, f])).values()].map(f => ({
+      id: `rxjs/${f.ruleId}`,
+      name: `rxjs/${f.ruleId}`,
+      shortDescription: { text: `${f.title} (deprecated in rxjs ${f.deprecatedIn}${f.removedIn ? `, removed in ${f.removedIn}` : ""})` },
+      help: { text: `Replace with ${f.replacement}` },
+    })),
+    ...STYLE_RULES.filter(r => styleResults.some(f => f.ruleId === r.id)).map(r => ({
+      id: `styles/${r.id}`,
+      name: `styles/${r.id}`,
+      shortDescription: { text: r.message },
+      help: { text: r.id === "asset-url" ? "The referenced file does not exist; the build fails to resolve it" : r.message },
+    })),
+    ...[...new Set(materialResults.map(r => r.rule))].map(rule => ({
+      id: `material/${rule}`,
+      name: `material/${rule}`,
+      shortDescription: { text: rule === "legacy-import" ? "Import from a legacy Angular Material entry point" : rule === "class-override" ? "Style override of a pre-MDC Angular Material class" : "Removed Angular Material theming mixin" },
+      help: { text: rule === "legacy-import" ? "Import from the MDC entry point (migrate_material rewriteImports)" : rule === "class-override" ? "Target the .mat-mdc-* / .mdc-* elements or use the component's styling API" : "Use the @angular/material Sass module mixin" },
+    })),
+    ...[...new Set(out.templates.controlFlow.issues.map(i => i.rule))].map(rule => ({
+      id: `control-flow/${rule}`,
+      name: `control-flow/${rule}`,
+      shortDescription: { text: `Template pattern to fix before the built-in control flow migration (${rule})` },
+      help: { text: out.templates.controlFlow.issues.find(i => i.rule === rule)!.message },
+    })),
+    ...(out.modulesOverview.unresolvedLazyRoutes.length ? [{
+      id: "unresolved-lazy-route",
+      name: "unresolved-lazy-route",
+      shortDescription: { text: "loadChildren target could not be resolved" },
+      help: { text: "Check the import path; the lazy module will fail to load after migration" },
+    }] : []),
+  ];
+
+  const location = (file: string, line: number) => ({
+    physicalLocation: {
+      artifactLocation: { uri: file.replace(/\\/g, "/"), uriBaseId: "%SRCROOT%" },
+      region: { startLine: Math.max(1, line) },
+    },
+  });
+
+  const results = [
+    ...out.deprecatedApis.findings.map(f => ({
+      ruleId: f.ruleId,
+      level: f.status === "removed" ? "error" : "warning",
+      message: { text: `${f.api} is ${f.status} as of Angular ${f.status === "removed" ? f.removedIn : f.deprecatedIn}: ${f.snippet}. Use ${f.replacement}.` },
+      locations: [location(f.file, f.line)],
+    })),
+    ...out.rxjsPatterns.findings.map(f => ({
+      ruleId: `rxjs/${f.ruleId}`,
+      level: f.status === "removed" ? "error" : "warning",
+      message: { text: `${f.title} is ${f.status} as of rxjs ${f.status === "removed" ? f.removedIn : f.deprecatedIn}: ${f.snippet}. Use ${f.replacement}.` },
+      locations: [location(f.file, f.line)],
+    })),
+    ...styleResults.map(f => ({
+      ruleId: `styles/${f.ruleId}`,
+      level: f.ruleId === "asset-url" || f.ruleId === "deep-combinator" ? "error" : "warning",
+      message: { text: f.exists === false ? `url(${f.url}) resolves to ${f.resolved}, which does not exist` : `${f.message}: ${f.snippet}` },
+      locations: [location(f.file, f.line)],
+    })),
+    ...materialResults.map(r => ({
+      ruleId: `material/${r.rule}`,
+      level: r.level,
+      message: { text: r.text },
+      locations: [location(r.file, r.line)],
+    })),
+    ...out.templates.controlFlow.issues.map(i => ({
+      ruleId: `control-flow/${i.rule}`,
+      level: i.severity === "blocker" ? "error" : "note",
+      message: { text: `${i.message}: ${i.snippet}` },
+      locations: [location(i.file, i.line)],
+    })),
+    ...out.modulesOverview.unresolvedLazyRoutes.map(r => ({
+      ruleId: "unresolved-lazy-route",
+      level: "warning",
+      message: { text: `loadChildren '${r.importPath}' could not be resolved` },
+      locations: [location(r.file, r.line)],
+    })),
+  ];
+
+  return JSON.stringify({
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: { driver: { name: TOOL_NAME, rules } },
+      results,
+    }],
+  }, null, 2);
+}
+
+//#endregion
+
+export function renderAnalysis(out: AnalyzeOutput, format: ReportFormat): string {
+  switch (format) {
+    case "markdown": return renderMarkdown(out);
+    case "html": return renderHtml(out);
+    case "sarif": return renderSarif(out);
+    default: return JSON.stringify(out, null, 2);
+  }
+}
+
+// Write a rendered report inside the project (relative paths resolve against it)
+export function writeReport(projectPath: string, outputFile: string, text: string): string {
+  const target = ensureInsideAllowed(path.resolve(projectPath, outputFile));
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, text, "utf-8");
+  return target;
+}
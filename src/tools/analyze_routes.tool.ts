@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { analyzeRoutes, AnalyzeRoutesOptions } from "./analyze_routes.js";
+
+export const analyzeRoutesTool = {
+    name: "analyze_routes",
+    title: "Extract the Angular route tree (JSON report)",
+    description: "Rebuilds the application's full route tree from RouterModule.forRoot/forChild, provideRouter, Routes constants and standalone app.routes.ts files. Reports path, component, loadChildren/loadComponent, guards, resolvers, redirects and nested children (following lazy modules), plus a flat URL list and route sets that are never mounted.",
+    inputSchema: {
+        rootFile: z.string().optional().describe("File holding the root routes, relative to the project (optional, auto-detected)"),
+        includeFlat: z.boolean().optional().default(true).describe("Also return a flat list of every URL (optional, default is true)"),
+    } as z.ZodRawShape
+};
+
+export async function handleAnalyzeRoutes(request: any) {
+
+    const projectPath = process.env.PROJECT_PATH;
+    if (!projectPath) {
+        return {
+            content: [{ type: "text", text: "PROJECT_PATH is not set in the environment." }],
+            isError: true
+        };
+    }
+
+    const args = request.params?.arguments || request.arguments || request;
+
+    const opts: AnalyzeRoutesOptions = {
+        projectPath: projectPath,
+        rootFile: args.rootFile,
+        includeFlat: args.includeFlat ?? true
+    }
+
+    const out = await analyzeRoutes(opts);
+
+    return { content: [{ type: "text", text: JSON.stringify(out, null, 2) }] };
+}
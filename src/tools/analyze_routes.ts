@@ -0,0 +1,199 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+import { ensureInsideAllowed } from "../utils/fs.js";
+import { IGNORE_GLOBS, listFilesByGlob, readTextSafe, SOURCE_GLOBS } from "../utils/scan.js";
+import { getImportBindings, unwrapExpression } from "../utils/ast.js";
+import { readNgModules, resolveRelativeImport } from "../utils/ng_modules.js";
+import { createRouteContext, findRouteSets, getSource, RouteLoadRef, RouteNode, RouteSet, RouteSetKind } from "../utils/routes.js";
+
+export type AnalyzeRoutesOptions = {
+  projectPath: string;
+  rootFile?: string;       // file holding the root routes (optional, auto-detected)
+  includeFlat?: boolean;   // default true - also return the flat URL list
+};
+
+export type RouteUrl = {
+  url: string;
+  component?: string;
+  loadComponent?: string;
+  redirectTo?: string;
+  guards: string[];
+  resolvers: string[];
+  lazy: boolean;           // reached through a loadChildren boundary
+  source: { file: string; line: number };
+};
+
+export type AnalyzeRoutesOutput = {
+  roots: Array<{ kind: RouteSetKind; file: string; line: number; ownerModule?: string; routes: RouteNode[] }>;
+  urls?: RouteUrl[];
+  orphans: Array<{ kind: RouteSetKind; file: string; line: number; name?: string; ownerModule?: string; routeCount: number }>;
+  unresolvedLoads: Array<{ file: string; line: number; importPath: string; className?: string; reason: string }>;
+  stats: { filesScanned: number; routes: number; lazyRoutes: number; guarded: number; redirects: number };
+  notes: string[];
+};
+
+const ROUTING_HINT = /RouterModule\.for(?:Root|Child)|provideRouter|\bRoutes\b|\bRoute\[\]/;
+
+const toPosix = (p: string) => p.replace(/\\/g, "/");
+
+function joinUrl(prefix: string, segment: string): string {
+  const parts = [prefix, segment].map(s => s.replace(/^\/+|\/+$/g, "")).filter(Boolean);
+  return "/" + parts.join("/");
+}
+
+export async function analyzeRoutes(opts: AnalyzeRoutesOptions): Promise<AnalyzeRoutesOutput> {
+  const { projectPath, rootFile, includeFlat = true } = opts;
+  const abs = ensureInsideAllowed(projectPath);
+  const notes: string[] = [];
+
+  //#region Collect route declarations
+
+  const candidates = (await listFilesByGlob(abs, SOURCE_GLOBS, [...IGNORE_GLOBS, "**/*.spec.ts"]))
+    .filter(rel => ROUTING_HINT.test(readTextSafe(path.join(abs, rel))));
+
+  const ctx = createRouteContext(abs);
+  const setsByFile = new Map<string, RouteSet[]>();
+  const setsFor = (rel: string): RouteSet[] => {
+    let s = setsByFile.get(rel);
+    if (!s) {
+      s = findRouteSets(ctx, path.join(abs, rel));
+      setsByFile.set(rel, s);
+    }
+    return s;
+  };
+  for (const rel of candidates) setsFor(toPosix(rel));
+
+  //#endregion
+
+  //#region Root route sets
+
+  let roots: RouteSet[];
+  if (rootFile) {
+    const rel = toPosix(path.relative(abs, path.resolve(abs, rootFile)));
+    if (!fs.existsSync(path.join(abs, rel))) throw new Error(`rootFile not found: ${rootFile}`);
+    const inFile = setsFor(rel);
+    roots = inFile.filter(s => s.kind === "forRoot" || s.kind === "provideRouter");
+    if (!roots.length) roots = inFile.filter(s => s.kind === "routesConst");
+  } else {
+    const all = [...setsByFile.values()].flat();
+    roots = all.filter(s => s.kind === "forRoot" || s.kind === "provideRouter");
+    if (!roots.length) {
+      roots = all.filter(s => s.kind === "routesConst" && /(^|\/)(app\.routes|app-routing\.module)\.ts$/.test(s.file));
+      if (roots.length) notes.push("No RouterModule.forRoot/provideRouter call found; using routes declared in app.routes.ts / app-routing.module.ts as root.");
+    }
+  }
+  if (!roots.length) notes.push("No root routes found.");
+
+  //#endregion
+
+  //#region Follow loadChildren into lazy route sets
+
+  const consumed = new Set<RouteSet>();
+  const unresolvedLoads: AnalyzeRoutesOutput["unresolvedLoads"] = [];
+
+  const defaultExportName = (sf: ts.SourceFile): string | undefined => {
+    const def = sf.statements.find(ts.isExportAssignment);
+    if (!def) return undefined;
+    const e = unwrapExpression(def.expression);
+    return ts.isIdentifier(e) ? e.text : "default";
+  };
+
+  // Route sets exposed by a loadChildren target: an NgModule (own + imported forChild) or a Routes const
+  const loadTargets = (ref: RouteLoadRef): RouteSet[] => {
+    const targetRel = ref.resolved!;
+    const inFile = setsFor(targetRel);
+    const sf = getSource(ctx, path.join(abs, targetRel));
+
+    const mod = readNgModules(abs, [targetRel]).find(m => !ref.className || m.name === ref.className);
+    if (mod) {
+      const out = inFile.filter(s => s.kind === "forChild" && s.ownerModule === mod.name);
+      const bindings = getImportBindings(sf);
+      for (const imp of mod.imports) {
+        const b = bindings.get(imp);
+        const f = b && resolveRelativeImport(sf.fileName, b.from);
+        if (!b || !f) continue;
+        out.push(...setsFor(toPosix(path.relative(abs, f))).filter(s => s.kind === "forChild" && (!s.ownerModule || s.ownerModule === b.imported)));
+      }
+      return out;
+    }
+
+    const constName = ref.className ?? defaultExportName(sf);
+    return inFile.filter(s => s.kind === "routesConst" && s.name === constName);
+  };
+
+  const expand = (nodes: RouteNode[], stack: Set<string>) => {
+    for (const n of nodes) {
+      if (n.children) expand(n.children, stack);
+      const ref = n.loadChildren;
+      if (!ref) continue;
+      if (!ref.resolved) {
+        unresolvedLoads.push({ ...n.source, importPath: ref.importPath, className: ref.className, reason: "target file not found (non-relative or missing import)" });
+        continue;
+      }
+      if (stack.has(ref.resolved)) continue;
+      const targets = loadTargets(ref);
+      if (!targets.length) {
+        unresolvedLoads.push({ ...n.source, importPath: ref.importPath, className: ref.className, reason: "no routes found in target" });
+        continue;
+      }
+      targets.forEach(t => consumed.add(t));
+      // clone: the same lazy module may be mounted under several paths
+      n.loadedChildren = JSON.parse(JSON.stringify(targets.flatMap(t => t.routes)));
+      expand(n.loadedChildren!, new Set([...stack, ref.resolved]));
+    }
+  };
+
+  const rootTrees = roots.map(r => {
+    consumed.add(r);
+    const routes: RouteNode[] = JSON.parse(JSON.stringify(r.routes));
+    expand(routes, new Set([r.file]));
+    return { kind: r.kind, file: r.file, line: r.line, ownerModule: r.ownerModule, routes };
+  });
+
+  //#endregion
+
+  //#region Orphans + flat URL list
+
+  const orphans = [...setsByFile.values()].flat()
+    .filter(s => !consumed.has(s))
+    .filter(s => s.kind === "forChild" || (s.kind === "routesConst" && !ctx.referenced.has(`${s.file}#${s.name}`) && !roots.some(r => r.file === s.file)))
+    .map(s => ({ kind: s.kind, file: s.file, line: s.line, name: s.name, ownerModule: s.ownerModule, routeCount: s.routes.length }));
+
+  const urls: RouteUrl[] = [];
+  const flatten = (nodes: RouteNode[], prefix: string, lazy: boolean) => {
+    for (const n of nodes) {
+      const url = joinUrl(prefix, n.path ?? "");
+      urls.push({
+        url,
+        component: n.component,
+        loadComponent: n.loadComponent ? `${n.loadComponent.importPath}${n.loadComponent.className ? "#" + n.loadComponent.className : ""}` : undefined,
+        redirectTo: n.redirectTo,
+        guards: [...(n.canActivate ?? []), ...(n.canActivateChild ?? []), ...(n.canDeactivate ?? []), ...(n.canMatch ?? []), ...(n.canLoad ?? [])],
+        resolvers: Object.values(n.resolve ?? {}),
+        lazy,
+        source: n.source,
+      });
+      if (n.children) flatten(n.children, url, lazy);
+      if (n.loadedChildren) flatten(n.loadedChildren, url, true);
+    }
+  };
+  for (const r of rootTrees) flatten(r.routes, "", false);
+
+  //#endregion
+
+  return {
+    roots: rootTrees,
+    urls: includeFlat ? urls : undefined,
+    orphans,
+    unresolvedLoads,
+    stats: {
+      filesScanned: candidates.length,
+      routes: urls.length,
+      lazyRoutes: urls.filter(u => u.lazy).length,
+      guarded: urls.filter(u => u.guards.length).length,
+      redirects: urls.filter(u => u.redirectTo !== undefined).length,
+    },
+    notes,
+  };
+}
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { compareAnalysis, CompareAnalysisOptions } from "./compare_analysis.js";
+
+export const compareAnalysisTool = {
+  name: "compare_analysis",
+  title: "Compare an analysis with a saved baseline",
+  description: "Compares a saved analyze_project snapshot (see its snapshotFile option) with a fresh analysis of the project, of the new project, or with a second snapshot. Reports NgModules removed or converted to standalone, deprecated API usages fixed or introduced, dependency versions that changed, recommendations resolved and the effort delta, to track migration progress sprint by sprint.",
+  inputSchema: {
+    baselineFile: z.string().describe("Baseline snapshot written by analyze_project, relative to the project"),
+    currentFile: z.string().optional().describe("Second snapshot to compare with instead of a fresh analysis (optional)"),
+    against: z.enum(["project", "newProject"]).optional().default("project").describe("What to analyze when no currentFile is given: the project or the new project (optional, default is project)"),
+    targetAngularVersion: z.string().optional().describe("Target Angular version for the fresh analysis (optional, default is the one the baseline was analyzed with)"),
+  } as z.ZodRawShape
+};
+
+export async function handleCompareAnalysis(request: any) {
+
+  const projectPath = process.env.PROJECT_PATH;
+  if (!projectPath) {
+    return {
+      content: [{ type: "text", text: "PROJECT_PATH is not set in the environment." }],
+      isError: true
+    };
+  }
+
+  const args = request.params?.arguments || request.arguments || request;
+
+  const opts: CompareAnalysisOptions = {
+    projectPath: projectPath,
+    newProjectPath: process.env.NEW_PROJECT_PATH,
+    baselineFile: args.baselineFile,
+    currentFile: args.currentFile,
+    against: args.against ?? "project",
+    targetAngularVersion: args.targetAngularVersion,
+  }
+
+  const out = await compareAnalysis(opts);
+  return { content: [{ type: "text", text: JSON.stringify(out, null, 2) }] };
+}
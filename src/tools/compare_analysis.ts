@@ -0,0 +1,213 @@
+import fs from "fs";
+import path from "path";
+import { ensureInsideAllowed } from "../utils/fs.js";
+import { DeprecatedApiFinding } from "../utils/deprecated_apis.js";
+import { analyzeProject, AnalyzeOptions, AnalyzeOutput } from "./analyze_project.js";
+
+// Options that shape the analysis itself; a fresh run for comparison reuses them
+export type SnapshotOptions = Pick<AnalyzeOptions, "project" | "includeDev" | "maxPackages" | "modulesTop" | "targetAngularVersion">;
+
+export type AnalysisSnapshot = {
+  version: 1;
+  takenAt: string;        // ISO timestamp
+  projectPath: string;
+  options?: SnapshotOptions;
+  analysis: AnalyzeOutput;
+};
+
+export type CompareAnalysisOptions = {
+  projectPath: string;          // old project; relative files resolve against it
+  newProjectPath?: string;
+  baselineFile: string;         // snapshot saved by analyze_project
+  currentFile?: string;         // second snapshot; default: analyze `against` now
+  against?: "project" | "newProject"; // default "project"
+  targetAngularVersion?: string;      // default: the baseline's target major
+};
+
+type ModuleRef = { name: string; path: string };
+type DependencyChange = { name: string; from?: string; to?: string; installedFrom?: string; installedTo?: string };
+
+export type CompareAnalysisOutput = {
+  baseline: { takenAt: string; projectPath: string };
+  current: { takenAt: string; projectPath: string };
+  modules: {
+    removed: ModuleRef[];
+    convertedToStandalone: Array<ModuleRef & { declarations: string[] }>;
+    added: ModuleRef[];
+    before: number;
+    after: number;
+  };
+  deprecatedApis: {
+    fixed: DeprecatedApiFinding[];
+    introduced: DeprecatedApiFinding[];
+    remaining: number;
+  };
+  dependencies: { changed: DependencyChange[]; added: DependencyChange[]; removed: DependencyChange[] };
+  recommendations: { resolved: string[]; introduced: string[]; changed: Array<{ from: string; to: string }> };
+  effort: { before: number; after: number; delta: number; levelBefore: string; levelAfter: string };
+  summary: string[];
+};
+
+//#region Snapshots
+
+export function saveSnapshot(projectPath: string, file: string, analysis: AnalyzeOutput, options: SnapshotOptions = {}): string {
+  const target = ensureInsideAllowed(path.resolve(projectPath, file));
+  const snapshot: AnalysisSnapshot = { version: 1, takenAt: new Date().toISOString(), projectPath, options, analysis };
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, JSON.stringify(snapshot, null, 2), "utf-8");
+  return target;
+}
+
+export function loadSnapshot(projectPath: string, file: string): AnalysisSnapshot {
+  const abs = ensureInsideAllowed(path.resolve(projectPath, file));
+  if (!fs.existsSync(abs)) throw new Error(`Snapshot not found: ${abs}`);
+  const doc = JSON.parse(fs.readFileSync(abs, "utf-8"));
+  if (doc?.version !== 1 || !doc.analysis) throw new Error(`Not an analysis snapshot: ${abs}`);
+  return doc;
+}
+
+//#endregion
+
+// Findings move between lines as code changes; match on rule, file and code instead
+const findingKey = (f: DeprecatedApiFinding) => `${f.ruleId}|${f.file}|${f.snippet}`;
+
+// Recommendations embed counts ("Replace 4 usage(s)..."); compare them without digits
+const recommendationKey = (r: string) => r.replace(/\d+(\.\d+)?/g, "#");
+
+function diffFindings(before: DeprecatedApiFinding[], after: DeprecatedApiFinding[]) {
+  const remaining = new Map<string, number>();
+  for (const f of after) remaining.set(findingKey(f), (remaining.get(findingKey(f)) ?? 0) + 1);
+
+  const fixed: DeprecatedApiFinding[] = [];
+  for (const f of before) {
+    const n = remaining.get(findingKey(f)) ?? 0;
+    if (n > 0) remaining.set(findingKey(f), n - 1);
+    else fixed.push(f);
+  }
+
+  const stillThere = new Map<string, number>();
+  for (const f of before) stillThere.set(findingKey(f), (stillThere.get(findingKey(f)) ?? 0) + 1);
+  const introduced: DeprecatedApiFinding[] = [];
+  for (const f of after) {
+    const n = stillThere.get(findingKey(f)) ?? 0;
+    if (n > 0) stillThere.set(findingKey(f), n - 1);
+    else introduced.push(f);
+  }
+  return { fixed, introduced, remaining: after.length - introduced.length };
+}
+
+export async function compareAnalysis(opts: CompareAnalysisOptions): Promise<CompareAnalysisOutput> {
+  const baseline = loadSnapshot(opts.projectPath, opts.baselineFile);
+
+  //#region Current side: second snapshot or a fresh run
+
+  let current: AnalysisSnapshot;
+  if (opts.currentFile) {
+    current = loadSnapshot(opts.projectPath, opts.currentFile);
+  } else {
+    const against = opts.against ?? "project";
+    if (against === "newProject" && !opts.newProjectPath) throw new Error("NEW_PROJECT_PATH is required to compare against the new project");
+    const projectPath = against === "newProject" ? opts.newProjectPath! : opts.projectPath;
+    // The project filter names a project of the old workspace; the new one names its own
+    const { project, ...shared } = baseline.options ?? {};
+    const options: SnapshotOptions = {
+      ...shared,
+      ...(against === "project" && project ? { project } : {}),
+      targetAngularVersion: opts.targetAngularVersion ?? baseline.options?.targetAngularVersion,
+    };
+    const analysis = await analyzeProject({ ...options, projectPath, checkAdvisories: false });
+    current = { version: 1, takenAt: new Date().toISOString(), projectPath, options, analysis };
+  }
+  const before = baseline.analysis;
+  const after = current.analysis;
+
+  //#endregion
+
+  //#region Modules
+
+  // Class names repeat across files (two SharedModules); the file tells them apart
+  const moduleKey = (m: ModuleRef) => `${m.path}#${m.name}`;
+  const afterModules = new Set(after.modulesOverview.graph.map(moduleKey));
+  const beforeModules = new Set(before.modulesOverview.graph.map(moduleKey));
+  const standaloneNow = new Set(after.modulesOverview.standaloneDeclarables);
+
+  const removed: ModuleRef[] = [];
+  const convertedToStandalone: CompareAnalysisOutput["modules"]["convertedToStandalone"] = [];
+  for (const m of before.modulesOverview.graph) {
+    if (afterModules.has(moduleKey(m))) continue;
+    if (m.declarations.length && m.declarations.every(d => standaloneNow.has(d))) {
+      convertedToStandalone.push({ name: m.name, path: m.path, declarations: m.declarations });
+    } else {
+      removed.push({ name: m.name, path: m.path });
+    }
+  }
+  const added = after.modulesOverview.graph.filter(m => !beforeModules.has(moduleKey(m))).map(m => ({ name: m.name, path: m.path }));
+
+  //#endregion
+
+  //#region Deprecated APIs
+
+  const deprecatedApis = diffFindings(before.deprecatedApis.findings, after.deprecatedApis.findings);
+
+  //#endregion
+
+  //#region Dependencies (declared range + installed version)
+
+  const toMap = (o: AnalyzeOutput) => new Map(o.installed.direct.map(d => [d.name, d]));
+  const depsBefore = toMap(before);
+  const depsAfter = toMap(after);
+  const dependencies: CompareAnalysisOutput["dependencies"] = { changed: [], added: [], removed: [] };
+  for (const [name, b] of depsBefore) {
+    const a = depsAfter.get(name);
+    if (!a) dependencies.removed.push({ name, from: b.declared, installedFrom: b.installed });
+    else if (a.declared !== b.declared || a.installed !== b.installed) {
+      dependencies.changed.push({ name, from: b.declared, to: a.declared, installedFrom: b.installed, installedTo: a.installed });
+    }
+  }
+  for (const [name, a] of depsAfter) {
+    if (!depsBefore.has(name)) dependencies.added.push({ name, to: a.declared, installedTo: a.installed });
+  }
+
+  //#endregion
+
+  //#region Recommendations
+
+  const afterRecs = new Map(after.recommendations.map(r => [recommendationKey(r), r]));
+  const beforeKeys = new Set(before.recommendations.map(recommendationKey));
+  const recommendations: CompareAnalysisOutput["recommendations"] = { resolved: [], introduced: [], changed: [] };
+  for (const r of before.recommendations) {
+    const a = afterRecs.get(recommendationKey(r));
+    if (a === undefined) recommendations.resolved.push(r);
+    else if (a !== r) recommendations.changed.push({ from: r, to: a });
+  }
+  for (const r of after.recommendations) if (!beforeKeys.has(recommendationKey(r))) recommendations.introduced.push(r);
+
+  //#endregion
+
+  const effort = {
+    before: before.effort.points,
+    after: after.effort.points,
+    delta: Math.round((after.effort.points - before.effort.points) * 10) / 10,
+    levelBefore: before.effort.level,
+    levelAfter: after.effort.level,
+  };
+
+  const summary = [
+    `NgModules: ${before.modulesOverview.ngModules} -> ${after.modulesOverview.ngModules} (${convertedToStandalone.length} converted to standalone, ${removed.length} removed, ${added.length} added)`,
+    `Deprecated/removed API usages: ${deprecatedApis.fixed.length} fixed, ${deprecatedApis.introduced.length} introduced, ${deprecatedApis.remaining} remaining`,
+    `Dependencies: ${dependencies.changed.length} changed, ${dependencies.added.length} added, ${dependencies.removed.length} removed`,
+    `Recommendations: ${recommendations.resolved.length} resolved, ${recommendations.introduced.length} new`,
+    `Effort: ${effort.before} -> ${effort.after} points (${effort.delta >= 0 ? "+" : ""}${effort.delta})`,
+  ];
+
+  return {
+    baseline: { takenAt: baseline.takenAt, projectPath: baseline.projectPath },
+    current: { takenAt: current.takenAt, projectPath: current.projectPath },
+    modules: { removed, convertedToStandalone, added, before: before.modulesOverview.ngModules, after: after.modulesOverview.ngModules },
+    deprecatedApis,
+    dependencies,
+    recommendations,
+    effort,
+    summary,
+  };
+}
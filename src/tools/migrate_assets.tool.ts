@@ -9,6 +9,7 @@ export const migrateAssetsTool = {
     include: z.array(z.string()).optional().describe("File patterns to include"),
     exclude: z.array(z.string()).optional().describe("File patterns to exclude"),
     dryRun: z.boolean().optional().default(false).describe("If true, shows what it would do without copying"),
+    rewriteStyles: z.boolean().optional().default(false).describe("If true, rewrites copied stylesheets (/deep/, ~ imports, math.div, Angular Material theming) for the new project's Angular version and reports what is left"),
   } as z.ZodRawShape
 };
 
@@ -32,6 +33,7 @@ export async function handleMigrateAssets(request: any) {
     include: args.include,
     exclude: args.exclude,
     dryRun: args.dryRun,
+    rewriteStyles: args.rewriteStyles,
   }
 
   const out = await migrateAssets(opts);
@@ -3,6 +3,8 @@ import path from "path";
 import fse from "fs-extra";
 import { globby } from "globby";
 import { ensureInsideAllowed } from "../utils/fs.js";
+import { isStyleFile, rewriteStylesForCopy, StyleCopy } from "../utils/styles.js";
+import { projectAngularMajor } from "../utils/workspace.js";
 
 export type MigrateAssetsOptions = {
     projectPath: string;   // Path to the old project (repository root containing src)
@@ -10,6 +12,7 @@ export type MigrateAssetsOptions = {
     include?: string[];       // Additional globs if needed
     exclude?: string[];       // Globs for exclusion
     dryRun?: boolean;         // If true, shows what it would do without copying
+    rewriteStyles?: boolean;  // Apply the safe stylesheet rewrites (::ng-deep, ~ imports, math.div, Material) while copying
 };
 
 export type MigrateAssetsResult = {
@@ -19,6 +22,7 @@ export type MigrateAssetsResult = {
     skipped: string[];
     errors: Array<{ file: string; error: string }>;
     updatedAngularJson?: boolean;
+    styles?: StyleCopy[];     // With rewriteStyles: rewrites applied and findings left per stylesheet
     notes: string[];
 };
 
@@ -77,6 +81,9 @@ export async function migrateAssets(opts: MigrateAssetsOptions): Promise<Migrate
     const isDry = !!opts.dryRun;
     notes.push(`Mode: ${isDry ? "DRY_RUN (no write)" : "WRITE (copying files)"}`);
 
+    const styles: StyleCopy[] = [];
+    const stylesMajor = opts.rewriteStyles ? projectAngularMajor(newRoot) : 0;
+
     // 2) Copy files to the same structure inside the new project
     for (const rel of matches) {
         const fromAbs = path.join(oldRoot, rel);
@@ -107,6 +114,22 @@ export async function migrateAssets(opts: MigrateAssetsOptions): Promise<Migrate
             }
         }
 
+        if (opts.rewriteStyles && isStyleFile(rel)) {
+            try {
+                const { code, ...report } = rewriteStylesForCopy(newRoot, rel, fs.readFileSync(fromAbs, "utf-8"), stylesMajor, matches);
+                styles.push(report);
+                if (!isDry) {
+                    fs.writeFileSync(toAbs, code, "utf-8");
+                    const s = fs.statSync(fromAbs);
+                    fs.utimesSync(toAbs, s.atime, s.mtime);
+                }
+                copied.push(rel);
+            } catch (e: any) {
+                errors.push({ file: rel, error: `style rewrite failed: ${e?.message ?? String(e)}` });
+            }
+            continue;
+        }
+
         if (!isDry) {
             try {
                 await fse.copy(fromAbs, toAbs, { overwrite: true, errorOnExist: false });
@@ -181,6 +204,12 @@ export async function migrateAssets(opts: MigrateAssetsOptions): Promise<Migrate
         errors.push({ file: "angular.json", error: e?.message ?? String(e) });
     }
 
+    if (opts.rewriteStyles) {
+        const applied = styles.reduce((n, s) => n + s.applied.length, 0);
+        const remaining = styles.reduce((n, s) => n + s.remaining.length, 0);
+        notes.push(`Styles: ${applied} rewrite(s) in ${styles.filter(s => s.applied.length).length} of ${styles.length} stylesheet(s); ${remaining} finding(s) left to fix by hand`);
+    }
+
     return {
         from: oldRoot,
         to: newRoot,
@@ -188,6 +217,7 @@ export async function migrateAssets(opts: MigrateAssetsOptions): Promise<Migrate
         skipped,
         errors,
         updatedAngularJson,
+        ...(opts.rewriteStyles ? { styles } : {}),
         notes,
     };
 }
@@ -1,16 +1,30 @@
 import { z } from "zod";
 import { migrateComponent, MigrateComponentArgs } from "./migrate_component.js";
 
+const guardRef = z.object({ name: z.string(), from: z.string().optional() });
+
 export const migrateComponentTool = {
   name: "migrate_component",
   title: "Migrate a single Angular component",
-  description: "Migrate a single Angular component from an old project to a new project, with optional copying of co-located assets and linking to a Route.",
+  description: "Migrate a single Angular component from an old project to a new project, with optional copying of co-located assets, of the files it depends on, and linking to a Route.",
   inputSchema: {
     componentTsPath: z.string().describe("Path to the component .ts file to migrate"),
     targetAppRoot: z.string().optional().describe("Target app root (optional, default is src/app)"),
     copyCoLocatedAssets: z.boolean().optional().default(false).describe("If true, copies co-located assets"),
-    makeStandalone: z.boolean().optional().default(false).describe("If true, makes the component standalone"),
-    route: z.object({ path: z.string(), routerConfigPath: z.string(), lazy: z.boolean().optional() }).optional().describe("If provided, wires the component to a Route"),
+    makeStandalone: z.boolean().optional().default(false).describe("If true, makes the component standalone with an imports array inferred from its template (Angular common, forms and router directives, Material modules, project components, directives and pipes)"),
+    includeDependencies: z.boolean().optional().default(false).describe("If true, also migrates every project file the component needs (relative and tsconfig-alias imports, child components, directives and pipes used in its template), preserving the folder structure, and returns the closure as a tree"),
+    rewriteStyles: z.boolean().optional().default(false).describe("If true, rewrites the component stylesheet (/deep/, ~ imports, math.div, Angular Material theming) for the new project's Angular version"),
+    addMissingAliases: z.boolean().optional().default(false).describe("If true, adds the old tsconfig path aliases the copied imports still use (e.g. @app/*) to the new project's tsconfig, mapped to the new layout; otherwise they are reported"),
+    route: z.object({
+      path: z.string(),
+      routerConfigPath: z.string().describe("Routing file of the new project: app.routes.ts (Routes const), app-routing.module.ts or a file calling RouterModule.forChild/provideRouter"),
+      lazy: z.boolean().optional().describe("If true and the component is standalone, uses loadComponent"),
+      parentPath: z.string().optional().describe("Nest under the route with this path (e.g. admin or admin/users); its children array is created when missing"),
+      guards: z.object(Object.fromEntries(["canActivate", "canActivateChild", "canDeactivate", "canMatch"].map(k => [k, z.array(guardRef).optional()]))).optional()
+        .describe("Guards by kind; `from` imports a guard the routing file lacks (a new-project file such as src/app/core/auth.guard.ts, or a package)"),
+      title: z.string().optional(),
+      data: z.record(z.unknown()).optional(),
+    }).optional().describe("If provided, wires the component to a Route; a path already routed at that level is refused"),
     dryRun: z.boolean().optional().default(false).describe("If true, shows what it would do without copying"),
   } as z.ZodRawShape
 };
@@ -36,6 +50,9 @@ export async function handleMigrateComponent(request: any) {
     targetAppRoot: args.targetAppRoot,
     copyCoLocatedAssets: args.copyCoLocatedAssets,
     makeStandalone: args.makeStandalone,
+    includeDependencies: args.includeDependencies,
+    rewriteStyles: args.rewriteStyles,
+    addMissingAliases: args.addMissingAliases,
     route: args.route,
     dryRun: args.dryRun,
   }
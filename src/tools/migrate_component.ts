@@ -2,6 +2,25 @@ import path from "path";
 import fs from "fs";
 import fse from "fs-extra";
 import { globby } from "globby";
+import { IGNORE_GLOBS, listFilesByGlob, SOURCE_GLOBS } from "../utils/scan.js";
+import { analyzeTemplate, buildTemplateIndex, TemplateInfo } from "../utils/templates.js";
+import { isStyleFile, rewriteStylesForCopy, StyleCopy } from "../utils/styles.js";
+import { projectAngularMajor } from "../utils/workspace.js";
+import { findDecoratedClasses, parseTsFile } from "../utils/ast.js";
+import { resolveRelativeImport } from "../utils/ng_modules.js";
+import {
+  buildDeclarableIndex,
+  convertToStandalone,
+  DeclarableIndex,
+  inferStandaloneImports,
+  markNotStandalone,
+  StandaloneImport,
+  StandaloneInference,
+} from "../utils/standalone.js";
+import { collectDependencies, DependencyNode, mirrorPath } from "../utils/dependencies.js";
+import { addPathAliases, readCompilerOptions } from "../utils/tsconfig.js";
+import { addRoute, RouteRef, RouteToAdd } from "../utils/routes.js";
+import { ImportPathContext, ImportPathReport, recordImportPaths, rewriteImportPaths } from "../utils/import_paths.js";
 
 export type MigrateComponentArgs = {
   projectPath: string;
@@ -10,10 +29,17 @@ export type MigrateComponentArgs = {
   targetAppRoot?: string;
   copyCoLocatedAssets?: boolean;
   makeStandalone?: boolean;
+  includeDependencies?: boolean;   // also copy the files the component needs: imports (relative and tsconfig aliases) and template declarables
+  rewriteStyles?: boolean;    // apply the safe stylesheet rewrites while copying the component styles
+  addMissingAliases?: boolean;     // add the old tsconfig path aliases the copied imports use to the new tsconfig
   route?: {
     path: string;
     routerConfigPath: string; // e.g. src/app/app.routes.ts or app-routing.module.ts
     lazy?: boolean;           // if true and standalone, add lazy import
+    parentPath?: string;      // nest under this route's children, e.g. admin or admin/users
+    guards?: RouteToAdd["guards"];   // `from`: a new-project file (src/app/core/auth.guard.ts) or a package
+    title?: string;
+    data?: Record<string, unknown>;
   };
   dryRun?: boolean;
 };
@@ -27,6 +53,11 @@ export type MigrateComponentResult = {
   skipped: string[];
   notes: string[];
   errors: Array<{ file?: string; error: string }>;
+  template?: TemplateInfo;   // what the original template uses and what blocks the control-flow migration
+  styles?: StyleCopy[];      // with rewriteStyles: rewrites applied and findings left in the component styles
+  dependencies?: DependencyNode;   // with includeDependencies: the closure as a tree of old-project files
+  importPaths?: ImportPathReport;  // import specifiers rewritten for the new layout, and old aliases the new tsconfig lacks
+  standalone?: { imports: StandaloneImport[]; unresolved: string[] };   // with makeStandalone: inferred `imports` and what is left
 };
 
 const ASSET_EXT = [".png",".jpg",".jpeg",".webp",".gif",".svg",".ico",".avif"];
@@ -83,30 +114,183 @@ export async function migrateComponent(args: MigrateComponentArgs): Promise<Migr
   ];
   const siblingMatches = (await globby(siblingGlobs, { cwd: compDirOld })).map(p => path.join(compDirOld, p));
 
-  // copy files preserving names
-  for (const abs of siblingMatches) {
-    const relName = path.basename(abs);
-    const dest = path.join(targetDirAbs, relName);
+  // copy files preserving names; imports are resolved in the old project and rewritten for the new layout
+  const styles: StyleCopy[] = [];
+  const placed = new Map(siblingMatches.map(abs => [
+    path.relative(oldRoot, abs).replace(/\\/g, "/"),
+    path.relative(newRoot, path.join(targetDirAbs, path.basename(abs))).replace(/\\/g, "/"),
+  ]));
+  let importContext: ImportPathContext | undefined;
+  const importPaths: ImportPathReport = { rewritten: [], missingAliases: [] };
+  const staged = new Map<string, string>();   // rewritten copies, by destination
+  // Declarables written before Angular 19 keep their NgModule through `standalone: false`
+  const markDeclared = projectAngularMajor(oldRoot) < 19 && projectAngularMajor(newRoot) >= 19;
+  const markedDeclared: string[] = [];
+  const copyFile = async (abs: string, dest: string, declared = false) => {
+    const destRel = path.relative(newRoot, dest).replace(/\\/g, "/");
+    if (/\.[cm]?ts$/.test(abs) && !abs.endsWith(".d.ts")) {
+      importContext ??= {
+        oldRoot,
+        newRoot,
+        oldOptions: readCompilerOptions(oldRoot),
+        newOptions: readCompilerOptions(newRoot),
+        place: rel => placed.get(rel) ?? mirrorPath(rel, targetAppRoot),
+      };
+      const before = fs.readFileSync(abs, "utf8");
+      const marked = declared && markDeclared ? markNotStandalone(destRel, before) : { code: before, classes: [] };
+      markedDeclared.push(...marked.classes);
+      const out = rewriteImportPaths(path.relative(oldRoot, abs).replace(/\\/g, "/"), marked.code, importContext);
+      recordImportPaths(importPaths, destRel, out);
+      if (out.code !== before) {
+        staged.set(dest, out.code);
+        if (!isDry) {
+          await fse.ensureDir(path.dirname(dest));
+          fs.writeFileSync(dest, out.code, "utf8");
+          const s = fs.statSync(abs);
+          fs.utimesSync(dest, s.atime, s.mtime);
+        }
+        copiedFiles.push(destRel);
+        return;
+      }
+    }
+    if (args.rewriteStyles && isStyleFile(abs)) {
+      const relName = path.basename(abs);
+      const { code, ...report } = rewriteStylesForCopy(newRoot, destRel, fs.readFileSync(abs, "utf8"), projectAngularMajor(newRoot));
+      styles.push(report);
+      if (report.applied.length) notes.push(`styles: ${report.applied.length} rewrite(s) in ${relName} (${[...new Set(report.applied.map(a => a.ruleId))].join(", ")})`);
+      if (report.remaining.length) notes.push(`styles: ${report.remaining.length} finding(s) left in ${relName} (${[...new Set(report.remaining.map(f => f.ruleId))].join(", ")})`);
+      if (!isDry) {
+        await fse.ensureDir(path.dirname(dest));
+        fs.writeFileSync(dest, code, "utf8");
+        const s = fs.statSync(abs);
+        fs.utimesSync(dest, s.atime, s.mtime);
+      }
+      copiedFiles.push(destRel);
+      return;
+    }
     if (!isDry) {
       await fse.copy(abs, dest, { overwrite: true });
       // preserve times
       const s = fs.statSync(abs);
       fs.utimesSync(dest, s.atime, s.mtime);
     }
-    copiedFiles.push(path.relative(newRoot, dest).replace(/\\/g, "/"));
+    copiedFiles.push(destRel);
+  };
+  for (const abs of siblingMatches) {
+    await copyFile(abs, path.join(targetDirAbs, path.basename(abs)));
   }
 
-  // update component TS if standalone requested (best-effort)
+  const compRel = path.relative(oldRoot, compTsOldAbs).replace(/\\/g, "/");
+  const tsFiles = await listFilesByGlob(oldRoot, SOURCE_GLOBS, IGNORE_GLOBS);
+  let declarables: DeclarableIndex | undefined;
+  const declarableIndex = () => declarables ??= buildDeclarableIndex(oldRoot, tsFiles, projectAngularMajor(oldRoot) >= 19);
+
+  // the imports the template needs once the component is standalone
   const compTsNewAbs = path.join(targetDirAbs, `${baseNameNoExt}.ts`);
-  if (args.makeStandalone && fs.existsSync(compTsNewAbs)) {
+  let className: string | undefined;
+  let inferred: StandaloneInference | undefined;
+  if (args.makeStandalone) {
+    try {
+      className = findDecoratedClasses(parseTsFile(compTsOldAbs), "Component")[0]?.className;
+      const source = buildTemplateIndex(oldRoot, [compRel]).sources.find(s => s.component === className);
+      if (className) inferred = inferStandaloneImports(declarableIndex(), compRel, className, source?.text ?? "");
+    } catch (e: any) {
+      errors.push({ file: args.componentTsPath, error: `standalone import inference failed: ${e?.message ?? e}` });
+    }
+  }
+
+  // follow imports and template usages through the old project; copy what the new project lacks
+  let dependencies: DependencyNode | undefined;
+  const planned = new Set<string>();
+  if (args.includeDependencies) {
+    try {
+      // project classes the standalone imports array points to are needed as well
+      const roots = (inferred?.imports ?? []).flatMap(i => {
+        const file = resolveRelativeImport(compTsOldAbs, i.from);
+        return file ? [{ file: path.relative(oldRoot, file).replace(/\\/g, "/"), ref: i.name }] : [];
+      });
+      const closure = collectDependencies(oldRoot, compRel, declarableIndex(), roots);
+      dependencies = closure.tree;
+      const own = new Set(siblingMatches.map(f => path.relative(oldRoot, f).replace(/\\/g, "/")));
+      const existing: string[] = [];
+      for (const rel of closure.files.filter(f => !own.has(f) && f !== compRel)) {
+        const dest = path.join(newRoot, mirrorPath(rel, targetAppRoot));
+        if (fs.existsSync(dest)) {
+          const destRel = path.relative(newRoot, dest).replace(/\\/g, "/");
+          skipped.push(destRel);
+          existing.push(destRel);
+          continue;
+        }
+        await copyFile(path.join(oldRoot, rel), dest, true);
+        planned.add(rel);
+      }
+      notes.push(`dependencies: ${closure.files.length - 1} file(s) in the closure of ${compRel}, ${planned.size} copied`);
+      if (existing.length) notes.push(`dependencies: already in the new project, left as they are: ${existing.join(", ")}`);
+      if (closure.unresolved.length) notes.push(`dependencies: unresolved imports: ${closure.unresolved.map(u => `'${u.specifier}' in ${u.file}`).join(", ")}`);
+      if (args.makeStandalone) notes.push("dependencies: only the migrated component is made standalone; its dependencies keep their declarations");
+      if (markedDeclared.length) notes.push(`dependencies: standalone: false added to ${markedDeclared.join(", ")}, which stay declared in their NgModule now that classes are standalone by default`);
+    } catch (e: any) {
+      errors.push({ file: args.componentTsPath, error: `dependency closure failed: ${e?.message ?? e}` });
+    }
+  }
+
+  // old path aliases the copied imports still use
+  if (importPaths.rewritten.length) notes.push(`imports: ${importPaths.rewritten.length} specifier(s) rewritten for the new layout`);
+  if (importPaths.missingAliases.length) {
+    const patterns = importPaths.missingAliases.map(a => a.pattern).join(", ");
+    const added = args.addMissingAliases ? addPathAliases(newRoot, importPaths.missingAliases.map(({ pattern, targets }) => ({ pattern, targets }))) : undefined;
+    if (added) {
+      if (!isDry) fs.writeFileSync(path.join(newRoot, added.file), added.after, "utf8");
+      updatedFiles.push(added.file);
+      notes.push(`imports: added paths ${added.added.join(", ")} to ${added.file}`);
+    } else {
+      notes.push(`imports: the new project's tsconfig has no paths for ${patterns}; add them (or pass addMissingAliases): ${importPaths.missingAliases.map(a => `"${a.pattern}": ${JSON.stringify(a.targets)}`).join(", ")}`);
+    }
+  }
+
+  // analyze the original template: project declarables it needs, library elements, control-flow issues
+  let template: TemplateInfo | undefined;
+  try {
+    const index = buildTemplateIndex(oldRoot, tsFiles);
+    const source = index.sources.find(s => s.owner === compRel);
+    if (source) {
+      template = analyzeTemplate(source, index);
+      const migrated = (file: string) => {
+        if (planned.has(file)) return true;
+        const rel = relativizeUnderSrcApp(path.join(oldRoot, file), oldRoot);
+        return !!rel && fs.existsSync(path.join(newRoot, targetAppRoot, rel));
+      };
+      const deps = [
+        ...template.components.map(c => ({ label: `<${c.selector}> (${c.className})`, file: c.file })),
+        ...template.pipes.filter(p => p.source === "project").map(p => ({ label: `| ${p.name} (${p.className})`, file: p.file! })),
+      ].filter(d => d.file !== compRel && !migrated(d.file));
+      if (deps.length) notes.push(`template: uses project declarables not yet in the new project: ${deps.map(d => `${d.label} from ${d.file}`).join(", ")}`);
+      if (template.unknownElements.length) notes.push(`template: elements from outside the project (import their modules): ${template.unknownElements.join(", ")}`);
+      const blockers = template.issues.filter(i => i.severity === "blocker");
+      if (blockers.length) notes.push(`template: ${blockers.length} issue(s) block the control-flow migration (${[...new Set(blockers.map(i => i.rule))].join(", ")})`);
+    }
+  } catch (e: any) {
+    errors.push({ file: args.componentTsPath, error: `template analysis failed: ${e?.message ?? e}` });
+  }
+
+  // make the copied component standalone, with the imports its template needs
+  let standalone: MigrateComponentResult["standalone"];
+  if (args.makeStandalone && (isDry || fs.existsSync(compTsNewAbs))) {
     try {
-      const code = fs.readFileSync(compTsNewAbs, "utf8");
-      const updated = toggleStandaloneTrue(code);
-      if (updated.changed && !isDry) {
-        fs.writeFileSync(compTsNewAbs, updated.code, "utf8");
+      const code = isDry ? staged.get(compTsNewAbs) ?? fs.readFileSync(compTsOldAbs, "utf8") : fs.readFileSync(compTsNewAbs, "utf8");
+      if (!className || !inferred) {
+        notes.push("standalone: could not find the @Component class.");
+      } else {
+        const updated = convertToStandalone(compTsNewAbs, code, className, inferred.imports, projectAngularMajor(newRoot) >= 19);
+        standalone = { imports: inferred.imports, unresolved: inferred.unresolved };
+        if (updated.changed && !isDry) fs.writeFileSync(compTsNewAbs, updated.code, "utf8");
+        if (updated.changed) updatedFiles.push(path.relative(newRoot, compTsNewAbs).replace(/\\/g, "/"));
+        notes.push(inferred.imports.length
+          ? `standalone: ${className} imports ${inferred.imports.map(i => i.name).join(", ")}`
+          : `standalone: ${className} needs no imports`);
+        if (inferred.unresolved.length) notes.push(`standalone: nothing known provides ${inferred.unresolved.join(", ")}; add the imports by hand`);
+        notes.push(...[...inferred.notes, ...updated.notes].map(n => `standalone: ${n}`));
       }
-      if (updated.changed) updatedFiles.push(path.relative(newRoot, compTsNewAbs).replace(/\\/g, "/"));
-      notes.push(updated.note);
     } catch (e: any) {
       errors.push({ file: compTsNewAbs, error: `standalone transform failed: ${e?.message ?? e}` });
     }
@@ -141,28 +325,36 @@ export async function migrateComponent(args: MigrateComponentArgs): Promise<Migr
       notes.push(`routerConfigPath not found: ${args.route.routerConfigPath} (skipping route wiring)`);
     } else {
       try {
-        const className = detectClassName(compTsNewAbs) ?? "UnknownComponent";
-        const importRel = posixify(path.relative(path.dirname(routerFileAbs), compTsNewAbs).replace(/\.ts$/, ""));
-        const isStandalone = args.makeStandalone ? true : detectStandalone(compTsNewAbs);
+        const compTsAbs = fs.existsSync(compTsNewAbs) ? compTsNewAbs : compTsOldAbs;
+        const className = detectClassName(compTsAbs) ?? "UnknownComponent";
+        const importRel = relativeSpecifier(routerFileAbs, compTsNewAbs);
+        const isStandalone = args.makeStandalone ? true : detectStandalone(compTsAbs, projectAngularMajor(newRoot) >= 19);
+        // guards given as new-project files are imported relative to the routing file
+        const fromRouter = (ref: RouteRef): RouteRef => {
+          if (!ref.from || !/\.ts$|^src\//.test(ref.from)) return ref;
+          return { ...ref, from: relativeSpecifier(routerFileAbs, path.resolve(newRoot, ref.from)) };
+        };
+        const guards = Object.fromEntries(Object.entries(args.route.guards ?? {}).map(([k, refs]) => [k, (refs ?? []).map(fromRouter)]));
 
-        let routerCode = fs.readFileSync(routerFileAbs, "utf8");
-
-        if (isStandalone && args.route.lazy) {
-          // routes: [{ path: 'x', loadComponent: () => import('./path').then(m => m.ClassName) }]
-          const lazySnippet = `{ path: '${args.route.path}', loadComponent: () => import('${importRel}').then(m => m.${className}) }`;
-          routerCode = ensureRoutesArray(routerCode, lazySnippet);
+        const routerCode = fs.readFileSync(routerFileAbs, "utf8");
+        const lazy = isStandalone && !!args.route.lazy;
+        if (args.route.lazy && !isStandalone) notes.push("route: lazy loading needs a standalone component; wired eagerly");
+        const ref = { name: className, from: importRel };
+        const out = addRoute(routerFileAbs, routerCode, {
+          path: args.route.path,
+          parentPath: args.route.parentPath,
+          ...(lazy ? { loadComponent: ref } : { component: ref }),
+          guards,
+          title: args.route.title,
+          data: args.route.data,
+        });
+        if (out.error) {
+          errors.push({ file: args.route.routerConfigPath, error: `route not added: ${out.error}` });
         } else {
-          // import + routes: [{ path: 'x', component: ClassName }]
-          if (!routerCode.includes(`from '${importRel}'`) && !routerCode.includes(`from "${importRel}"`)) {
-            const importLine = `import { ${className} } from '${importRel}';\n`;
-            routerCode = importLine + routerCode;
-          }
-          const eagerSnippet = `{ path: '${args.route.path}', component: ${className} }`;
-          routerCode = ensureRoutesArray(routerCode, eagerSnippet);
+          if (!isDry) fs.writeFileSync(routerFileAbs, out.code, "utf8");
+          updatedFiles.push(path.relative(newRoot, routerFileAbs).replace(/\\/g, "/"));
+          notes.push(`route: '${args.route.path}'${args.route.parentPath ? ` under '${args.route.parentPath}'` : ""} ${lazy ? "loads" : "renders"} ${className}`);
         }
-
-        if (!isDry) fs.writeFileSync(routerFileAbs, routerCode, "utf8");
-        updatedFiles.push(path.relative(newRoot, routerFileAbs).replace(/\\/g, "/"));
       } catch (e: any) {
         errors.push({ file: args.route.routerConfigPath, error: `route wiring failed: ${e?.message ?? e}` });
       }
@@ -170,7 +362,7 @@ export async function migrateComponent(args: MigrateComponentArgs): Promise<Migr
   }
 
   notes.push(`Mode: ${isDry ? "DRY_RUN (no write)" : "WRITE (copied files)"}`);
-  return { from: oldRoot, to: newRoot, createdDirs, copiedFiles, updatedFiles, skipped, notes, errors };
+  return { from: oldRoot, to: newRoot, createdDirs, copiedFiles, updatedFiles, skipped, notes, errors, template, ...(args.rewriteStyles ? { styles } : {}), ...(dependencies ? { dependencies } : {}), ...(importPaths.rewritten.length || importPaths.missingAliases.length ? { importPaths } : {}), ...(standalone ? { standalone } : {}) };
 }
 
 /** helpers */
@@ -187,19 +379,6 @@ function deriveRelFromSrc(absFile: string, oldRoot: string): string {
   return path.dirname(rel).replace(/\\/g, "/");
 }
 
-function toggleStandaloneTrue(code: string): { changed: boolean; code: string; note: string } {
-  // naive best-effort: add standalone:true inside @Component({...})
-  const compDecorator = /@Component\s*\(\s*\{([\s\S]*?)\}\s*\)\s*export\s+class\s+([A-Za-z0-9_]+)/m;
-  const m = code.match(compDecorator);
-  if (!m) return { changed: false, code, note: "standalone: could not find @Component decorator." };
-  if (/standalone\s*:/.test(m[1])) return { changed: false, code, note: "standalone: already present; left as-is." };
-  const injected = code.replace(compDecorator, (_all, obj, cls) => {
-    const withStandalone = `@Component({ standalone: true, ${obj.trim().replace(/^\{|\}$/g, "")} })\nexport class ${cls}`;
-    return withStandalone;
-  });
-  return { changed: true, code: injected, note: "standalone: added standalone:true (best-effort)." };
-}
-
 function extractLocalUrls(html: string): string[] {
   const urls = new Set<string>();
   // src="..."  href="..."
@@ -222,32 +401,20 @@ function detectClassName(compTsPath: string): string | null {
   } catch { return null; }
 }
 
-function detectStandalone(compTsPath: string): boolean {
+function detectStandalone(compTsPath: string, standaloneByDefault: boolean): boolean {
   try {
     const code = fs.readFileSync(compTsPath, "utf8");
-    return /@Component\s*\(\s*\{[\s\S]*?standalone\s*:\s*true/.test(code);
+    const flag = /@Component\s*\(\s*\{[\s\S]*?standalone\s*:\s*(true|false)/.exec(code)?.[1];
+    return flag ? flag === "true" : standaloneByDefault;
   } catch { return false; }
 }
 
-function ensureRoutesArray(code: string, toAdd: string): string {
-  // naive: find first 'Routes' array or 'const routes = [...]'
-  const routesDecl = /(const\s+routes\s*:\s*Routes\s*=\s*\[)([\s\S]*?)(\];)/m;
-  if (routesDecl.test(code)) {
-    return code.replace(routesDecl, (_all, start, body, end) => {
-      if (body.includes(toAdd)) return `${start}${body}${end}`;
-      const trimmed = body.trim();
-      const withComma = trimmed && !trimmed.endsWith(",") ? trimmed + "," : trimmed;
-      return `${start}\n  ${withComma}\n  ${toAdd}\n${end}`;
-    });
-  }
-  // fallback: append minimal routes declaration
-  const header = `import { Routes } from '@angular/router';\n`;
-  const hasHeader = code.includes("@angular/router");
-  const pre = hasHeader ? "" : header;
-  const decl = `\nconst routes: Routes = [\n  ${toAdd}\n];\n`;
-  return pre + code + decl;
-}
-
 function posixify(p: string) {
   return p.split(path.sep).join("/").replace(/\\/g, "/");
 }
+
+// Module specifier from one file to another, relative and without the .ts extension
+function relativeSpecifier(fromFileAbs: string, toFileAbs: string): string {
+  const rel = posixify(path.relative(path.dirname(fromFileAbs), toFileAbs)).replace(/\.ts$/, "");
+  return rel.startsWith(".") ? rel : `./${rel}`;
+}
@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { migrateGuardsInterceptors, MigrateGuardsInterceptorsOptions } from "./migrate_guards_interceptors.js";
+
+export const migrateGuardsInterceptorsTool = {
+  name: "migrate_guards_interceptors",
+  title: "Convert class guards, resolvers and interceptors to functions",
+  description: "Finds class-based CanActivate/CanActivateChild/CanDeactivate/CanMatch/CanLoad guards, Resolve resolvers and HttpInterceptor classes in the old project and writes functional versions (CanActivateFn, ResolveFn, HttpInterceptorFn, ...) using inject() in the new project. Updates the route definitions that use them and moves HTTP_INTERCEPTORS class providers into provideHttpClient(withInterceptors([...])). Classes with state or helpers are reported, not converted. Dry run by default.",
+  inputSchema: {
+    include: z.array(z.string()).optional().describe("Globs of old-project files to look in (default: application and library sources)"),
+    targetAppRoot: z.string().optional().describe("Target app root (optional, default is src/app)"),
+    dryRun: z.boolean().optional().default(true).describe("If true (default), returns diffs without writing"),
+  } as z.ZodRawShape
+};
+
+export async function handleMigrateGuardsInterceptors(request: any) {
+  const projectPath = process.env.PROJECT_PATH;
+  const newProjectPath = process.env.NEW_PROJECT_PATH;
+
+  if (!projectPath || !newProjectPath) {
+    return {
+      content: [{ type: "text", text: "PROJECT_PATH or NEW_PROJECT_PATH is not set in the environment." }],
+      isError: true
+    };
+  }
+
+  const args = request.params?.arguments || request.arguments || request;
+
+  const opts: MigrateGuardsInterceptorsOptions = {
+    projectPath,
+    newProjectPath,
+    include: args.include,
+    targetAppRoot: args.targetAppRoot,
+    dryRun: args.dryRun,
+  };
+
+  const out = await migrateGuardsInterceptors(opts);
+  return { content: [{ type: "text", text: JSON.stringify(out, null, 2) }] };
+}
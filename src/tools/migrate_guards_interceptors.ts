@@ -0,0 +1,178 @@
+import fs from "fs";
+import path from "path";
+import fse from "fs-extra";
+import { ensureInsideAllowed } from "../utils/fs.js";
+import { IGNORE_GLOBS, listFilesByGlob, readTextSafe, SOURCE_GLOBS } from "../utils/scan.js";
+import { parseTsSource } from "../utils/ast.js";
+import { unifiedDiff } from "../utils/diff.js";
+import { mirrorPath } from "../utils/dependencies.js";
+import { rewriteImportPaths } from "../utils/import_paths.js";
+import { readCompilerOptions, resolveProjectImport } from "../utils/tsconfig.js";
+import {
+  convertToFunctional,
+  findFunctionalCandidates,
+  FunctionalKind,
+  FunctionalTarget,
+  rewriteFunctionalUsages,
+} from "../utils/functional_guards.js";
+
+export type MigrateGuardsInterceptorsOptions = {
+  projectPath: string;
+  newProjectPath: string;
+  include?: string[];        // globs relative to the old project; default: application/library sources
+  targetAppRoot?: string;    // where src/app/** lives in the new project (default src/app)
+  dryRun?: boolean;          // default true: return diffs, write nothing
+};
+
+export type MigrateGuardsInterceptorsResult = {
+  from: string;
+  to: string;
+  dryRun: boolean;
+  classes: Array<{
+    className: string;
+    file: string;            // old project
+    line: number;
+    kinds: FunctionalKind[];
+    target: string;          // new project file holding the functions
+    functions?: Array<{ kind: FunctionalKind; name: string }>;
+    created?: boolean;       // the file was not in the new project yet and is written from the old one
+    issues?: string[];       // why the class was left as is
+  }>;
+  usages: Array<{ file: string; line: number; from: string; to: string }>;
+  interceptors: string[];    // functions registered with withInterceptors, in order
+  unconverted: Array<{ file: string; line: number; text: string; reason: string }>;
+  filesChanged: string[];
+  diffs: Array<{ file: string; diff: string }>;
+  notes: string[];
+};
+
+const toPosix = (p: string) => p.replace(/\\/g, "/");
+const HINT = /\b(CanActivate|CanActivateChild|CanDeactivate|CanMatch|CanLoad|Resolve|HttpInterceptor|canActivate|canActivateChild|canDeactivate|canMatch|canLoad|intercept)\b/;
+
+export async function migrateGuardsInterceptors(opts: MigrateGuardsInterceptorsOptions): Promise<MigrateGuardsInterceptorsResult> {
+  const oldRoot = ensureInsideAllowed(opts.projectPath);
+  const newRoot = ensureInsideAllowed(opts.newProjectPath);
+  const dryRun = opts.dryRun ?? true;
+  const targetAppRoot = opts.targetAppRoot ?? "src/app";
+  const notes: string[] = [];
+  notes.push(`Mode: ${dryRun ? "DRY_RUN (no write)" : "WRITE"}`);
+
+  const oldFiles = (await listFilesByGlob(oldRoot, opts.include?.length ? opts.include : SOURCE_GLOBS, [...IGNORE_GLOBS, "**/*.spec.ts"]))
+    .map(toPosix)
+    .filter(f => /\.[cm]?ts$/.test(f) && !f.endsWith(".d.ts"));
+  const oldOptions = readCompilerOptions(oldRoot);
+  const newOptions = readCompilerOptions(newRoot);
+  const newFiles = (await listFilesByGlob(newRoot, SOURCE_GLOBS, IGNORE_GLOBS)).map(toPosix).filter(f => f.endsWith(".ts") && !f.endsWith(".d.ts"));
+
+  // Classes kept because references to them cannot be redirected, with those references
+  const kept = new Map<string, MigrateGuardsInterceptorsResult["unconverted"]>();
+  let run: ReturnType<typeof convertAll>;
+  // Keeping a class can leave other usages behind (a route array mixing two guards); settle first
+  for (;;) {
+    run = convertAll();
+    const blocked = run.unconverted.filter(u => !kept.has(u.className));
+    if (!blocked.length) break;
+    for (const { className, ...u } of blocked) kept.set(className, [...kept.get(className) ?? [], u]);
+  }
+  const { staged, classes, usages, interceptors } = run;
+
+  function convertAll() {
+    // New-project file contents as they will be written, by project path
+    const staged = new Map<string, { before: string; code: string }>();
+    const current = (rel: string) => staged.get(rel)?.code ?? readTextSafe(path.join(newRoot, rel));
+
+    //#region Classes of the old project -> functions in the new one
+
+    const classes: MigrateGuardsInterceptorsResult["classes"] = [];
+    const targets: FunctionalTarget[] = [];
+    for (const rel of oldFiles) {
+      const text = readTextSafe(path.join(oldRoot, rel));
+      if (!HINT.test(text)) continue;
+      const candidates = findFunctionalCandidates(parseTsSource(rel, text));
+      if (!candidates.length) continue;
+
+      const target = mirrorPath(rel, targetAppRoot);
+      const exists = staged.has(target) || fs.existsSync(path.join(newRoot, target));
+      // Not migrated yet: start from the old file with its imports pointed at the new layout
+      let code = exists
+        ? current(target)
+        : rewriteImportPaths(rel, text, { oldRoot, newRoot, oldOptions, newOptions, place: r => mirrorPath(r, targetAppRoot) }).code;
+      const before = exists ? staged.get(target)?.before ?? code : "";
+
+      for (const c of candidates) {
+        const entry: MigrateGuardsInterceptorsResult["classes"][number] = { className: c.className, file: rel, line: c.line, kinds: c.kinds, target };
+        const refs = kept.get(c.className);
+        const out = refs ? undefined : convertToFunctional(target, code, c.className);
+        if (refs) {
+          entry.issues = refs.map(r => `still referenced in ${r.file}:${r.line} (${r.text}); the class is kept`);
+        } else if (out!.conversion) {
+          code = out!.code;
+          entry.functions = out!.conversion.functions;
+          if (!exists) entry.created = true;
+          targets.push({ ...out!.conversion, file: target });
+        } else {
+          entry.issues = new RegExp(`\\bclass\\s+${c.className}\\b`).test(code) ? out!.issues : [`no class ${c.className} in ${target} of the new project (already converted?)`];
+        }
+        classes.push(entry);
+      }
+      if (code !== before && classes.some(c => c.target === target && c.functions)) staged.set(target, { before, code });
+    }
+
+    //#endregion
+
+    //#region Route definitions and interceptor registration in the new project
+
+    const usages: MigrateGuardsInterceptorsResult["usages"] = [];
+    const unconverted: Array<MigrateGuardsInterceptorsResult["unconverted"][number] & { className: string }> = [];
+    const interceptors: string[] = [];
+    if (targets.length) {
+      for (const rel of [...new Set([...newFiles, ...staged.keys()])]) {
+        const code = current(rel);
+        if (!targets.some(t => code.includes(t.className))) continue;
+        const fromAbs = path.join(newRoot, rel);
+        // Files created above exist only in `staged` during a dry run
+        const resolve = (spec: string) => resolveProjectImport(newRoot, fromAbs, spec, newOptions)
+          ?? (spec.startsWith(".") ? [".ts", "/index.ts"].map(ext => path.posix.join(path.posix.dirname(rel), spec) + ext).find(f => staged.has(f)) : undefined);
+        const out = rewriteFunctionalUsages(rel, code, targets, resolve);
+        usages.push(...out.applied.map(a => ({ file: rel, ...a })));
+        interceptors.push(...out.interceptors);
+        for (const l of out.leftovers) {
+          const reason = /HTTP_INTERCEPTORS/.test(l.text) || /useClass/.test(l.text)
+            ? "class interceptor provider and no provideHttpClient to register the function with"
+            : "refers to the class (injection, TestBed, a base class...); the function cannot stand in for it";
+          unconverted.push({ file: rel, ...l, reason });
+        }
+        if (out.code !== code) staged.set(rel, { before: staged.get(rel)?.before ?? code, code: out.code });
+      }
+    }
+
+    //#endregion
+
+    return { staged, classes, usages, interceptors, unconverted };
+  }
+
+  // The references that kept a class in place
+  const unconverted = [...kept.values()].flat();
+
+  const diffs: MigrateGuardsInterceptorsResult["diffs"] = [];
+  const filesChanged: string[] = [];
+  for (const [rel, { before, code }] of staged) {
+    filesChanged.push(rel);
+    diffs.push({ file: rel, diff: unifiedDiff(rel, before, code) });
+    if (dryRun) continue;
+    await fse.ensureDir(path.dirname(path.join(newRoot, rel)));
+    fs.writeFileSync(path.join(newRoot, rel), code, "utf-8");
+  }
+
+  const converted = classes.filter(c => c.functions);
+  notes.push(`${converted.length} of ${classes.length} class(es) converted to functions`);
+  if (kept.size) notes.push(`Kept as classes, still referenced where a function cannot stand in: ${[...kept.keys()].join(", ")}`);
+  const created = converted.filter(c => c.created).map(c => c.target);
+  if (created.length) notes.push(`Not in the new project yet, written from the old project: ${[...new Set(created)].join(", ")}; migrate the services they inject as well`);
+  if (interceptors.length) {
+    notes.push("withInterceptors([...]) is placed before withInterceptorsFromDi(), so the converted interceptors run before the class ones left; check the order where it matters");
+  }
+  if (converted.some(c => c.kinds.includes("canLoad"))) notes.push("canLoad is deprecated; move lazy-load checks to canMatch");
+
+  return { from: oldRoot, to: newRoot, dryRun, classes, usages, interceptors, unconverted, filesChanged, diffs, notes };
+}
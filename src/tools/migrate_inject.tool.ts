@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { migrateInject, MigrateInjectOptions } from "./migrate_inject.js";
+
+export const migrateInjectTool = {
+  name: "migrate_inject",
+  title: "Convert constructor injection to inject()",
+  description: "Rewrites constructor parameter injection (including @Inject, @Optional, @Self, @SkipSelf and @Host) of the new project's components, directives, pipes, services and modules into inject() field initializers, for one migrated file or a folder. Parameters passed to super(...) are injected before that call in their original order. Classes other code constructs with arguments (subclasses, new X(...)) and parameters inject() cannot express are reported as skipped. Dry run by default.",
+  inputSchema: {
+    path: z.string().optional().describe("File or folder of the new project to convert, relative to it (default: src/app)"),
+    dryRun: z.boolean().optional().default(true).describe("If true (default), returns diffs without writing"),
+  } as z.ZodRawShape
+};
+
+export async function handleMigrateInject(request: any) {
+  const newProjectPath = process.env.NEW_PROJECT_PATH;
+
+  if (!newProjectPath) {
+    return {
+      content: [{ type: "text", text: "NEW_PROJECT_PATH is not set in the environment." }],
+      isError: true
+    };
+  }
+
+  const args = request.params?.arguments || request.arguments || request;
+
+  const opts: MigrateInjectOptions = {
+    projectPath: newProjectPath,
+    path: args.path,
+    dryRun: args.dryRun,
+  };
+
+  const out = await migrateInject(opts);
+  return { content: [{ type: "text", text: JSON.stringify(out, null, 2) }] };
+}
@@ -0,0 +1,71 @@
+import fs from "fs";
+import path from "path";
+import { ensureInsideAllowed } from "../utils/fs.js";
+import { IGNORE_GLOBS, listFilesByGlob, readTextSafe, SOURCE_GLOBS } from "../utils/scan.js";
+import { unifiedDiff } from "../utils/diff.js";
+import { constructorDependents, convertConstructorInjection } from "../utils/inject.js";
+
+export type MigrateInjectOptions = {
+  projectPath: string;       // the new project
+  path?: string;             // file or folder relative to the project (default src/app)
+  dryRun?: boolean;          // default true: return diffs, write nothing
+};
+
+export type MigrateInjectResult = {
+  projectPath: string;
+  path: string;
+  dryRun: boolean;
+  filesScanned: number;
+  filesChanged: string[];
+  converted: Array<{ file: string; className: string; line: number; injected: string[] }>;
+  skipped: Array<{ file: string; className: string; line: number; reason: string }>;
+  diffs: Array<{ file: string; diff: string }>;
+  notes: string[];
+};
+
+const toPosix = (p: string) => p.replace(/\\/g, "/");
+
+export async function migrateInject(opts: MigrateInjectOptions): Promise<MigrateInjectResult> {
+  const abs = ensureInsideAllowed(opts.projectPath);
+  const dryRun = opts.dryRun ?? true;
+  const targetAbs = ensureInsideAllowed(path.resolve(abs, opts.path ?? "src/app"));
+  const target = toPosix(path.relative(abs, targetAbs)) || ".";
+  if (target === ".." || target.startsWith("../") || path.isAbsolute(target)) throw new Error(`path must be inside the project: ${opts.path}`);
+  if (!fs.existsSync(targetAbs)) throw new Error(`Not found in the project: ${target}`);
+
+  const isFile = fs.statSync(targetAbs).isFile();
+  const files = isFile
+    ? [target]
+    : (await listFilesByGlob(targetAbs, ["**/*.ts"], IGNORE_GLOBS)).map(f => toPosix(path.posix.join(target, toPosix(f))));
+  const tsFiles = files.filter(f => /\.[cm]?ts$/.test(f) && !f.endsWith(".d.ts"));
+
+  // Subclasses and `new X(...)` anywhere in the project keep a constructor's parameters in use
+  const sources = (await listFilesByGlob(abs, SOURCE_GLOBS, IGNORE_GLOBS)).map(toPosix);
+  const dependents = constructorDependents([...new Set([...sources, ...tsFiles])].map(file => ({ file, code: readTextSafe(path.join(abs, file)) })));
+
+  const converted: MigrateInjectResult["converted"] = [];
+  const skipped: MigrateInjectResult["skipped"] = [];
+  const diffs: MigrateInjectResult["diffs"] = [];
+  const filesChanged: string[] = [];
+  for (const file of tsFiles) {
+    const before = readTextSafe(path.join(abs, file));
+    const out = convertConstructorInjection(file, before, dependents);
+    skipped.push(...out.skipped.map(s => ({ file, ...s })));
+    if (out.code === before) continue;
+    converted.push(...out.converted.map(c => ({ file, ...c })));
+    filesChanged.push(file);
+    diffs.push({ file, diff: unifiedDiff(file, before, out.code) });
+    if (!dryRun) fs.writeFileSync(path.join(abs, file), out.code, "utf-8");
+  }
+
+  const notes: string[] = [];
+  notes.push(`Mode: ${dryRun ? "DRY_RUN (no write)" : "WRITE"}`);
+  notes.push(`${converted.length} class(es) converted, ${skipped.length} skipped`);
+  if (skipped.some(s => s.reason.startsWith("its constructor is called"))) {
+    notes.push("Base classes keep their constructors while subclasses pass them arguments through super(...); specs calling new X(...) can use TestBed.inject(X) instead");
+  }
+  if (diffs.some(d => /^\+.*inject[^(]*\([^)]*optional: true/m.test(d.diff))) {
+    notes.push("inject(X, { optional: true }) is typed X | null; fields declared as X without null may need checks");
+  }
+  return { projectPath: abs, path: target, dryRun, filesScanned: tsFiles.length, filesChanged, converted, skipped, diffs, notes };
+}
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import semver from "semver";
+import { migrateMaterial, MigrateMaterialOptions } from "./migrate_material.js";
+
+export const migrateMaterialTool = {
+  name: "migrate_material",
+  title: "Angular Material and CDK upgrade assistant",
+  description: "Per-component Angular Material report: legacy (MatLegacy*, @angular/material/legacy-*) and barrel imports, template usage, styles overriding pre-MDC class names, removed theming mixins and the MDC changes to review, plus CDK Sass globals and version mismatches. Optionally rewrites the import paths to the MDC entry points (dry run by default).",
+  inputSchema: {
+    target: z.enum(["project", "newProject"]).optional().default("project").describe("Report on / rewrite the old project or the new project (default: project)"),
+    include: z.array(z.string()).optional().describe("Globs of files to scan, relative to the project (default: application and library sources)"),
+    targetAngularVersion: z.string().optional().describe("Angular Material major to migrate to, e.g. \"17\" (default: the project's own major from 15 on, else the newest known)"),
+    rewriteImports: z.boolean().optional().default(false).describe("If true, moves legacy and @angular/material barrel imports to the component entry points"),
+    dryRun: z.boolean().optional().default(true).describe("If true (default), returns diffs without writing"),
+  } as z.ZodRawShape
+};
+
+export async function handleMigrateMaterial(request: any) {
+  const args = request.params?.arguments || request.arguments || request;
+  const projectPath = args.target === "newProject" ? process.env.NEW_PROJECT_PATH : process.env.PROJECT_PATH;
+
+  if (!projectPath) {
+    return {
+      content: [{ type: "text", text: `${args.target === "newProject" ? "NEW_PROJECT_PATH" : "PROJECT_PATH"} is not set in the environment.` }],
+      isError: true
+    };
+  }
+
+  const opts: MigrateMaterialOptions = {
+    projectPath,
+    include: args.include,
+    targetMajor: args.targetAngularVersion ? semver.coerce(String(args.targetAngularVersion))?.major : undefined,
+    rewriteImports: args.rewriteImports,
+    dryRun: args.dryRun,
+  };
+
+  const out = await migrateMaterial(opts);
+  return { content: [{ type: "text", text: JSON.stringify(out, null, 2) }] };
+}
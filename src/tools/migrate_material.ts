@@ -0,0 +1,71 @@
+import fs from "fs";
+import path from "path";
+import { ensureInsideAllowed } from "../utils/fs.js";
+import { IGNORE_GLOBS, listFilesByGlob, readTextSafe, SOURCE_GLOBS } from "../utils/scan.js";
+import { unifiedDiff } from "../utils/diff.js";
+import { analyzeMaterial, MaterialAnalysis, rewriteMaterialImports } from "../utils/material.js";
+import { NEWEST_KNOWN_RELEASE } from "../utils/angular_versions.js";
+import { projectAngularMajor } from "../utils/workspace.js";
+
+export type MigrateMaterialOptions = {
+  projectPath: string;       // project to report on / rewrite (old project in place, or the new one)
+  include?: string[];        // globs relative to the project; default: application/library sources
+  targetMajor?: number;      // default: the project's own Angular major from 15 on, else the newest known release
+  rewriteImports?: boolean;  // default false: report only
+  dryRun?: boolean;          // default true: return diffs, write nothing
+};
+
+export type MigrateMaterialResult = {
+  projectPath: string;
+  dryRun: boolean;
+  report: MaterialAnalysis;
+  filesChanged: string[];
+  applied: Array<{ file: string; line: number; from: string; to: string[] }>;
+  unresolved: Array<{ file: string; line: number; symbol: string; from: string; note: string }>;
+  diffs: Array<{ file: string; diff: string }>;
+  notes: string[];
+};
+
+export async function migrateMaterial(opts: MigrateMaterialOptions): Promise<MigrateMaterialResult> {
+  const abs = ensureInsideAllowed(opts.projectPath);
+  const dryRun = opts.dryRun ?? true;
+  const sourceGlobs = opts.include?.length ? opts.include : SOURCE_GLOBS;
+  const files = await listFilesByGlob(abs, sourceGlobs, IGNORE_GLOBS);
+  const tsFiles = files.filter(f => /\.(ts|mts|cts)$/.test(f) && !f.endsWith(".d.ts"));
+  const htmlFiles = await listFilesByGlob(abs, sourceGlobs.map(g => g.replace(/\.ts$/, ".html")), IGNORE_GLOBS);
+  const styleFiles = await listFilesByGlob(abs, sourceGlobs.flatMap(g => ["css", "scss", "sass", "less"].map(ext => g.replace(/\.ts$/, `.${ext}`))), IGNORE_GLOBS);
+
+  const own = projectAngularMajor(abs);
+  const targetMajor = opts.targetMajor ?? (own >= 15 ? own : NEWEST_KNOWN_RELEASE);
+  const report = analyzeMaterial(abs, tsFiles, htmlFiles, styleFiles, targetMajor);
+
+  const applied: MigrateMaterialResult["applied"] = [];
+  const unresolved: MigrateMaterialResult["unresolved"] = [];
+  const diffs: MigrateMaterialResult["diffs"] = [];
+  const filesChanged: string[] = [];
+  if (opts.rewriteImports) {
+    for (const rel of tsFiles) {
+      const file = rel.replace(/\\/g, "/");
+      const before = readTextSafe(path.join(abs, rel));
+      const out = rewriteMaterialImports(file, before);
+      unresolved.push(...out.unresolved.map(u => ({ file, ...u })));
+      if (out.code === before) continue;
+      filesChanged.push(file);
+      applied.push(...out.applied.map(a => ({ file, ...a })));
+      diffs.push({ file, diff: unifiedDiff(file, before, out.code) });
+      if (!dryRun) fs.writeFileSync(path.join(abs, rel), out.code, "utf-8");
+    }
+  }
+
+  const notes: string[] = [];
+  notes.push(`Mode: ${!opts.rewriteImports ? "REPORT" : dryRun ? "DRY_RUN (no write)" : "WRITE"}`);
+  notes.push(...report.versionIssues);
+  const pending = report.components.filter(c => c.status !== "ok");
+  if (pending.length) {
+    notes.push(`${pending.length} component(s) change implementation on the way to Material ${targetMajor} (${pending.map(c => c.component).join(", ")}); review each one's changes, class overrides and theme mixins`);
+  }
+  if (report.legacyImports && targetMajor >= 17) notes.push("Legacy entry points are gone in Material 17: move every legacy import first (rewriteImports) and re-test the components");
+  if (!opts.rewriteImports && report.fixableImports) notes.push(`${report.fixableImports} legacy or @angular/material barrel import(s) can be moved with rewriteImports`);
+
+  return { projectPath: abs, dryRun, report, filesChanged, applied, unresolved, diffs, notes };
+}
@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { migrateModule, MigrateModuleOptions } from "./migrate_module.js";
+
+export const migrateModuleTool = {
+  name: "migrate_module",
+  title: "Migrate an NgModule feature",
+  description: "Migrates a whole NgModule feature (a *.module.ts from analyze_project's module list) to the new project: every declared component, directive and pipe, its providers, its -routing.module.ts and every file they depend on, preserving the folder structure. Optionally converts the declarations to standalone and replaces a routed module by a Routes file loaded with loadChildren: () => import(...).then(m => m.ROUTES). Reports what it could not convert. Dry run by default.",
+  inputSchema: {
+    modulePath: z.string().describe("Path to the *.module.ts file, relative to the old project"),
+    moduleName: z.string().optional().describe("NgModule class to migrate when the file declares several (default: the first one)"),
+    targetAppRoot: z.string().optional().describe("Target app root (optional, default is src/app)"),
+    makeStandalone: z.boolean().optional().default(false).describe("If true, converts the declarations to standalone (imports inferred from the templates); a routed module becomes a ROUTES file and its lazy route in the new project is rewired"),
+    rewriteStyles: z.boolean().optional().default(false).describe("If true, rewrites the copied stylesheets (/deep/, ~ imports, math.div, Angular Material theming) for the new project's Angular version"),
+    addMissingAliases: z.boolean().optional().default(false).describe("If true, adds the old tsconfig path aliases the copied imports still use (e.g. @app/*) to the new project's tsconfig, mapped to the new layout; otherwise they are reported"),
+    dryRun: z.boolean().optional().default(true).describe("If true (default), returns the plan and diffs without writing"),
+  } as z.ZodRawShape
+};
+
+export async function handleMigrateModule(request: any) {
+  const projectPath = process.env.PROJECT_PATH;
+  const newProjectPath = process.env.NEW_PROJECT_PATH;
+
+  if (!projectPath || !newProjectPath) {
+    return {
+      content: [{ type: "text", text: "PROJECT_PATH or NEW_PROJECT_PATH is not set in the environment." }],
+      isError: true
+    };
+  }
+
+  const args = request.params?.arguments || request.arguments || request;
+
+  const opts: MigrateModuleOptions = {
+    projectPath,
+    newProjectPath,
+    modulePath: args.modulePath,
+    moduleName: args.moduleName,
+    targetAppRoot: args.targetAppRoot,
+    makeStandalone: args.makeStandalone,
+    rewriteStyles: args.rewriteStyles,
+    addMissingAliases: args.addMissingAliases,
+    dryRun: args.dryRun,
+  };
+
+  const out = await migrateModule(opts);
+  return { content: [{ type: "text", text: JSON.stringify(out, null, 2) }] };
+}
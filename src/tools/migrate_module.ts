@@ -0,0 +1,505 @@
+import fs from "fs";
+import path from "path";
+import fse from "fs-extra";
+import ts from "typescript";
+import { ensureInsideAllowed } from "../utils/fs.js";
+import { IGNORE_GLOBS, listFilesByGlob, readTextSafe, SOURCE_GLOBS } from "../utils/scan.js";
+import { findDecoratedClasses, getImportBindings, getProperty, getTopLevelConsts, parseTsFile, parseTsSource, unwrapExpression, walk } from "../utils/ast.js";
+import { applyEdits, quoteStyle, TextEdit } from "../utils/codemod.js";
+import { unifiedDiff } from "../utils/diff.js";
+import { readLoadTarget, readNgModules } from "../utils/ng_modules.js";
+import { collectDependencies, DependencyNode, mirrorPath } from "../utils/dependencies.js";
+import { buildDeclarableIndex, convertToStandalone, inferStandaloneImports, markNotStandalone, NON_TEMPLATE_MODULES } from "../utils/standalone.js";
+import { addPathAliases, readCompilerOptions, resolveProjectImport } from "../utils/tsconfig.js";
+import { ImportPathContext, ImportPathReport, recordImportPaths, rewriteImportPaths } from "../utils/import_paths.js";
+import { isStyleFile, rewriteStylesForCopy, StyleCopy } from "../utils/styles.js";
+import { buildTemplateIndex } from "../utils/templates.js";
+import { projectAngularMajor } from "../utils/workspace.js";
+
+export type MigrateModuleOptions = {
+  projectPath: string;
+  newProjectPath: string;
+  modulePath: string;          // *.module.ts, relative to the old project
+  moduleName?: string;         // NgModule class, when the file holds several
+  targetAppRoot?: string;      // default src/app
+  makeStandalone?: boolean;    // convert the declarations; a routed module becomes a Routes file
+  rewriteStyles?: boolean;     // apply the safe stylesheet rewrites while copying
+  addMissingAliases?: boolean; // add the old tsconfig path aliases the copied imports use to the new tsconfig
+  dryRun?: boolean;            // default true: report and diff, write nothing
+};
+
+export type MigrateModuleResult = {
+  from: string;
+  to: string;
+  dryRun: boolean;
+  module: { name: string; file: string; routing?: string };
+  declarations: Array<{
+    className: string;
+    kind: "component" | "directive" | "pipe" | "unknown";
+    file?: string;
+    imports?: string[];        // standalone `imports` inferred from the template
+    unresolved?: string[];
+  }>;
+  providers: string[];
+  routesFile?: string;         // created with makeStandalone for a routed module
+  copiedFiles: string[];
+  createdFiles: string[];
+  updatedFiles: string[];      // files of the new project changed in place (lazy routes, tsconfig paths)
+  skipped: string[];           // already in the new project, left as they are
+  dependencies: DependencyNode;
+  unconverted: Array<{ item: string; reason: string }>;
+  diffs: Array<{ file: string; diff: string }>;
+  importPaths: ImportPathReport;   // specifiers rewritten for the new layout, old aliases the new tsconfig lacks
+  styles?: StyleCopy[];
+  notes: string[];
+};
+
+const toPosix = (p: string) => p.replace(/\\/g, "/");
+
+//#region Module source
+
+// `RouterModule.forChild(...)` call of a file, if any
+function findForChild(sf: ts.SourceFile): ts.CallExpression | undefined {
+  let found: ts.CallExpression | undefined;
+  walk(sf, n => {
+    if (found || !ts.isCallExpression(n)) return;
+    const callee = unwrapExpression(n.expression);
+    if (ts.isPropertyAccessExpression(callee) && callee.expression.getText(sf) === "RouterModule" && callee.name.text === "forChild") found = n;
+  });
+  return found;
+}
+
+// Elements of an array property of a decorator, as source nodes (spreads kept)
+function arrayElements(meta: ts.ObjectLiteralExpression, name: string): ts.Expression[] {
+  const value = getProperty(meta, name);
+  if (!value) return [];
+  const e = unwrapExpression(value);
+  return ts.isArrayLiteralExpression(e) ? [...e.elements] : [e];
+}
+
+// Identifiers an expression reads (property names and member names excluded)
+function referencedNames(node: ts.Node): Set<string> {
+  const names = new Set<string>();
+  walk(node, n => {
+    if (!ts.isIdentifier(n)) return;
+    const p = n.parent;
+    if (p && ts.isPropertyAssignment(p) && p.name === n) return;
+    if (p && ts.isPropertyAccessExpression(p) && p.name === n) return;
+    names.add(n.text);
+  });
+  return names;
+}
+
+// Edits moving `declarations` into `imports`: how an NgModule keeps exporting standalone classes
+function moveDeclarationsToImports(sf: ts.SourceFile, meta: ts.ObjectLiteralExpression): TextEdit[] {
+  const props = meta.properties;
+  const decl = props.find(p => ts.isPropertyAssignment(p) && p.name.getText(sf) === "declarations") as ts.PropertyAssignment | undefined;
+  if (!decl) return [];
+  const init = unwrapExpression(decl.initializer);
+  const moved = ts.isArrayLiteralExpression(init) ? init.elements.map(e => e.getText(sf)) : [`...${init.getText(sf)}`];
+  const imports = props.find(p => ts.isPropertyAssignment(p) && p.name.getText(sf) === "imports") as ts.PropertyAssignment | undefined;
+  if (!imports) return [{ start: decl.name.getStart(sf), end: decl.name.end, text: "imports" }];
+
+  const edits: TextEdit[] = [];
+  const k = props.indexOf(decl);
+  edits.push(k < props.length - 1
+    ? { start: decl.getStart(sf), end: props[k + 1].getStart(sf), text: "" }
+    : { start: k > 0 ? props[k - 1].end : decl.getStart(sf), end: decl.end, text: "" });
+  const arr = unwrapExpression(imports.initializer);
+  if (ts.isArrayLiteralExpression(arr)) {
+    const last = arr.elements[arr.elements.length - 1];
+    edits.push(last
+      ? { start: last.end, end: last.end, text: `, ${moved.join(", ")}` }
+      : { start: arr.getStart(sf) + 1, end: arr.end - 1, text: moved.join(", ") });
+  } else {
+    edits.push({ start: arr.getStart(sf), end: arr.end, text: `[...${arr.getText(sf)}, ${moved.join(", ")}]` });
+  }
+  return edits;
+}
+
+//#endregion
+
+//#region Routes file
+
+type RoutesSource = { sf: ts.SourceFile; rel: string; routes: ts.Expression; consumed?: string };
+
+/**
+ * `export const ROUTES: Routes` with the feature's routes, the module providers
+ * moved onto a componentless parent route, and the imports and top-level
+ * declarations the routes refer to.
+ */
+function buildRoutesFile(routesRel: string, source: RoutesSource, moduleSf: ts.SourceFile, providers: ts.Expression[], moduleProviders: string[]): string {
+  const q = quoteStyle(source.sf);
+  const routesDir = path.posix.dirname(routesRel);
+  const nodes: Array<{ sf: ts.SourceFile; node: ts.Node }> = [{ sf: source.sf, node: source.routes }, ...providers.map(node => ({ sf: moduleSf, node }))];
+
+  // Top-level consts and functions of the routing file the routes use (guards, child route arrays)
+  const statements: string[] = [];
+  const copied = new Set<string>();
+  const taken = new Set<ts.Statement>();
+  const declared = new Map<string, ts.Statement>();
+  for (const st of source.sf.statements) {
+    if (ts.isVariableStatement(st)) {
+      for (const d of st.declarationList.declarations) if (ts.isIdentifier(d.name) && d.name.text !== source.consumed) declared.set(d.name.text, st);
+    } else if (ts.isFunctionDeclaration(st) && st.name) {
+      declared.set(st.name.text, st);
+    }
+  }
+  const pending = [...nodes];
+  while (pending.length) {
+    const { sf, node } = pending.shift()!;
+    if (sf !== source.sf) continue;
+    for (const name of referencedNames(node)) {
+      const st = declared.get(name);
+      if (!st || copied.has(name)) continue;
+      copied.add(name);
+      if (taken.has(st)) continue;
+      taken.add(st);
+      statements.push(st.getText(sf));
+      pending.push({ sf, node: st });
+      nodes.push({ sf, node: st });
+    }
+  }
+
+  // Imports of whatever the copied text refers to, rebased onto the routes file's folder
+  const imports = new Map<string, Set<string>>();
+  const addImport = (from: string, spec: string) => imports.set(from, (imports.get(from) ?? new Set()).add(spec));
+  addImport("@angular/router", "Routes");
+  if (moduleProviders.some(p => p.startsWith("importProvidersFrom("))) addImport("@angular/core", "importProvidersFrom");
+  for (const { sf, node } of nodes) {
+    const bindings = getImportBindings(sf);
+    const fromDir = path.posix.dirname(toPosix(path.relative(path.dirname(source.sf.fileName), sf.fileName)));
+    for (const name of referencedNames(node)) {
+      const b = bindings.get(name);
+      if (!b || copied.has(name)) continue;
+      let from = b.from;
+      if (from.startsWith(".")) {
+        from = path.posix.relative(routesDir, path.posix.join(path.posix.dirname(source.rel), fromDir, from));
+        if (!from.startsWith(".")) from = `./${from}`;
+      }
+      addImport(from, b.imported === "default" ? `default as ${name}` : b.imported === "*" ? `* as ${name}` : b.imported === name ? name : `${b.imported} as ${name}`);
+    }
+  }
+  const importLines = [...imports].map(([from, specs]) => {
+    const all = [...specs];
+    const ns = all.find(s => s.startsWith("* as "));
+    if (ns) return `import ${ns} from ${q}${from}${q};`;
+    const def = all.find(s => s.startsWith("default as "));
+    const named = all.filter(s => s !== def);
+    const head = def ? def.slice("default as ".length) : "";
+    return `import ${[head, named.length ? `{ ${named.join(", ")} }` : ""].filter(Boolean).join(", ")} from ${q}${from}${q};`;
+  });
+
+  const routesText = source.routes.getText(source.sf);
+  const body = moduleProviders.length
+    ? [
+      "[",
+      "  {",
+      `    path: ${q}${q},`,
+      `    providers: [${moduleProviders.join(", ")}],`,
+      `    children: ${routesText.replace(/\n/g, "\n    ")},`,
+      "  },",
+      "]",
+    ].join("\n")
+    : routesText;
+  return [
+    ...importLines,
+    "",
+    ...statements.flatMap(s => [s, ""]),
+    `export const ROUTES: Routes = ${body};`,
+    "",
+  ].join("\n");
+}
+
+// Does a loadChildren import path (relative to `fromRel`, or to the app root when legacy) point at `targetRel`?
+function pointsTo(fromRel: string, importPath: string, legacy: boolean, targetRel: string): boolean {
+  const bases = [path.posix.dirname(fromRel), ...(legacy ? ["", "src"] : [])];
+  const target = targetRel.replace(/\.ts$/, "");
+  return bases.some(b => {
+    const p = path.posix.normalize(path.posix.join(b, importPath)).replace(/\.ts$/, "");
+    return p === target || p === `${target}/index`;
+  });
+}
+
+//#endregion
+
+export async function migrateModule(opts: MigrateModuleOptions): Promise<MigrateModuleResult> {
+  const oldRoot = ensureInsideAllowed(opts.projectPath);
+  const newRoot = ensureInsideAllowed(opts.newProjectPath);
+  const dryRun = opts.dryRun ?? true;
+  const targetAppRoot = opts.targetAppRoot ?? "src/app";
+  const notes: string[] = [];
+  const unconverted: MigrateModuleResult["unconverted"] = [];
+  const diffs: MigrateModuleResult["diffs"] = [];
+
+  const moduleRel = toPosix(path.relative(oldRoot, path.resolve(oldRoot, opts.modulePath.replace(/^[\\/]+/, ""))));
+  const moduleAbs = path.join(oldRoot, moduleRel);
+  if (!fs.existsSync(moduleAbs)) throw new Error(`module file not found: ${opts.modulePath}`);
+  const mod = readNgModules(oldRoot, [moduleRel]).find(m => !opts.moduleName || m.name === opts.moduleName);
+  if (!mod) throw new Error(`no @NgModule${opts.moduleName ? ` ${opts.moduleName}` : ""} in ${moduleRel}`);
+  const moduleSf = parseTsFile(moduleAbs);
+  const meta = findDecoratedClasses(moduleSf, "NgModule").find(c => c.className === mod.name)!.meta!;
+
+  const tsFiles = await listFilesByGlob(oldRoot, SOURCE_GLOBS, IGNORE_GLOBS);
+  const index = buildDeclarableIndex(oldRoot, tsFiles, projectAngularMajor(oldRoot) >= 19);
+  const options = readCompilerOptions(oldRoot);
+  const bindings = getImportBindings(moduleSf);
+  const fileOf = (name: string): string | undefined => {
+    const b = bindings.get(name);
+    if (!b) return findDecoratedClasses(moduleSf, "Component").concat(findDecoratedClasses(moduleSf, "Directive"), findDecoratedClasses(moduleSf, "Pipe"))
+      .some(c => c.className === name) ? moduleRel : undefined;
+    return resolveProjectImport(oldRoot, moduleAbs, b.from, options) ?? undefined;
+  };
+
+  //#region Inventory: declarations, providers, routing module
+
+  const declarations: MigrateModuleResult["declarations"] = mod.declarations.map(className => {
+    const file = fileOf(className);
+    const d = index.declarables.find(x => x.className === className && (!file || x.file === file));
+    if (!d) unconverted.push({ item: className, reason: "declaration not found in the project; migrate it by hand" });
+    return { className, kind: d?.kind ?? "unknown", file: d?.file ?? file };
+  });
+
+  const routingName = mod.imports.find(n => /RoutingModule$/.test(n));
+  const routingRel = routingName ? fileOf(routingName) : undefined;
+  let routes: RoutesSource | undefined;
+  for (const rel of [routingRel, moduleRel].filter((r): r is string => !!r)) {
+    const sf = rel === moduleRel ? moduleSf : parseTsFile(path.join(oldRoot, rel));
+    const arg = findForChild(sf)?.arguments[0];
+    if (!arg) continue;
+    const e = unwrapExpression(arg);
+    const local = ts.isIdentifier(e) ? getTopLevelConsts(sf).get(e.text) : undefined;
+    routes = { sf, rel, routes: local ?? e, consumed: local ? e.getText(sf) : undefined };
+    break;
+  }
+
+  //#endregion
+
+  const closure = collectDependencies(oldRoot, moduleRel, index);
+  if (closure.unresolved.length) notes.push(`Unresolved imports: ${closure.unresolved.map(u => `'${u.specifier}' in ${u.file}`).join(", ")}`);
+
+  // new-project content of the files the standalone conversion changes, by old-project path
+  const transformed = new Map<string, string>();
+  const replaced = new Set<string>();
+  let routesRel: string | undefined;
+  let routesCode: string | undefined;
+
+  if (opts.makeStandalone) {
+    const byDefault = projectAngularMajor(newRoot) >= 19;
+
+    // Everything the module declares turns standalone together, so siblings import each other directly
+    const declared = new Set(declarations.map(d => `${d.file}#${d.className}`));
+    const together = { ...index, declarables: index.declarables.map(d => declared.has(`${d.file}#${d.className}`) ? { ...d, standalone: true } : d) };
+    for (const d of declarations) {
+      if (!d.file || d.kind === "unknown") continue;
+      const current = transformed.get(d.file) ?? readTextSafe(path.join(oldRoot, d.file));
+      const decorator = d.kind === "component" ? "Component" : d.kind === "directive" ? "Directive" : "Pipe";
+      let imports: ReturnType<typeof inferStandaloneImports> | undefined;
+      if (d.kind === "component") {
+        const template = buildTemplateIndex(oldRoot, [d.file]).sources.find(s => s.component === d.className)?.text ?? "";
+        imports = inferStandaloneImports(together, d.file, d.className, template);
+        d.imports = imports.imports.map(i => i.name);
+        d.unresolved = imports.unresolved;
+        notes.push(...imports.notes.map(n => `${d.className}: ${n}`));
+      }
+      const out = convertToStandalone(d.file, current, d.className, imports?.imports ?? [], byDefault, decorator);
+      notes.push(...out.notes.map(n => `${d.className}: ${n}`));
+      if (out.changed) transformed.set(d.file, out.code);
+    }
+
+    if (routes) {
+      // Providers and provider-only module imports move onto the feature's parent route
+      const providerNodes = arrayElements(meta, "providers");
+      const moduleImports = arrayElements(meta, "imports").filter(e => {
+        const text = e.getText(moduleSf);
+        if (/^RouterModule\b/.test(text) || text === routingName) return false;
+        return ts.isCallExpression(unwrapExpression(e)) || NON_TEMPLATE_MODULES.test(text);
+      });
+      const routeProviders = [
+        ...providerNodes.map(e => e.getText(moduleSf)),
+        ...moduleImports.map(e => `importProvidersFrom(${e.getText(moduleSf)})`),
+      ];
+      for (const e of moduleImports) unconverted.push({ item: e.getText(moduleSf), reason: "moved to the route providers through importProvidersFrom; prefer the library's provide* function" });
+
+      const stem = path.posix.basename(routes.rel).replace(/(-routing)?\.module\.ts$/, "").replace(/\.ts$/, "");
+      routesRel = path.posix.join(path.posix.dirname(routes.rel), `${stem}.routes.ts`);
+      routesCode = buildRoutesFile(routesRel, routes, moduleSf, [...providerNodes, ...moduleImports], routeProviders);
+      replaced.add(moduleRel);
+      if (routingRel) replaced.add(routingRel);
+
+      const exported = mod.exports.filter(n => !mod.imports.includes(n));
+      if (exported.length) unconverted.push({ item: `exports: ${exported.join(", ")}`, reason: `${mod.name} is replaced by ROUTES; modules importing it must import these standalone classes directly` });
+    } else {
+      // Not routed: the module stays as a bundle of standalone imports
+      const edits = moveDeclarationsToImports(moduleSf, meta);
+      if (edits.length) transformed.set(moduleRel, applyEdits(transformed.get(moduleRel) ?? moduleSf.text, edits));
+      notes.push(`${mod.name} has no routes; it is kept with its declarations moved to imports. Remove it once its importers use the standalone classes`);
+    }
+
+    const schemas = getProperty(meta, "schemas");
+    if (schemas) unconverted.push({ item: `schemas: ${schemas.getText(moduleSf)}`, reason: "set schemas on the standalone components that use custom elements" });
+    if (getProperty(meta, "entryComponents")) notes.push("entryComponents dropped (not needed with Ivy)");
+    const cls = findDecoratedClasses(moduleSf, "NgModule").find(c => c.className === mod.name)!.node;
+    if (cls.members.length && replaced.has(moduleRel)) {
+      unconverted.push({ item: `${mod.name} class body`, reason: "constructor or static members run module setup; move it to an ENVIRONMENT_INITIALIZER or the route providers" });
+    }
+  }
+
+  // Classes written before Angular 19 that stay in an NgModule need `standalone: false` from 19 on
+  if (projectAngularMajor(oldRoot) < 19 && projectAngularMajor(newRoot) >= 19) {
+    const converted = opts.makeStandalone ? declarations.map(d => d.className) : [];
+    const kept: string[] = [];
+    for (const rel of closure.files) {
+      if (replaced.has(rel) || !/\.[cm]?ts$/.test(rel) || fs.existsSync(path.join(newRoot, mirrorPath(rel, targetAppRoot)))) continue;
+      const out = markNotStandalone(rel, transformed.get(rel) ?? readTextSafe(path.join(oldRoot, rel)), converted);
+      if (!out.classes.length) continue;
+      transformed.set(rel, out.code);
+      kept.push(...out.classes);
+    }
+    if (kept.length) notes.push(`standalone: false added to ${kept.join(", ")}: they stay declared in an NgModule, and the new project's Angular makes classes standalone by default`);
+  }
+
+  //#region Copy
+
+  const copiedFiles: string[] = [];
+  const createdFiles: string[] = [];
+  const updatedFiles: string[] = [];
+  const skipped: string[] = [];
+  const styles: StyleCopy[] = [];
+  const write = async (destRel: string, code: string) => {
+    if (dryRun) return;
+    await fse.ensureDir(path.dirname(path.join(newRoot, destRel)));
+    fs.writeFileSync(path.join(newRoot, destRel), code, "utf-8");
+  };
+
+  // Imports are resolved in the old project and rewritten for where the files land
+  const importContext: ImportPathContext = {
+    oldRoot,
+    newRoot,
+    oldOptions: options,
+    newOptions: readCompilerOptions(newRoot),
+    place: rel => mirrorPath(rel, targetAppRoot),
+  };
+  const importPaths: ImportPathReport = { rewritten: [], missingAliases: [] };
+  const withImportPaths = (rel: string, code: string) => {
+    const out = rewriteImportPaths(rel, code, importContext);
+    recordImportPaths(importPaths, mirrorPath(rel, targetAppRoot), out);
+    return out.code;
+  };
+
+  for (const rel of closure.files) {
+    if (replaced.has(rel)) continue;
+    const destRel = mirrorPath(rel, targetAppRoot);
+    if (fs.existsSync(path.join(newRoot, destRel))) {
+      skipped.push(destRel);
+      continue;
+    }
+    const src = path.join(oldRoot, rel);
+    const before = readTextSafe(src);
+    const code = /\.[cm]?ts$/.test(rel) && !rel.endsWith(".d.ts") ? withImportPaths(rel, transformed.get(rel) ?? before) : undefined;
+    if (code !== undefined && code !== before) {
+      diffs.push({ file: destRel, diff: unifiedDiff(destRel, before, code) });
+      await write(destRel, code);
+    } else if (opts.rewriteStyles && isStyleFile(rel)) {
+      const { code: css, ...report } = rewriteStylesForCopy(newRoot, destRel, before, projectAngularMajor(newRoot));
+      styles.push(report);
+      await write(destRel, css);
+    } else if (!dryRun) {
+      await fse.copy(src, path.join(newRoot, destRel), { overwrite: false });
+      const s = fs.statSync(src);
+      fs.utimesSync(path.join(newRoot, destRel), s.atime, s.mtime);
+    }
+    copiedFiles.push(destRel);
+  }
+  if (skipped.length) notes.push(`${skipped.length} file(s) already in the new project were left as they are`);
+
+  if (routesRel && routesCode) {
+    const destRel = mirrorPath(routesRel, targetAppRoot);
+    if (fs.existsSync(path.join(newRoot, destRel))) {
+      unconverted.push({ item: destRel, reason: "already exists in the new project; ROUTES was not written" });
+    } else {
+      const code = withImportPaths(routesRel, routesCode);
+      diffs.push({ file: destRel, diff: unifiedDiff(destRel, "", code) });
+      await write(destRel, code);
+      createdFiles.push(destRel);
+    }
+  }
+
+  if (importPaths.rewritten.length) notes.push(`${importPaths.rewritten.length} import specifier(s) rewritten for the new layout`);
+  if (importPaths.missingAliases.length) {
+    const added = opts.addMissingAliases ? addPathAliases(newRoot, importPaths.missingAliases.map(({ pattern, targets }) => ({ pattern, targets }))) : undefined;
+    if (added) {
+      diffs.push({ file: added.file, diff: unifiedDiff(added.file, added.before, added.after) });
+      if (!dryRun) fs.writeFileSync(path.join(newRoot, added.file), added.after, "utf-8");
+      updatedFiles.push(added.file);
+      notes.push(`Added paths ${added.added.join(", ")} to ${added.file}`);
+    } else {
+      notes.push(`The new project's tsconfig has no paths for ${importPaths.missingAliases.map(a => `"${a.pattern}": ${JSON.stringify(a.targets)}`).join(", ")}; add them or pass addMissingAliases`);
+    }
+  }
+
+  //#endregion
+
+  //#region New project: lazy routes and eager importers of the module
+
+  if (routesRel) {
+    const moduleDest = mirrorPath(moduleRel, targetAppRoot);
+    const routesDest = mirrorPath(routesRel, targetAppRoot);
+    const newFiles = await listFilesByGlob(newRoot, SOURCE_GLOBS, IGNORE_GLOBS);
+    let wired = 0;
+    for (const rel of newFiles.map(toPosix)) {
+      const code = readTextSafe(path.join(newRoot, rel));
+      if (!code.includes(mod.name) && !code.includes(path.posix.basename(moduleRel, ".ts"))) continue;
+      const sf = parseTsSource(rel, code);
+      const q = quoteStyle(sf);
+      const edits: TextEdit[] = [];
+      walk(sf, n => {
+        if (!ts.isPropertyAssignment(n) || n.name.getText(sf) !== "loadChildren") return;
+        const target = readLoadTarget(n.initializer);
+        if (!target || !pointsTo(rel, target.importPath, target.legacy, moduleDest)) return;
+        let spec = path.posix.relative(path.posix.dirname(rel), routesDest.replace(/\.ts$/, ""));
+        if (!spec.startsWith(".")) spec = `./${spec}`;
+        edits.push({ start: n.initializer.getStart(sf), end: n.initializer.end, text: `() => import(${q}${spec}${q}).then(m => m.ROUTES)` });
+      });
+      for (const [local, b] of getImportBindings(sf)) {
+        if (b.imported === mod.name && b.from.startsWith(".") && pointsTo(rel, b.from, false, moduleDest)) {
+          unconverted.push({ item: `${rel}: ${local}`, reason: `imports ${mod.name}, which is replaced by ROUTES; load the routes lazily or import the standalone classes` });
+        }
+      }
+      if (!edits.length) continue;
+      const out = applyEdits(code, edits);
+      diffs.push({ file: rel, diff: unifiedDiff(rel, code, out) });
+      if (!dryRun) fs.writeFileSync(path.join(newRoot, rel), out, "utf-8");
+      updatedFiles.push(rel);
+      wired += edits.length;
+    }
+    if (!wired) {
+      let spec = path.posix.relative(targetAppRoot, routesDest.replace(/\.ts$/, ""));
+      if (!spec.startsWith(".")) spec = `./${spec}`;
+      notes.push(`No loadChildren in the new project points at ${mod.name} yet; from ${targetAppRoot} load it with: loadChildren: () => import('${spec}').then(m => m.ROUTES)`);
+    }
+  }
+
+  //#endregion
+
+  notes.unshift(`Mode: ${dryRun ? "DRY_RUN (no write)" : "WRITE"}`);
+  return {
+    from: oldRoot,
+    to: newRoot,
+    dryRun,
+    module: { name: mod.name, file: moduleRel, ...(routingRel ? { routing: routingRel } : {}) },
+    declarations,
+    providers: mod.providers,
+    ...(routesRel ? { routesFile: mirrorPath(routesRel, targetAppRoot) } : {}),
+    copiedFiles,
+    createdFiles,
+    updatedFiles,
+    skipped,
+    dependencies: closure.tree,
+    unconverted,
+    diffs,
+    importPaths,
+    ...(opts.rewriteStyles ? { styles } : {}),
+    notes,
+  };
+}
@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { migrateRxjs, MigrateRxjsOptions } from "./migrate_rxjs.js";
+
+const RULE_IDS = ["rxjs-compat-import", "patch-operator-import", "patch-static-creation", "to-promise", "result-selector", "throw-error-value", "subscribe-callbacks"] as const;
+
+export const migrateRxjsTool = {
+  name: "migrate_rxjs",
+  title: "Rewrite rxjs 5/6 patterns for rxjs 7/8",
+  description: "Rewrites toPromise, rxjs 5 deep imports, Observable.<creation>() statics, result selectors, throwError(value) and multi-callback subscribe/tap. Dry run by default: returns unified diffs and the hits left for manual work.",
+  inputSchema: {
+    target: z.enum(["project", "newProject"]).optional().default("project").describe("Rewrite the old project in place or the new project (default: project)"),
+    include: z.array(z.string()).optional().describe("Globs of files to rewrite, relative to the project (default: application and library sources)"),
+    rules: z.array(z.enum(RULE_IDS)).optional().describe("Only apply these rules (default: all)"),
+    targetRxjsMajor: z.number().int().optional().describe("rxjs major to rewrite for (default: the project's rxjs version); below 7, toPromise and throwError(value) are only reported"),
+    dryRun: z.boolean().optional().default(true).describe("If true (default), returns diffs without writing"),
+  } as z.ZodRawShape
+};
+
+export async function handleMigrateRxjs(request: any) {
+  const args = request.params?.arguments || request.arguments || request;
+  const projectPath = args.target === "newProject" ? process.env.NEW_PROJECT_PATH : process.env.PROJECT_PATH;
+
+  if (!projectPath) {
+    return {
+      content: [{ type: "text", text: `${args.target === "newProject" ? "NEW_PROJECT_PATH" : "PROJECT_PATH"} is not set in the environment.` }],
+      isError: true
+    };
+  }
+
+  const opts: MigrateRxjsOptions = {
+    projectPath,
+    include: args.include,
+    rules: args.rules,
+    targetRxjsMajor: args.targetRxjsMajor,
+    dryRun: args.dryRun,
+  };
+
+  const out = await migrateRxjs(opts);
+  return { content: [{ type: "text", text: JSON.stringify(out, null, 2) }] };
+}
@@ -0,0 +1,79 @@
+import fs from "fs";
+import path from "path";
+import semver from "semver";
+import { ensureInsideAllowed } from "../utils/fs.js";
+import { IGNORE_GLOBS, listFilesByGlob, readTextSafe, SOURCE_GLOBS } from "../utils/scan.js";
+import { unifiedDiff } from "../utils/diff.js";
+import { rewriteRxjs, RxjsFinding, RxjsRuleId, scanRxjsSource } from "../utils/rxjs.js";
+
+export type MigrateRxjsOptions = {
+  projectPath: string;       // project to rewrite (old project in place, or the new one)
+  include?: string[];        // globs relative to the project; default: application/library sources
+  rules?: RxjsRuleId[];      // default: every fixable rule
+  targetRxjsMajor?: number;  // default: the project's rxjs major, else 7; below 7 the rxjs-7-only rewrites are left to the report
+  dryRun?: boolean;          // default true: return diffs, write nothing
+};
+
+export type MigrateRxjsResult = {
+  projectPath: string;
+  dryRun: boolean;
+  filesScanned: number;
+  filesChanged: string[];
+  applied: Array<{ file: string; ruleId: RxjsRuleId; line: number }>;
+  manual: RxjsFinding[];     // hits left afterwards: not rewritable (patch operators, namespace imports) or rule not selected
+  diffs: Array<{ file: string; diff: string }>;
+  notes: string[];
+};
+
+// Lowest rxjs major the project's package.json allows
+function projectRxjsMajor(abs: string): number | undefined {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(abs, "package.json"), "utf8"));
+    const range = pkg.dependencies?.rxjs ?? pkg.devDependencies?.rxjs;
+    return semver.validRange(range) ? semver.minVersion(range)?.major : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function migrateRxjs(opts: MigrateRxjsOptions): Promise<MigrateRxjsResult> {
+  const abs = ensureInsideAllowed(opts.projectPath);
+  const dryRun = opts.dryRun ?? true;
+  const targetRxjsMajor = opts.targetRxjsMajor ?? projectRxjsMajor(abs) ?? 7;
+  const files = await listFilesByGlob(abs, opts.include?.length ? opts.include : SOURCE_GLOBS, IGNORE_GLOBS);
+  const tsFiles = files.filter(f => /\.(ts|mts|cts)$/.test(f) && !f.endsWith(".d.ts"));
+
+  const applied: MigrateRxjsResult["applied"] = [];
+  const diffs: MigrateRxjsResult["diffs"] = [];
+  const filesChanged: string[] = [];
+  const manual: RxjsFinding[] = [];
+  for (const rel of tsFiles) {
+    const file = rel.replace(/\\/g, "/");
+    const before = readTextSafe(path.join(abs, rel));
+    const out = rewriteRxjs(file, before, opts.rules, targetRxjsMajor);
+    // What is left after the rewrite (or would be, for a dry run)
+    manual.push(...scanRxjsSource(file, out.code, targetRxjsMajor));
+    if (out.code === before) continue;
+    filesChanged.push(file);
+    applied.push(...out.applied.map(a => ({ file, ...a })));
+    diffs.push({ file, diff: unifiedDiff(file, before, out.code) });
+    if (!dryRun) fs.writeFileSync(path.join(abs, rel), out.code, "utf-8");
+  }
+
+  const notes: string[] = [];
+  notes.push(`Mode: ${dryRun ? "DRY_RUN (no write)" : "WRITE"}`);
+  if (targetRxjsMajor < 7 && manual.some(f => f.ruleId === "to-promise" || f.ruleId === "throw-error-value")) {
+    notes.push(`Target is rxjs ${targetRxjsMajor}: toPromise() and throwError(value) are left as they are, lastValueFrom/firstValueFrom and throwError(() => e) need rxjs 7`);
+  }
+  if (applied.some(a => a.ruleId === "to-promise")) {
+    notes.push("lastValueFrom/firstValueFrom reject with EmptyError when the source completes without a value, where toPromise resolved undefined");
+  }
+  if (applied.some(a => a.ruleId === "result-selector")) {
+    notes.push("Result selectors were moved into the projection with from(...).pipe(map(...)); simplify where the projection already returns an Observable");
+  }
+  if (manual.some(f => f.ruleId === "patch-operator-import")) {
+    notes.push("Patch operator imports (rxjs/add/operator/*) need chained calls moved into .pipe(...) by hand before they can be removed");
+  }
+
+  return { projectPath: abs, dryRun, filesScanned: tsFiles.length, filesChanged, applied, manual, diffs, notes };
+}
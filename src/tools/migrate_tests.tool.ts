@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { migrateTests, MigrateTestsOptions } from "./migrate_tests.js";
+
+export const migrateTestsTool = {
+  name: "migrate_tests",
+  title: "Move tests from Karma/Jasmine to Jest or Vitest",
+  description: "Replaces the Karma test target of the new project with Jest (@angular-builders/jest) or Vitest (unit-test builder on Angular 20+, Analog before), writes the runner config and setup file, removes karma.conf.js and test.ts, updates tsconfig.spec.json and package.json, and rewrites Jasmine APIs in .spec.ts files. Dry run by default: returns diffs and the Jasmine code it could not convert.",
+  inputSchema: {
+    runner: z.enum(["jest", "vitest"]).optional().describe("Test runner to move to (default: the one the new project already uses, else jest)"),
+    project: z.string().optional().describe("Only migrate this angular.json / project.json project (default: every project running Karma)"),
+    include: z.array(z.string()).optional().describe("Globs of spec files to rewrite, relative to the new project (default: *.spec.ts under the migrated projects)"),
+    dryRun: z.boolean().optional().default(true).describe("If true (default), returns diffs without writing"),
+  } as z.ZodRawShape
+};
+
+export async function handleMigrateTests(request: any) {
+  const newProjectPath = process.env.NEW_PROJECT_PATH;
+
+  if (!newProjectPath) {
+    return {
+      content: [{ type: "text", text: "NEW_PROJECT_PATH is not set in the environment." }],
+      isError: true
+    };
+  }
+
+  const args = request.params?.arguments || request.arguments || request;
+
+  const opts: MigrateTestsOptions = {
+    newProjectPath,
+    runner: args.runner,
+    project: args.project,
+    include: args.include,
+    dryRun: args.dryRun,
+  };
+
+  const out = await migrateTests(opts);
+  return { content: [{ type: "text", text: JSON.stringify(out, null, 2) }] };
+}
@@ -0,0 +1,381 @@
+import fs from "fs";
+import path from "path";
+import semver from "semver";
+import ts from "typescript";
+import { ensureInsideAllowed } from "../utils/fs.js";
+import { parseTsSource } from "../utils/ast.js";
+import { IGNORE_GLOBS, listFilesByGlob, readTextSafe } from "../utils/scan.js";
+import { unifiedDiff } from "../utils/diff.js";
+import { NEWEST_KNOWN_RELEASE } from "../utils/angular_versions.js";
+import { detectTestRunner, readWorkspaceProjects, TestRunner, WorkspaceProject } from "../utils/workspace.js";
+import { JasmineRuleId, rewriteSpec, SpecRunner, UnconvertedSpecCode } from "../utils/jasmine.js";
+
+export type MigrateTestsOptions = {
+  newProjectPath: string;
+  runner?: SpecRunner;       // default: the runner the new project already uses, else jest
+  project?: string;          // only this angular.json / project.json project; default every project
+  include?: string[];        // spec globs relative to the project; default *.spec.ts under the selected projects
+  dryRun?: boolean;          // default true: return diffs, write nothing
+};
+
+export type MigrateTestsResult = {
+  newProjectPath: string;
+  runner: SpecRunner;
+  dryRun: boolean;
+  angularMajor: number;
+  projects: Array<{ name: string; root: string; from: TestRunner; builder?: string }>; // builder unset: test target left alone
+  created: string[];
+  removed: string[];
+  updated: string[];
+  devDependencies: { added: Record<string, string>; removed: string[] };
+  specs: { scanned: number; changed: string[] };
+  applied: Array<{ file: string; ruleId: JasmineRuleId; line: number }>;
+  unconverted: UnconvertedSpecCode[];
+  diffs: Array<{ file: string; diff: string }>;
+  notes: string[];
+};
+
+//#region Runner setup (builders, config and setup files, dev dependencies)
+
+const JEST_BUILDER = "@angular-builders/jest:run";
+const UNIT_TEST_BUILDER = "@angular/build:unit-test";   // Angular 20+, runs Vitest
+const ANALOG_BUILDER = "@analogjs/vitest-angular:test"; // Vitest for Angular 15-19
+
+const KARMA_PACKAGES = /^(karma(-.*)?|jasmine-core|@types\/jasmine)$/;
+// Test target options only the Karma builder reads
+const KARMA_OPTIONS = ["karmaConfig", "main", "browsers", "reporters"];
+// Only used by Protractor e2e suites besides Karma
+const PROTRACTOR_REPORTERS = ["jasmine-spec-reporter", "@types/jasminewd2"];
+
+function builderFor(runner: SpecRunner, angularMajor: number): string | undefined {
+  if (runner === "jest") return JEST_BUILDER;
+  if (angularMajor >= 20) return UNIT_TEST_BUILDER;
+  return angularMajor >= 15 ? ANALOG_BUILDER : undefined;
+}
+
+// Starting points per Angular major; npm resolves the exact versions against the installed peers
+function devDependenciesFor(builder: string, angularMajor: number): Record<string, string> {
+  if (builder === JEST_BUILDER) {
+    const jest = angularMajor <= 14 ? "^28.1.3" : "^29.7.0";
+    return {
+      "@angular-builders/jest": `^${angularMajor}.0.0`,
+      "jest": jest,
+      "jest-environment-jsdom": jest,
+      "jest-preset-angular": angularMajor >= 20 ? "^15.0.0" : angularMajor >= 19 ? "^14.4.0" : angularMajor >= 16 ? "^14.0.0" : angularMajor === 15 ? "^13.0.0" : "^12.2.0",
+      "@types/jest": angularMajor <= 14 ? "^28.1.8" : "^29.5.12",
+    };
+  }
+  if (builder === UNIT_TEST_BUILDER) {
+    return {
+      "@angular/build": `^${angularMajor}.0.0`,
+      "vitest": angularMajor >= 21 ? "^4.0.0" : "^3.1.1",
+      "jsdom": angularMajor >= 21 ? "^27.0.0" : "^26.1.0",
+    };
+  }
+  return {
+    "@analogjs/vitest-angular": "^1.19.0",
+    "@analogjs/vite-plugin-angular": "^1.19.0",
+    "vite": "^6.3.0",
+    "vitest": "^3.1.1",
+    "jsdom": "^26.1.0",
+  };
+}
+
+// Statements of Karma's test.ts beyond the CLI boilerplate (zone imports, initTestEnvironment, require.context)
+function customTestSetup(code: string): string[] {
+  const sf = parseTsSource("test.ts", code);
+  return sf.statements.filter(st => {
+    if (ts.isImportDeclaration(st)) {
+      return !/^(zone\.js|@angular\/core\/testing|@angular\/platform-browser-dynamic\/testing)/.test((st.moduleSpecifier as ts.StringLiteral).text);
+    }
+    return !/require\.context|initTestEnvironment|context\.keys\(\)|__karma__|^declare const require/.test(st.getText(sf));
+  }).map(st => st.getText(sf));
+}
+
+function setupFile(builder: string, custom: string[]): string {
+  const imports = custom.filter(s => /^import\b/.test(s));
+  const rest = custom.filter(s => !/^import\b/.test(s));
+  const lines: string[] = [];
+  if (builder === ANALOG_BUILDER) {
+    lines.push(
+      "import '@analogjs/vitest-angular/setup-zone';",
+      "",
+      "import { BrowserDynamicTestingModule, platformBrowserDynamicTesting } from '@angular/platform-browser-dynamic/testing';",
+      "import { getTestBed } from '@angular/core/testing';",
+      ...imports,
+      "",
+      "getTestBed().initTestEnvironment(BrowserDynamicTestingModule, platformBrowserDynamicTesting());",
+    );
+  } else {
+    lines.push(`// Runs before each spec file, after ${builder === JEST_BUILDER ? "@angular-builders/jest" : "the unit-test builder"} has set up the Angular test environment.`);
+    lines.push("// Add global mocks (window.matchMedia, IntersectionObserver, ...) here.");
+    lines.push(...(imports.length ? ["", ...imports] : ["export {};"]));
+  }
+  if (rest.length) lines.push("", "// Carried over from Karma's test.ts", ...rest);
+  return lines.join("\n") + "\n";
+}
+
+function jestConfig(setupRel: string): string {
+  return [
+    "// Merged over the @angular-builders/jest defaults (jest-preset-angular preset and test environment)",
+    "/** @type {import('jest').Config} */",
+    "module.exports = {",
+    `  setupFilesAfterEnv: ['<rootDir>/${setupRel}'],`,
+    "};",
+    "",
+  ].join("\n");
+}
+
+function viteConfig(setupRel: string): string {
+  return [
+    "/// <reference types=\"vitest\" />",
+    "import { defineConfig } from 'vite';",
+    "import angular from '@analogjs/vite-plugin-angular';",
+    "",
+    "export default defineConfig(() => ({",
+    "  plugins: [angular()],",
+    "  test: {",
+    "    globals: true,",
+    "    environment: 'jsdom',",
+    `    setupFiles: ['${setupRel}'],`,
+    "    include: ['**/*.spec.ts'],",
+    "    reporters: ['default'],",
+    "  },",
+    "}));",
+    "",
+  ].join("\n");
+}
+
+//#endregion
+
+//#region JSON files
+
+// angular.json and tsconfig files may hold comments
+function parseJsonc(file: string, text: string): any {
+  const { config, error } = ts.parseConfigFileTextToJson(file, text);
+  return error ? null : config;
+}
+
+// Keeps a leading block comment (the CLI's "To learn more about this file" header)
+function formatJson(previous: string, value: unknown): string {
+  const header = /^\s*(\/\*[\s\S]*?\*\/\s*)/.exec(previous)?.[1] ?? "";
+  return header + JSON.stringify(value, null, 2) + "\n";
+}
+
+//#endregion
+
+const posix = (...parts: string[]) => path.posix.join(...parts.filter(Boolean)) || ".";
+
+export async function migrateTests(opts: MigrateTestsOptions): Promise<MigrateTestsResult> {
+  const abs = ensureInsideAllowed(opts.newProjectPath);
+  const dryRun = opts.dryRun ?? true;
+  const notes: string[] = [];
+  notes.push(`Mode: ${dryRun ? "DRY_RUN (no write)" : "WRITE"}`);
+
+  const pkgText = readTextSafe(path.join(abs, "package.json"));
+  const pkg = parseJsonc("package.json", pkgText);
+  if (!pkg) throw new Error(`package.json not found in ${abs}`);
+  const coreRange = pkg.dependencies?.["@angular/core"] ?? pkg.devDependencies?.["@angular/core"];
+  const angularMajor = (semver.validRange(coreRange) ? semver.minVersion(coreRange)?.major : undefined) ?? NEWEST_KNOWN_RELEASE;
+
+  //#region Projects to move off Karma
+
+  const workspaceProjects = await readWorkspaceProjects(abs);
+  if (opts.project && !workspaceProjects.some(p => p.name === opts.project)) {
+    throw new Error(`Project "${opts.project}" not found; available: ${workspaceProjects.map(p => p.name).join(", ") || "none"}`);
+  }
+  const selected = opts.project ? workspaceProjects.filter(p => p.name === opts.project) : workspaceProjects;
+  const runners = new Map(workspaceProjects.map(p => [p.name, detectTestRunner(abs, p)]));
+  const inUse = [...runners.values()].find((r): r is SpecRunner => r === "jest" || r === "vitest");
+  const runner: SpecRunner = opts.runner ?? inUse ?? "jest";
+  const builder = builderFor(runner, angularMajor);
+  const toMigrate = selected.filter(p => runners.get(p.name) === "karma" || (!!opts.project && runners.get(p.name) === "none"));
+
+  //#endregion
+
+  // Every file touched, staged so a dry run can report the same diffs a write would make
+  const staged = new Map<string, { before: string | null; after: string | null }>();
+  const exists = (rel: string) => fs.existsSync(path.join(abs, rel));
+  const read = (rel: string) => staged.has(rel) ? staged.get(rel)!.after ?? "" : readTextSafe(path.join(abs, rel));
+  const stage = (rel: string, after: string | null) => {
+    const before = staged.has(rel) ? staged.get(rel)!.before : exists(rel) ? readTextSafe(path.join(abs, rel)) : null;
+    staged.set(rel, { before, after });
+  };
+
+  const projects: MigrateTestsResult["projects"] = [];
+  if (!builder && toMigrate.length) notes.push(`Vitest needs Angular 15 or newer (found ${angularMajor}); use runner "jest" to move the test target off Karma`);
+
+  for (const p of toMigrate) {
+    if (!builder) {
+      projects.push({ name: p.name, root: p.root, from: runners.get(p.name)! });
+      continue;
+    }
+
+    //#region Test target (angular.json / workspace.json or the project's project.json)
+
+    const configRel = p.config === "project.json" ? posix(p.root, "project.json") : p.config;
+    const config = parseJsonc(configRel, read(configRel));
+    const cfg = p.config === "project.json" ? config : config?.projects?.[p.name];
+    const targets = cfg?.architect ?? cfg?.targets;
+    if (!targets) {
+      notes.push(`${p.name}: no targets found in ${configRel}; test target not changed`);
+      projects.push({ name: p.name, root: p.root, from: runners.get(p.name)! });
+      continue;
+    }
+    const oldOptions = targets.test?.options ?? {};
+    const tsConfig: string = oldOptions.tsConfig ?? posix(p.root, "tsconfig.spec.json");
+    const setupRel = posix(p.sourceRoot, builder === JEST_BUILDER ? "setup-jest.ts" : "test-setup.ts");
+    const fromRoot = (rel: string) => path.posix.relative(p.root || ".", rel);
+
+    const options: Record<string, unknown> = { tsConfig };
+    if (builder === JEST_BUILDER) options.configPath = "jest.config.js";
+    if (builder === UNIT_TEST_BUILDER) Object.assign(options, { runner: "vitest", buildTarget: "::development", setupFiles: [setupRel] });
+    const key = p.config === "project.json" ? "executor" : "builder";
+    // Configurations and defaultConfiguration stay; only the Karma options go
+    const configurations: Record<string, Record<string, unknown>> | undefined = targets.test?.configurations;
+    for (const c of Object.values(configurations ?? {})) for (const o of KARMA_OPTIONS) delete c[o];
+    targets.test = { ...targets.test, [key]: builder, options };
+    if (configurations && Object.keys(configurations).length) {
+      notes.push(`${p.name}: test configurations ${Object.keys(configurations).join(", ")} kept; check their options against ${builder}`);
+    }
+    stage(configRel, formatJson(read(configRel), config));
+
+    //#endregion
+
+    //#region Karma files out, runner config and setup file in
+
+    const karmaConfig: string = oldOptions.karmaConfig ?? posix(p.root, "karma.conf.js");
+    if (exists(karmaConfig)) stage(karmaConfig, null);
+    const testMain: string | undefined = oldOptions.main ?? (exists(posix(p.sourceRoot, "test.ts")) ? posix(p.sourceRoot, "test.ts") : undefined);
+    const custom = testMain && exists(testMain) ? customTestSetup(read(testMain)) : [];
+    if (testMain && exists(testMain)) stage(testMain, null);
+
+    if (!exists(setupRel)) stage(setupRel, setupFile(builder, custom));
+    else notes.push(`${p.name}: ${setupRel} already exists and was kept`);
+    if (builder === JEST_BUILDER) stage(posix(p.root, "jest.config.js"), jestConfig(fromRoot(setupRel)));
+    if (builder === ANALOG_BUILDER) stage(posix(p.root, "vite.config.mts"), viteConfig(fromRoot(setupRel)));
+    if (custom.length) notes.push(`${p.name}: ${custom.length} statement(s) of ${testMain} were moved to ${setupRel}; check they still apply`);
+
+    //#endregion
+
+    //#region tsconfig.spec.json (types, Karma entry point, setup file)
+
+    if (exists(tsConfig)) {
+      const tsconfigText = read(tsConfig);
+      const tsconfig = parseJsonc(tsConfig, tsconfigText);
+      if (tsconfig) {
+        const types: string[] = tsconfig.compilerOptions?.types ?? [];
+        const runnerTypes = runner === "jest" ? "jest" : "vitest/globals";
+        tsconfig.compilerOptions = { ...tsconfig.compilerOptions, types: [...new Set([...types.filter(t => t !== "jasmine" && t !== "jasminewd2"), runnerTypes])] };
+        const dir = path.posix.dirname(tsConfig);
+        const files: string[] = (tsconfig.files ?? []).filter((f: string) => !testMain || path.posix.join(dir, f) !== testMain);
+        tsconfig.files = [...new Set([...files, path.posix.relative(dir, setupRel)])];
+        stage(tsConfig, formatJson(tsconfigText, tsconfig));
+      }
+    } else {
+      notes.push(`${p.name}: ${tsConfig} not found; add "${runner === "jest" ? "jest" : "vitest/globals"}" to the spec tsconfig types`);
+    }
+
+    //#endregion
+
+    projects.push({ name: p.name, root: p.root, from: runners.get(p.name)!, builder });
+  }
+
+  //#region package.json dev dependencies
+
+  const devDependencies: MigrateTestsResult["devDependencies"] = { added: {}, removed: [] };
+  const migrated = projects.filter(p => p.builder);
+  if (migrated.length && builder) {
+    const devDeps: Record<string, string> = { ...(pkg.devDependencies ?? {}) };
+    const deps = { ...(pkg.dependencies ?? {}), ...devDeps };
+    for (const [name, version] of Object.entries(devDependenciesFor(builder, angularMajor))) {
+      if (deps[name]) continue;
+      devDeps[name] = version;
+      devDependencies.added[name] = version;
+    }
+    // Karma packages go only once no project runs Karma any more
+    const stillKarma = workspaceProjects.filter(p => runners.get(p.name) === "karma" && !migrated.some(m => m.name === p.name));
+    if (stillKarma.length) {
+      notes.push(`Karma packages kept: ${stillKarma.map(p => p.name).join(", ")} still run Karma`);
+    } else {
+      const protractor = !!deps["protractor"];
+      for (const name of Object.keys(devDeps)) {
+        if (KARMA_PACKAGES.test(name) || (!protractor && PROTRACTOR_REPORTERS.includes(name))) {
+          delete devDeps[name];
+          devDependencies.removed.push(name);
+        }
+      }
+    }
+    pkg.devDependencies = Object.fromEntries(Object.entries(devDeps).sort(([a], [b]) => a.localeCompare(b)));
+    stage("package.json", formatJson(pkgText, pkg));
+    notes.push(`Dev dependency versions are starting points for Angular ${angularMajor}; run npm install and let it resolve peers`);
+  }
+
+  //#endregion
+
+  //#region Spec files
+
+  const scope: WorkspaceProject[] = migrated.length ? toMigrate.filter(p => migrated.some(m => m.name === p.name)) : selected;
+  const specGlobs = opts.include?.length ? opts.include : scope.length ? scope.map(p => posix(p.root, "**/*.spec.ts")) : ["**/*.spec.ts"];
+  const specFiles = (await listFilesByGlob(abs, specGlobs, IGNORE_GLOBS)).map(f => f.replace(/\\/g, "/")).sort();
+  const applied: MigrateTestsResult["applied"] = [];
+  const unconverted: UnconvertedSpecCode[] = [];
+  const changedSpecs: string[] = [];
+  for (const file of specFiles) {
+    const before = read(file);
+    const out = rewriteSpec(file, before, runner);
+    unconverted.push(...out.unconverted);
+    if (out.code === before) continue;
+    changedSpecs.push(file);
+    applied.push(...out.applied.map(a => ({ file, ...a })));
+    stage(file, out.code);
+  }
+
+  //#endregion
+
+  //#region Diffs and writes
+
+  const created: string[] = [];
+  const removed: string[] = [];
+  const updated: string[] = [];
+  const diffs: MigrateTestsResult["diffs"] = [];
+  for (const [rel, { before, after }] of staged) {
+    if (before === after) continue;
+    if (before === null) created.push(rel);
+    else if (after === null) removed.push(rel);
+    else updated.push(rel);
+    diffs.push({ file: rel, diff: unifiedDiff(rel, before ?? "", after ?? "") });
+    if (dryRun) continue;
+    const target = path.join(abs, rel);
+    if (after === null) fs.rmSync(target, { force: true });
+    else {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, after, "utf-8");
+    }
+  }
+
+  //#endregion
+
+  if (!toMigrate.length) notes.push(`No ${opts.project ? `test target of ${opts.project}` : "project"} runs Karma; only spec files were rewritten for ${runner}`);
+  if (unconverted.length) notes.push(`${unconverted.length} Jasmine usage(s) could not be converted; see unconverted`);
+  if (runner === "vitest" && applied.some(a => a.ruleId === "spy-on")) {
+    notes.push("spyOn was rewritten to vi.spyOn(...).mockImplementation(...) to keep Jasmine's stubbing; drop the stub where the real method should run");
+  }
+
+  return {
+    newProjectPath: abs,
+    runner,
+    dryRun,
+    angularMajor,
+    projects,
+    created,
+    removed,
+    updated,
+    devDependencies,
+    specs: { scanned: specFiles.length, changed: changedSpecs },
+    applied,
+    unconverted,
+    diffs,
+    notes,
+  };
+}
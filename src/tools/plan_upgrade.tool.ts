@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { planUpgrade, PlanUpgradeOptions } from "./plan_upgrade.js";
+
+export const planUpgradeTool = {
+  name: "plan_upgrade",
+  title: "Plan a major-by-major Angular upgrade",
+  description: "Lists every intermediate Angular major between the project's current version and the target, as ng update requires. Each hop gives the required TypeScript, Node, zone.js and rxjs ranges, the dependency bumps to make, the main breaking changes and the official migration schematics that run at that step.",
+  inputSchema: {
+    targetAngularVersion: z.string().optional().describe("Target Angular version (optional, default is latest)"),
+    angularCore: z.string().optional().describe("Current @angular/core version (optional, default is read from package.json)"),
+    angularCli: z.string().optional().describe("Current @angular/cli version (optional, default is read from package.json)"),
+    rxjs: z.string().optional().describe("Current rxjs version (optional, default is read from package.json)"),
+    typescript: z.string().optional().describe("Current typescript version (optional, default is read from package.json)"),
+  } as z.ZodRawShape
+};
+
+export async function handlePlanUpgrade(request: any) {
+
+  const projectPath = process.env.PROJECT_PATH;
+  if (!projectPath) {
+      return {
+          content: [{ type: "text", text: "PROJECT_PATH is not set in the environment." }],
+          isError: true
+      };
+  }
+
+  const args = request.params?.arguments || request.arguments || request;
+
+  const opts: PlanUpgradeOptions = {
+    projectPath: projectPath,
+    targetAngularVersion: args.targetAngularVersion,
+    angularCore: args.angularCore,
+    angularCli: args.angularCli,
+    rxjs: args.rxjs,
+    typescript: args.typescript,
+  }
+
+  const out = await planUpgrade(opts);
+  return { content: [{ type: "text", text: JSON.stringify(out, null, 2) }] };
+}
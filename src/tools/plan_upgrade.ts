@@ -0,0 +1,158 @@
+import fs from "fs";
+import path from "path";
+import semver from "semver";
+import { ensureInsideAllowed } from "../utils/fs.js";
+import { getLatestVersion } from "../utils/npm.js";
+import { getRelease, MigrationSchematic, NEWEST_KNOWN_RELEASE, OLDEST_KNOWN_RELEASE } from "../utils/angular_versions.js";
+
+export type PlanUpgradeOptions = {
+  projectPath?: string;           // read missing versions from its package.json
+  angularCore?: string;           // versions as reported by analyze_project
+  angularCli?: string;
+  rxjs?: string;
+  typescript?: string;
+  targetAngularVersion?: string;  // default latest published @angular/core
+};
+
+export type UpgradeHop = {
+  from: number;
+  to: number;
+  command: string;
+  requires: { node: string; typescript: string; rxjs: string; zoneJs: string };
+  actions: string[];              // dependency bumps needed before/while running ng update
+  breakingChanges: string[];
+  schematics: MigrationSchematic[];
+};
+
+export type PlanUpgradeOutput = {
+  current: { angularCore: string; angularCli: string; rxjs: string; typescript: string; major: number | null };
+  targetMajor: number;
+  hops: UpgradeHop[];
+  summary: { hops: number; typescriptBumps: number; rxjsBumps: number; finalNode: string | null; schematics: number };
+  warnings: string[];
+};
+
+// Lowest concrete version a declared range allows ("~11.2.0" -> 11.2.0)
+function minOf(spec: string | undefined): semver.SemVer | null {
+  if (!spec || spec === "unknown") return null;
+  try {
+    if (semver.validRange(spec)) return semver.minVersion(spec);
+  } catch { }
+  return semver.coerce(spec);
+}
+
+export async function planUpgrade(opts: PlanUpgradeOptions): Promise<PlanUpgradeOutput> {
+  const warnings: string[] = [];
+
+  //#region Current versions (explicit input wins over package.json)
+
+  let pkg: any = {};
+  if (opts.projectPath) {
+    const abs = ensureInsideAllowed(opts.projectPath);
+    const pkgPath = path.join(abs, "package.json");
+    if (fs.existsSync(pkgPath)) {
+      try { pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8")); } catch { warnings.push("package.json could not be parsed"); }
+    }
+  }
+  const all: Record<string, string> = { ...(pkg.devDependencies || {}), ...(pkg.dependencies || {}) };
+
+  const current = {
+    angularCore: opts.angularCore ?? all["@angular/core"] ?? "unknown",
+    angularCli: opts.angularCli ?? all["@angular/cli"] ?? "unknown",
+    rxjs: opts.rxjs ?? all["rxjs"] ?? "unknown",
+    typescript: opts.typescript ?? all["typescript"] ?? "unknown",
+    major: minOf(opts.angularCore ?? all["@angular/core"])?.major ?? null,
+  };
+
+  //#endregion
+
+  //#region Target
+
+  const targetSpec = opts.targetAngularVersion && opts.targetAngularVersion !== "latest"
+    ? opts.targetAngularVersion
+    : await getLatestVersion("@angular/core");
+  let targetMajor = semver.coerce(targetSpec)?.major ?? NEWEST_KNOWN_RELEASE;
+  if (targetMajor > NEWEST_KNOWN_RELEASE) {
+    warnings.push(`No upgrade data for Angular ${targetMajor} yet; planning up to ${NEWEST_KNOWN_RELEASE}. Check https://angular.dev/update-guide for the remaining hops.`);
+    targetMajor = NEWEST_KNOWN_RELEASE;
+  }
+
+  if (current.major === null) {
+    warnings.push("@angular/core version is unknown; cannot plan hops.");
+    return { current, targetMajor, hops: [], summary: { hops: 0, typescriptBumps: 0, rxjsBumps: 0, finalNode: null, schematics: 0 }, warnings };
+  }
+  if (current.major >= targetMajor) {
+    warnings.push(`Already on Angular ${current.major}; nothing to upgrade to ${targetMajor}.`);
+  }
+  if (current.major < OLDEST_KNOWN_RELEASE - 1) {
+    warnings.push(`Angular ${current.major} predates the upgrade data (starts at ${OLDEST_KNOWN_RELEASE}); migrate to ${OLDEST_KNOWN_RELEASE - 1} manually first.`);
+  }
+  const cliMajor = minOf(current.angularCli)?.major;
+  if (cliMajor !== undefined && cliMajor !== current.major) {
+    warnings.push(`@angular/cli (${cliMajor}) and @angular/core (${current.major}) majors differ; align the CLI before the first hop.`);
+  }
+
+  //#endregion
+
+  //#region Hops (one major at a time, as ng update requires)
+
+  const hops: UpgradeHop[] = [];
+  let ts = minOf(current.typescript);
+  let rx = minOf(current.rxjs);
+  let typescriptBumps = 0;
+  let rxjsBumps = 0;
+
+  // Majors without data are folded into the next hop, which starts where the project is
+  let from = current.major;
+  for (let to = current.major + 1; to <= targetMajor; to++) {
+    const rel = getRelease(to);
+    if (!rel) continue;
+    const actions: string[] = [];
+    if (to - 1 > from) {
+      const skipped = to - 1 === from + 1 ? `${from + 1}` : `${from + 1} to ${to - 1}`;
+      actions.push(`Upgrade data does not cover Angular ${skipped}; get there by hand with the update guide before this hop`);
+    }
+
+    if (!ts || !semver.satisfies(ts, rel.typescript.range)) {
+      actions.push(`Set typescript to ${rel.typescript.pin} (needs ${rel.typescript.range}${ts ? `, have ${ts.version}` : ""})`);
+      ts = minOf(rel.typescript.pin);
+      typescriptBumps++;
+    }
+    if (!rx || !semver.satisfies(rx, rel.rxjs.range)) {
+      actions.push(`Set rxjs to ${rel.rxjs.pin} (needs ${rel.rxjs.range}${rx ? `, have ${rx.version}` : ""})`);
+      if (rx && rx.major < 6 && to === 6) actions.push("Add rxjs-compat temporarily until rxjs 5 imports are rewritten");
+      rx = minOf(rel.rxjs.pin);
+      rxjsBumps++;
+    }
+    actions.push(`Use Node ${rel.node}`);
+    actions.push(`zone.js ${rel.zoneJs.pin} is installed by ng update (needs ${rel.zoneJs.range})`);
+
+    hops.push({
+      from,
+      to,
+      command: `npx @angular/cli@${to} update @angular/core@${to} @angular/cli@${to}`,
+      requires: { node: rel.node, typescript: rel.typescript.range, rxjs: rel.rxjs.range, zoneJs: rel.zoneJs.range },
+      actions,
+      breakingChanges: rel.breakingChanges,
+      schematics: rel.schematics,
+    });
+    from = to;
+  }
+
+  //#endregion
+
+  const last = hops.length ? getRelease(hops[hops.length - 1].to) : undefined;
+  return {
+    current,
+    targetMajor,
+    hops,
+    summary: {
+      hops: hops.length,
+      typescriptBumps,
+      rxjsBumps,
+      finalNode: last?.node ?? null,
+      schematics: hops.reduce((n, h) => n + h.schematics.length, 0),
+    },
+    warnings,
+  };
+}
@@ -3,7 +3,10 @@ import path from "path";
 import semver from "semver";
 import { ensureInsideAllowed } from "../utils/fs.js";
 import { run } from "../utils/run.js";
-import { getLatestVersion, getPeerDeps } from "../utils/npm.js";
+import { getLatestVersion } from "../utils/npm.js";
+import { LibraryCompat, resolveAngularCompat } from "../utils/compat.js";
+import { NEWEST_KNOWN_RELEASE } from "../utils/angular_versions.js";
+import { solvePeerConstraints, SolverPackage } from "../utils/peer_solver.js";
 
 type UpgradeStrategy = "angularOnly" | "all";
 type PackageMap = Record<string, string>;
@@ -23,6 +26,8 @@ export type ScaffoldPlan = {
     kept: Array<{ name: string; version: string }>;
     upgraded: Array<{ name: string; from?: string; to: string; reason: string }>;
     skipped: Array<{ name: string; reason: string }>;
+    blockers: Array<{ name: string; lastSupportedAngularMajor?: number; reason: string }>;
+    conflicts: string[];
 };
 
 export type ScaffoldProjectOutput = {
@@ -45,6 +50,23 @@ function isAngularPackage(name: string): boolean {
     );
 }
 
+// Packages released in lockstep with the framework (same major)
+const FRAMEWORK_EXCEPTIONS = ["@angular/flex-layout", "@angular/fire"];
+
+function isVersionedWithFramework(name: string): boolean {
+    if (FRAMEWORK_EXCEPTIONS.includes(name)) return false;
+    return ANGULAR_SCOPES.some((s) => name.startsWith(s));
+}
+
+// Builder packages released with the CLI as 0.<major>00.x (0.1900.3 ships with Angular 19)
+const ZERO_MAJOR_DEVKIT = ["@angular-devkit/architect", "@angular-devkit/build-webpack", "@angular-devkit/build-optimizer"];
+
+function frameworkLock(name: string, frameworkRange: string, targetMajor: number): string | undefined {
+    if (!isVersionedWithFramework(name)) return undefined;
+    if (ZERO_MAJOR_DEVKIT.includes(name)) return `>=0.${targetMajor}00.0 <0.${targetMajor + 1}00.0`;
+    return frameworkRange;
+}
+
 function detectCliSpecifier(targetAngularVersion?: string): string {
     if (!targetAngularVersion || targetAngularVersion === "latest") return "@angular/cli@latest";
 
@@ -55,10 +77,11 @@ function detectCliSpecifier(targetAngularVersion?: string): string {
 }
 
 // Decide target version for a package based on strategy
-async function computeTargetVersion(name: string, from: string | undefined, opts: ScaffoldProjectOptions)
+async function computeTargetVersion(name: string, from: string | undefined, opts: ScaffoldProjectOptions, targetMajor: number)
 : Promise<{ 
     to?: string; 
-    reason: string
+    reason: string;
+    compat?: LibraryCompat;
 }> {
     const upgradeAll = opts.upgradeStrategy === "all";
     const targetNg = opts.targetAngularVersion;
@@ -78,96 +101,20 @@ async function computeTargetVersion(name: string, from: string | undefined, opts
         return { to: from, reason: "keep (angularOnly strategy)" };
     }
 
-    if (upgradeAll) {
-        const latest = await getLatestVersion(name);
-        return { to: latest, reason: "upgrade all (latest)" };
+    // Third-party: highest release whose @angular/core peer accepts the target major
+    const compat = await resolveAngularCompat(name, targetMajor, from);
+    if (compat.status === "blocked") {
+        return { to: from, reason: `keep (${compat.note})`, compat };
     }
-    return { to: from, reason: "keep (angularOnly strategy)" };
-}
-
-// Enforce peerDependencies across deps/devDeps dynamically (no hardcoded rules)
-async function enforcePeerCompatibility(depsIn: PackageMap, devDepsIn: PackageMap)
-: Promise<{
-    deps: PackageMap;
-    devDeps: PackageMap;
-    upgraded: Array<{ name: string; from?: string; to: string; reason: string }>;
-}> {
-    const deps: PackageMap = { ...depsIn };
-    const devDeps: PackageMap = { ...devDepsIn };
-    const upgraded: Array<{
-        name: string;
-        from?: string;
-        to: string;
-        reason: string;
-    }> = [];
-
-    const universe: PackageMap = { ...deps, ...devDeps };
-
-    for (const [pkg, spec] of Object.entries(universe)) {
-        const meta = await getPeerDeps(pkg, spec);
-        if (!meta) continue;
-
-        const peers: Record<string, string> = (meta as any).peerDependencies || {};
-        const peersMeta: Record<string, { optional?: boolean }> =
-            (meta as any).peerDependenciesMeta || {};
-
-        for (const [peerName, peerRange] of Object.entries(peers)) {
-            const optional = !!peersMeta[peerName]?.optional;
-            const have = deps[peerName] ?? devDeps[peerName];
-
-            if (!have) {
-                if (!optional) {
-                    const latest = await getLatestVersion(peerName);
-                    if (!latest) {
-                        console.warn(`Warning: Could not get latest version for ${peerName}, skipping peer dependency`);
-                        continue;
-                    }
-                    deps[peerName] = latest;
-                    upgraded.push({
-                        name: peerName,
-                        to: latest,
-                        reason: `added missing peer for ${pkg}`,
-                    });
-                }
-                continue;
-            }
-
-            const haveRange = semver.validRange(have);
-            const needRange = semver.validRange(peerRange);
-            let ok = false;
-
-            if (haveRange && needRange) {
-                ok = semver.intersects(have, peerRange, { includePrerelease: true });
-            } else {
-                const haveCoerced = semver.coerce(have);
-                ok = !!(
-                    haveCoerced && needRange && semver.satisfies(haveCoerced, peerRange)
-                );
-            }
-
-            if (!ok) {
-                const fromSpec = have;
-                const latest = await getLatestVersion(peerName);
-                if (!latest) {
-                    console.warn(`Warning: Could not get latest version for ${peerName}, keeping existing version ${fromSpec}`);
-                    continue;
-                }
-                deps[peerName] = latest;
-                // Remove from devDeps if it exists there
-                if (peerName in devDeps) {
-                    delete devDeps[peerName];
-                }
-                upgraded.push({
-                    name: peerName,
-                    from: fromSpec,
-                    to: latest,
-                    reason: `align to peer range of ${pkg}`,
-                });
-            }
+    if (upgradeAll) {
+        if (compat.compatibleVersion) {
+            const why = compat.status === "unconstrained" ? "upgrade all (latest)" : `upgrade all (highest release supporting Angular ${targetMajor})`;
+            return { to: compat.compatibleVersion, reason: why, compat };
         }
+        const latest = await getLatestVersion(name);
+        return { to: latest, reason: "upgrade all (latest)", compat };
     }
-
-    return { deps, devDeps, upgraded };
+    return { to: from, reason: "keep (angularOnly strategy)", compat };
 }
 
 export async function scaffoldProject(opts: ScaffoldProjectOptions): Promise<ScaffoldProjectOutput> {
@@ -191,6 +138,8 @@ export async function scaffoldProject(opts: ScaffoldProjectOptions): Promise<Sca
                 kept: [],
                 upgraded: [],
                 skipped: [],
+                blockers: [],
+                conflicts: [],
             },
             createRun: { code: 1, stdout: "", stderr: "Project already exists" },
             errors: [`Project already exists at ${opts.newProjectPath}`],
@@ -239,35 +188,81 @@ export async function scaffoldProject(opts: ScaffoldProjectOptions): Promise<Sca
     const nextDeps: PackageMap = {};
     const nextDevDeps: PackageMap = {};
 
+    const targetMajor =
+        semver.coerce(opts.targetAngularVersion)?.major ??
+        semver.coerce(await getLatestVersion("@angular/core"))?.major ??
+        NEWEST_KNOWN_RELEASE;
+    const blockers: ScaffoldPlan["blockers"] = [];
+    const reasons: Record<string, string> = {};
+
     const pushSet = async (src: PackageMap, dst: PackageMap) => {
         for (const [name, from] of Object.entries(src)) {
-            const { to } = await computeTargetVersion(name, from, opts);
+            const { to, reason, compat } = await computeTargetVersion(name, from, opts, targetMajor);
             if (to) dst[name] = to;
+            reasons[name] = reason;
+            if (compat?.status === "blocked") {
+                blockers.push({ name, lastSupportedAngularMajor: compat.lastSupportedAngularMajor, reason: compat.note ?? "no compatible release" });
+            }
         }
     };
 
     await pushSet(oldDeps, nextDeps);
     await pushSet(oldDevDeps, nextDevDeps);
 
-    if (!("@angular/cli" in nextDevDeps)) {
+    if (!("@angular/cli" in nextDevDeps) && !("@angular/cli" in nextDeps)) {
         const cliLatest = await getLatestVersion("@angular/cli");
         if (cliLatest) nextDevDeps["@angular/cli"] = cliLatest;
+        reasons["@angular/cli"] = "align with Angular CLI latest";
     }
 
     if (opts.targetAngularVersion) {
         nextDeps["@angular/core"] = opts.targetAngularVersion;
     }
 
-    const peerFix = await enforcePeerCompatibility(nextDeps, nextDevDeps);
-    Object.assign(nextDeps, peerFix.deps);
-    Object.assign(nextDevDeps, peerFix.devDeps);
+    // 3) Solve peer constraints across the whole set, then report honestly against the old specs
+    const frameworkRange = opts.targetAngularVersion && semver.validRange(opts.targetAngularVersion)
+        ? opts.targetAngularVersion
+        : `^${targetMajor}.0.0`;
+    const solverInput: SolverPackage[] = Object.entries({ ...nextDevDeps, ...nextDeps }).map(([name, spec]) => ({
+        name,
+        preferred: spec,
+        locked: frameworkLock(name, frameworkRange, targetMajor),
+    }));
+    const solved = await solvePeerConstraints(solverInput, {
+        lockFor: (name) => frameworkLock(name, frameworkRange, targetMajor),
+    });
+
+    if (!solved.consistent) {
+        errors.push(...solved.conflicts.map(c => `Peer dependency conflict: ${c}`));
+    }
 
     const kept: Array<{ name: string; version: string }> = [];
-    const upgraded: Array<{ name: string; from?: string; to: string; reason: string }> = [
-        ...peerFix.upgraded,
-    ];
+    const upgraded: Array<{ name: string; from?: string; to: string; reason: string }> = [];
     const skipped: Array<{ name: string; reason: string }> = [];
 
+    const addedBy = new Map(solved.added.map(a => [a.name, a.requiredBy]));
+    for (const [name, version] of Object.entries(solved.versions)) {
+        const inDev = name in nextDevDeps && !(name in nextDeps);
+        const dst = inDev ? nextDevDeps : nextDeps;
+        const from = oldDeps[name] ?? oldDevDeps[name];
+        const preferred = dst[name];
+        dst[name] = version;
+
+        if (from && semver.validRange(from) && semver.satisfies(version, from, { includePrerelease: true })) {
+            kept.push({ name, version });
+            continue;
+        }
+        let reason: string;
+        if (addedBy.has(name)) reason = `added missing peer for ${addedBy.get(name)}`;
+        else if (preferred && semver.validRange(preferred) && !semver.satisfies(version, preferred, { includePrerelease: true })) {
+            reason = `peer constraints (wanted ${preferred})`;
+        } else reason = reasons[name] ?? "resolved by peer solver";
+        upgraded.push({ name, from, to: version, reason });
+    }
+    for (const u of solved.unresolved) {
+        skipped.push({ name: u.name, reason: `${u.reason}; left as ${nextDeps[u.name] ?? nextDevDeps[u.name] ?? "not added"}` });
+    }
+
     // 4) Write package.json in the new project (Angular CLI creates subfolder = project name)
     const newProjDir = path.join(newProjectPath, newProjectName);
     const newPkgPath = path.join(newProjDir, "package.json");
@@ -294,6 +289,8 @@ export async function scaffoldProject(opts: ScaffoldProjectOptions): Promise<Sca
         kept,
         upgraded,
         skipped,
+        blockers,
+        conflicts: solved.conflicts,
     };
 
     return {
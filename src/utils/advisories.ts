@@ -0,0 +1,199 @@
+import fs from "fs";
+import semver from "semver";
+import { getPackument } from "./npm.js";
+import { getRegistryClient } from "./registry.js";
+import { peerAcceptsMajor } from "./compat.js";
+
+export type Severity = "info" | "low" | "moderate" | "high" | "critical";
+
+export type Advisory = {
+  id: string;
+  package: string;
+  title: string;
+  url?: string;
+  severity: Severity;
+  vulnerableVersions: string;   // semver range
+  patchedVersions?: string;     // semver range, when the source provides it
+};
+
+export type AdvisoryFinding = {
+  package: string;
+  version: string;              // exact locked version, or the floor of the declared range
+  source: "declared" | "locked";
+  direct: boolean;              // declared in package.json
+  advisoryId: string;
+  title: string;
+  url?: string;
+  severity: Severity;
+  affectedRange: string;
+  firstFixedVersion?: string;
+  fixAngularMajor?: number;     // lowest Angular major the fixed release works with
+  crossesAngularUpgrade: boolean; // the fix is only usable after leaving the current Angular major
+  note?: string;
+};
+
+export const SEVERITY_ORDER: Severity[] = ["info", "low", "moderate", "high", "critical"];
+
+function toSeverity(s: unknown): Severity {
+  const v = String(s ?? "").toLowerCase();
+  return (SEVERITY_ORDER as string[]).includes(v) ? v as Severity : "moderate";
+}
+
+//#region Sources
+
+function push(map: Map<string, Advisory[]>, a: Advisory) {
+  if (!a.package || !semver.validRange(a.vulnerableVersions)) return;
+  const list = map.get(a.package) ?? [];
+  if (!list.some(x => x.id === a.id)) list.push(a);
+  map.set(a.package, list);
+}
+
+/**
+ * Normalize any of the supported advisory documents:
+ * - `npm audit --json` output (npm 7+ `vulnerabilities`, npm 6 `advisories`)
+ * - a bulk advisory map `{ "<pkg>": [{ id, title, url, severity, vulnerable_versions }] }`
+ *   (the registry's bulk endpoint format, handy for local advisory databases)
+ * - an array of `{ name, id, title, url, severity, vulnerable_versions, patched_versions? }`
+ */
+export function parseAdvisories(doc: any): Map<string, Advisory[]> {
+  const map = new Map<string, Advisory[]>();
+  if (!doc || typeof doc !== "object") return map;
+
+  if (doc.vulnerabilities && typeof doc.vulnerabilities === "object") {
+    // npm 7+: only `via` objects carry advisory details; strings point at other entries
+    for (const vuln of Object.values<any>(doc.vulnerabilities)) {
+      for (const via of vuln?.via ?? []) {
+        if (!via || typeof via !== "object") continue;
+        push(map, {
+          id: String(via.source ?? via.url ?? via.title),
+          package: via.name ?? vuln.name,
+          title: via.title ?? "",
+          url: via.url,
+          severity: toSeverity(via.severity),
+          vulnerableVersions: via.range ?? vuln.range,
+        });
+      }
+    }
+    return map;
+  }
+
+  if (doc.advisories && typeof doc.advisories === "object") {
+    // npm 6
+    for (const a of Object.values<any>(doc.advisories)) {
+      push(map, {
+        id: String(a.id),
+        package: a.module_name,
+        title: a.title ?? "",
+        url: a.url,
+        severity: toSeverity(a.severity),
+        vulnerableVersions: a.vulnerable_versions,
+        patchedVersions: a.patched_versions,
+      });
+    }
+    return map;
+  }
+
+  const entries: Array<[string | undefined, any]> = Array.isArray(doc)
+    ? doc.map(a => [undefined, a])
+    : Object.entries(doc).flatMap(([name, list]) => Array.isArray(list) ? list.map(a => [name, a] as [string, any]) : []);
+  for (const [name, a] of entries) {
+    push(map, {
+      id: String(a?.id ?? a?.url ?? a?.title),
+      package: name ?? a?.name ?? a?.package ?? a?.module_name,
+      title: a?.title ?? "",
+      url: a?.url,
+      severity: toSeverity(a?.severity),
+      vulnerableVersions: a?.vulnerable_versions ?? a?.range,
+      patchedVersions: a?.patched_versions,
+    });
+  }
+  return map;
+}
+
+export function loadAdvisoryFile(file: string): Map<string, Advisory[]> {
+  return parseAdvisories(JSON.parse(fs.readFileSync(file, "utf-8")));
+}
+
+// Ask the active registry client (bulk advisory endpoint); null when offline or unreachable
+export async function fetchAdvisories(query: Record<string, string[]>): Promise<Map<string, Advisory[]> | null> {
+  const client = getRegistryClient();
+  if (!client.getAdvisories || !Object.keys(query).length) return null;
+  const res = await client.getAdvisories(query);
+  return res ? parseAdvisories(res) : null;
+}
+
+//#endregion
+
+//#region Matching
+
+// Lowest Angular major a release works with: its own major for framework packages, else its @angular/core peer
+async function angularMajorOf(name: string, version: string): Promise<number | undefined> {
+  if (name.startsWith("@angular/")) return semver.major(version);
+  const doc = await getPackument(name);
+  const peer = doc?.versions[version]?.peerDependencies?.["@angular/core"];
+  if (!peer) return undefined;
+  for (let m = 2; m <= 50; m++) if (peerAcceptsMajor(peer, m)) return m;
+  return undefined;
+}
+
+// First release above `version` outside the vulnerable range
+async function firstFixedVersion(adv: Advisory, version: string): Promise<string | undefined> {
+  const doc = await getPackument(adv.package);
+  if (doc) {
+    const fixed = Object.keys(doc.versions)
+      .filter(v => semver.valid(v) && !semver.prerelease(v) && semver.gt(v, version) && !semver.satisfies(v, adv.vulnerableVersions))
+      .sort(semver.compare);
+    if (fixed.length) return fixed[0];
+  }
+  if (adv.patchedVersions && semver.validRange(adv.patchedVersions)) {
+    return semver.minVersion(adv.patchedVersions)?.version;
+  }
+  return undefined;
+}
+
+export type AdvisoryTarget = { name: string; version: string; source: "declared" | "locked"; direct: boolean };
+
+/**
+ * Match packages against advisories. For each hit, find the first fixed
+ * release and the Angular major it needs, so fixes that are only reachable
+ * through the Angular upgrade can be flagged.
+ */
+export async function matchAdvisories(
+  advisories: Map<string, Advisory[]>,
+  targets: AdvisoryTarget[],
+  angular: { currentMajor: number | null; targetMajor: number },
+): Promise<AdvisoryFinding[]> {
+  const findings: AdvisoryFinding[] = [];
+  for (const t of targets) {
+    for (const adv of advisories.get(t.name) ?? []) {
+      if (!semver.valid(t.version) || !semver.satisfies(t.version, adv.vulnerableVersions, { includePrerelease: true })) continue;
+
+      const fixed = await firstFixedVersion(adv, t.version);
+      const fixMajor = fixed ? await angularMajorOf(t.name, fixed) : undefined;
+      const crosses = fixMajor !== undefined && angular.currentMajor !== null && fixMajor > angular.currentMajor;
+      let note: string | undefined;
+      if (!fixed) note = "no fixed release published";
+      else if (fixMajor !== undefined && fixMajor > angular.targetMajor) note = `fix needs Angular ${fixMajor}, beyond the planned target ${angular.targetMajor}`;
+      else if (crosses) note = `fix needs Angular ${fixMajor}; apply it as part of the upgrade`;
+
+      findings.push({
+        package: t.name,
+        version: t.version,
+        source: t.source,
+        direct: t.direct,
+        advisoryId: adv.id,
+        title: adv.title,
+        url: adv.url,
+        severity: adv.severity,
+        affectedRange: adv.vulnerableVersions,
+        firstFixedVersion: fixed,
+        fixAngularMajor: fixMajor,
+        crossesAngularUpgrade: crosses,
+        note,
+      });
+    }
+  }
+  return findings.sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity) || a.package.localeCompare(b.package));
+}
+
+//#endregion
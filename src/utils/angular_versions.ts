@@ -0,0 +1,347 @@
+// Per-major requirements and upgrade notes, taken from the Angular version
+// compatibility table and the official update guide (highlights only).
+
+export type MigrationSchematic = {
+  package: string;        // package whose `ng update` runs it
+  name: string;
+  description: string;
+  optional?: boolean;     // run explicitly with `ng update <pkg> --migrate-only <name>`
+};
+
+export type AngularRelease = {
+  major: number;
+  node: string;
+  typescript: { range: string; pin: string };
+  rxjs: { range: string; pin: string };
+  zoneJs: { range: string; pin: string };
+  breakingChanges: string[];
+  schematics: MigrationSchematic[];
+};
+
+export const ANGULAR_RELEASES: AngularRelease[] = [
+  {
+    major: 6,
+    node: "^8.9.0 || ^10.0.0",
+    typescript: { range: ">=2.7.2 <2.10.0", pin: "~2.9.2" },
+    rxjs: { range: "^6.0.0", pin: "~6.2.0" },
+    zoneJs: { range: "~0.8.26", pin: "~0.8.26" },
+    breakingChanges: [
+      "RxJS 6: pipeable operators; patch imports need rxjs-compat until rewritten",
+      ".angular-cli.json is replaced by angular.json",
+      "<template> element removed; use <ng-template>",
+    ],
+    schematics: [
+      { package: "@angular/cli", name: "migration-01", description: "Convert .angular-cli.json to angular.json" },
+      { package: "rxjs", name: "rxjs-tslint auto-fix", description: "Rewrite rxjs 5 imports/operators (npx rxjs-tslint)", optional: true },
+    ],
+  },
+  {
+    major: 7,
+    node: "^8.9.0 || ^10.9.0",
+    typescript: { range: ">=3.1.1 <3.3.0", pin: "~3.2.4" },
+    rxjs: { range: "^6.0.0", pin: "~6.3.3" },
+    zoneJs: { range: "~0.8.26", pin: "~0.8.26" },
+    breakingChanges: [
+      "Node 8.9+ and TypeScript 3.1 required",
+      "Bundle budgets added to new projects; polyfills reflect-metadata removed in production",
+    ],
+    schematics: [
+      { package: "@angular/cli", name: "migration-03", description: "Remove reflect-metadata polyfill from production builds" },
+    ],
+  },
+  {
+    major: 8,
+    node: "^10.9.0 || ^12.0.0",
+    typescript: { range: ">=3.4.0 <3.6.0", pin: "~3.5.3" },
+    rxjs: { range: "^6.4.0", pin: "~6.4.0" },
+    zoneJs: { range: "~0.9.1", pin: "~0.9.1" },
+    breakingChanges: [
+      "@ViewChild/@ContentChild require an explicit `static` flag",
+      "String loadChildren deprecated in favor of dynamic import()",
+      "DOCUMENT moved from @angular/platform-browser to @angular/common",
+      "@angular/http removed",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "static-queries", description: "Add the static flag to view/content queries" },
+      { package: "@angular/core", name: "move-document", description: "Import DOCUMENT from @angular/common" },
+      { package: "@angular/core", name: "template-var-assignment", description: "Report assignments to template variables" },
+      { package: "@angular/cli", name: "lazy-loading-syntax", description: "Rewrite string loadChildren to dynamic imports" },
+      { package: "@angular/cli", name: "differential-loading", description: "Update tsconfig/browserslist for differential loading" },
+    ],
+  },
+  {
+    major: 9,
+    node: "^10.13.0 || ^12.11.0",
+    typescript: { range: ">=3.6.4 <3.9.0", pin: "~3.8.3" },
+    rxjs: { range: "^6.5.3", pin: "~6.5.5" },
+    zoneJs: { range: "~0.10.2", pin: "~0.10.3" },
+    breakingChanges: [
+      "Ivy is the default compiler/renderer",
+      "Undecorated classes using Angular features must be decorated",
+      "ModuleWithProviders requires a generic type",
+      "Renderer (v1) removed; TestBed.get deprecated in favor of TestBed.inject",
+      "entryComponents no longer needed",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "undecorated-classes-with-di", description: "Decorate base classes that use DI" },
+      { package: "@angular/core", name: "undecorated-classes-with-decorated-fields", description: "Add @Directive() to classes with Angular field decorators" },
+      { package: "@angular/core", name: "module-with-providers", description: "Add generic type to ModuleWithProviders" },
+      { package: "@angular/core", name: "renderer-to-renderer2", description: "Migrate Renderer to Renderer2" },
+      { package: "@angular/core", name: "missing-injectable", description: "Add @Injectable() to provided classes" },
+      { package: "@angular/core", name: "dynamic-queries", description: "Remove static: false from dynamic queries" },
+      { package: "@angular/cli", name: "ivy-workspace", description: "Enable Ivy/AOT in angular.json and tsconfig" },
+    ],
+  },
+  {
+    major: 10,
+    node: "^10.13.0 || ^12.11.0",
+    typescript: { range: ">=3.9.0 <4.0.0", pin: "~3.9.7" },
+    rxjs: { range: "^6.5.3", pin: "~6.5.5" },
+    zoneJs: { range: "~0.10.3", pin: "~0.10.3" },
+    breakingChanges: [
+      "tslib 2.0 required",
+      "Solution-style tsconfig.json / tsconfig.base.json",
+      "Browserslist drops older browsers by default",
+      "Undecorated base classes using Angular features are errors",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "undecorated-classes-with-decorated-fields", description: "Add @Directive() to undecorated base classes" },
+      { package: "@angular/core", name: "abstract-control-parent", description: "Handle possibly-null AbstractControl.parent" },
+      { package: "@angular/core", name: "navigation-extras-omissions", description: "Flag unsupported NavigationExtras" },
+      { package: "@angular/core", name: "can-activate-with-redirect-to", description: "Remove canActivate from redirectTo routes" },
+      { package: "@angular/core", name: "relative-link-resolution", description: "Set relativeLinkResolution: 'legacy'" },
+      { package: "@angular/cli", name: "solution-style-tsconfig", description: "Rename tsconfig.json to tsconfig.base.json" },
+      { package: "@angular/cli", name: "update-libraries-tslib", description: "Update tslib to 2.x" },
+    ],
+  },
+  {
+    major: 11,
+    node: "^10.13.0 || ^12.11.0",
+    typescript: { range: ">=4.0.0 <4.1.0", pin: "~4.0.8" },
+    rxjs: { range: "^6.5.3", pin: "~6.6.0" },
+    zoneJs: { range: "~0.10.3 || ~0.11.1", pin: "~0.11.3" },
+    breakingChanges: [
+      "ViewEncapsulation.Native removed",
+      "IE 9/10 and IE mobile support removed",
+      "preserveQueryParams removed from router links",
+      "async() in tests deprecated in favor of waitForAsync()",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "router-preserve-query-params", description: "Replace preserveQueryParams with queryParamsHandling" },
+      { package: "@angular/core", name: "wait-for-async", description: "Replace async() with waitForAsync()" },
+      { package: "@angular/core", name: "native-view-encapsulation", description: "Replace ViewEncapsulation.Native with ShadowDom" },
+    ],
+  },
+  {
+    major: 12,
+    node: "^12.14.1 || ^14.15.0",
+    typescript: { range: ">=4.2.3 <4.4.0", pin: "~4.3.5" },
+    rxjs: { range: "^6.5.3", pin: "~6.6.0" },
+    zoneJs: { range: "~0.11.4", pin: "~0.11.4" },
+    breakingChanges: [
+      "View Engine deprecated; production builds are the default configuration",
+      "IE 11 support deprecated",
+      "Webpack 5 only; node-sass unsupported (use sass)",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "xhr-factory", description: "Import XhrFactory from @angular/common" },
+      { package: "@angular/cli", name: "update-angular-config-v12", description: "Make production the default build configuration" },
+      { package: "@angular/cli", name: "replace-node-sass", description: "Replace node-sass with sass" },
+    ],
+  },
+  {
+    major: 13,
+    node: "^12.20.0 || ^14.15.0 || ^16.10.0",
+    typescript: { range: ">=4.4.2 <4.6.0", pin: "~4.5.5" },
+    rxjs: { range: "^6.5.3 || ^7.4.0", pin: "~7.5.0" },
+    zoneJs: { range: "~0.11.4", pin: "~0.11.4" },
+    breakingChanges: [
+      "View Engine removed; libraries must ship Ivy partial compilation",
+      "IE 11 support removed",
+      "Angular Package Format drops UMD bundles",
+      "TestBed tears down the module environment after each test",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "testbed-teardown", description: "Opt existing TestBed setups into the new teardown behaviour" },
+      { package: "@angular/cli", name: "update-angular-config-v13", description: "Remove deprecated workspace options" },
+      { package: "@angular/cli", name: "drop-ie-polyfills", description: "Remove IE-only polyfills" },
+      { package: "@angular/cli", name: "update-libraries-v13", description: "Drop enableIvy / View Engine library settings" },
+    ],
+  },
+  {
+    major: 14,
+    node: "^14.15.0 || ^16.10.0",
+    typescript: { range: ">=4.6.2 <4.9.0", pin: "~4.7.4" },
+    rxjs: { range: "^6.5.3 || ^7.4.0", pin: "~7.5.0" },
+    zoneJs: { range: "~0.11.4", pin: "~0.11.4" },
+    breakingChanges: [
+      "Reactive forms are strictly typed",
+      "Node 12 dropped",
+      "pathMatch is typed as 'full' | 'prefix'",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "typed-forms", description: "Rewrite FormControl & co. to Untyped* equivalents" },
+      { package: "@angular/core", name: "path-match-type", description: "Type route objects with literal pathMatch" },
+      { package: "@angular/cli", name: "update-workspace-config-v14", description: "Remove defaultProject and deprecated options" },
+    ],
+  },
+  {
+    major: 15,
+    node: "^14.20.0 || ^16.13.0 || ^18.10.0",
+    typescript: { range: ">=4.8.2 <5.0.0", pin: "~4.8.4" },
+    rxjs: { range: "^6.5.3 || ^7.4.0", pin: "~7.8.0" },
+    zoneJs: { range: "~0.11.4 || ~0.12.0", pin: "~0.12.0" },
+    breakingChanges: [
+      "Standalone APIs stable; class-based guards/resolvers deprecated",
+      "relativeLinkResolution removed",
+      "Angular Material switches to MDC-based components (legacy-* kept for one major)",
+      "providedIn: 'any' deprecated",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "remove-relative-link-resolution", description: "Drop relativeLinkResolution from router config" },
+      { package: "@angular/core", name: "router-link-with-href", description: "Replace RouterLinkWithHref with RouterLink" },
+      { package: "@angular/cli", name: "update-typescript-target", description: "Set TypeScript target to ES2022" },
+      { package: "@angular/cli", name: "remove-browserslist-config", description: "Remove default browserslist config" },
+      { package: "@angular/material", name: "mdc-migration", description: "Move components to MDC-based implementations", optional: true },
+    ],
+  },
+  {
+    major: 16,
+    node: "^16.14.0 || ^18.10.0",
+    typescript: { range: ">=4.9.3 <5.2.0", pin: "~5.1.6" },
+    rxjs: { range: "^6.5.3 || ^7.4.0", pin: "~7.8.0" },
+    zoneJs: { range: "~0.13.0", pin: "~0.13.0" },
+    breakingChanges: [
+      "ngcc and View Engine libraries no longer supported",
+      "entryComponents, ReflectiveInjector and moduleId removed",
+      "Node 14 dropped",
+      "Required inputs and signals (developer preview) introduced",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "remove-module-id", description: "Remove moduleId from components" },
+      { package: "@angular/core", name: "guard-and-resolve-interfaces", description: "Drop deprecated guard/resolve interfaces" },
+      { package: "@angular/core", name: "remove-entry-components", description: "Remove entryComponents" },
+      { package: "@angular/core", name: "xhr-factory", description: "Import XhrFactory from @angular/common" },
+    ],
+  },
+  {
+    major: 17,
+    node: "^18.13.0 || ^20.9.0",
+    typescript: { range: ">=5.2.0 <5.5.0", pin: "~5.4.5" },
+    rxjs: { range: "^6.5.3 || ^7.4.0", pin: "~7.8.0" },
+    zoneJs: { range: "~0.14.0", pin: "~0.14.3" },
+    breakingChanges: [
+      "Built-in control flow (@if/@for/@switch) and @defer introduced",
+      "Legacy (non-MDC) Angular Material components removed",
+      "Node 16 dropped; TypeScript 5.2 required",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "block-template-entities", description: "Escape @ and } in templates" },
+      { package: "@angular/core", name: "compiler-options", description: "Remove obsolete compiler options" },
+      { package: "@angular/core", name: "control-flow-migration", description: "Convert *ngIf/*ngFor/*ngSwitch to @if/@for/@switch", optional: true },
+    ],
+  },
+  {
+    major: 18,
+    node: "^18.19.1 || ^20.11.1 || ^22.0.0",
+    typescript: { range: ">=5.4.0 <5.6.0", pin: "~5.5.4" },
+    rxjs: { range: "^6.5.3 || ^7.4.0", pin: "~7.8.0" },
+    zoneJs: { range: "~0.14.0", pin: "~0.14.10" },
+    breakingChanges: [
+      "HttpClientModule deprecated in favor of provideHttpClient()",
+      "Application builder (esbuild) recommended for existing projects",
+      "Zoneless change detection available (experimental)",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "http-providers", description: "Replace HttpClientModule with provideHttpClient()" },
+      { package: "@angular/cli", name: "use-application-builder", description: "Switch to the esbuild application builder", optional: true },
+    ],
+  },
+  {
+    major: 19,
+    node: "^18.19.1 || ^20.11.1 || ^22.0.0",
+    typescript: { range: ">=5.5.0 <5.9.0", pin: "~5.6.3" },
+    rxjs: { range: "^6.5.3 || ^7.4.0", pin: "~7.8.0" },
+    zoneJs: { range: "~0.15.0", pin: "~0.15.0" },
+    breakingChanges: [
+      "Components, directives and pipes are standalone by default",
+      "APP_INITIALIZER and friends deprecated in favor of provide*Initializer()",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "explicit-standalone-flag", description: "Add standalone: false to NgModule-declared classes" },
+      { package: "@angular/core", name: "pending-tasks", description: "Rename ExperimentalPendingTasks to PendingTasks" },
+      { package: "@angular/core", name: "provide-initializer", description: "Replace APP_INITIALIZER with provideAppInitializer()" },
+      { package: "@angular/core", name: "signal-input-migration", description: "Convert @Input() to signal inputs", optional: true },
+    ],
+  },
+  {
+    major: 20,
+    node: "^20.19.0 || ^22.12.0 || ^24.0.0",
+    typescript: { range: ">=5.8.0 <5.10.0", pin: "~5.8.3" },
+    rxjs: { range: "^6.5.3 || ^7.4.0", pin: "~7.8.0" },
+    zoneJs: { range: "~0.15.0", pin: "~0.15.0" },
+    breakingChanges: [
+      "Node 18 dropped; TypeScript 5.8 required",
+      "*ngIf/*ngFor/*ngSwitch deprecated in favor of built-in control flow",
+      "InjectFlags and TestBed.get removed",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "inject-flags", description: "Replace InjectFlags with options objects" },
+      { package: "@angular/core", name: "test-bed-get", description: "Replace TestBed.get with TestBed.inject" },
+      { package: "@angular/core", name: "document-core", description: "Import DOCUMENT from @angular/core" },
+      { package: "@angular/core", name: "control-flow-migration", description: "Convert structural directives to built-in control flow", optional: true },
+    ],
+  },
+  {
+    major: 21,
+    node: "^20.19.0 || ^22.12.0 || >=24.0.0",
+    typescript: { range: ">=5.9.0 <6.0.0", pin: "~5.9.3" },
+    rxjs: { range: "^6.5.3 || ^7.4.0", pin: "~7.8.0" },
+    zoneJs: { range: "~0.15.0", pin: "~0.15.0" },
+    breakingChanges: [
+      "TypeScript 5.9 required",
+      "New projects are zoneless and test with Vitest; existing zone.js apps keep their setup",
+      "Router.lastSuccessfulNavigation is a signal; Router.getCurrentNavigation() deprecated in favor of currentNavigation",
+      "Bootstrap options such as ngZoneEventCoalescing move to providers",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "control-flow-migration", description: "Convert structural directives to built-in control flow" },
+      { package: "@angular/core", name: "router-last-successful-navigation", description: "Call the Router.lastSuccessfulNavigation signal" },
+      { package: "@angular/core", name: "application-config-core", description: "Import ApplicationConfig from @angular/core" },
+      { package: "@angular/core", name: "add-bootstrap-context-to-server-main", description: "Pass BootstrapContext to bootstrapApplication in main.server.ts" },
+      { package: "@angular/core", name: "bootstrap-options-migration", description: "Move deprecated bootstrap options to providers" },
+      { package: "@angular/core", name: "router-current-navigation", description: "Replace Router.getCurrentNavigation() with Router.currentNavigation", optional: true },
+    ],
+  },
+  {
+    major: 22,
+    node: "^22.22.3 || ^24.15.0 || >=26.0.0",
+    typescript: { range: ">=6.0.0 <6.1.0", pin: "~6.0.3" },
+    rxjs: { range: "^6.5.3 || ^7.4.0", pin: "~7.8.0" },
+    zoneJs: { range: "~0.15.0 || ~0.16.0", pin: "~0.16.0" },
+    breakingChanges: [
+      "Node 20 dropped; TypeScript 6.0 required",
+      "OnPush is the default change detection; components that relied on the old default get ChangeDetectionStrategy.Eager",
+      "strictTemplates is on unless tsconfig turns it off",
+      "HttpClient uses the fetch backend; HttpXhrBackend needs withXhr()",
+      "canMatch guards get the route snapshot as a required third argument",
+    ],
+    schematics: [
+      { package: "@angular/core", name: "change-detection-eager", description: "Add ChangeDetectionStrategy.Eager to components" },
+      { package: "@angular/core", name: "strict-templates-default", description: "Set strictTemplates: false in tsconfig.json when not set" },
+      { package: "@angular/core", name: "http-xhr-backend", description: "Add withXhr() to provideHttpClient() where HttpXhrBackend is used" },
+      { package: "@angular/core", name: "can-match-snapshot-required", description: "Pass the route snapshot to canMatch calls" },
+      { package: "@angular/core", name: "incremental-hydration", description: "Opt out of incremental hydration where it was not enabled" },
+      { package: "@angular/core", name: "strict-safe-navigation-narrow", description: "Turn off the not-nullable ?? and ?. extended diagnostics" },
+      { package: "@angular/core", name: "model-output", description: "Fix outputs duplicating a model()" },
+      { package: "@angular/core", name: "safe-optional-chaining", description: "Wrap optional chaining in $safeNavigationMigration()" },
+    ],
+  },
+];
+
+export const OLDEST_KNOWN_RELEASE = ANGULAR_RELEASES[0].major;
+export const NEWEST_KNOWN_RELEASE = ANGULAR_RELEASES[ANGULAR_RELEASES.length - 1].major;
+
+export function getRelease(major: number): AngularRelease | undefined {
+  return ANGULAR_RELEASES.find(r => r.major === major);
+}
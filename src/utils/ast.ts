@@ -0,0 +1,166 @@
+import ts from "typescript";
+import { readTextSafe } from "./scan.js";
+
+export type DecoratedClass = {
+  className: string;
+  node: ts.ClassDeclaration;
+  decorator: ts.Decorator;
+  // First object-literal argument of the decorator call, e.g. the { declarations: [...] } of @NgModule
+  meta?: ts.ObjectLiteralExpression;
+};
+
+// Parse a .ts file from disk (returns an empty source file if unreadable)
+export function parseTsFile(absPath: string): ts.SourceFile {
+  return parseTsSource(absPath, readTextSafe(absPath));
+}
+
+export function parseTsSource(fileName: string, code: string): ts.SourceFile {
+  return ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+}
+
+// 1-based line of a position in the file
+export function lineOf(sf: ts.SourceFile, pos: number): number {
+  return sf.getLineAndCharacterOfPosition(pos).line + 1;
+}
+
+// Depth-first walk over every node in the file
+export function walk(node: ts.Node, visit: (n: ts.Node) => void) {
+  visit(node);
+  ts.forEachChild(node, child => walk(child, visit));
+}
+
+// Find classes decorated with @<decoratorName>(...) and expose their metadata object
+export function findDecoratedClasses(sf: ts.SourceFile, decoratorName: string): DecoratedClass[] {
+  const out: DecoratedClass[] = [];
+  walk(sf, n => {
+    if (!ts.isClassDeclaration(n) || !n.name) return;
+    for (const d of ts.getDecorators(n) ?? []) {
+      if (!ts.isCallExpression(d.expression)) continue;
+      const callee = d.expression.expression;
+      const name = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : "";
+      if (name !== decoratorName) continue;
+      const arg = d.expression.arguments[0];
+      out.push({
+        className: n.name.text,
+        node: n,
+        decorator: d,
+        meta: arg && ts.isObjectLiteralExpression(arg) ? arg : undefined,
+      });
+    }
+  });
+  return out;
+}
+
+export function getProperty(obj: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+  for (const p of obj.properties) {
+    if (ts.isPropertyAssignment(p) && propertyNameText(p.name) === name) return p.initializer;
+    if (ts.isShorthandPropertyAssignment(p) && p.name.text === name) return p.name;
+  }
+  return undefined;
+}
+
+export function propertyNameText(name: ts.PropertyName): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+  return undefined;
+}
+
+export function stringValue(expr: ts.Expression | undefined): string | undefined {
+  if (!expr) return undefined;
+  if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr)) return expr.text;
+  return undefined;
+}
+
+// Map of local import names -> module specifier (e.g. "SharedModule" -> "../shared/shared.module")
+export function getImportMap(sf: ts.SourceFile): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const st of sf.statements) {
+    if (!ts.isImportDeclaration(st) || !ts.isStringLiteral(st.moduleSpecifier)) continue;
+    const from = st.moduleSpecifier.text;
+    const clause = st.importClause;
+    if (!clause) continue;
+    if (clause.name) map.set(clause.name.text, from);
+    const nb = clause.namedBindings;
+    if (nb && ts.isNamedImports(nb)) for (const el of nb.elements) map.set(el.name.text, from);
+    if (nb && ts.isNamespaceImport(nb)) map.set(nb.name.text, from);
+  }
+  return map;
+}
+
+// Like getImportMap, but keeps the exported name for `import { A as B }`
+export function getImportBindings(sf: ts.SourceFile): Map<string, { from: string; imported: string }> {
+  const map = new Map<string, { from: string; imported: string }>();
+  for (const st of sf.statements) {
+    if (!ts.isImportDeclaration(st) || !ts.isStringLiteral(st.moduleSpecifier)) continue;
+    const from = st.moduleSpecifier.text;
+    const clause = st.importClause;
+    if (!clause) continue;
+    if (clause.name) map.set(clause.name.text, { from, imported: "default" });
+    const nb = clause.namedBindings;
+    if (nb && ts.isNamedImports(nb)) {
+      for (const el of nb.elements) map.set(el.name.text, { from, imported: (el.propertyName ?? el.name).text });
+    }
+    if (nb && ts.isNamespaceImport(nb)) map.set(nb.name.text, { from, imported: "*" });
+  }
+  return map;
+}
+
+// Top-level `const X = ...` initializers, used to resolve arrays referenced by name
+export function getTopLevelConsts(sf: ts.SourceFile): Map<string, ts.Expression> {
+  const map = new Map<string, ts.Expression>();
+  for (const st of sf.statements) {
+    if (!ts.isVariableStatement(st)) continue;
+    for (const d of st.declarationList.declarations) {
+      if (ts.isIdentifier(d.name) && d.initializer) map.set(d.name.text, d.initializer);
+    }
+  }
+  return map;
+}
+
+// Strip `as X`, `<X>`, parentheses and `satisfies` wrappers
+export function unwrapExpression(expr: ts.Expression): ts.Expression {
+  let e = expr;
+  while (ts.isAsExpression(e) || ts.isParenthesizedExpression(e) || ts.isTypeAssertionExpression(e) || ts.isSatisfiesExpression(e)) {
+    e = e.expression;
+  }
+  return e;
+}
+
+/**
+ * Flatten an array-ish expression into the symbol names it references.
+ * Resolves spreads and identifiers pointing at same-file const arrays, turns
+ * `Foo.forRoot(...)` into "Foo" and `{ provide: X, ... }` into "X".
+ */
+export function arrayElementNames(expr: ts.Expression | undefined, consts: Map<string, ts.Expression>, seen = new Set<string>()): string[] {
+  if (!expr) return [];
+  const e = unwrapExpression(expr);
+  if (ts.isArrayLiteralExpression(e)) {
+    return e.elements.flatMap(el => ts.isSpreadElement(el) ? arrayElementNames(el.expression, consts, seen) : elementName(el, consts, seen));
+  }
+  return elementName(e, consts, seen);
+}
+
+function elementName(expr: ts.Expression, consts: Map<string, ts.Expression>, seen: Set<string>): string[] {
+  const e = unwrapExpression(expr);
+  if (ts.isIdentifier(e)) {
+    const init = consts.get(e.text);
+    if (init && !seen.has(e.text) && ts.isArrayLiteralExpression(unwrapExpression(init))) {
+      seen.add(e.text);
+      return arrayElementNames(init, consts, seen);
+    }
+    return [e.text];
+  }
+  if (ts.isCallExpression(e)) {
+    // SomeModule.forRoot(...) / forChild(...) / withConfig(...)
+    const callee = unwrapExpression(e.expression);
+    if (ts.isPropertyAccessExpression(callee)) return [callee.expression.getText()];
+    return [callee.getText()];
+  }
+  if (ts.isObjectLiteralExpression(e)) {
+    const provide = getProperty(e, "provide");
+    if (provide) return [stringValue(provide) ?? unwrapExpression(provide).getText()];
+    // { ngModule: X, providers: [...] } (ModuleWithProviders literal)
+    const ngModule = getProperty(e, "ngModule");
+    if (ngModule) return [ngModule.getText()];
+  }
+  return [e.getText()];
+}
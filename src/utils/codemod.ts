@@ -0,0 +1,89 @@
+import ts from "typescript";
+import { getImportBindings } from "./ast.js";
+
+// A replacement of source text [start, end) — insertions have start === end
+export type TextEdit = { start: number; end: number; text: string };
+
+// Apply non-overlapping edits (any order)
+export function applyEdits(code: string, edits: TextEdit[]): string {
+  let out = code;
+  for (const e of [...edits].sort((a, b) => b.start - a.start || b.end - a.end)) {
+    out = out.slice(0, e.start) + e.text + out.slice(e.end);
+  }
+  return out;
+}
+
+const overlaps = (a: TextEdit, b: TextEdit) => a.start < b.end && b.start < a.end || (a.start === a.end && a.start === b.start && b.start === b.end);
+
+/**
+ * Pick groups of edits that can be applied together: groups are taken in
+ * source order and skipped when they overlap an accepted one. Callers re-parse
+ * and run again to reach the skipped (usually nested) changes.
+ */
+export function pickNonOverlapping<T extends { edits: TextEdit[] }>(groups: T[]): T[] {
+  const accepted: T[] = [];
+  const taken: TextEdit[] = [];
+  const start = (g: T) => Math.min(...g.edits.map(e => e.start));
+  for (const g of [...groups].sort((a, b) => start(a) - start(b))) {
+    if (g.edits.some(e => taken.some(t => overlaps(e, t)))) continue;
+    accepted.push(g);
+    taken.push(...g.edits);
+  }
+  return accepted;
+}
+
+// Quote character used by the file's first import (defaults to single quotes)
+export function quoteStyle(sf: ts.SourceFile): string {
+  const first = sf.statements.find(ts.isImportDeclaration);
+  return first && first.moduleSpecifier.getText(sf).startsWith("\"") ? "\"" : "'";
+}
+
+/**
+ * Edits adding `import { names } from 'moduleName'`: appended to an existing
+ * named import of that module, or a new import after the last one. Names
+ * already bound in the file are left out; `type X` adds a type-only specifier.
+ */
+export function addNamedImports(sf: ts.SourceFile, moduleName: string, names: string[]): TextEdit[] {
+  const bound = getImportBindings(sf);
+  const wanted = [...new Set(names)].filter(n => !bound.has(n.replace(/^type\s+/, "")));
+  if (!wanted.length) return [];
+
+  const existing = sf.statements.find((st): st is ts.ImportDeclaration =>
+    ts.isImportDeclaration(st) && ts.isStringLiteral(st.moduleSpecifier) && st.moduleSpecifier.text === moduleName &&
+    !st.importClause?.isTypeOnly && !!st.importClause?.namedBindings && ts.isNamedImports(st.importClause.namedBindings));
+  if (existing) {
+    const named = existing.importClause!.namedBindings as ts.NamedImports;
+    const last = named.elements[named.elements.length - 1];
+    if (last) return [{ start: last.end, end: last.end, text: `, ${wanted.join(", ")}` }];
+    return [{ start: named.getStart(sf) + 1, end: named.getEnd() - 1, text: ` ${wanted.join(", ")} ` }];
+  }
+
+  const q = quoteStyle(sf);
+  const line = `import { ${wanted.join(", ")} } from ${q}${moduleName}${q};`;
+  const imports = sf.statements.filter(ts.isImportDeclaration);
+  const after = imports[imports.length - 1];
+  return after ? [{ start: after.end, end: after.end, text: `\n${line}` }] : [{ start: 0, end: 0, text: `${line}\n` }];
+}
+
+/**
+ * Edits removing named imports that are no longer referenced anywhere else in
+ * the file; the whole declaration goes when nothing is left.
+ */
+export function removeUnusedNamedImports(sf: ts.SourceFile, names: string[]): TextEdit[] {
+  const edits: TextEdit[] = [];
+  for (const st of sf.statements) {
+    if (!ts.isImportDeclaration(st) || !st.importClause?.namedBindings || !ts.isNamedImports(st.importClause.namedBindings)) continue;
+    const elements = st.importClause.namedBindings.elements;
+    const unused = elements.filter(el => names.includes(el.name.text) &&
+      (sf.text.match(new RegExp(`(?<![\\w$.])${el.name.text.replace(/\$/g, "\\$")}(?![\\w$])`, "g"))?.length ?? 0) <= 1);
+    if (!unused.length) continue;
+    if (unused.length === elements.length && !st.importClause.name) {
+      edits.push({ start: st.getFullStart(), end: st.end, text: "" });
+      continue;
+    }
+    const kept = elements.filter(el => !unused.includes(el)).map(el => el.getText(sf));
+    const named = st.importClause.namedBindings;
+    edits.push({ start: named.getStart(sf), end: named.end, text: kept.length ? `{ ${kept.join(", ")} }` : "{}" });
+  }
+  return edits;
+}
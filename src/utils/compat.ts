@@ -0,0 +1,91 @@
+import semver from "semver";
+import { getVersionPeers, VersionPeers } from "./npm.js";
+
+export type LibraryCompat = {
+  name: string;
+  current?: string;
+  status: "ok" | "update" | "blocked" | "unconstrained" | "unknown";
+  compatibleVersion?: string;        // highest release whose @angular/core peer accepts the target
+  angularPeer?: string;              // that release's @angular/core peer range
+  lastSupportedAngularMajor?: number; // for blocked packages
+  lastSupportingVersion?: string;    // release that supports lastSupportedAngularMajor
+  note?: string;
+};
+
+const FRAMEWORK_PACKAGES = [/^@angular\//, /^@angular-devkit\//, /^@schematics\/angular$/, /^zone\.js$/];
+
+export function isFrameworkPackage(name: string): boolean {
+  return FRAMEWORK_PACKAGES.some(re => re.test(name));
+}
+
+// Does a peer range accept some release of the given Angular major?
+export function peerAcceptsMajor(peerRange: string, major: number): boolean {
+  try {
+    return semver.intersects(peerRange, `>=${major}.0.0-0 <${major + 1}.0.0-0`, { includePrerelease: true });
+  } catch {
+    return false;
+  }
+}
+
+// Highest Angular major (up to `ceiling`) a peer range accepts
+function maxAcceptedMajor(peerRange: string, ceiling: number): number | undefined {
+  for (let m = ceiling; m >= 2; m--) if (peerAcceptsMajor(peerRange, m)) return m;
+  return undefined;
+}
+
+function currentAllows(current: string | undefined, version: string): boolean {
+  if (!current || !semver.validRange(current)) return false;
+  return semver.satisfies(version, current);
+}
+
+/**
+ * Pick the highest published version of `name` whose @angular/core peer
+ * accepts `targetMajor`. Packages with no such release are reported as
+ * blocked together with the newest Angular major they ever supported.
+ */
+export async function resolveAngularCompat(name: string, targetMajor: number, current?: string): Promise<LibraryCompat> {
+  const all = await getVersionPeers(name);
+  if (!all) return { name, current, status: "unknown", note: "registry lookup failed" };
+
+  // Prefer stable releases; some packages (e.g. @angular/flex-layout) only ever shipped prereleases
+  const stableOnly = all.filter(v => semver.valid(v.version) && !semver.prerelease(v.version));
+  const stable = stableOnly.length ? stableOnly : all.filter(v => semver.valid(v.version));
+  const withPeer = stable.filter(v => v.peerDependencies["@angular/core"]);
+  if (!withPeer.length) {
+    const latest = semver.rsort(stable.map(v => v.version))[0];
+    return { name, current, status: "unconstrained", compatibleVersion: latest, note: "no release declares an @angular/core peer" };
+  }
+
+  const byVersionDesc = (a: VersionPeers, b: VersionPeers) => semver.rcompare(a.version, b.version);
+  const compatible = withPeer.filter(v => peerAcceptsMajor(v.peerDependencies["@angular/core"], targetMajor)).sort(byVersionDesc);
+
+  if (compatible.length) {
+    const best = compatible[0];
+    return {
+      name,
+      current,
+      status: currentAllows(current, best.version) ? "ok" : "update",
+      compatibleVersion: best.version,
+      angularPeer: best.peerDependencies["@angular/core"],
+    };
+  }
+
+  // Blocked: find the newest Angular major any release supports (below the target)
+  let lastMajor: number | undefined;
+  let lastVersion: string | undefined;
+  for (const v of withPeer.sort(byVersionDesc)) {
+    const m = maxAcceptedMajor(v.peerDependencies["@angular/core"], targetMajor - 1);
+    if (m !== undefined && (lastMajor === undefined || m > lastMajor)) {
+      lastMajor = m;
+      lastVersion = v.version;
+    }
+  }
+  return {
+    name,
+    current,
+    status: "blocked",
+    lastSupportedAngularMajor: lastMajor,
+    lastSupportingVersion: lastVersion,
+    note: `no published release supports Angular ${targetMajor}`,
+  };
+}
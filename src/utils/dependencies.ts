@@ -0,0 +1,98 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+import { findDecoratedClasses, getProperty, parseTsFile, stringValue, walk } from "./ast.js";
+import { readTextSafe } from "./scan.js";
+import { DeclarableIndex, templateDeclarables } from "./standalone.js";
+import { readCompilerOptions, resolveProjectImport } from "./tsconfig.js";
+
+export type DependencyNode = {
+  file: string;        // relative to the project root, forward slashes
+  via: "entry" | "import" | "templateUrl" | "styleUrl" | "template" | "standalone";
+  ref?: string;        // import specifier, or the class a template uses
+  repeat?: boolean;    // listed earlier in the tree; its dependencies are not repeated
+  children: DependencyNode[];
+};
+
+export type DependencyClosure = {
+  tree: DependencyNode;
+  files: string[];     // every file of the tree once, entry first
+  unresolved: Array<{ file: string; specifier: string }>;   // relative or aliased imports with no file behind them
+};
+
+// Where a file of the old project lands in the new one: src/app/** under `targetAppRoot`, the rest as is
+export function mirrorPath(rel: string, targetAppRoot = "src/app"): string {
+  return rel.startsWith("src/app/") ? path.posix.join(targetAppRoot, rel.slice("src/app/".length)) : rel;
+}
+
+// Import, re-export and dynamic import specifiers of a source file
+function moduleSpecifiers(sf: ts.SourceFile): string[] {
+  const specs: string[] = [];
+  walk(sf, n => {
+    if ((ts.isImportDeclaration(n) || ts.isExportDeclaration(n)) && n.moduleSpecifier && ts.isStringLiteral(n.moduleSpecifier)) {
+      specs.push(n.moduleSpecifier.text);
+    } else if (ts.isCallExpression(n) && n.expression.kind === ts.SyntaxKind.ImportKeyword && n.arguments[0] && ts.isStringLiteral(n.arguments[0])) {
+      specs.push(n.arguments[0].text);
+    }
+  });
+  return [...new Set(specs)];
+}
+
+/**
+ * Files a source file needs, followed through the project: relative and
+ * tsconfig-alias imports, component templates and stylesheets, and the
+ * project components, directives and pipes used in those templates.
+ * `extra` files (the `imports` of a standalone conversion) hang off the entry.
+ */
+export function collectDependencies(abs: string, entry: string, index: DeclarableIndex, extra: Array<{ file: string; ref: string }> = []): DependencyClosure {
+  const options = readCompilerOptions(abs);
+  const seen = new Set<string>();
+  const files: string[] = [];
+  const unresolved: DependencyClosure["unresolved"] = [];
+
+  const visit = (file: string, via: DependencyNode["via"], ref?: string): DependencyNode => {
+    const node: DependencyNode = { file, via, ...(ref ? { ref } : {}), children: [] };
+    if (seen.has(file)) return { ...node, repeat: true };
+    seen.add(file);
+    files.push(file);
+    if (!/\.[cm]?ts$/.test(file) || file.endsWith(".d.ts")) return node;
+
+    const full = path.join(abs, file);
+    const sf = parseTsFile(full);
+    for (const spec of moduleSpecifiers(sf)) {
+      const target = resolveProjectImport(abs, full, spec, options);
+      if (target === undefined) unresolved.push({ file, specifier: spec });
+      else if (target) node.children.push(visit(target, "import", spec));
+    }
+
+    const local = (url: string) => path.relative(abs, path.resolve(path.dirname(full), url)).replace(/\\/g, "/");
+    const asset = (url: string, via: DependencyNode["via"]) => {
+      if (fs.existsSync(path.join(abs, local(url)))) node.children.push(visit(local(url), via, url));
+      else unresolved.push({ file, specifier: url });
+    };
+    for (const c of findDecoratedClasses(sf, "Component")) {
+      if (!c.meta) continue;
+      const url = stringValue(getProperty(c.meta, "templateUrl"));
+      const inline = stringValue(getProperty(c.meta, "template"));
+      if (url) asset(url, "templateUrl");
+
+      const styles = getProperty(c.meta, "styleUrls");
+      const styleUrls = [
+        stringValue(getProperty(c.meta, "styleUrl")),
+        ...(styles && ts.isArrayLiteralExpression(styles) ? styles.elements.map(e => stringValue(e)) : []),
+      ].filter((u): u is string => !!u);
+      for (const u of styleUrls) asset(u, "styleUrl");
+
+      const template = url ? readTextSafe(path.join(abs, local(url))) : inline ?? "";
+      const used = new Map(templateDeclarables(index, template).map(u => [u.declarable.file, u.declarable.className]));
+      for (const [dep, className] of used) {
+        if (dep !== file) node.children.push(visit(dep, "template", className));
+      }
+    }
+    return node;
+  };
+
+  const tree = visit(entry, "entry");
+  for (const e of extra) tree.children.push(visit(e.file, "standalone", e.ref));
+  return { tree, files, unresolved };
+}
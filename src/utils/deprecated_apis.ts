@@ -0,0 +1,277 @@
+import path from "path";
+import ts from "typescript";
+import { findDecoratedClasses, getImportBindings, getProperty, lineOf, parseTsFile, propertyNameText, stringValue, walk } from "./ast.js";
+
+export type DeprecatedApiRule = {
+  id: string;
+  api: string;
+  deprecatedIn: number;   // Angular major where it was deprecated
+  removedIn?: number;     // Angular major where it stopped compiling / working
+  replacement: string;
+  find: (sf: ts.SourceFile) => ts.Node[];
+};
+
+export type DeprecatedApiFinding = {
+  ruleId: string;
+  api: string;
+  file: string;
+  line: number;
+  snippet: string;
+  status: "removed" | "deprecated";
+  deprecatedIn: number;
+  removedIn?: number;
+  replacement: string;
+};
+
+//#region Matchers
+
+// References to `name` imported from one of `modules` (the import itself if never used)
+function importedSymbol(names: string[], modules: string[]) {
+  return (sf: ts.SourceFile): ts.Node[] => {
+    const bindings = getImportBindings(sf);
+    const locals = [...bindings.entries()].filter(([, b]) => names.includes(b.imported) && modules.includes(b.from)).map(([local]) => local);
+    if (!locals.length) return [];
+    const uses: ts.Node[] = [];
+    const decls: ts.Node[] = [];
+    walk(sf, n => {
+      if (!ts.isIdentifier(n) || !locals.includes(n.text)) return;
+      let p: ts.Node | undefined = n.parent;
+      while (p && !ts.isImportDeclaration(p) && p !== sf) p = p.parent;
+      (p && ts.isImportDeclaration(p) ? decls : uses).push(n);
+    });
+    return uses.length ? uses : decls;
+  };
+}
+
+function importFromModule(prefixes: string[]) {
+  return (sf: ts.SourceFile): ts.Node[] => sf.statements.filter(st =>
+    ts.isImportDeclaration(st) && ts.isStringLiteral(st.moduleSpecifier) &&
+    prefixes.some(p => (st.moduleSpecifier as ts.StringLiteral).text === p || (st.moduleSpecifier as ts.StringLiteral).text.startsWith(p + "/")));
+}
+
+function decoratorProperty(decorators: string[], prop: string) {
+  return (sf: ts.SourceFile): ts.Node[] => decorators
+    .flatMap(d => findDecoratedClasses(sf, d))
+    .map(c => c.meta && getProperty(c.meta, prop))
+    .filter((e): e is ts.Expression => !!e)
+    .map(e => e.parent);
+}
+
+function implementsInterface(names: string[]) {
+  return (sf: ts.SourceFile): ts.Node[] => {
+    const routerLocals = [...getImportBindings(sf).entries()]
+      .filter(([, b]) => b.from === "@angular/router" && names.includes(b.imported))
+      .map(([local]) => local);
+    const out: ts.Node[] = [];
+    walk(sf, n => {
+      if (!ts.isClassDeclaration(n)) return;
+      for (const h of n.heritageClauses ?? []) {
+        if (h.token !== ts.SyntaxKind.ImplementsKeyword) continue;
+        for (const t of h.types) if (routerLocals.includes(t.expression.getText())) out.push(t);
+      }
+    });
+    return out;
+  };
+}
+
+function propertyAssignment(prop: string, match: (init: ts.Expression) => boolean = () => true) {
+  return (sf: ts.SourceFile): ts.Node[] => {
+    const out: ts.Node[] = [];
+    walk(sf, n => {
+      if (ts.isPropertyAssignment(n) && propertyNameText(n.name) === prop && match(n.initializer)) out.push(n);
+    });
+    return out;
+  };
+}
+
+function propertyAccess(objectName: string, member: string) {
+  return (sf: ts.SourceFile): ts.Node[] => {
+    const out: ts.Node[] = [];
+    walk(sf, n => {
+      if (ts.isPropertyAccessExpression(n) && n.name.text === member && n.expression.getText() === objectName) out.push(n);
+    });
+    return out;
+  };
+}
+
+//#endregion
+
+// Rule catalog, oldest first. Versions are Angular majors.
+export const DEPRECATED_API_RULES: DeprecatedApiRule[] = [
+  {
+    id: "http-module",
+    api: "@angular/http",
+    deprecatedIn: 5,
+    removedIn: 8,
+    replacement: "HttpClient from @angular/common/http",
+    find: importFromModule(["@angular/http"]),
+  },
+  {
+    id: "renderer-v1",
+    api: "Renderer",
+    deprecatedIn: 4,
+    removedIn: 9,
+    replacement: "Renderer2",
+    find: importedSymbol(["Renderer"], ["@angular/core"]),
+  },
+  {
+    id: "reflective-injector",
+    api: "ReflectiveInjector",
+    deprecatedIn: 5,
+    removedIn: 16,
+    replacement: "Injector.create({ providers, parent })",
+    find: importedSymbol(["ReflectiveInjector", "ReflectiveKey", "ResolvedReflectiveFactory"], ["@angular/core"]),
+  },
+  {
+    id: "view-encapsulation-native",
+    api: "ViewEncapsulation.Native",
+    deprecatedIn: 6,
+    removedIn: 11,
+    replacement: "ViewEncapsulation.ShadowDom",
+    find: propertyAccess("ViewEncapsulation", "Native"),
+  },
+  {
+    id: "loadchildren-string",
+    api: "loadChildren: 'path#Module'",
+    deprecatedIn: 8,
+    removedIn: 11,
+    replacement: "loadChildren: () => import('./path').then(m => m.Module)",
+    find: propertyAssignment("loadChildren", init => stringValue(init) !== undefined),
+  },
+  {
+    id: "module-with-providers-generic",
+    api: "ModuleWithProviders without a type argument",
+    deprecatedIn: 9,
+    removedIn: 10,
+    replacement: "ModuleWithProviders<YourModule>",
+    find: sf => {
+      const out: ts.Node[] = [];
+      walk(sf, n => {
+        if (ts.isTypeReferenceNode(n) && n.typeName.getText() === "ModuleWithProviders" && !n.typeArguments?.length) out.push(n);
+      });
+      return out;
+    },
+  },
+  {
+    id: "entry-components",
+    api: "entryComponents",
+    deprecatedIn: 9,
+    removedIn: 16,
+    replacement: "remove it; Ivy does not need entryComponents",
+    find: decoratorProperty(["NgModule", "Component"], "entryComponents"),
+  },
+  {
+    id: "testbed-get",
+    api: "TestBed.get",
+    deprecatedIn: 9,
+    removedIn: 20,
+    replacement: "TestBed.inject",
+    find: propertyAccess("TestBed", "get"),
+  },
+  {
+    id: "testing-async",
+    api: "async() from @angular/core/testing",
+    deprecatedIn: 11,
+    removedIn: 15,
+    replacement: "waitForAsync()",
+    find: importedSymbol(["async"], ["@angular/core/testing"]),
+  },
+  {
+    id: "component-factory-resolver",
+    api: "ComponentFactoryResolver",
+    deprecatedIn: 13,
+    replacement: "ViewContainerRef.createComponent(ComponentClass) or createComponent()",
+    find: importedSymbol(["ComponentFactoryResolver", "ComponentFactory"], ["@angular/core"]),
+  },
+  {
+    id: "compiler-factories",
+    api: "Compiler / NgModuleFactory APIs",
+    deprecatedIn: 13,
+    replacement: "createNgModule() or lazy-load the module class directly",
+    find: importedSymbol(["Compiler", "NgModuleFactory", "ModuleWithComponentFactories", "NgModuleFactoryLoader", "SystemJsNgModuleLoader"], ["@angular/core"]),
+  },
+  {
+    id: "browser-transfer-state-module",
+    api: "BrowserTransferStateModule",
+    deprecatedIn: 14,
+    removedIn: 16,
+    replacement: "TransferState is injectable without importing a module",
+    find: importedSymbol(["BrowserTransferStateModule"], ["@angular/platform-browser"]),
+  },
+  {
+    id: "provided-in-any",
+    api: "providedIn: 'any'",
+    deprecatedIn: 15,
+    replacement: "providedIn: 'root' or provide it in the route/component providers",
+    find: propertyAssignment("providedIn", init => stringValue(init) === "any"),
+  },
+  {
+    id: "class-based-guards",
+    api: "class-based CanActivate / CanActivateChild / CanDeactivate / CanMatch / Resolve",
+    deprecatedIn: 15,
+    replacement: "functional guards/resolvers (CanActivateFn, ResolveFn, ...) using inject()",
+    find: implementsInterface(["CanActivate", "CanActivateChild", "CanDeactivate", "CanMatch", "Resolve"]),
+  },
+  {
+    id: "can-load",
+    api: "CanLoad / canLoad",
+    deprecatedIn: 15,
+    replacement: "CanMatchFn / canMatch",
+    find: sf => [...implementsInterface(["CanLoad"])(sf), ...propertyAssignment("canLoad")(sf)],
+  },
+  {
+    id: "router-testing-module",
+    api: "RouterTestingModule",
+    deprecatedIn: 17,
+    replacement: "provideRouter() (and provideLocationMocks()) in TestBed providers",
+    find: importedSymbol(["RouterTestingModule"], ["@angular/router/testing"]),
+  },
+  {
+    id: "http-client-module",
+    api: "HttpClientModule / HttpClientTestingModule",
+    deprecatedIn: 18,
+    replacement: "provideHttpClient() / provideHttpClientTesting()",
+    find: sf => [
+      ...importedSymbol(["HttpClientModule", "HttpClientJsonpModule", "HttpClientXsrfModule"], ["@angular/common/http"])(sf),
+      ...importedSymbol(["HttpClientTestingModule"], ["@angular/common/http/testing"])(sf),
+    ],
+  },
+  {
+    id: "app-initializer-token",
+    api: "APP_INITIALIZER / ENVIRONMENT_INITIALIZER / PLATFORM_INITIALIZER",
+    deprecatedIn: 19,
+    replacement: "provideAppInitializer() / provideEnvironmentInitializer() / providePlatformInitializer()",
+    find: importedSymbol(["APP_INITIALIZER", "ENVIRONMENT_INITIALIZER", "PLATFORM_INITIALIZER"], ["@angular/core"]),
+  },
+];
+
+export const LATEST_KNOWN_MAJOR = Math.max(...DEPRECATED_API_RULES.map(r => Math.max(r.deprecatedIn, r.removedIn ?? 0)));
+
+// Rules relevant when upgrading to `targetMajor` (already deprecated by then)
+export function rulesForTarget(targetMajor: number): DeprecatedApiRule[] {
+  return DEPRECATED_API_RULES.filter(r => r.deprecatedIn <= targetMajor);
+}
+
+export function scanDeprecatedApis(abs: string, relFiles: string[], targetMajor: number): DeprecatedApiFinding[] {
+  const rules = rulesForTarget(targetMajor);
+  const findings: DeprecatedApiFinding[] = [];
+  for (const rel of relFiles) {
+    const sf = parseTsFile(path.join(abs, rel));
+    for (const rule of rules) {
+      for (const node of rule.find(sf)) {
+        findings.push({
+          ruleId: rule.id,
+          api: rule.api,
+          file: rel.replace(/\\/g, "/"),
+          line: lineOf(sf, node.getStart()),
+          snippet: node.getText().replace(/\s+/g, " ").slice(0, 120),
+          status: rule.removedIn !== undefined && rule.removedIn <= targetMajor ? "removed" : "deprecated",
+          deprecatedIn: rule.deprecatedIn,
+          removedIn: rule.removedIn,
+          replacement: rule.replacement,
+        });
+      }
+    }
+  }
+  return findings;
+}
@@ -0,0 +1,84 @@
+// Unified diffs for dry-run output of the codemods
+
+type Op = { kind: " " | "-" | "+"; line: string };
+
+// Longest-common-subsequence line diff; inputs larger than this become one replace hunk
+const MAX_CELLS = 4_000_000;
+
+function diffLines(a: string[], b: string[]): Op[] {
+  let pre = 0;
+  while (pre < a.length && pre < b.length && a[pre] === b[pre]) pre++;
+  let suf = 0;
+  while (suf < a.length - pre && suf < b.length - pre && a[a.length - 1 - suf] === b[b.length - 1 - suf]) suf++;
+
+  const head: Op[] = a.slice(0, pre).map(line => ({ kind: " ", line }));
+  const tail: Op[] = a.slice(a.length - suf).map(line => ({ kind: " ", line }));
+  const x = a.slice(pre, a.length - suf);
+  const y = b.slice(pre, b.length - suf);
+
+  if ((x.length + 1) * (y.length + 1) > MAX_CELLS) {
+    return [...head, ...x.map(line => ({ kind: "-" as const, line })), ...y.map(line => ({ kind: "+" as const, line })), ...tail];
+  }
+
+  // lcs[i][j] = LCS length of x[i..] and y[j..]
+  const w = y.length + 1;
+  const lcs = new Uint32Array((x.length + 1) * w);
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lcs[i * w + j] = x[i] === y[j] ? lcs[(i + 1) * w + j + 1] + 1 : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+    }
+  }
+  const mid: Op[] = [];
+  let i = 0, j = 0;
+  while (i < x.length && j < y.length) {
+    if (x[i] === y[j]) { mid.push({ kind: " ", line: x[i] }); i++; j++; }
+    else if (lcs[(i + 1) * w + j] >= lcs[i * w + j + 1]) mid.push({ kind: "-", line: x[i++] });
+    else mid.push({ kind: "+", line: y[j++] });
+  }
+  while (i < x.length) mid.push({ kind: "-", line: x[i++] });
+  while (j < y.length) mid.push({ kind: "+", line: y[j++] });
+
+  return [...head, ...mid, ...tail];
+}
+
+// Lines of a file; the newline ending the last line does not open another one
+function toLines(text: string): string[] {
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * `diff -u` style patch of one file (`a/<file>` -> `b/<file>`), or "" when
+ * the contents are equal.
+ */
+export function unifiedDiff(file: string, before: string, after: string, context = 3): string {
+  if (before === after) return "";
+  const ops = diffLines(toLines(before), toLines(after));
+
+  const changed = ops.map((op, k) => op.kind !== " " ? k : -1).filter(k => k >= 0);
+  const hunks: Array<[number, number]> = [];
+  for (const k of changed) {
+    const start = Math.max(0, k - context);
+    const end = Math.min(ops.length, k + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else hunks.push([start, end]);
+  }
+
+  const out = [`--- a/${file}`, `+++ b/${file}`];
+  for (const [start, end] of hunks) {
+    // 1-based line numbers of the hunk start in each version
+    let oldLine = 1, newLine = 1;
+    for (let k = 0; k < start; k++) {
+      if (ops[k].kind !== "+") oldLine++;
+      if (ops[k].kind !== "-") newLine++;
+    }
+    const body = ops.slice(start, end);
+    const oldCount = body.filter(op => op.kind !== "+").length;
+    const newCount = body.filter(op => op.kind !== "-").length;
+    out.push(`@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`);
+    for (const op of body) out.push(op.kind + op.line);
+  }
+  return out.join("\n") + "\n";
+}
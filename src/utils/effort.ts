@@ -0,0 +1,205 @@
+import fs from "fs";
+import path from "path";
+import { getRelease } from "./angular_versions.js";
+import { LibraryCompat } from "./compat.js";
+import { DeprecatedApiFinding } from "./deprecated_apis.js";
+import { TestRunner } from "./workspace.js";
+
+// Effort points are roughly developer hours; the weights below are the knobs
+export const EFFORT_WEIGHTS = {
+  tsFile: 0.1,               // review/compile fixes per TypeScript file
+  templateLines100: 0.5,     // per 100 template lines (inline or templateUrl)
+  removedApiHit: 1.5,        // usage of an API removed by the target
+  deprecatedApiHit: 0.5,     // usage of an API deprecated by the target
+  couplingEdge: 0.5,         // per NgModule import / importer
+  hopBase: 4,                // per `ng update` major hop
+  hopBreakingChange: 1,      // per breaking change listed for that hop
+  blockedLibrary: 16,        // replace or fork a library with no compatible release
+  libraryUpdate: 1,          // bump a library to its compatible release
+  oldAngularPeer: 2,         // installed package pinning old @angular peers
+  karmaSpec: 0.25,           // per spec file when moving off Karma
+  noTestsSurcharge: 0.2,     // share added to remediation when no test runner is set up
+  freshFile: 0.15,           // per file copied and rewired into a fresh workspace
+  freshModule: 2,            // per NgModule rewired (routes, providers, imports)
+};
+
+export type EffortFactor = {
+  id: string;
+  label: string;
+  count: number;
+  points: number;
+};
+
+export type ModuleEffort = {
+  name: string;
+  path: string;
+  lazy: boolean;
+  files: number;             // exact .ts/.html files owned by the module folder
+  templateLines: number;
+  points: number;
+  factors: EffortFactor[];
+};
+
+export type EffortReport = {
+  score: number;             // 0-100, log scale of the cheaper path's points
+  level: "low" | "medium" | "high" | "very-high";
+  points: number;            // cheaper path
+  inPlacePoints: number;
+  freshWorkspacePoints: number;
+  recommendation: "in-place" | "fresh-workspace";
+  rationale: string;
+  factors: EffortFactor[];   // project-wide
+  modules: ModuleEffort[];   // most expensive first
+};
+
+export type EffortInput = {
+  abs: string;
+  modules: Array<{ name: string; path: string; dependsOn: string[]; lazy: boolean }>;
+  files: string[];           // project-relative .ts and .html files in scope
+  deprecated: DeprecatedApiFinding[];
+  currentMajor: number | null;
+  targetMajor: number;
+  testRunner: TestRunner;
+  libraries: LibraryCompat[];
+  oldAngularPeers: number;
+};
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+function factor(id: string, label: string, count: number, weight: number): EffortFactor {
+  return { id, label, count, points: round(count * weight) };
+}
+
+function lineCount(abs: string, rel: string): number {
+  try { return fs.readFileSync(path.join(abs, rel), "utf-8").split("\n").length; } catch { return 0; }
+}
+
+// Lines inside `template: \`...\`` of component files
+function inlineTemplateLines(abs: string, rel: string): number {
+  let src = "";
+  try { src = fs.readFileSync(path.join(abs, rel), "utf-8"); } catch { return 0; }
+  let n = 0;
+  for (const m of src.matchAll(/\btemplate\s*:\s*`([\s\S]*?)`/g)) n += m[1].split("\n").length;
+  return n;
+}
+
+/**
+ * Turn analysis counts into effort points per module and for the project,
+ * and compare an in-place `ng update` path with a fresh workspace.
+ * Files belong to the deepest NgModule folder containing them.
+ */
+export function estimateEffort(input: EffortInput): EffortReport {
+  const W = EFFORT_WEIGHTS;
+  const { abs, modules, files, deprecated } = input;
+
+  //#region Per-module
+
+  const dirs = modules
+    .map(m => ({ m, dir: path.posix.dirname(m.path.replace(/\\/g, "/")) }))
+    // Deepest folder first; routing modules never own files when sharing a folder
+    .sort((a, b) => b.dir.length - a.dir.length || Number(/routing/i.test(a.m.name)) - Number(/routing/i.test(b.m.name)));
+  const ownerOf = (file: string) => dirs.find(d => file === d.dir || file.startsWith(d.dir + "/"))?.m;
+
+  const stats = new Map(modules.map(m => [m, { files: 0, tsFiles: 0, templateLines: 0, removed: 0, deprecated: 0 }]));
+  let totalTemplateLines = 0;
+  for (const f of files) {
+    const lines = f.endsWith(".html") ? lineCount(abs, f) : f.endsWith(".component.ts") ? inlineTemplateLines(abs, f) : 0;
+    totalTemplateLines += lines;
+    const owner = ownerOf(f);
+    if (!owner) continue;
+    const st = stats.get(owner)!;
+    st.files++;
+    if (f.endsWith(".ts")) st.tsFiles++;
+    st.templateLines += lines;
+  }
+  for (const d of deprecated) {
+    const owner = ownerOf(d.file);
+    if (owner) stats.get(owner)![d.status === "removed" ? "removed" : "deprecated"]++;
+  }
+
+  const importers = new Map<string, number>();
+  for (const m of modules) for (const dep of m.dependsOn) importers.set(dep, (importers.get(dep) ?? 0) + 1);
+
+  const moduleEfforts: ModuleEffort[] = modules.map(m => {
+    const st = stats.get(m)!;
+    const factors = [
+      factor("tsFiles", "TypeScript files", st.tsFiles, W.tsFile),
+      factor("templateLines", "Template lines (per 100)", round(st.templateLines / 100), W.templateLines100),
+      factor("removedApis", "Removed API usages", st.removed, W.removedApiHit),
+      factor("deprecatedApis", "Deprecated API usages", st.deprecated, W.deprecatedApiHit),
+      factor("coupling", "NgModule imports + importers", m.dependsOn.length + (importers.get(m.name) ?? 0), W.couplingEdge),
+    ].filter(f => f.count > 0);
+    return {
+      name: m.name,
+      path: m.path,
+      lazy: m.lazy,
+      files: st.files,
+      templateLines: st.templateLines,
+      points: round(factors.reduce((n, f) => n + f.points, 0)),
+      factors,
+    };
+  }).sort((a, b) => b.points - a.points);
+
+  //#endregion
+
+  //#region Project-wide
+
+  const hops: number[] = [];
+  if (input.currentMajor !== null) for (let m = input.currentMajor + 1; m <= input.targetMajor; m++) hops.push(m);
+  const breaking = hops.reduce((n, m) => n + (getRelease(m)?.breakingChanges.length ?? 0), 0);
+  const removed = deprecated.filter(d => d.status === "removed").length;
+  const specFiles = files.filter(f => f.endsWith(".spec.ts")).length;
+
+  const remediation = [
+    factor("removedApis", "Removed API usages", removed, W.removedApiHit),
+    factor("deprecatedApis", "Deprecated API usages", deprecated.length - removed, W.deprecatedApiHit),
+    factor("blockedLibraries", "Libraries with no compatible release", input.libraries.filter(l => l.status === "blocked").length, W.blockedLibrary),
+    factor("libraryUpdates", "Libraries needing a newer release", input.libraries.filter(l => l.status === "update").length, W.libraryUpdate),
+    factor("oldAngularPeers", "Installed packages pinning old @angular peers", input.oldAngularPeers, W.oldAngularPeer),
+    factor("karmaSpecs", "Karma spec files to move to Jest/Vitest", input.testRunner === "karma" ? specFiles : 0, W.karmaSpec),
+  ];
+  const remediationPoints = remediation.reduce((n, f) => n + f.points, 0);
+  if (input.testRunner === "none") {
+    remediation.push({ id: "noTests", label: "No test runner (risk surcharge on remediation)", count: 1, points: round(remediationPoints * W.noTestsSurcharge) });
+  }
+
+  const hopFactors = [
+    factor("majorHops", "Angular major hops", hops.length, W.hopBase),
+    factor("breakingChanges", "Breaking changes across hops", breaking, W.hopBreakingChange),
+  ];
+  const codeFactors = [
+    factor("tsFiles", "TypeScript files", files.filter(f => f.endsWith(".ts")).length, W.tsFile),
+    factor("templateLines", "Template lines (per 100)", round(totalTemplateLines / 100), W.templateLines100),
+  ];
+  const freshFactors = [
+    factor("freshFiles", "Files to copy and rewire", files.length, W.freshFile),
+    factor("freshModules", "NgModules to rewire", modules.length, W.freshModule),
+  ];
+
+  const sum = (list: EffortFactor[]) => list.reduce((n, f) => n + f.points, 0);
+  const remediationTotal = sum(remediation);
+  const inPlacePoints = round(sum(hopFactors) + sum(codeFactors) + remediationTotal);
+  const freshWorkspacePoints = round(sum(freshFactors) + sum(codeFactors) + remediationTotal);
+
+  //#endregion
+
+  const fresh = freshWorkspacePoints < inPlacePoints;
+  const points = Math.min(inPlacePoints, freshWorkspacePoints);
+  const score = Math.min(100, Math.round(25 * Math.log10(1 + points)));
+  const level: EffortReport["level"] = score < 25 ? "low" : score < 50 ? "medium" : score < 75 ? "high" : "very-high";
+  const rationale = fresh
+    ? `${hops.length} major hop(s) with ${breaking} breaking change(s) cost more than rewiring ${files.length} file(s) and ${modules.length} NgModule(s) into a fresh workspace`
+    : `Rewiring ${files.length} file(s) and ${modules.length} NgModule(s) costs more than ${hops.length} in-place major hop(s)`;
+
+  return {
+    score,
+    level,
+    points,
+    inPlacePoints,
+    freshWorkspacePoints,
+    recommendation: fresh ? "fresh-workspace" : "in-place",
+    rationale,
+    factors: [...hopFactors, ...codeFactors, ...remediation, ...freshFactors].filter(f => f.count > 0),
+    modules: moduleEfforts,
+  };
+}
@@ -0,0 +1,341 @@
+import ts from "typescript";
+import { getImportBindings, getProperty, lineOf, parseTsSource, propertyNameText, unwrapExpression, walk } from "./ast.js";
+import { addNamedImports, applyEdits, removeUnusedNamedImports, TextEdit } from "./codemod.js";
+import { injectCall, readInjectedParams } from "./inject.js";
+
+export type FunctionalKind = "canActivate" | "canActivateChild" | "canDeactivate" | "canMatch" | "canLoad" | "resolve" | "intercept";
+
+// Class interface, functional type and the suffix of the function name, per method
+const KINDS: Record<FunctionalKind, { iface: string; fn: string; from: string; suffix: string; generic?: boolean }> = {
+  canActivate: { iface: "CanActivate", fn: "CanActivateFn", from: "@angular/router", suffix: "" },
+  canActivateChild: { iface: "CanActivateChild", fn: "CanActivateChildFn", from: "@angular/router", suffix: "Child" },
+  canDeactivate: { iface: "CanDeactivate", fn: "CanDeactivateFn", from: "@angular/router", suffix: "Deactivate", generic: true },
+  canMatch: { iface: "CanMatch", fn: "CanMatchFn", from: "@angular/router", suffix: "Match" },
+  canLoad: { iface: "CanLoad", fn: "CanLoadFn", from: "@angular/router", suffix: "Load" },
+  resolve: { iface: "Resolve", fn: "ResolveFn", from: "@angular/router", suffix: "", generic: true },
+  intercept: { iface: "HttpInterceptor", fn: "HttpInterceptorFn", from: "@angular/common/http", suffix: "" },
+};
+const KIND_NAMES = Object.keys(KINDS) as FunctionalKind[];
+
+// Imports the class form needed that the functions usually do not
+const CLASS_ONLY_IMPORTS = [
+  "Injectable", "Inject", "Optional", "Self", "SkipSelf", "Host",
+  ...Object.values(KINDS).map(k => k.iface),
+  "ActivatedRouteSnapshot", "RouterStateSnapshot", "Route", "UrlSegment", "UrlTree", "HttpRequest", "HttpHandler", "HttpEvent", "Observable",
+];
+
+export type FunctionalCandidate = {
+  className: string;
+  line: number;
+  kinds: FunctionalKind[];
+};
+
+export type FunctionalConversion = {
+  className: string;
+  functions: Array<{ kind: FunctionalKind; name: string }>;
+};
+
+const lowerFirst = (s: string) => s.charAt(0).toLowerCase() + s.slice(1);
+
+// `implements` entries of a class: interface name -> type argument text
+function implemented(cls: ts.ClassDeclaration, sf: ts.SourceFile): Map<string, string | undefined> {
+  const out = new Map<string, string | undefined>();
+  for (const h of cls.heritageClauses ?? []) {
+    if (h.token !== ts.SyntaxKind.ImplementsKeyword) continue;
+    for (const t of h.types) out.set(t.expression.getText(sf), t.typeArguments?.[0]?.getText(sf));
+  }
+  return out;
+}
+
+function methodsOf(cls: ts.ClassDeclaration): Map<string, ts.MethodDeclaration> {
+  const out = new Map<string, ts.MethodDeclaration>();
+  for (const m of cls.members) {
+    if (ts.isMethodDeclaration(m) && m.body && ts.isIdentifier(m.name)) out.set(m.name.text, m);
+  }
+  return out;
+}
+
+function kindsOf(cls: ts.ClassDeclaration, sf: ts.SourceFile): FunctionalKind[] {
+  const ifaces = implemented(cls, sf);
+  const methods = methodsOf(cls);
+  // resolve() alone is too common a name; a resolver has to say `implements Resolve`
+  return KIND_NAMES.filter(k => methods.has(k) && (ifaces.has(KINDS[k].iface) || k !== "resolve" && (k !== "intercept" || methods.get(k)!.parameters.length === 2)));
+}
+
+/**
+ * Class guards, resolvers and interceptors of a file: classes implementing
+ * CanActivate, CanActivateChild, CanDeactivate, CanMatch, CanLoad, Resolve or
+ * HttpInterceptor, or declaring the matching method (`resolve` excepted).
+ */
+export function findFunctionalCandidates(sf: ts.SourceFile): FunctionalCandidate[] {
+  return sf.statements.filter(ts.isClassDeclaration).flatMap(cls => {
+    const kinds = cls.name ? kindsOf(cls, sf) : [];
+    return kinds.length ? [{ className: cls.name!.text, line: lineOf(sf, cls.getStart(sf)), kinds }] : [];
+  });
+}
+
+// Leading whitespace of the line `pos` is on
+function indentAt(code: string, pos: number): string {
+  const start = code.lastIndexOf("\n", pos - 1) + 1;
+  return /^[ \t]*/.exec(code.slice(start))![0];
+}
+
+/**
+ * Replaces a class guard, resolver or interceptor with one function per
+ * method (`AuthGuard` -> `authGuard`, `authGuardChild`, ...). Constructor
+ * parameters become `inject()` calls inside each function that uses them,
+ * `this.<method>(...)` calls the sibling function and `next.handle(req)`
+ * becomes `next(req)`. Classes with state, helpers, a base class or a
+ * constructor body are left alone; `issues` says what is in the way.
+ */
+export function convertToFunctional(fileName: string, code: string, className: string): {
+  code: string;
+  conversion?: FunctionalConversion;
+  issues: string[];
+} {
+  const sf = parseTsSource(fileName, code);
+  const cls = sf.statements.find((s): s is ts.ClassDeclaration => ts.isClassDeclaration(s) && s.name?.text === className);
+  if (!cls) return { code, issues: [`class ${className} not found`] };
+  const kinds = kindsOf(cls, sf);
+  if (!kinds.length) return { code, issues: [`${className} has no guard, resolver or interceptor method`] };
+  const ifaces = implemented(cls, sf);
+  const methods = methodsOf(cls);
+  const issues: string[] = [];
+
+  if (cls.heritageClauses?.some(h => h.token === ts.SyntaxKind.ExtendsKeyword)) issues.push(`${className} extends another class`);
+  const ctor = cls.members.find(ts.isConstructorDeclaration);
+  if (ctor?.body?.statements.length) issues.push("constructor body");
+  const params = ctor ? readInjectedParams(ctor, sf) : [];
+  for (const m of cls.members) {
+    if (m === ctor || ts.isMethodDeclaration(m) && ts.isIdentifier(m.name) && kinds.includes(m.name.text as FunctionalKind)) continue;
+    issues.push(`member ${m.name?.getText(sf) ?? m.getText(sf)} (state or helpers shared by the methods)`);
+  }
+
+  const base = lowerFirst(className);
+  // The first method takes the plain name; others get a suffix (authGuard, authGuardChild)
+  const fnName = (k: FunctionalKind) => k === kinds[0] ? base : base + KINDS[k].suffix;
+  const taken = new Set(sf.statements.flatMap(s =>
+    ts.isVariableStatement(s) ? s.declarationList.declarations.map(d => d.name.getText(sf)) : ts.isFunctionDeclaration(s) && s.name ? [s.name.text] : []));
+  for (const k of kinds) if (taken.has(fnName(k))) issues.push(`${fnName(k)} is already declared in the file`);
+
+  let outside = false;
+  walk(sf, n => {
+    if (ts.isIdentifier(n) && n.text === className && n !== cls.name && !(n.pos >= cls.pos && n.end <= cls.end) && !ts.isImportSpecifier(n.parent)) outside = true;
+  });
+  if (outside) issues.push(`${className} is referenced elsewhere in the file`);
+
+  const exported = !!ts.getModifiers(cls)?.some(m => m.kind === ts.SyntaxKind.ExportKeyword);
+  const used = new Set<string>();
+  const functions: string[] = [];
+  for (const k of kinds) {
+    const m = methods.get(k)!;
+    const body = m.body!;
+    const edits: TextEdit[] = [];
+    const injected = new Set<string>();
+    const nextParam = k === "intercept" ? m.parameters[1]?.name.getText(sf) : undefined;
+    walk(body, n => {
+      if (ts.isPropertyAccessExpression(n) && n.expression.kind === ts.SyntaxKind.ThisKeyword) {
+        const name = n.name.text;
+        const param = params.find(p => p.property && p.name === name);
+        if (param) {
+          if (param.issue) issues.push(`${name}: ${param.issue}`);
+          injected.add(name);
+          edits.push({ start: n.getStart(sf), end: n.end, text: name });
+        } else if (kinds.includes(name as FunctionalKind)) {
+          edits.push({ start: n.getStart(sf), end: n.end, text: fnName(name as FunctionalKind) });
+        } else {
+          issues.push(`this.${name} in ${k}()`);
+        }
+      } else if (n.kind === ts.SyntaxKind.ThisKeyword && !ts.isPropertyAccessExpression(n.parent)) {
+        issues.push(`this used as a value in ${k}()`);
+      } else if (nextParam && ts.isPropertyAccessExpression(n) && n.name.text === "handle" && n.expression.getText(sf) === nextParam) {
+        edits.push({ start: n.getStart(sf), end: n.end, text: nextParam });
+      }
+    });
+
+    // Body statements (and comments before them) move from method to function level
+    const outer = indentAt(code, m.getStart(sf));
+    const first = body.statements[0];
+    const step = (first ? indentAt(code, first.getStart(sf)).slice(outer.length) : "") || "  ";
+    let rewritten = "";
+    if (first) {
+      const start = body.getStart(sf) + 1;
+      const raw = applyEdits(code.slice(start, body.statements[body.statements.length - 1].end), edits.map(e => ({ ...e, start: e.start - start, end: e.end - start })));
+      const dedent = (text: string) => text.split("\n").map(l => l.startsWith(outer) ? l.slice(outer.length) : l.trimStart()).join("\n");
+      rewritten = /^[ \t]*\n/.test(raw) ? dedent(raw.replace(/^[ \t]*\n/, "")) : step + dedent(raw.trim());
+    }
+
+    const injects = params.filter(p => injected.has(p.name)).map(p => `${step}const ${p.name} = ${injectCall(p)};`);
+    injects.forEach(() => used.add("inject"));
+    const typeArg = KINDS[k].generic ? `<${ifaces.get(KINDS[k].iface) ?? "unknown"}>` : "";
+    const isAsync = !!ts.getModifiers(m)?.some(x => x.kind === ts.SyntaxKind.AsyncKeyword);
+    const args = m.parameters.map(p => p.name.getText(sf)).join(", ");
+    used.add(KINDS[k].fn);
+    functions.push([
+      `${exported ? "export " : ""}const ${fnName(k)}: ${KINDS[k].fn}${typeArg} = ${isAsync ? "async " : ""}(${args}) => {`,
+      ...injects,
+      ...(rewritten ? [rewritten] : []),
+      "};",
+    ].join("\n"));
+  }
+  if (issues.length) return { code, issues: [...new Set(issues)] };
+
+  let out = applyEdits(code, [{ start: cls.getStart(sf), end: cls.end, text: functions.join("\n\n") }]);
+  let next = parseTsSource(fileName, out);
+  const byModule = new Map<string, string[]>();
+  for (const name of used) {
+    const from = name === "inject" ? "@angular/core" : Object.values(KINDS).find(x => x.fn === name)!.from;
+    byModule.set(from, [...byModule.get(from) ?? [], name]);
+  }
+  const importEdits = [...byModule].flatMap(([from, names]) => addNamedImports(next, from, names));
+  const merged: TextEdit[] = [];
+  for (const e of importEdits) {
+    const same = merged.find(x => x.start === e.start && x.end === e.start && e.end === e.start);
+    if (same) same.text += e.text;
+    else merged.push(e);
+  }
+  out = applyEdits(out, merged);
+  next = parseTsSource(fileName, out);
+  out = applyEdits(out, removeUnusedNamedImports(next, CLASS_ONLY_IMPORTS));
+  return { code: out, conversion: { className, functions: kinds.map(k => ({ kind: k, name: fnName(k) })) }, issues: [] };
+}
+
+//#region Usages
+
+export type FunctionalTarget = FunctionalConversion & { file: string };   // file: project path of the converted code
+
+const ROUTE_KEYS = ["canActivate", "canActivateChild", "canDeactivate", "canMatch", "canLoad"] as const;
+
+// Edits dropping some elements of an array literal, commas included
+function removeElements(arr: ts.ArrayLiteralExpression, doomed: Set<ts.Node>, sf: ts.SourceFile): TextEdit[] {
+  const els = arr.elements;
+  const kept = els.filter(e => !doomed.has(e));
+  if (!kept.length) return [{ start: arr.getStart(sf) + 1, end: arr.end - 1, text: "" }];
+  const lastKept = els.indexOf(kept[kept.length - 1]);
+  const edits: TextEdit[] = [];
+  for (let i = 0; i < lastKept; i++) {
+    if (doomed.has(els[i])) edits.push({ start: els[i].getStart(sf), end: els[i + 1].getStart(sf), text: "" });
+  }
+  if (lastKept < els.length - 1) edits.push({ start: els[lastKept].end, end: els[els.length - 1].end, text: "" });
+  return edits;
+}
+
+/**
+ * Points the usages of converted classes in a file at the functions: route
+ * guard arrays, `resolve` maps, and `HTTP_INTERCEPTORS` class providers, which
+ * move into the file's `provideHttpClient(withInterceptors([...]))`. A class
+ * is matched through its import; `resolve` maps a specifier to a project path.
+ * Interceptor providers stay when the file has no provideHttpClient call, and
+ * every reference left is returned with the class it names.
+ */
+export function rewriteFunctionalUsages(
+  fileName: string,
+  code: string,
+  targets: FunctionalTarget[],
+  resolve: (spec: string) => string | undefined,
+): {
+  code: string;
+  applied: Array<{ line: number; from: string; to: string }>;
+  interceptors: string[];                       // registered with withInterceptors
+  leftovers: Array<{ className: string; line: number; text: string }>;
+} {
+  const sf = parseTsSource(fileName, code);
+  const local = new Map<string, { target: FunctionalTarget; from: string }>();
+  for (const [name, b] of getImportBindings(sf)) {
+    const target = targets.find(t => t.className === b.imported);
+    if (target && resolve(b.from) === target.file) local.set(name, { target, from: b.from });
+  }
+  if (!local.size) return { code, applied: [], interceptors: [], leftovers: [] };
+
+  const edits: TextEdit[] = [];
+  const applied: Array<{ line: number; from: string; to: string }> = [];
+  const needed = new Map<string, string[]>();   // specifier -> functions to import
+  const fnOf = (e: ts.Expression, kind: FunctionalKind) => {
+    const hit = ts.isIdentifier(e) ? local.get(e.text) : undefined;
+    const fn = hit?.target.functions.find(f => f.kind === kind);
+    return hit && fn ? { ...hit, fn: fn.name } : undefined;
+  };
+  const replace = (e: ts.Expression, kind: FunctionalKind) => {
+    const hit = fnOf(e, kind);
+    if (!hit) return;
+    edits.push({ start: e.getStart(sf), end: e.end, text: hit.fn });
+    applied.push({ line: lineOf(sf, e.getStart(sf)), from: e.getText(sf), to: hit.fn });
+    needed.set(hit.from, [...needed.get(hit.from) ?? [], hit.fn]);
+  };
+
+  const providers = new Map<ts.ArrayLiteralExpression, Set<ts.Node>>();
+  const interceptors: Array<{ fn: string; from: string; line: number; className: string }> = [];
+  walk(sf, n => {
+    if (ts.isPropertyAssignment(n)) {
+      const key = propertyNameText(n.name);
+      const init = unwrapExpression(n.initializer);
+      if ((ROUTE_KEYS as readonly string[]).includes(key ?? "") && ts.isArrayLiteralExpression(init)) {
+        init.elements.forEach(e => replace(e, key as FunctionalKind));
+      } else if (key === "resolve" && ts.isObjectLiteralExpression(init)) {
+        for (const p of init.properties) if (ts.isPropertyAssignment(p)) replace(p.initializer, "resolve");
+      }
+    }
+    if (ts.isObjectLiteralExpression(n) && ts.isArrayLiteralExpression(n.parent) && getProperty(n, "provide")?.getText(sf) === "HTTP_INTERCEPTORS") {
+      const useClass = getProperty(n, "useClass");
+      const hit = useClass && fnOf(useClass, "intercept");
+      if (!hit) return;
+      interceptors.push({ fn: hit.fn, from: hit.from, line: lineOf(sf, n.getStart(sf)), className: useClass!.getText(sf) });
+      providers.set(n.parent, (providers.get(n.parent) ?? new Set()).add(n));
+    }
+  });
+
+  let httpClient: ts.CallExpression | undefined;
+  walk(sf, n => {
+    if (!httpClient && ts.isCallExpression(n) && ts.isIdentifier(n.expression) && n.expression.text === "provideHttpClient") httpClient = n;
+  });
+  const registered: string[] = [];
+  if (interceptors.length && httpClient) {
+    const fns = interceptors.map(i => i.fn);
+    const withCall = httpClient.arguments.find((a): a is ts.CallExpression => ts.isCallExpression(a) && a.expression.getText(sf) === "withInterceptors");
+    const list = withCall?.arguments[0] && ts.isArrayLiteralExpression(withCall.arguments[0]) ? withCall.arguments[0] : undefined;
+    const last = list?.elements[list.elements.length - 1];
+    if (list) {
+      edits.push(last ? { start: last.end, end: last.end, text: `, ${fns.join(", ")}` } : { start: list.getStart(sf) + 1, end: list.end - 1, text: fns.join(", ") });
+    } else {
+      // Ahead of withInterceptorsFromDi(), as the class providers being replaced ran before the ones left
+      const fromDi = httpClient.arguments.find(a => ts.isCallExpression(a) && a.expression.getText(sf) === "withInterceptorsFromDi");
+      const lastArg = httpClient.arguments[httpClient.arguments.length - 1];
+      const text = `withInterceptors([${fns.join(", ")}])`;
+      edits.push(fromDi
+        ? { start: fromDi.getStart(sf), end: fromDi.getStart(sf), text: `${text}, ` }
+        : lastArg ? { start: lastArg.end, end: lastArg.end, text: `, ${text}` } : { start: httpClient.arguments.pos, end: httpClient.arguments.pos, text });
+      needed.set("@angular/common/http", ["withInterceptors"]);
+    }
+    for (const [arr, doomed] of providers) edits.push(...removeElements(arr, doomed, sf));
+    for (const i of interceptors) {
+      applied.push({ line: i.line, from: `{ provide: HTTP_INTERCEPTORS, useClass: ${i.className} }`, to: `withInterceptors([${i.fn}])` });
+      needed.set(i.from, [...needed.get(i.from) ?? [], i.fn]);
+      registered.push(i.fn);
+    }
+  }
+  // With nothing to rewrite, the imports of the classes still go once nothing else uses them
+  const importEdits = [...needed].flatMap(([from, names]) => addNamedImports(sf, from, names));
+  for (const e of importEdits) {
+    const same = edits.find(x => x.start === e.start && x.end === e.start && e.end === e.start && importEdits.includes(x));
+    if (same) same.text += e.text;
+    else edits.push(e);
+  }
+  let out = applyEdits(code, edits);
+  out = applyEdits(out, removeUnusedNamedImports(parseTsSource(fileName, out), [...local.keys(), "HTTP_INTERCEPTORS"]));
+  const classes = new Map([...local].map(([name, hit]) => [name, hit.target.className]));
+  return { code: out, applied, interceptors: registered, leftovers: leftoversOf(parseTsSource(fileName, out), classes) };
+}
+
+// References to the given local names outside import declarations, with the class each one binds
+function leftoversOf(sf: ts.SourceFile, names: Map<string, string>): Array<{ className: string; line: number; text: string }> {
+  const out: Array<{ className: string; line: number; text: string }> = [];
+  walk(sf, n => {
+    if (!ts.isIdentifier(n) || !names.has(n.text)) return;
+    for (let p: ts.Node | undefined = n.parent; p; p = p.parent) if (ts.isImportDeclaration(p)) return;
+    const line = lineOf(sf, n.getStart(sf));
+    out.push({ className: names.get(n.text)!, line, text: sf.text.split("\n")[line - 1].trim() });
+  });
+  return out;
+}
+
+//#endregion
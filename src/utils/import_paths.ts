@@ -0,0 +1,104 @@
+import path from "path";
+import ts from "typescript";
+import { parseTsSource, walk } from "./ast.js";
+import { applyEdits, TextEdit } from "./codemod.js";
+import { aliasesFor, matchAlias, PathAlias, resolveProjectImport } from "./tsconfig.js";
+
+export type ImportPathContext = {
+  oldRoot: string;
+  newRoot: string;
+  oldOptions: ts.CompilerOptions;   // readCompilerOptions of each project
+  newOptions: ts.CompilerOptions;
+  place: (rel: string) => string;   // where an old-project file lands in the new project
+};
+
+export type ImportPathRewrite = { file: string; line: number; from: string; to: string };
+
+export type ImportPathReport = {
+  rewritten: ImportPathRewrite[];                            // file is the new-project path
+  missingAliases: Array<PathAlias & { files: string[] }>;    // old aliases the new tsconfig lacks, targets in the new layout
+};
+
+// String literals naming a module: import/export declarations and dynamic imports
+function specifierLiterals(sf: ts.SourceFile): ts.StringLiteral[] {
+  const out: ts.StringLiteral[] = [];
+  walk(sf, n => {
+    if ((ts.isImportDeclaration(n) || ts.isExportDeclaration(n)) && n.moduleSpecifier && ts.isStringLiteral(n.moduleSpecifier)) {
+      out.push(n.moduleSpecifier);
+    } else if (ts.isCallExpression(n) && n.expression.kind === ts.SyntaxKind.ImportKeyword && n.arguments[0] && ts.isStringLiteral(n.arguments[0])) {
+      out.push(n.arguments[0]);
+    }
+  });
+  return out;
+}
+
+// Relative specifier from `fromRel` to `toRel` (both new-project paths), written the way `spec` was
+function relativeLike(spec: string, fromOld: string, targetOld: string, fromRel: string, toRel: string): string {
+  const written = path.posix.join(path.posix.dirname(fromOld), spec);
+  // The part the original left to the resolver (".ts", "/index.ts"), or an ESM ".js" standing for ".ts"
+  const to = targetOld.startsWith(written)
+    ? toRel.slice(0, toRel.length - (targetOld.length - written.length))
+    : toRel.replace(/\.[^./]+$/, path.posix.extname(spec));
+  const rel = path.posix.relative(path.posix.dirname(fromRel), to) || ".";
+  return rel.startsWith(".") ? rel : `./${rel}`;
+}
+
+/**
+ * Rewrites the module specifiers of an old-project file for the place it gets
+ * in the new project. Every specifier is resolved with the old compiler
+ * options; relative ones are recomputed from the file's new location, aliased
+ * ones switch to the alias the new tsconfig offers for the target. An old
+ * alias the new project lacks is kept and reported; one the new project maps
+ * elsewhere turns into a relative import.
+ */
+export function rewriteImportPaths(file: string, code: string, ctx: ImportPathContext): {
+  code: string;
+  rewritten: ImportPathRewrite[];
+  missingAliases: PathAlias[];
+} {
+  const fromAbs = path.join(ctx.oldRoot, file);
+  const dest = ctx.place(file);
+  const sf = parseTsSource(file, code);
+  const edits: TextEdit[] = [];
+  const rewritten: ImportPathRewrite[] = [];
+  const missingAliases: PathAlias[] = [];
+  const replace = (lit: ts.StringLiteral, to: string) => {
+    edits.push({ start: lit.getStart(sf) + 1, end: lit.end - 1, text: to });
+    rewritten.push({ file: dest, line: sf.getLineAndCharacterOfPosition(lit.getStart(sf)).line + 1, from: lit.text, to });
+  };
+
+  for (const lit of specifierLiterals(sf)) {
+    const spec = lit.text;
+    const target = resolveProjectImport(ctx.oldRoot, fromAbs, spec, ctx.oldOptions);
+    if (!target) continue;
+    const targetNew = ctx.place(target);
+    const relative = () => relativeLike(spec, file, target, dest, targetNew);
+    if (spec.startsWith(".")) {
+      if (relative() !== spec) replace(lit, relative());
+      continue;
+    }
+    const offered = aliasesFor(ctx.newRoot, targetNew, ctx.newOptions);
+    if (offered.includes(spec)) continue;
+    if (offered.length) {
+      replace(lit, offered[0]);
+      continue;
+    }
+    const alias = matchAlias(ctx.oldRoot, spec, ctx.oldOptions);
+    if (!alias || ctx.newOptions.paths?.[alias.pattern]) {
+      replace(lit, relative());
+    } else {
+      missingAliases.push({ pattern: alias.pattern, targets: alias.targets.map(ctx.place) });
+    }
+  }
+  return { code: edits.length ? applyEdits(code, edits) : code, rewritten, missingAliases };
+}
+
+// Adds one file's outcome to a report; aliases are merged by pattern
+export function recordImportPaths(report: ImportPathReport, dest: string, out: ReturnType<typeof rewriteImportPaths>): void {
+  report.rewritten.push(...out.rewritten);
+  for (const a of out.missingAliases) {
+    const known = report.missingAliases.find(m => m.pattern === a.pattern);
+    if (!known) report.missingAliases.push({ ...a, files: [dest] });
+    else if (!known.files.includes(dest)) known.files.push(dest);
+  }
+}
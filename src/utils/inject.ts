@@ -0,0 +1,253 @@
+import ts from "typescript";
+import { lineOf, parseTsSource, walk } from "./ast.js";
+import { addNamedImports, applyEdits, removeUnusedNamedImports, TextEdit } from "./codemod.js";
+
+// A constructor parameter Angular's injector fills, read for an `inject()` call
+export type InjectedParam = {
+  name: string;
+  token?: string;          // @Inject(X) argument or the type's class name; missing when neither gives one
+  type?: string;           // declared type when it is generic (Store<AppState>), used as inject<T>()
+  flags: string[];         // optional, self, skipSelf, host from @Optional/@Self/@SkipSelf/@Host
+  property: boolean;       // parameter property (private/protected/public/readonly)
+  modifiers: string[];     // the parameter property's modifiers, as written
+  issue?: string;          // why no inject() call can be written for it
+};
+
+const FLAG_DECORATORS: Record<string, string> = { Optional: "optional", Self: "self", SkipSelf: "skipSelf", Host: "host" };
+
+function decoratorCall(d: ts.Decorator): { name: string; args: readonly ts.Expression[] } | undefined {
+  const e = d.expression;
+  if (ts.isCallExpression(e) && ts.isIdentifier(e.expression)) return { name: e.expression.text, args: e.arguments };
+  if (ts.isIdentifier(e)) return { name: e.text, args: [] };
+  return undefined;
+}
+
+// The class a parameter type names, `Foo | null` included
+function typeToken(type: ts.TypeNode | undefined, sf: ts.SourceFile): { token: string; generic?: string } | undefined {
+  if (!type) return undefined;
+  if (ts.isUnionTypeNode(type)) {
+    const rest = type.types.filter(t => !(ts.isLiteralTypeNode(t) && t.literal.kind === ts.SyntaxKind.NullKeyword) && t.kind !== ts.SyntaxKind.UndefinedKeyword);
+    return rest.length === 1 ? typeToken(rest[0], sf) : undefined;
+  }
+  if (!ts.isTypeReferenceNode(type)) return undefined;
+  const token = type.typeName.getText(sf);
+  return type.typeArguments?.length ? { token, generic: type.getText(sf) } : { token };
+}
+
+export function readInjectedParams(ctor: ts.ConstructorDeclaration, sf: ts.SourceFile): InjectedParam[] {
+  return ctor.parameters.map(p => {
+    const name = ts.isIdentifier(p.name) ? p.name.text : p.name.getText(sf);
+    const mods = (ts.getModifiers(p) ?? []).map(m => m.getText(sf));
+    const param: InjectedParam = { name, flags: [], property: mods.length > 0, modifiers: mods };
+    if (!ts.isIdentifier(p.name)) return { ...param, issue: "destructured parameter" };
+    if (p.dotDotDotToken) return { ...param, issue: "rest parameter" };
+
+    let token: string | undefined;
+    for (const d of ts.getDecorators(p) ?? []) {
+      const call = decoratorCall(d);
+      if (!call) continue;
+      if (call.name === "Inject" && call.args[0]) token = call.args[0].getText(sf);
+      else if (FLAG_DECORATORS[call.name]) param.flags.push(FLAG_DECORATORS[call.name]);
+      else return { ...param, issue: `@${call.name}() has no inject() option` };
+    }
+    if (token) return { ...param, token, ...(p.type ? { type: p.type.getText(sf) } : {}) };
+    const fromType = typeToken(p.type, sf);
+    if (!fromType) return { ...param, issue: "no class type or @Inject() token" };
+    return { ...param, token: fromType.token, ...(fromType.generic ? { type: fromType.generic } : {}) };
+  });
+}
+
+// `inject(Token)`, typed for generic or @Inject() tokens, with the resolution flags
+export function injectCall(p: InjectedParam): string {
+  const typed = p.type && p.type !== p.token && !/^(any|unknown)$/.test(p.type) ? `<${p.type.replace(/\s*\|\s*null$/, "")}>` : "";
+  const options = p.flags.length ? `, { ${p.flags.map(f => `${f}: true`).join(", ")} }` : "";
+  return `inject${typed}(${p.token}${options})`;
+}
+
+//#region Constructor injection to inject() fields
+
+// Classes Angular's injector constructs
+const DI_DECORATORS = ["Component", "Directive", "Pipe", "Injectable", "NgModule"];
+const PARAM_DECORATORS = ["Inject", "Optional", "Self", "SkipSelf", "Host"];
+
+export type InjectConversion = { className: string; line: number; injected: string[] };
+export type InjectSkip = { className: string; line: number; reason: string };
+
+/**
+ * Code that depends on a class's constructor signature, by class name:
+ * subclasses (their `super(...)` passes the parameters on) and `new X(...)`
+ * calls with arguments, typically in specs.
+ */
+export function constructorDependents(files: Array<{ file: string; code: string }>): Map<string, string[]> {
+  const out = new Map<string, string[]>();
+  const add = (name: string, what: string) => out.set(name, [...out.get(name) ?? [], what]);
+  for (const { file, code } of files) {
+    if (!/\b(extends|new)\s/.test(code)) continue;
+    const sf = parseTsSource(file, code);
+    walk(sf, n => {
+      if ((ts.isClassDeclaration(n) || ts.isClassExpression(n)) && n.heritageClauses) {
+        const base = n.heritageClauses.find(h => h.token === ts.SyntaxKind.ExtendsKeyword)?.types[0]?.expression;
+        if (base && ts.isIdentifier(base)) add(base.text, `${n.name?.text ?? "a class"} in ${file} extends it`);
+      } else if (ts.isNewExpression(n) && ts.isIdentifier(n.expression) && n.arguments?.length) {
+        add(n.expression.text, `new ${n.expression.text}(...) in ${file}:${lineOf(sf, n.getStart(sf))}`);
+      }
+    });
+  }
+  return out;
+}
+
+function isDiClass(cls: ts.ClassDeclaration): boolean {
+  return (ts.getDecorators(cls) ?? []).some(d => {
+    const e = ts.isCallExpression(d.expression) ? d.expression.expression : d.expression;
+    return ts.isIdentifier(e) && DI_DECORATORS.includes(e.text);
+  });
+}
+
+// Line start of a node, before the comments leading it
+function lineStartOf(code: string, node: ts.Node, sf: ts.SourceFile): number {
+  const pos = ts.getLeadingCommentRanges(code, node.getFullStart())?.[0]?.pos ?? node.getStart(sf);
+  return code.lastIndexOf("\n", pos - 1) + 1;
+}
+
+// Bare references to a parameter (`http`, `{ http }`), not `x.http` or `{ http: ... }` keys
+function references(nodes: readonly ts.Node[], name: string): boolean {
+  let found = false;
+  for (const node of nodes) walk(node, n => {
+    if (!ts.isIdentifier(n) || n.text !== name) return;
+    const parent = n.parent;
+    if (ts.isPropertyAccessExpression(parent) && parent.name === n) return;
+    if ((ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent) || ts.isMethodDeclaration(parent)) && parent.name === n) return;
+    found = true;
+  });
+  return found;
+}
+
+/**
+ * Moves constructor injection of the file's components, directives, pipes,
+ * services and modules to `inject()`: parameter properties become fields
+ * declared ahead of the other members (parameter properties were assigned
+ * before field initializers ran), plain parameters become `const`s in the
+ * constructor. Parameters passed to `super(...)` are injected before that
+ * call so the arguments keep their order; an empty constructor goes away.
+ * Classes whose signature `dependents` relies on, and parameters inject()
+ * cannot express, are skipped and reported.
+ */
+export function convertConstructorInjection(fileName: string, code: string, dependents = new Map<string, string[]>()): {
+  code: string;
+  converted: InjectConversion[];
+  skipped: InjectSkip[];
+} {
+  const sf = parseTsSource(fileName, code);
+  const converted: InjectConversion[] = [];
+  const skipped: InjectSkip[] = [];
+  const edits: TextEdit[] = [];
+
+  for (const cls of sf.statements.filter(ts.isClassDeclaration)) {
+    const ctors = cls.members.filter(ts.isConstructorDeclaration);
+    if (!cls.name || !isDiClass(cls) || !ctors.some(c => c.parameters.length)) continue;
+    const className = cls.name.text;
+    const line = lineOf(sf, cls.getStart(sf));
+    const skip = (reason: string) => skipped.push({ className, line, reason });
+    const ctor = ctors[0];
+    if (ctors.length > 1 || !ctor.body) {
+      skip("constructor overloads");
+      continue;
+    }
+    if (dependents.has(className)) {
+      skip(`its constructor is called with arguments: ${dependents.get(className)!.join(", ")}`);
+      continue;
+    }
+    const params = readInjectedParams(ctor, sf);
+    const reasons = [
+      ...params.filter(p => p.issue).map(p => `${p.name}: ${p.issue}`),
+      ...ctor.parameters.filter(p => p.initializer).map(p => `${p.name.getText(sf)}: default value`),
+    ];
+    if (reasons.length) {
+      skip(reasons.join("; "));
+      continue;
+    }
+
+    const body = ctor.body;
+    const superIndex = body.statements.findIndex(s => ts.isExpressionStatement(s) && ts.isCallExpression(s.expression) && s.expression.expression.kind === ts.SyntaxKind.SuperKeyword);
+    const superCall = superIndex >= 0 ? body.statements[superIndex] : undefined;
+    // Used before or in super(...): needed before `this` exists
+    const early = new Set(params.filter(p => references(body.statements.slice(0, superIndex + 1), p.name)).map(p => p.name));
+    const untyped = params.filter(p => early.has(p.name) && p.property && !ctor.parameters.find(x => x.name.getText(sf) === p.name)!.type);
+    if (untyped.length) {
+      skip(`${untyped.map(p => p.name).join(", ")}: passed to super(...) without a declared type`);
+      continue;
+    }
+    const rest = body.statements.slice(superIndex + 1);
+    const typeOf = (name: string) => ctor.parameters.find(x => x.name.getText(sf) === name)!.type!.getText(sf);
+
+    const fields = params.filter(p => p.property).map(p => early.has(p.name)
+      ? `${[...p.modifiers, ""].join(" ")}${p.name}: ${typeOf(p.name)};`
+      : `${[...p.modifiers, ""].join(" ")}${p.name} = ${injectCall(p)};`);
+    const before = params.filter(p => early.has(p.name)).map(p => `const ${p.name} = ${injectCall(p)};`);
+    const after = params.filter(p => !early.has(p.name)).flatMap(p => {
+      if (p.property) return references(rest, p.name) ? [`const ${p.name} = this.${p.name};`] : [];
+      return [references(rest, p.name) ? `const ${p.name} = ${injectCall(p)};` : `${injectCall(p)};`];
+    });
+    after.unshift(...params.filter(p => early.has(p.name) && p.property).map(p => `this.${p.name} = ${p.name};`));
+
+    const classIndent = indentAt(code, cls.getStart(sf));
+    const memberIndent = indentAt(code, ctor.getStart(sf));
+    const step = memberIndent.slice(classIndent.length) || "  ";
+    const bareSuper = !!superCall && ts.isExpressionStatement(superCall) && ts.isCallExpression(superCall.expression) && !superCall.expression.arguments.length;
+    const emptyCtor = !before.length && !after.length && (!body.statements.length || body.statements.length === 1 && bareSuper);
+
+    // Members written on the class's own line (`class A { constructor(...) {} }`)
+    const inline = (node: ts.Node) => code.slice(lineStartOf(code, node, sf), node.getStart(sf)).trim() !== "";
+    if (emptyCtor && inline(ctor)) {
+      edits.push({ start: ctor.getStart(sf), end: ctor.end + (/^[ \t]*/.exec(code.slice(ctor.end))![0].length), text: "" });
+    } else if (emptyCtor) {
+      // The whole constructor goes, with one blank line around it
+      let start = lineStartOf(code, ctor, sf);
+      let end = code.indexOf("\n", ctor.end) + 1 || ctor.end;
+      const blankAfter = /^[ \t]*\n/.exec(code.slice(end));
+      if (blankAfter) end += blankAfter[0].length;
+      else if (/\n[ \t]*\n$/.test(code.slice(0, start))) start = code.lastIndexOf("\n", start - 2) + 1;
+      edits.push({ start, end, text: "" });
+    } else {
+      const open = code.indexOf("(", ctor.getStart(sf));
+      const close = code.lastIndexOf(")", body.getStart(sf));
+      edits.push({ start: open + 1, end: close, text: "" });
+      const inner = memberIndent + step;
+      if (!body.statements.length) {
+        edits.push({ start: body.getStart(sf), end: body.end, text: `{\n${[...before, ...after].map(l => inner + l).join("\n")}\n${memberIndent}}` });
+      } else {
+        const first = body.statements[0];
+        const at = (lines: string[], pos: number, indent: string) => lines.length && edits.push({ start: pos, end: pos, text: lines.map(l => `${indent}${l}\n`).join("") });
+        if (superCall) {
+          at(before, lineStartOf(code, first, sf), indentAt(code, first.getStart(sf)));
+          if (after.length) edits.push({ start: superCall.end, end: superCall.end, text: after.map(l => `\n${indentAt(code, superCall.getStart(sf))}${l}`).join("") });
+        } else {
+          at([...before, ...after], lineStartOf(code, first, sf), indentAt(code, first.getStart(sf)));
+        }
+      }
+    }
+
+    if (fields.length) {
+      const remaining = cls.members.filter(m => !(m === ctor && emptyCtor));
+      const first = cls.members[0];
+      const gap = remaining.length && !ts.isPropertyDeclaration(remaining[0]) ? "\n" : "";
+      if (inline(first)) edits.push({ start: first.getStart(sf), end: first.getStart(sf), text: fields.map(f => `${f} `).join("") });
+      else edits.push({ start: lineStartOf(code, first, sf), end: lineStartOf(code, first, sf), text: fields.map(f => `${memberIndent}${f}\n`).join("") + gap });
+    }
+    converted.push({ className, line, injected: params.map(p => p.name) });
+  }
+  if (!converted.length) return { code, converted, skipped };
+
+  let out = applyEdits(code, edits);
+  out = applyEdits(out, addNamedImports(parseTsSource(fileName, out), "@angular/core", ["inject"]));
+  out = applyEdits(out, removeUnusedNamedImports(parseTsSource(fileName, out), PARAM_DECORATORS));
+  return { code: out, converted, skipped };
+}
+
+// Leading whitespace of the line `pos` is on
+function indentAt(code: string, pos: number): string {
+  const start = code.lastIndexOf("\n", pos - 1) + 1;
+  return /^[ \t]*/.exec(code.slice(start))![0];
+}
+
+//#endregion
@@ -0,0 +1,455 @@
+import ts from "typescript";
+import { getImportBindings, lineOf, parseTsSource, walk } from "./ast.js";
+import { addNamedImports, applyEdits, pickNonOverlapping, TextEdit } from "./codemod.js";
+
+export type SpecRunner = "jest" | "vitest";
+
+export type JasmineRuleId =
+  | "create-spy-obj"
+  | "create-spy"
+  | "spy-on"
+  | "spy-strategy"
+  | "spy-calls"
+  | "spy-types"
+  | "called-once-with"
+  | "matchers"
+  | "asymmetric-matchers"
+  | "clock"
+  | "fail"
+  | "focused-skipped"
+  | "unsupported";
+
+// A Jasmine API left in a spec after the rewrite
+export type UnconvertedSpecCode = {
+  ruleId: JasmineRuleId;
+  file: string;
+  line: number;
+  snippet: string;
+  message: string;
+};
+
+type Hit = {
+  node: ts.Node;
+  edits?: TextEdit[];
+  imports?: Array<{ name: string; from: string }>;
+  note?: string;          // why a hit without edits needs a manual change (default: the rule's replacement)
+};
+
+type JasmineRule = {
+  id: JasmineRuleId;
+  replacement: string;
+  find: (sf: ts.SourceFile, runner: SpecRunner) => Hit[];
+};
+
+//#region Helpers
+
+// Global namespace of the runner's mock API
+const ns = (runner: SpecRunner) => runner === "jest" ? "jest" : "vi";
+
+// jest-preset-angular and @types/jest type `mockImplementation()` without an argument; vitest needs one
+const stub = (runner: SpecRunner) => runner === "jest" ? ".mockImplementation()" : ".mockImplementation(() => undefined as never)";
+
+const SPY_STRATEGIES = ["returnValue", "returnValues", "callFake", "callThrough", "throwError", "stub", "resolveTo", "rejectWith"];
+const CALLS_API = ["count", "argsFor", "allArgs", "all", "mostRecent", "first", "reset", "any", "thisFor", "saveArgumentsByValue"];
+const ASYMMETRIC = ["any", "anything", "objectContaining", "arrayContaining", "stringMatching", "stringContaining"];
+// jasmine.<name> members the other rules take care of
+const HANDLED_JASMINE = ["createSpyObj", "createSpy", "clock", ...ASYMMETRIC];
+
+function calls(sf: ts.SourceFile, match: (call: ts.CallExpression) => boolean): ts.CallExpression[] {
+  const out: ts.CallExpression[] = [];
+  walk(sf, n => { if (ts.isCallExpression(n) && match(n)) out.push(n); });
+  return out;
+}
+
+const calleeName = (call: ts.CallExpression) => ts.isIdentifier(call.expression) ? call.expression.text : undefined;
+
+const isJasmineMember = (e: ts.Expression, name?: string): e is ts.PropertyAccessExpression =>
+  ts.isPropertyAccessExpression(e) && ts.isIdentifier(e.expression) && e.expression.text === "jasmine" && (!name || e.name.text === name);
+
+// `obj.<name>(...)` calls: the member access and its receiver
+function memberCall(call: ts.CallExpression, names: string[]): { name: string; receiver: ts.Expression } | undefined {
+  if (!ts.isPropertyAccessExpression(call.expression) || !names.includes(call.expression.name.text)) return undefined;
+  return { name: call.expression.name.text, receiver: call.expression.expression };
+}
+
+// Globals such as spyOn/fail only count when nothing in the file shadows them
+function isGlobalCall(sf: ts.SourceFile, call: ts.CallExpression, names: string[]): boolean {
+  const name = calleeName(call);
+  return !!name && names.includes(name) && !getImportBindings(sf).has(name);
+}
+
+// `it(...)`, `it.skip(...)`, `test.only(...)`: the test function called
+const testFunctionName = (call: ts.CallExpression) => calleeName(call) ??
+  (ts.isPropertyAccessExpression(call.expression) && ts.isIdentifier(call.expression.expression) ? call.expression.expression.text : undefined);
+
+const isSpyOnCall = (e: ts.Expression) => ts.isCallExpression(e) && /^(spyOn|spyOnProperty|jest\.spyOn|vi\.spyOn)$/.test(e.expression.getText());
+
+// Matcher call on `expect(x)` (optionally through `.not`): the expect call and whether it is negated
+function expectOf(matcher: ts.CallExpression): { expectCall: ts.CallExpression; negated: boolean } | undefined {
+  if (!ts.isPropertyAccessExpression(matcher.expression)) return undefined;
+  let target = matcher.expression.expression;
+  let negated = false;
+  if (ts.isPropertyAccessExpression(target) && target.name.text === "not") { target = target.expression; negated = true; }
+  if (!ts.isCallExpression(target) || calleeName(target) !== "expect" || target.arguments.length !== 1) return undefined;
+  return { expectCall: target, negated };
+}
+
+const mockedType = (runner: SpecRunner, t: string) => runner === "jest" ? `jest.Mocked<${t}>` : `Mocked<${t}>`;
+const VITEST_TYPES = { Mocked: { name: "type Mocked", from: "vitest" }, MockInstance: { name: "type MockInstance", from: "vitest" } };
+
+/**
+ * Object literal replacing `jasmine.createSpyObj`: method names (array or
+ * `{ name: returnValue }`) become mock functions, properties plain values.
+ * Undefined when a name list is not a literal.
+ */
+function spyObjLiteral(sf: ts.SourceFile, call: ts.CallExpression, runner: SpecRunner): string | undefined {
+  const args = [...call.arguments];
+  // The base name is optional: createSpyObj(['a']) / createSpyObj('Name', ['a'])
+  if (args[0] && (ts.isStringLiteralLike(args[0]) || ts.isTemplateExpression(args[0]))) args.shift();
+  const [methods, props] = args;
+  const members: string[] = [];
+  const fn = `${ns(runner)}.fn()`;
+  if (methods && ts.isArrayLiteralExpression(methods)) {
+    if (!methods.elements.every(ts.isStringLiteralLike)) return undefined;
+    members.push(...methods.elements.map(e => `${memberName((e as ts.StringLiteralLike).text)}: ${fn}`));
+  } else if (methods && ts.isObjectLiteralExpression(methods)) {
+    for (const p of methods.properties) {
+      if (!ts.isPropertyAssignment(p)) return undefined;
+      members.push(`${p.name.getText(sf)}: ${fn}.mockReturnValue(${p.initializer.getText(sf)})`);
+    }
+  } else if (methods) return undefined;
+  if (props) {
+    if (ts.isArrayLiteralExpression(props) && props.elements.every(ts.isStringLiteralLike)) {
+      members.push(...props.elements.map(e => `${memberName((e as ts.StringLiteralLike).text)}: undefined`));
+    } else if (ts.isObjectLiteralExpression(props)) {
+      members.push(...props.properties.map(p => p.getText(sf)));
+    } else return undefined;
+  }
+  return members.length ? `{ ${members.join(", ")} }` : "{}";
+}
+
+const memberName = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+
+const MOCK_TYPES = ["jasmine.SpyObj", "SpyObj", "jest.Mocked", "Mocked"];
+
+/**
+ * Declared type an initializer or assigned value is checked against: the
+ * declaration's type node, null when nothing constrains it (no declared type,
+ * a property value, an argument) and undefined when the assigned variable or
+ * property is not declared in this file.
+ */
+function assignedType(sf: ts.SourceFile, node: ts.Node): ts.TypeNode | null | undefined {
+  const p = node.parent;
+  if (ts.isVariableDeclaration(p) || ts.isPropertyDeclaration(p)) return p.type ?? null;
+  if (!ts.isBinaryExpression(p) || p.operatorToken.kind !== ts.SyntaxKind.EqualsToken || p.right !== node) return null;
+  const target = ts.isIdentifier(p.left) ? p.left.text
+    : ts.isPropertyAccessExpression(p.left) && p.left.expression.kind === ts.SyntaxKind.ThisKeyword ? p.left.name.text : undefined;
+  if (!target) return undefined;
+  let found: ts.TypeNode | null | undefined;
+  walk(sf, n => {
+    if (found === undefined && (ts.isVariableDeclaration(n) || ts.isPropertyDeclaration(n)) && ts.isIdentifier(n.name) && n.name.text === target) found = n.type ?? null;
+  });
+  return found;
+}
+
+// `as unknown as Mocked<T>` for a declared type (T of a SpyObj/Mocked one); empty when any value fits
+function mockedCast(sf: ts.SourceFile, type: ts.TypeNode, runner: SpecRunner): string {
+  if (type.kind === ts.SyntaxKind.AnyKeyword || type.kind === ts.SyntaxKind.UnknownKeyword) return "";
+  const inner = ts.isTypeReferenceNode(type) && MOCK_TYPES.includes(type.typeName.getText(sf)) ? type.typeArguments?.[0] : type;
+  return inner ? ` as unknown as ${mockedType(runner, inner.getText(sf))}` : "";
+}
+
+//#endregion
+
+// Rule catalog, applied to each spec file until nothing changes
+export const JASMINE_RULES: JasmineRule[] = [
+  {
+    id: "create-spy-obj",
+    replacement: "an object literal of mock functions: { method: jest.fn() }",
+    find: (sf, runner) => calls(sf, c => isJasmineMember(c.expression, "createSpyObj")).map(c => {
+      const literal = spyObjLiteral(sf, c, runner);
+      if (!literal) return { node: c, note: "createSpyObj with computed method or property names; build the mock object by hand" };
+      // The literal only has the listed members: typed as a mock of the type it stands in for
+      const type = c.typeArguments?.[0] ?? assignedType(sf, c);
+      if (type === undefined) return { node: c, note: "createSpyObj assigned to something not declared in this file; add its type argument (createSpyObj<Service>(...)) and run again" };
+      const cast = type ? mockedCast(sf, type, runner) : "";
+      const accessed = ts.isPropertyAccessExpression(c.parent) || ts.isElementAccessExpression(c.parent);
+      const text = accessed ? `(${literal}${cast})` : `${literal}${cast}`;
+      return { node: c, edits: [{ start: c.getStart(sf), end: c.end, text }], imports: cast && runner === "vitest" ? [VITEST_TYPES.Mocked] : [] };
+    }),
+  },
+  {
+    id: "create-spy",
+    replacement: "jest.fn() / vi.fn()",
+    find: (sf, runner) => calls(sf, c => isJasmineMember(c.expression, "createSpy")).map(c => {
+      const impl = c.arguments[1];
+      return { node: c, edits: [{ start: c.getStart(sf), end: c.end, text: `${ns(runner)}.fn(${impl ? impl.getText(sf) : ""})` }] };
+    }),
+  },
+  {
+    id: "spy-on",
+    replacement: "jest.spyOn(obj, 'method') / vi.spyOn(...), stubbed like Jasmine's spyOn unless it called through",
+    find: (sf, runner) => calls(sf, c => isGlobalCall(sf, c, ["spyOn", "spyOnProperty"])).map(c => {
+      const [obj, name, access] = c.arguments;
+      if (!obj || !name) return { node: c };
+      const args = calleeName(c) === "spyOnProperty" ? [obj, name].map(a => a.getText(sf)).concat(access ? access.getText(sf) : "'get'") : c.arguments.map(a => a.getText(sf));
+      // Jasmine spies do not call through; a strategy that follows replaces the stub anyway
+      const hasStrategy = ts.isPropertyAccessExpression(c.parent) && c.parent.name.text === "and";
+      return { node: c, edits: [{ start: c.getStart(sf), end: c.end, text: `${ns(runner)}.spyOn(${args.join(", ")})${hasStrategy ? "" : stub(runner)}` }] };
+    }),
+  },
+  {
+    id: "spy-strategy",
+    replacement: "mockReturnValue, mockReturnValueOnce, mockImplementation, mockResolvedValue, mockRejectedValue",
+    find: (sf, runner) => calls(sf, c => {
+      const m = memberCall(c, SPY_STRATEGIES);
+      return !!m && ts.isPropertyAccessExpression(m.receiver) && m.receiver.name.text === "and";
+    }).map(c => {
+      const and = (c.expression as ts.PropertyAccessExpression).expression as ts.PropertyAccessExpression;
+      const spy = and.expression;
+      const strategy = (c.expression as ts.PropertyAccessExpression).name.text;
+      const args = c.arguments.map(a => a.getText(sf));
+      let text: string | undefined;
+      switch (strategy) {
+        case "returnValue": text = `.mockReturnValue(${args.join(", ")})`; break;
+        case "returnValues": text = args.map(a => `.mockReturnValueOnce(${a})`).join(""); break;
+        case "callFake": text = `.mockImplementation(${args.join(", ")})`; break;
+        case "resolveTo": text = `.mockResolvedValue(${args.join(", ")})`; break;
+        case "rejectWith": text = `.mockRejectedValue(${args.join(", ")})`; break;
+        case "stub": text = stub(runner); break;
+        case "throwError": {
+          const e = c.arguments[0];
+          const thrown = !e ? "new Error()" : ts.isStringLiteralLike(e) || ts.isTemplateExpression(e) ? `new Error(${e.getText(sf)})` : e.getText(sf);
+          text = `.mockImplementation(() => { throw ${thrown}; })`;
+          break;
+        }
+        case "callThrough":
+          // Only the spy created right there can simply stop stubbing
+          text = isSpyOnCall(spy) ? "" : undefined;
+          break;
+      }
+      if (text === undefined) return { node: c, note: "callThrough() on an existing spy; restore the original implementation with mockRestore() or mockImplementation(original)" };
+      return { node: c, edits: [{ start: spy.end, end: c.end, text }] };
+    }),
+  },
+  {
+    id: "spy-calls",
+    replacement: "spy.mock.calls / spy.mock.lastCall / spy.mockClear()",
+    find: sf => {
+      const hits: Hit[] = [];
+      for (const c of calls(sf, c => {
+        const m = memberCall(c, CALLS_API);
+        return !!m && ts.isPropertyAccessExpression(m.receiver) && m.receiver.name.text === "calls" &&
+          !(ts.isPropertyAccessExpression(m.receiver.expression) && m.receiver.expression.name.text === "mock");
+      })) {
+        const method = (c.expression as ts.PropertyAccessExpression).name.text;
+        const spy = ((c.expression as ts.PropertyAccessExpression).expression as ts.PropertyAccessExpression).expression.getText(sf);
+        const arg = c.arguments[0]?.getText(sf);
+        // mostRecent().args / first().args replace the whole member access
+        const argsOf = ts.isPropertyAccessExpression(c.parent) && c.parent.name.text === "args" ? c.parent : undefined;
+        let node: ts.Node = c;
+        let text: string | undefined;
+        switch (method) {
+          case "count": text = `${spy}.mock.calls.length`; break;
+          case "argsFor": text = arg ? `${spy}.mock.calls[${arg}]` : undefined; break;
+          case "allArgs": text = `${spy}.mock.calls`; break;
+          case "reset": text = `${spy}.mockClear()`; break;
+          case "any": {
+            const bare = ts.isCallExpression(c.parent) && c.parent.arguments.includes(c);
+            text = bare ? `${spy}.mock.calls.length > 0` : `(${spy}.mock.calls.length > 0)`;
+            break;
+          }
+          case "mostRecent":
+            // lastCall is undefined before the first call; mostRecent() was typed as always there
+            if (argsOf) { node = argsOf; text = `${spy}.mock.lastCall${ts.isPropertyAccessExpression(argsOf.parent) || ts.isElementAccessExpression(argsOf.parent) ? "!" : ""}`; }
+            break;
+          case "first": if (argsOf) { node = argsOf; text = `${spy}.mock.calls[0]`; } break;
+        }
+        if (text === undefined) hits.push({ node: c, note: `calls.${method}() has no direct equivalent; read spy.mock.calls / spy.mock.results instead` });
+        else hits.push({ node, edits: [{ start: node.getStart(sf), end: node.end, text }] });
+      }
+      return hits;
+    },
+  },
+  {
+    id: "spy-types",
+    replacement: "jest.Mocked<T> / jest.SpyInstance (vitest: Mocked<T> / MockInstance)",
+    find: (sf, runner) => {
+      const hits: Hit[] = [];
+      walk(sf, n => {
+        if (!ts.isTypeReferenceNode(n) || !ts.isQualifiedName(n.typeName) || n.typeName.left.getText(sf) !== "jasmine") return;
+        const name = n.typeName.right.text;
+        const arg = n.typeArguments?.[0]?.getText(sf);
+        if (name === "SpyObj" && arg) {
+          hits.push({ node: n, edits: [{ start: n.getStart(sf), end: n.end, text: mockedType(runner, arg) }], imports: runner === "vitest" ? [VITEST_TYPES.Mocked] : [] });
+        } else if (name === "Spy") {
+          hits.push({ node: n, edits: [{ start: n.getStart(sf), end: n.end, text: runner === "jest" ? "jest.SpyInstance" : "MockInstance" }], imports: runner === "vitest" ? [VITEST_TYPES.MockInstance] : [] });
+        } else {
+          hits.push({ node: n, note: `jasmine.${name} type has no counterpart` });
+        }
+      });
+      return hits;
+    },
+  },
+  {
+    id: "called-once-with",
+    replacement: "toHaveBeenCalledTimes(1) followed by toHaveBeenCalledWith(...)",
+    find: sf => calls(sf, c => !!memberCall(c, ["toHaveBeenCalledOnceWith"])).map(c => {
+      const e = expectOf(c);
+      const st = c.parent;
+      if (!e || e.negated || !ts.isExpressionStatement(st)) return { node: c, note: "toHaveBeenCalledOnceWith outside a plain expect(...) statement; split it into toHaveBeenCalledTimes(1) and toHaveBeenCalledWith(...)" };
+      const subject = e.expectCall.getText(sf);
+      const indent = sf.text.slice(sf.text.lastIndexOf("\n", st.getStart(sf)) + 1, st.getStart(sf));
+      const args = c.arguments.map(a => a.getText(sf)).join(", ");
+      return { node: c, edits: [{ start: st.getStart(sf), end: st.end, text: `${subject}.toHaveBeenCalledTimes(1);\n${indent}${subject}.toHaveBeenCalledWith(${args});` }] };
+    }),
+  },
+  {
+    id: "matchers",
+    replacement: "toBe(true), toBe(false), expect(el.classList).toContain(name)",
+    find: sf => calls(sf, c => !!memberCall(c, ["toBeTrue", "toBeFalse", "toHaveClass"]) && !!expectOf(c)).map(c => {
+      const name = (c.expression as ts.PropertyAccessExpression).name;
+      if (name.text !== "toHaveClass") {
+        return { node: c, edits: [{ start: name.getStart(sf), end: c.end, text: `toBe(${name.text === "toBeTrue"})` }] };
+      }
+      const subject = expectOf(c)!.expectCall.arguments[0];
+      const simple = ts.isIdentifier(subject) || ts.isPropertyAccessExpression(subject) || ts.isCallExpression(subject) || ts.isElementAccessExpression(subject);
+      return {
+        node: c,
+        edits: [
+          ...(simple ? [] : [{ start: subject.getStart(sf), end: subject.getStart(sf), text: "(" }]),
+          { start: subject.end, end: subject.end, text: simple ? ".classList" : ").classList" },
+          { start: name.getStart(sf), end: name.end, text: "toContain" },
+        ],
+      };
+    }),
+  },
+  {
+    id: "asymmetric-matchers",
+    replacement: "expect.any, expect.anything, expect.objectContaining, ...",
+    find: sf => {
+      const hits: Hit[] = [];
+      walk(sf, n => {
+        if (ts.isPropertyAccessExpression(n) && isJasmineMember(n) && ASYMMETRIC.includes(n.name.text)) {
+          hits.push({ node: n, edits: [{ start: n.expression.getStart(sf), end: n.expression.end, text: "expect" }] });
+        }
+      });
+      return hits;
+    },
+  },
+  {
+    id: "clock",
+    replacement: "fake timers: useFakeTimers(), advanceTimersByTime(ms), setSystemTime(date), useRealTimers()",
+    find: (sf, runner) => calls(sf, c => isJasmineMember(c.expression, "clock")).map(clock => {
+      const member = clock.parent;
+      const call = ts.isPropertyAccessExpression(member) && ts.isCallExpression(member.parent) && member.parent.expression === member ? member.parent : undefined;
+      const arg = call?.arguments[0]?.getText(sf);
+      const method = call ? (member as ts.PropertyAccessExpression).name.text : "";
+      const replacements: Record<string, string> = {
+        install: "useFakeTimers()",
+        uninstall: "useRealTimers()",
+        tick: `advanceTimersByTime(${arg ?? "0"})`,
+        mockDate: `setSystemTime(${arg ?? "new Date()"})`,
+      };
+      if (!call || !replacements[method]) return { node: clock, note: "jasmine.clock() used other than install/uninstall/tick/mockDate" };
+      return { node: call, edits: [{ start: call.getStart(sf), end: call.end, text: `${ns(runner)}.${replacements[method]}` }] };
+    }),
+  },
+  {
+    id: "fail",
+    replacement: "throw new Error(message)",
+    find: sf => calls(sf, c => isGlobalCall(sf, c, ["fail"])).map(c => {
+      if (!ts.isExpressionStatement(c.parent)) return { node: c, note: "fail() in an expression; throw an Error or use expect(...) instead" };
+      const arg = c.arguments[0];
+      const thrown = !arg ? "new Error(\"fail\")" : ts.isStringLiteralLike(arg) || ts.isTemplateExpression(arg) ? `new Error(${arg.getText(sf)})` : arg.getText(sf);
+      return { node: c, edits: [{ start: c.parent.getStart(sf), end: c.parent.end, text: `throw ${thrown};` }] };
+    }),
+  },
+  {
+    id: "focused-skipped",
+    replacement: "it.only / it.skip / describe.only / describe.skip",
+    find: (sf, runner) => runner === "jest" ? [] : calls(sf, c => isGlobalCall(sf, c, ["fit", "xit", "fdescribe", "xdescribe"])).map(c => {
+      const name = calleeName(c)!;
+      const text = `${name.slice(1)}.${name[0] === "f" ? "only" : "skip"}`;
+      return { node: c, edits: [{ start: c.expression.getStart(sf), end: c.expression.end, text }] };
+    }),
+  },
+  {
+    id: "unsupported",
+    replacement: "no automatic equivalent",
+    find: (sf, runner) => {
+      const hits: Hit[] = [];
+      const notes: Record<string, string> = {
+        expectAsync: "expectAsync(p): use await expect(p).resolves / .rejects",
+        pending: "pending(): use it.skip or it.todo",
+        spyOnAllFunctions: "spyOnAllFunctions(obj): spy on each method with spyOn",
+      };
+      const members: Record<string, string> = {
+        withContext: "withContext(message): fold the message into the test name or a comment",
+        toHaveBeenCalledBefore: "toHaveBeenCalledBefore: compare spy.mock.invocationCallOrder",
+        toHaveSpyInteractions: "toHaveSpyInteractions: check each mock's calls",
+        toHaveSize: "toHaveSize: toHaveLength for arrays and strings, Object.keys(x).length or .size otherwise",
+        toBeNegativeInfinity: "toBeNegativeInfinity: toBe(-Infinity)",
+        toBePositiveInfinity: "toBePositiveInfinity: toBe(Infinity)",
+      };
+      for (const c of calls(sf, () => true)) {
+        const name = calleeName(c);
+        const member = ts.isPropertyAccessExpression(c.expression) ? c.expression.name.text : undefined;
+        if (name && notes[name] && isGlobalCall(sf, c, [name])) hits.push({ node: c, note: notes[name] });
+        else if (member && members[member]) hits.push({ node: c, note: members[member] });
+        // Vitest never passes a done callback
+        else if (runner === "vitest" && /^(it|test|beforeEach|afterEach|beforeAll|afterAll)$/.test(testFunctionName(c) ?? "")) {
+          const fn = c.arguments.find(a => ts.isArrowFunction(a) || ts.isFunctionExpression(a)) as ts.FunctionLikeDeclaration | undefined;
+          if (fn?.parameters.length) hits.push({ node: c, note: "done callback: Vitest does not pass one; return a Promise or use async/await" });
+        }
+      }
+      walk(sf, n => {
+        if (ts.isPropertyAccessExpression(n) && isJasmineMember(n) && !HANDLED_JASMINE.includes(n.name.text)) {
+          hits.push({ node: n, note: `jasmine.${n.name.text} has no automatic replacement` });
+        }
+      });
+      return hits;
+    },
+  },
+];
+
+/**
+ * Rewrite the Jasmine APIs of one spec file for Jest or Vitest and list what
+ * is left. Nested hits (a strategy on a spy created in place, ...) are picked
+ * up on later passes.
+ */
+export function rewriteSpec(fileName: string, code: string, runner: SpecRunner): {
+  code: string;
+  applied: Array<{ ruleId: JasmineRuleId; line: number }>;
+  unconverted: UnconvertedSpecCode[];
+} {
+  const applied: Array<{ ruleId: JasmineRuleId; line: number }> = [];
+  let current = code;
+  for (let pass = 0; pass < 8; pass++) {
+    const sf = parseTsSource(fileName, current);
+    const groups = JASMINE_RULES
+      .flatMap(rule => rule.find(sf, runner).map(hit => ({ rule, hit })))
+      .filter(h => h.hit.edits?.length)
+      .map(h => ({ ...h, edits: h.hit.edits! }));
+    const picked = pickNonOverlapping(groups);
+    if (!picked.length) break;
+
+    const byModule = new Map<string, string[]>();
+    for (const p of picked) {
+      applied.push({ ruleId: p.rule.id, line: lineOf(sf, p.hit.node.getStart(sf)) });
+      for (const imp of p.hit.imports ?? []) byModule.set(imp.from, [...(byModule.get(imp.from) ?? []), imp.name]);
+    }
+    const importEdits = [...byModule].flatMap(([from, names]) => addNamedImports(sf, from, names));
+    current = applyEdits(current, [...picked.flatMap(p => p.edits), ...importEdits]);
+  }
+
+  const sf = parseTsSource(fileName, current);
+  const unconverted = JASMINE_RULES.flatMap(rule => rule.find(sf, runner).filter(hit => !hit.edits?.length).map(hit => ({
+    ruleId: rule.id,
+    file: fileName.replace(/\\/g, "/"),
+    line: lineOf(sf, hit.node.getStart(sf)),
+    snippet: hit.node.getText(sf).replace(/\s+/g, " ").slice(0, 120),
+    message: hit.note ?? rule.replacement,
+  })));
+  return { code: current, applied, unconverted };
+}
@@ -0,0 +1,293 @@
+import fs from "fs";
+import path from "path";
+
+export type LockfileKind = "npm" | "yarn" | "yarn-berry" | "pnpm";
+
+export type LockedPackage = {
+  name: string;
+  version: string;
+  dependencies: Record<string, string>;        // name -> range (or resolved version for pnpm)
+  peerDependencies?: Record<string, string>;   // only when the lockfile records them
+};
+
+export type Lockfile = {
+  kind: LockfileKind;
+  file: string;                     // relative to the project
+  recordsPeers: boolean;            // yarn v1 and npm lockfileVersion 1 do not store peerDependencies
+  packages: LockedPackage[];        // every installed (name, version), transitive included
+  direct: Record<string, string>;   // package.json dependency -> installed version
+  others: string[];                 // further lockfiles found next to the one used
+};
+
+const LOCKFILES: Array<[string, LockfileKind]> = [
+  ["npm-shrinkwrap.json", "npm"],
+  ["package-lock.json", "npm"],
+  ["yarn.lock", "yarn"],
+  ["pnpm-lock.yaml", "pnpm"],
+];
+
+// "@scope/name@range" -> ["@scope/name", "range"]
+function splitSpec(spec: string): [string, string] {
+  const at = spec.indexOf("@", 1);
+  return at < 0 ? [spec, ""] : [spec.slice(0, at), spec.slice(at + 1)];
+}
+
+const unquote = (s: string) => s.replace(/^(["'])(.*)\1$/, "$2");
+
+//#region Minimal YAML (block mappings of scalars, as in pnpm-lock.yaml and yarn berry lockfiles)
+
+function parseIndentedMap(text: string): Record<string, any> {
+  const root: Record<string, any> = {};
+  const stack: Array<{ indent: number; obj: Record<string, any> }> = [{ indent: -1, obj: root }];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#") || line.startsWith("- ")) continue;
+    const m = /^("[^"]*"|'[^']*'|[^:]+?):(?:\s+(.*))?$/.exec(line);
+    if (!m) continue;
+    const indent = raw.length - raw.trimStart().length;
+    while (stack.length > 1 && indent <= stack[stack.length - 1].indent) stack.pop();
+    const parent = stack[stack.length - 1].obj;
+    const key = unquote(m[1]);
+    if (m[2] === undefined || m[2] === "") {
+      const child: Record<string, any> = {};
+      parent[key] = child;
+      stack.push({ indent, obj: child });
+    } else {
+      parent[key] = unquote(m[2].trim());
+    }
+  }
+  return root;
+}
+
+const stringMap = (obj: unknown): Record<string, string> =>
+  Object.fromEntries(Object.entries(obj && typeof obj === "object" ? obj : {}).filter(([, v]) => typeof v === "string")) as Record<string, string>;
+
+//#endregion
+
+//#region npm
+
+// "node_modules/a/node_modules/@s/b" -> "@s/b"
+function nameFromLockPath(p: string): string | undefined {
+  const i = p.lastIndexOf("node_modules/");
+  return i < 0 ? undefined : p.slice(i + "node_modules/".length);
+}
+
+function readNpmLock(text: string) {
+  const lock = JSON.parse(text);
+  const packages: LockedPackage[] = [];
+  const direct: Record<string, string> = {};
+
+  if (lock.packages) {
+    // lockfileVersion 2/3; entries outside node_modules are the root and workspace packages
+    for (const [p, meta] of Object.entries<any>(lock.packages)) {
+      const name = nameFromLockPath(p);
+      if (!name || meta?.link || typeof meta?.version !== "string") continue;
+      packages.push({
+        name,
+        version: meta.version,
+        dependencies: { ...stringMap(meta.dependencies), ...stringMap(meta.optionalDependencies) },
+        peerDependencies: stringMap(meta.peerDependencies),
+      });
+      if (p === `node_modules/${name}`) direct[name] = meta.version;
+    }
+    return { packages, direct, recordsPeers: true };
+  }
+
+  // lockfileVersion 1: nested dependency trees, `requires` instead of dependencies, no peers
+  const visit = (deps: Record<string, any>, top: boolean) => {
+    for (const [name, meta] of Object.entries(deps)) {
+      if (typeof meta?.version !== "string") continue;
+      packages.push({ name, version: meta.version, dependencies: stringMap(meta.requires) });
+      if (top) direct[name] = meta.version;
+      if (meta.dependencies) visit(meta.dependencies, false);
+    }
+  };
+  visit(lock.dependencies || {}, true);
+  return { packages, direct, recordsPeers: false };
+}
+
+//#endregion
+
+//#region yarn
+
+// yarn v1: `"a@^1", a@~1.2:` headers, `  version "1.2.3"` fields, `  dependencies:` blocks
+function readYarnClassic(text: string, declared: Record<string, string>) {
+  const packages: LockedPackage[] = [];
+  const bySpec = new Map<string, string>();
+  let current: { specs: string[]; pkg: LockedPackage } | null = null;
+  let section: string | null = null;
+
+  const flush = () => {
+    if (!current?.pkg.version) return;
+    packages.push(current.pkg);
+    for (const spec of current.specs) bySpec.set(spec, current.pkg.version);
+  };
+
+  for (const raw of text.split(/\r?\n/)) {
+    if (!raw.trim() || raw.startsWith("#")) continue;
+    const indent = raw.length - raw.trimStart().length;
+    const line = raw.trim();
+    if (indent === 0) {
+      flush();
+      const specs = line.replace(/:$/, "").split(/,\s*/).map(unquote);
+      current = { specs, pkg: { name: splitSpec(specs[0])[0], version: "", dependencies: {} } };
+      section = null;
+    } else if (current && indent === 2) {
+      if (line.endsWith(":")) { section = line.slice(0, -1); continue; }
+      section = null;
+      const m = /^(\S+)\s+(.*)$/.exec(line);
+      if (m && m[1] === "version") current.pkg.version = unquote(m[2]);
+    } else if (current && indent >= 4 && (section === "dependencies" || section === "optionalDependencies")) {
+      const m = /^("[^"]*"|\S+)\s+(.*)$/.exec(line);
+      if (m) current.pkg.dependencies[unquote(m[1])] = unquote(m[2]);
+    }
+  }
+  flush();
+
+  const direct: Record<string, string> = {};
+  for (const [name, range] of Object.entries(declared)) {
+    const v = bySpec.get(`${name}@${range}`);
+    if (v) direct[name] = v;
+  }
+  return { packages, direct, recordsPeers: false };
+}
+
+// yarn berry: YAML with `"a@npm:^1, a@npm:~1.2":` keys and `version:` / `peerDependencies:` fields
+function readYarnBerry(text: string, declared: Record<string, string>) {
+  const doc = parseIndentedMap(text);
+  const packages: LockedPackage[] = [];
+  const bySpec = new Map<string, string>();
+
+  for (const [key, entry] of Object.entries<any>(doc)) {
+    if (key === "__metadata" || typeof entry?.version !== "string") continue;
+    const specs = key.split(/,\s*/).map(unquote);
+    if (specs.some(s => s.includes("@workspace:"))) continue;
+    packages.push({
+      name: splitSpec(specs[0])[0],
+      version: entry.version,
+      dependencies: stringMap(entry.dependencies),
+      peerDependencies: stringMap(entry.peerDependencies),
+    });
+    for (const spec of specs) {
+      const [name, range] = splitSpec(spec);
+      bySpec.set(`${name}@${range.replace(/^npm:/, "")}`, entry.version);
+    }
+  }
+
+  const direct: Record<string, string> = {};
+  for (const [name, range] of Object.entries(declared)) {
+    const v = bySpec.get(`${name}@${range}`);
+    if (v) direct[name] = v;
+  }
+  return { packages, direct, recordsPeers: true };
+}
+
+//#endregion
+
+//#region pnpm
+
+// "/@a/b/1.2.3_peer@1" (v5), "/@a/b@1.2.3(peer@1)" (v6), "@a/b@1.2.3(peer@1)" (v9) -> name + version
+function parsePnpmKey(key: string, legacy: boolean): { name: string; version: string } | undefined {
+  const k = key.replace(/^\//, "").replace(/\(.*$/, "");
+  if (legacy) {
+    const i = k.lastIndexOf("/");
+    return i > 0 ? { name: k.slice(0, i), version: k.slice(i + 1).replace(/_.*$/, "") } : undefined;
+  }
+  const [name, version] = splitSpec(k);
+  return version ? { name, version } : undefined;
+}
+
+// Installed version from an importer entry: "1.2.3_peer" (v5) or { specifier, version: "1.2.3(peer)" } (v6+)
+const pnpmVersion = (v: any): string | undefined => {
+  const raw = typeof v === "string" ? v : v?.version;
+  return typeof raw === "string" && !raw.startsWith("link:") ? raw.replace(/[(_].*$/, "") : undefined;
+};
+
+function readPnpmLock(text: string) {
+  const doc = parseIndentedMap(text);
+  const legacy = parseFloat(String(doc.lockfileVersion ?? "0")) < 6;
+  const byKey = new Map<string, LockedPackage>();
+
+  const sections = [doc.packages ?? {}, doc.snapshots ?? {}];
+  for (const section of sections) {
+    for (const [key, entry] of Object.entries<any>(section)) {
+      const id = parsePnpmKey(key, legacy);
+      if (!id) continue;
+      const k = `${id.name}@${id.version}`;
+      const pkg = byKey.get(k) ?? { name: id.name, version: id.version, dependencies: {}, peerDependencies: {} };
+      Object.assign(pkg.dependencies, stringMap(entry?.dependencies), stringMap(entry?.optionalDependencies));
+      Object.assign(pkg.peerDependencies!, stringMap(entry?.peerDependencies));
+      byKey.set(k, pkg);
+    }
+  }
+
+  // Root importer: top level (single project, v5/v6) or importers["."]
+  const importer = doc.importers?.["."] ?? doc;
+  const direct: Record<string, string> = {};
+  for (const field of ["dependencies", "devDependencies", "optionalDependencies"]) {
+    for (const [name, v] of Object.entries<any>(importer[field] ?? {})) {
+      const version = pnpmVersion(v);
+      if (version) direct[name] = version;
+    }
+  }
+  return { packages: [...byKey.values()], direct, recordsPeers: true };
+}
+
+//#endregion
+
+/**
+ * Installed versions from the project's lockfile (npm, yarn classic/berry or
+ * pnpm), with each package's dependencies and, where recorded, peers.
+ * Returns null when the project has no lockfile or it cannot be parsed.
+ */
+export function readLockfile(abs: string): Lockfile | null {
+  const present = LOCKFILES.filter(([f]) => fs.existsSync(path.join(abs, f)));
+  if (!present.length) return null;
+  const [file, kind] = present[0];
+
+  let pkg: any = {};
+  try { pkg = JSON.parse(fs.readFileSync(path.join(abs, "package.json"), "utf-8")); } catch { }
+  const declared: Record<string, string> = { ...(pkg.devDependencies || {}), ...(pkg.dependencies || {}) };
+
+  try {
+    const text = fs.readFileSync(path.join(abs, file), "utf-8");
+    const berry = kind === "yarn" && /^__metadata:/m.test(text);
+    const parsed =
+      kind === "npm" ? readNpmLock(text) :
+      kind === "pnpm" ? readPnpmLock(text) :
+      berry ? readYarnBerry(text, declared) : readYarnClassic(text, declared);
+
+    // Same name@version can appear several times (nested npm copies, pnpm peer variants)
+    const seen = new Set<string>();
+    const packages = parsed.packages.filter(p => !seen.has(`${p.name}@${p.version}`) && !!seen.add(`${p.name}@${p.version}`));
+
+    return {
+      kind: berry ? "yarn-berry" : kind,
+      file,
+      recordsPeers: parsed.recordsPeers,
+      packages,
+      direct: parsed.direct,
+      others: present.slice(1).map(([f]) => f),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Installed versions per package name, for names that resolved to more than one version
+export function findDuplicates(lock: Lockfile, match: (name: string) => boolean): Array<{ name: string; versions: string[] }> {
+  const byName = new Map<string, Set<string>>();
+  for (const p of lock.packages) {
+    if (!match(p.name)) continue;
+    if (!byName.has(p.name)) byName.set(p.name, new Set());
+    byName.get(p.name)!.add(p.version);
+  }
+  return [...byName.entries()]
+    .filter(([, vs]) => vs.size > 1)
+    .map(([name, vs]) => ({ name, versions: [...vs] }));
+}
+
+// Names of locked packages that depend on `name`
+export function dependentsOf(lock: Lockfile, name: string): string[] {
+  return [...new Set(lock.packages.filter(p => p.dependencies[name] !== undefined).map(p => p.name))];
+}
@@ -0,0 +1,611 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+import semver from "semver";
+import { lineOf, parseTsSource, walk } from "./ast.js";
+import { applyEdits, quoteStyle, TextEdit } from "./codemod.js";
+import { readTextSafe } from "./scan.js";
+import { isStyleFile, maskStyleComments } from "./styles.js";
+import { buildTemplateIndex } from "./templates.js";
+
+export type MaterialFinding = {
+  file: string;
+  line: number;
+  snippet: string;
+  message: string;
+  since?: number;         // Angular Material major the change came with
+};
+
+export type MaterialImport = {
+  file: string;
+  line: number;
+  from: string;
+  symbols: string[];
+  legacy: boolean;        // @angular/material/legacy-* (v15/16 only)
+};
+
+export type MaterialComponentReport = {
+  component: string;      // entry point under @angular/material (`form-field`, `button`, …)
+  status: "legacy" | "pre-mdc" | "ok";
+  imports: MaterialImport[];
+  templateUsages: number;
+  templates: string[];
+  classOverrides: MaterialFinding[];   // styles targeting pre-MDC internal class names
+  themeMixins: MaterialFinding[];      // component theming mixins that were removed
+  changes: string[];                   // what to review when moving to the MDC version
+};
+
+export type MaterialAnalysis = {
+  material?: string;      // declared ranges
+  cdk?: string;
+  currentMajor?: number;  // of @angular/material (else @angular/cdk)
+  targetMajor: number;
+  versionIssues: string[];
+  legacyImports: number;
+  fixableImports: number; // import declarations rewriteMaterialImports can move
+  components: MaterialComponentReport[];
+  cdkFindings: MaterialFinding[];  // CDK Sass globals and removed entry points
+};
+
+type ComponentSpec = {
+  id: string;
+  mdc?: boolean;          // moved to the MDC-based implementation in v15
+  selectors: string[];    // template elements and attributes
+  classes?: RegExp;       // pre-MDC internal class names
+  mixins?: string[];      // theming mixin stems (default: the id)
+  changes?: string[];
+};
+
+//#region Component catalog
+
+const COMPONENTS: ComponentSpec[] = [
+  {
+    id: "autocomplete", mdc: true,
+    selectors: ["mat-autocomplete", "matAutocomplete"],
+    classes: /\.mat-autocomplete-panel(?![\w-])/g,
+    changes: ["The panel is .mat-mdc-autocomplete-panel; options follow the MDC list density"],
+  },
+  { id: "badge", selectors: ["matBadge"] },
+  { id: "bottom-sheet", selectors: [] },
+  {
+    id: "button", mdc: true,
+    selectors: ["mat-button", "mat-raised-button", "mat-flat-button", "mat-stroked-button", "mat-icon-button", "mat-fab", "mat-mini-fab"],
+    classes: /\.mat-(button(-wrapper|-focus-overlay|-ripple)?|raised-button|flat-button|stroked-button|icon-button|mini-fab|fab)(?![\w-])/g,
+    changes: [
+      "The inner .mat-button-wrapper span is gone; icons and labels are laid out by MDC",
+      "mat-icon-button is 48px under the default density",
+    ],
+  },
+  { id: "button-toggle", selectors: ["mat-button-toggle-group", "mat-button-toggle"] },
+  {
+    id: "card", mdc: true,
+    selectors: ["mat-card"],
+    classes: /\.mat-card(-(header|header-text|title|subtitle|content|actions|footer|image|avatar|title-group|sm-image|md-image|lg-image|xl-image))?(?![\w-])/g,
+    changes: [
+      "mat-card has no padding of its own; mat-card-header, mat-card-content and mat-card-actions carry it",
+      "Use appearance=\"outlined\" for a bordered card",
+    ],
+  },
+  {
+    id: "checkbox", mdc: true,
+    selectors: ["mat-checkbox"],
+    classes: /\.mat-checkbox(-(layout|inner-container|frame|background|checkmark|checkmark-path|mixedmark|label|ripple|checked|indeterminate|disabled))?(?![\w-])/g,
+    changes: ["Internal parts are .mdc-checkbox__*; the label follows the MDC checkbox"],
+  },
+  {
+    id: "chips", mdc: true,
+    selectors: ["mat-chip-list", "mat-chip-listbox", "mat-chip-grid", "mat-chip-set", "mat-chip", "mat-chip-option", "mat-chip-row", "mat-basic-chip"],
+    classes: /\.mat-(chip(-list(-wrapper)?|-remove|-trailing-icon|-ripple)?|standard-chip)(?![\w-])/g,
+    mixins: ["chips"],
+    changes: [
+      "mat-chip-list is replaced by mat-chip-listbox (selection), mat-chip-grid (with matChipInputFor) or mat-chip-set (display only)",
+      "Chips in a listbox are mat-chip-option, in a grid mat-chip-row",
+    ],
+  },
+  {
+    id: "core", mdc: true,
+    selectors: ["mat-option", "mat-optgroup"],
+    classes: /\.mat-(option(-text|-pseudo-checkbox|-ripple)?|optgroup(-label)?)(?![\w-])/g,
+    mixins: ["option", "optgroup"],
+    changes: ["Options are .mat-mdc-option with the text in .mdc-list-item__primary-text"],
+  },
+  { id: "datepicker", selectors: ["mat-datepicker", "mat-date-range-picker", "mat-date-range-input", "mat-datepicker-toggle", "matDatepicker"] },
+  {
+    id: "dialog", mdc: true,
+    selectors: ["mat-dialog-title", "mat-dialog-content", "mat-dialog-actions", "mat-dialog-close"],
+    classes: /\.mat-dialog-(container|title|content|actions)(?![\w-])/g,
+    changes: [
+      "The container is .mat-mdc-dialog-container with an .mdc-dialog__surface; panelClass rules need new selectors",
+      "Padding sits on mat-dialog-content and mat-dialog-actions",
+    ],
+  },
+  { id: "divider", selectors: ["mat-divider"] },
+  { id: "expansion", selectors: ["mat-accordion", "mat-expansion-panel"] },
+  {
+    id: "form-field", mdc: true,
+    selectors: ["mat-form-field"],
+    classes: /\.mat-form-field-(wrapper|flex|infix|underline|ripple|label-wrapper|label|outline|outline-thick|subscript-wrapper|hint-wrapper|prefix|suffix|placeholder-required)(?![\w-])/g,
+    changes: [
+      "appearance \"legacy\" and \"standard\" are removed; use \"fill\" (default) or \"outline\"",
+      "Prefixes and suffixes are matIconPrefix / matTextPrefix and matIconSuffix / matTextSuffix",
+      "The internal structure changed; .mat-form-field-wrapper, -flex and -infix overrides stop applying",
+    ],
+  },
+  { id: "grid-list", selectors: ["mat-grid-list"] },
+  { id: "icon", selectors: ["mat-icon"] },
+  {
+    id: "input", mdc: true,
+    selectors: ["matInput"],
+    classes: /\.mat-input-element(?![\w-])/g,
+    changes: ["Native inputs carry .mat-mdc-input-element"],
+  },
+  {
+    id: "list", mdc: true,
+    selectors: ["mat-list", "mat-nav-list", "mat-selection-list", "mat-action-list", "mat-list-item", "mat-list-option"],
+    classes: /\.mat-(list-(item-content|text|avatar|icon|base)|line)(?![\w-])/g,
+    changes: [
+      "mat-line is replaced by matListItemTitle and matListItemLine; matListAvatar / matListIcon by matListItemAvatar / matListItemIcon",
+      "Item height follows the number of lines",
+    ],
+  },
+  {
+    id: "menu", mdc: true,
+    selectors: ["mat-menu", "mat-menu-item", "matMenuTriggerFor"],
+    classes: /\.mat-menu-(panel|content|item|item-submenu-trigger|ripple)(?![\w-])/g,
+    changes: ["Item text is wrapped in .mat-mdc-menu-item-text; icons go before the text"],
+  },
+  {
+    id: "paginator", mdc: true,
+    selectors: ["mat-paginator"],
+    classes: /\.mat-paginator(-[\w-]+)?(?![\w-])/g,
+    changes: ["The page size select is an MDC form field; classes are .mat-mdc-paginator-*"],
+  },
+  {
+    id: "progress-bar", mdc: true,
+    selectors: ["mat-progress-bar"],
+    classes: /\.mat-progress-bar(-(buffer|fill|primary|secondary|background|element))?(?![\w-])/g,
+    changes: ["Rendered as an MDC linear progress; .mat-progress-bar-* overrides stop applying"],
+  },
+  {
+    id: "progress-spinner", mdc: true,
+    selectors: ["mat-progress-spinner", "mat-spinner"],
+    classes: /\.mat-(progress-spinner|spinner)(?![\w-])/g,
+    changes: ["Rendered as an MDC circular progress; strokeWidth and diameter keep working"],
+  },
+  {
+    id: "radio", mdc: true,
+    selectors: ["mat-radio-group", "mat-radio-button"],
+    classes: /\.mat-radio-(container|outer-circle|inner-circle|label|label-content|ripple|button|checked)(?![\w-])/g,
+    changes: ["Internal parts are .mdc-radio__*"],
+  },
+  {
+    id: "select", mdc: true,
+    selectors: ["mat-select"],
+    classes: /\.mat-select-(trigger|value|value-text|arrow|arrow-wrapper|panel|placeholder|min-line)(?![\w-])/g,
+    changes: [
+      "The panel is as wide as the form field; panelClass rules need new selectors",
+      "Options follow the MDC list density",
+    ],
+  },
+  { id: "sidenav", selectors: ["mat-sidenav-container", "mat-sidenav", "mat-drawer-container", "mat-drawer"] },
+  {
+    id: "slide-toggle", mdc: true,
+    selectors: ["mat-slide-toggle"],
+    classes: /\.mat-slide-toggle-(bar|thumb|thumb-container|label|content|ripple|input)(?![\w-])/g,
+    changes: ["Rendered as an MDC switch button; .mat-slide-toggle-bar and -thumb overrides stop applying"],
+  },
+  {
+    id: "slider", mdc: true,
+    selectors: ["mat-slider"],
+    classes: /\.mat-slider-(wrapper|track-wrapper|track-fill|track-background|thumb|thumb-container|thumb-label|thumb-label-text|ticks|focus-ring)(?![\w-])/g,
+    changes: [
+      "mat-slider wraps <input matSliderThumb> (matSliderStartThumb / matSliderEndThumb for ranges); value, (change), (input) and displayWith move to the thumb input",
+      "Vertical and inverted sliders are not supported",
+    ],
+  },
+  {
+    id: "snack-bar", mdc: true,
+    selectors: [],
+    classes: /\.mat-(snack-bar-container|simple-snackbar(-action)?)(?![\w-])/g,
+    mixins: ["snack-bar"],
+    changes: ["The container is .mat-mdc-snack-bar-container; panelClass rules need new selectors"],
+  },
+  { id: "sort", selectors: ["matSort", "mat-sort-header"] },
+  { id: "stepper", selectors: ["mat-stepper", "mat-horizontal-stepper", "mat-vertical-stepper", "mat-step"] },
+  {
+    id: "table", mdc: true,
+    selectors: ["mat-table", "mat-header-row", "mat-row", "mat-cell", "mat-header-cell"],
+    classes: /\.mat-(table|header-row|footer-row|row|header-cell|footer-cell|cell)(?![\w-])/g,
+    changes: ["Rows, cells and headers carry .mat-mdc-* classes; the default row height is 52px"],
+  },
+  {
+    id: "tabs", mdc: true,
+    selectors: ["mat-tab-group", "mat-tab", "mat-tab-nav-bar", "mat-tab-link"],
+    classes: /\.mat-(tab-(label|label-content|label-active|label-container|header|header-pagination|body-wrapper|body|body-content|group|list|labels|link|nav-bar)|ink-bar)(?![\w-])/g,
+    changes: [
+      "Labels are .mdc-tab elements; header and ink bar overrides need new selectors",
+      "mat-tab-nav-bar needs [tabPanel] pointing at a <mat-tab-nav-panel>",
+    ],
+  },
+  { id: "toolbar", selectors: ["mat-toolbar"] },
+  {
+    id: "tooltip", mdc: true,
+    selectors: ["matTooltip"],
+    classes: /\.mat-tooltip(?![\w-])/g,
+    changes: ["The tooltip is .mat-mdc-tooltip with an .mdc-tooltip__surface"],
+  },
+  { id: "tree", selectors: ["mat-tree", "mat-tree-node", "mat-nested-tree-node"] },
+];
+
+const COMPONENT_IDS = new Set(COMPONENTS.map(c => c.id));
+
+// Barrel symbols whose name does not start with their entry point's
+const SYMBOL_ENTRY: Record<string, string> = {
+  MatOption: "core", MatOptgroup: "core", MatOptionModule: "core", MatOptionSelectionChange: "core",
+  ErrorStateMatcher: "core", ShowOnDirtyErrorStateMatcher: "core", DateAdapter: "core", NativeDateAdapter: "core",
+  MatNativeDateModule: "core", NativeDateModule: "core", MAT_DATE_FORMATS: "core", MAT_DATE_LOCALE: "core",
+  MAT_NATIVE_DATE_FORMATS: "core", MatDateFormats: "core", ThemePalette: "core", MatRipple: "core",
+  MatRippleModule: "core", MAT_RIPPLE_GLOBAL_OPTIONS: "core", RippleGlobalOptions: "core", MatCommonModule: "core",
+  MatPseudoCheckboxModule: "core", MatLine: "core", MatLineModule: "core", CanColor: "core", CanDisable: "core",
+  FloatLabelType: "form-field", MatLabel: "form-field", MatError: "form-field", MatHint: "form-field",
+  MatPrefix: "form-field", MatSuffix: "form-field", MatPlaceholder: "form-field",
+  MatDrawer: "sidenav", MatDrawerContainer: "sidenav", MatDrawerContent: "sidenav",
+  MatAccordion: "expansion",
+  MatRow: "table", MatCell: "table", MatHeaderRow: "table", MatHeaderCell: "table", MatFooterRow: "table",
+  MatFooterCell: "table", MatColumnDef: "table", MatCellDef: "table", MatHeaderCellDef: "table",
+  MatHeaderRowDef: "table", MatRowDef: "table", MatFooterCellDef: "table", MatFooterRowDef: "table",
+  MatStep: "stepper", MatHorizontalStepper: "stepper", MatVerticalStepper: "stepper",
+  MatSelectionList: "list", MatNavList: "list", MatSelectionListChange: "list",
+  MatDateRangeInput: "datepicker", MatDateRangePicker: "datepicker", MatStartDate: "datepicker",
+  MatEndDate: "datepicker", MatCalendar: "datepicker", DateRange: "datepicker",
+  MatSpinner: "progress-spinner",
+};
+
+// Legacy symbols without a same-named MDC counterpart
+const NO_MDC_EQUIVALENT: Record<string, string> = {
+  MatLegacyChipList: "use MatChipListbox, MatChipGrid or MatChipSet",
+  MatLegacyChipListChange: "use MatChipListboxChange",
+  MatLegacySliderChange: "listen to (change) / (valueChange) on <input matSliderThumb>",
+  MatLegacyListAvatarCssMatStyler: "use the matListItemAvatar directive",
+  MatLegacyListIconCssMatStyler: "use the matListItemIcon directive",
+};
+
+// CDK Sass globals replaced by the @angular/cdk module in v12
+const CDK_SASS_GLOBALS: Record<string, string> = {
+  "cdk-overlay": "overlay",
+  "cdk-a11y": "a11y-visually-hidden",
+  "cdk-high-contrast": "high-contrast",
+  "cdk-text-field": "text-field",
+  "cdk-text-field-autofill-color": "text-field-autofill-color",
+};
+
+//#endregion
+
+//#region Helpers
+
+const pascal = (id: string) => id.split("-").map(w => w[0].toUpperCase() + w.slice(1)).join("");
+const constant = (id: string) => id.replace(/-/g, "_").toUpperCase();
+
+// Entry point of a symbol imported from the `@angular/material` barrel (pre-v9)
+export function materialEntryForSymbol(name: string): string | undefined {
+  if (SYMBOL_ENTRY[name]) return SYMBOL_ENTRY[name];
+  const stem = name.replace(/^_?Mat/, "").replace(/^MAT_/, "");
+  const isConst = /^MAT_/.test(name);
+  let best: string | undefined;
+  for (const c of COMPONENTS) {
+    if (c.id === "core") continue;
+    const forms = isConst ? [constant(c.id), constant(c.id).replace(/S$/, "")] : [pascal(c.id), pascal(c.id).replace(/s$/, "")];
+    if (forms.some(f => stem.startsWith(f)) && (!best || c.id.length > best.length)) best = c.id;
+  }
+  return best;
+}
+
+// The MDC name of a legacy symbol (`MatLegacyButtonModule` -> `MatButtonModule`)
+export const mdcSymbol = (name: string) => name
+  .replace(/^(_?)MatLegacy/, "$1Mat")
+  .replace(/^MAT_LEGACY_/, "MAT_")
+  .replace(/^matLegacy/, "mat")
+  .replace(/^Legacy/, "");
+
+// NgModule that brings a Material element or attribute into a standalone component (`mat-card` -> MatCardModule)
+export function materialModuleFor(selector: string): { name: string; from: string } | undefined {
+  const c = COMPONENTS.find(s => s.selectors.includes(selector));
+  if (!c) return undefined;
+  return c.id === "core"
+    ? { name: "MatOptionModule", from: "@angular/material/core" }
+    : { name: `Mat${pascal(c.id)}Module`, from: `@angular/material/${c.id}` };
+}
+
+// `@angular/material/<entry>[/testing]` parts of a module specifier
+function parseMaterialModule(from: string): { entry?: string; legacy: boolean; sub: string } | undefined {
+  if (from === "@angular/material") return { legacy: false, sub: "" };
+  const m = /^@angular\/material\/(legacy-)?([\w-]+)(\/[\w-]+)?$/.exec(from);
+  if (!m) return undefined;
+  return { entry: m[2], legacy: !!m[1], sub: m[3] ?? "" };
+}
+
+function declaredMajor(range: string | undefined): number | undefined {
+  return range && semver.validRange(range) ? semver.minVersion(range)?.major : undefined;
+}
+
+function lineAt(code: string, pos: number): number {
+  let line = 1;
+  for (let i = 0; i < pos && i < code.length; i++) if (code[i] === "\n") line++;
+  return line;
+}
+
+//#endregion
+
+//#region Scanner
+
+/**
+ * Per-component Material report: imports (legacy and barrel ones), template
+ * usage, styles overriding pre-MDC class names and removed theming mixins.
+ */
+export function analyzeMaterial(abs: string, tsFiles: string[], htmlFiles: string[], styleFiles: string[], targetMajor: number): MaterialAnalysis {
+  let pkg: any = {};
+  try { pkg = JSON.parse(fs.readFileSync(path.join(abs, "package.json"), "utf-8")); } catch { /* no package.json */ }
+  const deps = { ...(pkg.devDependencies ?? {}), ...(pkg.dependencies ?? {}) };
+  const material: string | undefined = deps["@angular/material"];
+  const cdk: string | undefined = deps["@angular/cdk"];
+  const currentMajor = declaredMajor(material) ?? declaredMajor(cdk);
+
+  const versionIssues: string[] = [];
+  const coreMajor = declaredMajor(deps["@angular/core"]);
+  for (const [name, range] of [["@angular/material", material], ["@angular/cdk", cdk]] as const) {
+    const major = declaredMajor(range);
+    if (major !== undefined && coreMajor !== undefined && major !== coreMajor) {
+      versionIssues.push(`${name} ${range} does not match @angular/core ${deps["@angular/core"]}; they are released together and must share a major`);
+    }
+  }
+  if (material && !cdk) versionIssues.push("@angular/material needs @angular/cdk as a dependency");
+
+  const reports = new Map<string, MaterialComponentReport>();
+  const report = (id: string) => {
+    let r = reports.get(id);
+    if (!r) reports.set(id, r = { component: id, status: "ok", imports: [], templateUsages: 0, templates: [], classOverrides: [], themeMixins: [], changes: [] });
+    return r;
+  };
+  const cdkFindings: MaterialFinding[] = [];
+  let fixableImports = 0;
+
+  // Imports
+  for (const rel of tsFiles) {
+    const code = readTextSafe(path.join(abs, rel));
+    if (!/@angular\/(material|cdk)/.test(code)) continue;
+    const file = rel.replace(/\\/g, "/");
+    const sf = parseTsSource(file, code);
+    for (const st of sf.statements) {
+      if (!ts.isImportDeclaration(st) || !ts.isStringLiteral(st.moduleSpecifier)) continue;
+      const from = st.moduleSpecifier.text;
+      const line = lineOf(sf, st.getStart(sf));
+      if (from === "@angular/cdk/testing/protractor") {
+        cdkFindings.push({ file, line, snippet: st.getText(sf).slice(0, 120), message: "Protractor harness environment: Protractor is no longer supported; use TestbedHarnessEnvironment or a WebDriver environment" });
+        continue;
+      }
+      const mod = parseMaterialModule(from);
+      if (!mod) continue;
+      const nb = st.importClause?.namedBindings;
+      const symbols = nb && ts.isNamedImports(nb) ? nb.elements.map(el => (el.propertyName ?? el.name).text) : [];
+      if (mod.legacy || !mod.entry) fixableImports++;
+      const byEntry = new Map<string, string[]>();
+      for (const s of symbols) {
+        const entry = mod.entry ?? materialEntryForSymbol(s);
+        if (!entry || !COMPONENT_IDS.has(entry)) continue;
+        byEntry.set(entry, [...(byEntry.get(entry) ?? []), s]);
+      }
+      for (const [entry, names] of byEntry) report(entry).imports.push({ file, line, from, symbols: names, legacy: mod.legacy });
+    }
+  }
+
+  // Templates
+  const index = buildTemplateIndex(abs, tsFiles, htmlFiles);
+  for (const src of index.sources) {
+    if (!/\bmat[A-Z-]/.test(src.text)) continue;
+    for (const c of COMPONENTS) {
+      const count = c.selectors.reduce((n, sel) => n + (src.text.match(new RegExp(`(?<=[<\\s\\[(*])${sel}(?=[\\s>=/\\])])`, "g"))?.length ?? 0), 0);
+      if (!count) continue;
+      const r = report(c.id);
+      r.templateUsages += count;
+      if (!r.templates.includes(src.file)) r.templates.push(src.file);
+    }
+  }
+
+  // Stylesheets
+  for (const rel of styleFiles.filter(isStyleFile)) {
+    const file = rel.replace(/\\/g, "/");
+    const code = readTextSafe(path.join(abs, rel));
+    if (!/mat|cdk/.test(code)) continue;
+    const masked = maskStyleComments(file, code);
+    const snippet = (start: number, end: number) => code.slice(start, end).replace(/\s+/g, " ").slice(0, 120);
+
+    for (const c of COMPONENTS) {
+      if (c.classes) {
+        for (const m of masked.matchAll(c.classes)) {
+          report(c.id).classOverrides.push({
+            file, line: lineAt(code, m.index!), snippet: snippet(m.index!, m.index! + m[0].length), since: 15,
+            message: `${m[0]} is a pre-MDC class; the MDC ${c.id} renders .mat-mdc-* / .mdc-* elements, so this override no longer matches`,
+          });
+        }
+      }
+      const stems = (c.mixins ?? [c.id]).join("|");
+      for (const m of masked.matchAll(new RegExp(`(?<![\\w.$-])(?:(mat-)|([\\w-]+)\\.(legacy-))(${stems})-(theme|color|typography|density)\\s*\\(`, "g"))) {
+        const legacy = !!m[3];
+        if (legacy && targetMajor < 17) continue;
+        report(c.id).themeMixins.push({
+          file, line: lineAt(code, m.index!), snippet: snippet(m.index!, m.index! + m[0].length - 1), since: legacy ? 17 : 12,
+          message: legacy
+            ? `${m[2]}.legacy-${m[4]}-${m[5]}() was removed with the legacy components in Material 17; use ${m[2]}.${m[4]}-${m[5]}()`
+            : `mat-${m[4]}-${m[5]}() is a pre-v12 global; use @use '@angular/material' as mat and mat.${m[4]}-${m[5]}() (rewriteStyles converts it)`,
+        });
+      }
+    }
+
+    for (const m of masked.matchAll(/(?<![\w.$-])(cdk-(?:overlay|a11y|high-contrast|text-field-autofill-color|text-field))\s*\(/g)) {
+      cdkFindings.push({
+        file, line: lineAt(code, m.index!), snippet: snippet(m.index!, m.index! + m[0].length - 1), since: 12,
+        message: `${m[1]}() is a pre-v12 global; use @use '@angular/cdk' and cdk.${CDK_SASS_GLOBALS[m[1]]}()`,
+      });
+    }
+    for (const m of masked.matchAll(/@import\s+['"]~?@angular\/cdk\/(overlay|a11y|text-field)['"]/g)) {
+      cdkFindings.push({ file, line: lineAt(code, m.index!), snippet: snippet(m.index!, m.index! + m[0].length), since: 12, message: `@angular/cdk/${m[1]} Sass partial: use @use '@angular/cdk'` });
+    }
+  }
+
+  const components = [...reports.values()].sort((a, b) => a.component.localeCompare(b.component));
+  for (const r of components) {
+    const spec = COMPONENTS.find(c => c.id === r.component)!;
+    if (r.imports.some(i => i.legacy)) {
+      r.status = "legacy";
+      r.changes = [`The legacy entry point @angular/material/legacy-${r.component} is removed in Material 17`, ...(spec.changes ?? [])];
+    } else if (spec.mdc && currentMajor !== undefined && currentMajor < 15 && targetMajor >= 15) {
+      r.status = "pre-mdc";
+      r.changes = [...(spec.changes ?? [])];
+    }
+  }
+
+  return {
+    material,
+    cdk,
+    currentMajor,
+    targetMajor,
+    versionIssues,
+    legacyImports: components.reduce((n, r) => n + r.imports.filter(i => i.legacy).length, 0),
+    fixableImports,
+    components,
+    cdkFindings,
+  };
+}
+
+//#endregion
+
+//#region Import rewriter
+
+/**
+ * Move imports from `@angular/material/legacy-*` to the MDC entry points
+ * (renaming MatLegacy* symbols) and split the `@angular/material` barrel into
+ * entry points. Symbols without a counterpart stay where they are.
+ */
+export function rewriteMaterialImports(fileName: string, code: string): {
+  code: string;
+  applied: Array<{ line: number; from: string; to: string[] }>;
+  unresolved: Array<{ line: number; symbol: string; from: string; note: string }>;
+} {
+  const applied: Array<{ line: number; from: string; to: string[] }> = [];
+  const unresolved: Array<{ line: number; symbol: string; from: string; note: string }> = [];
+  if (!/@angular\/material/.test(code)) return { code, applied, unresolved };
+
+  const sf = parseTsSource(fileName, code);
+  const q = quoteStyle(sf);
+  const edits: TextEdit[] = [];
+  const renames = new Map<string, string>();
+
+  // Existing entry point imports, and the local names each module already binds
+  const existing = new Map<string, ts.ImportDeclaration>();
+  const bound = new Map<string, Set<string>>();
+  for (const st of sf.statements) {
+    if (!ts.isImportDeclaration(st) || !ts.isStringLiteral(st.moduleSpecifier)) continue;
+    const nb = st.importClause?.namedBindings;
+    if (!nb || !ts.isNamedImports(nb)) continue;
+    const mod = parseMaterialModule(st.moduleSpecifier.text);
+    if (mod && !mod.legacy && mod.entry && !st.importClause!.isTypeOnly && !existing.has(st.moduleSpecifier.text)) existing.set(st.moduleSpecifier.text, st);
+    const names = bound.get(st.moduleSpecifier.text) ?? new Set<string>();
+    nb.elements.forEach(el => names.add(el.name.text));
+    bound.set(st.moduleSpecifier.text, names);
+  }
+
+  // Legacy and barrel declarations: what stays, and what moves to which entry point
+  const plans: Array<{ st: ts.ImportDeclaration; from: string; typeOnly: boolean; kept: string[]; moved: Map<string, string[]> }> = [];
+  for (const st of sf.statements) {
+    if (!ts.isImportDeclaration(st) || !ts.isStringLiteral(st.moduleSpecifier)) continue;
+    const from = st.moduleSpecifier.text;
+    const mod = parseMaterialModule(from);
+    const clause = st.importClause;
+    const nb = clause?.namedBindings;
+    if (!mod || !(mod.legacy || !mod.entry) || !clause || clause.name || !nb || !ts.isNamedImports(nb)) continue;
+
+    const line = lineOf(sf, st.getStart(sf));
+    const kept: string[] = [];
+    const moved = new Map<string, string[]>();
+    for (const el of nb.elements) {
+      const imported = (el.propertyName ?? el.name).text;
+      const local = el.name.text;
+      const prefix = el.isTypeOnly ? "type " : "";
+      let entry = mod.entry;
+      let name = imported;
+      if (mod.legacy) {
+        if (NO_MDC_EQUIVALENT[imported]) {
+          unresolved.push({ line, symbol: imported, from, note: NO_MDC_EQUIVALENT[imported] });
+          kept.push(el.getText(sf));
+          continue;
+        }
+        name = mdcSymbol(imported);
+      } else {
+        entry = materialEntryForSymbol(imported);
+        if (!entry) {
+          unresolved.push({ line, symbol: imported, from, note: "entry point unknown; import it from its @angular/material/<component> entry point" });
+          kept.push(el.getText(sf));
+          continue;
+        }
+      }
+      // Aliases keep their local name; unaliased legacy names are renamed through the file
+      if (!el.propertyName && name !== local) renames.set(local, name);
+      const localAfter = el.propertyName ? local : name;
+      const spec = localAfter === name ? `${prefix}${name}` : `${prefix}${name} as ${local}`;
+      const target = `@angular/material/${entry}${mod.sub}`;
+      const names = bound.get(target) ?? new Set<string>();
+      bound.set(target, names);
+      if (!names.has(localAfter)) moved.set(target, [...(moved.get(target) ?? []), spec]);
+      names.add(localAfter);
+    }
+    if (moved.size || kept.length < nb.elements.length) {
+      plans.push({ st, from, typeOnly: clause.isTypeOnly, kept, moved });
+      applied.push({ line, from, to: [...moved.keys()] });
+    }
+  }
+
+  // New declarations go where the first declaration moving to that module was
+  const created = new Map<string, { plan: number; typeOnly: boolean; specs: string[] }>();
+  const appended = new Map<string, string[]>();
+  plans.forEach((plan, i) => {
+    for (const [target, specs] of plan.moved) {
+      if (existing.has(target) && !plan.typeOnly) appended.set(target, [...(appended.get(target) ?? []), ...specs]);
+      else {
+        const key = `${plan.typeOnly ? "type " : ""}${target}`;
+        const c = created.get(key) ?? { plan: i, typeOnly: plan.typeOnly, specs: [] };
+        c.specs.push(...specs);
+        created.set(key, c);
+      }
+    }
+  });
+  for (const [target, specs] of appended) {
+    const named = existing.get(target)!.importClause!.namedBindings as ts.NamedImports;
+    const last = named.elements[named.elements.length - 1];
+    edits.push({ start: last.end, end: last.end, text: `, ${specs.join(", ")}` });
+  }
+  plans.forEach((plan, i) => {
+    const declarations = [
+      ...(plan.kept.length ? [`import ${plan.typeOnly ? "type " : ""}{ ${plan.kept.join(", ")} } from ${q}${plan.from}${q};`] : []),
+      ...[...created].filter(([, c]) => c.plan === i)
+        .map(([key, c]) => `import ${c.typeOnly ? "type " : ""}{ ${c.specs.join(", ")} } from ${q}${key.replace(/^type /, "")}${q};`),
+    ];
+    edits.push(declarations.length
+      ? { start: plan.st.getStart(sf), end: plan.st.end, text: declarations.join("\n") }
+      : { start: plan.st.getFullStart(), end: plan.st.end, text: "" });
+  });
+
+  // References to renamed unaliased legacy symbols
+  if (renames.size) {
+    walk(sf, n => {
+      if (!ts.isIdentifier(n) || !renames.has(n.text)) return;
+      const p = n.parent;
+      if (ts.isImportSpecifier(p)) return;
+      if ((ts.isPropertyAccessExpression(p) || ts.isPropertyAssignment(p) || ts.isPropertyDeclaration(p) || ts.isMethodDeclaration(p)) && p.name === n) return;
+      edits.push({ start: n.getStart(sf), end: n.end, text: renames.get(n.text)! });
+    });
+  }
+
+  return { code: edits.length ? applyEdits(code, edits) : code, applied, unresolved };
+}
+
+//#endregion
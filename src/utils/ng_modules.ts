@@ -0,0 +1,197 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+import {
+  arrayElementNames,
+  findDecoratedClasses,
+  getImportMap,
+  getProperty,
+  getTopLevelConsts,
+  lineOf,
+  parseTsFile,
+  propertyNameText,
+  stringValue,
+  unwrapExpression,
+  walk,
+} from "./ast.js";
+
+export type NgModuleInfo = {
+  name: string;
+  path: string;           // relative to project root, forward slashes
+  line: number;
+  declarations: string[];
+  imports: string[];
+  exports: string[];
+  providers: string[];
+  bootstrap: string[];
+  dependsOn: string[];    // local NgModules (class names) found in `imports`
+};
+
+export type LazyRouteRef = {
+  file: string;           // routing file the reference was found in
+  line: number;
+  importPath: string;     // as written in loadChildren
+  className?: string;     // undefined for default exports / unresolvable callbacks
+  resolved?: string;      // project-relative target file, when it exists on disk
+  legacy: boolean;        // 'path#Class' string syntax
+};
+
+const toPosix = (p: string) => p.replace(/\\/g, "/");
+
+// Resolve a relative import specifier to a .ts file on disk
+export function resolveRelativeImport(fromFileAbs: string, spec: string): string | undefined {
+  if (!spec.startsWith(".")) return undefined;
+  return resolveTsFile(path.resolve(path.dirname(fromFileAbs), spec));
+}
+
+export function resolveTsFile(baseAbs: string): string | undefined {
+  const candidates = [baseAbs, `${baseAbs}.ts`, path.join(baseAbs, "index.ts")];
+  return candidates.find(c => c.endsWith(".ts") && fs.existsSync(c) && fs.statSync(c).isFile());
+}
+
+// Parse every @NgModule class in the given files (relative to `abs`)
+export function readNgModules(abs: string, relFiles: string[]): NgModuleInfo[] {
+  const found: Array<NgModuleInfo & { importMap: Map<string, string> }> = [];
+
+  for (const rel of relFiles) {
+    const full = path.join(abs, rel);
+    const sf = parseTsFile(full);
+    const classes = findDecoratedClasses(sf, "NgModule");
+    if (!classes.length) continue;
+    const consts = getTopLevelConsts(sf);
+    const importMap = getImportMap(sf);
+
+    for (const c of classes) {
+      const list = (prop: string) => c.meta ? arrayElementNames(getProperty(c.meta, prop), consts) : [];
+      found.push({
+        name: c.className,
+        path: toPosix(rel),
+        line: lineOf(sf, c.node.getStart()),
+        declarations: list("declarations"),
+        imports: list("imports"),
+        exports: list("exports"),
+        providers: list("providers"),
+        bootstrap: list("bootstrap"),
+        dependsOn: [],
+        importMap,
+      });
+    }
+  }
+
+  // Link `imports` to local modules: same file, relative import, or unique class name (aliases)
+  for (const m of found) {
+    const fromAbs = path.join(abs, m.path);
+    const deps = new Set<string>();
+    for (const imp of m.imports) {
+      const spec = m.importMap.get(imp);
+      let target: NgModuleInfo | undefined;
+      if (!spec) {
+        target = found.find(o => o.path === m.path && o.name === imp);
+      } else {
+        const resolved = resolveRelativeImport(fromAbs, spec);
+        if (resolved) {
+          const relTarget = toPosix(path.relative(abs, resolved));
+          target = found.find(o => o.path === relTarget && o.name === imp);
+        } else if (!spec.startsWith("@angular/")) {
+          const byName = found.filter(o => o.name === imp);
+          if (byName.length === 1) target = byName[0];
+        }
+      }
+      if (target && target !== m) deps.add(target.name);
+    }
+    m.dependsOn = [...deps];
+  }
+
+  return found.map(({ importMap: _importMap, ...info }) => info);
+}
+
+/**
+ * Class names of standalone components, directives and pipes. `defaultStandalone`
+ * is true from Angular 19, where a missing `standalone` flag means standalone.
+ */
+export function findStandaloneDeclarables(abs: string, relFiles: string[], defaultStandalone: boolean): string[] {
+  const names = new Set<string>();
+  for (const rel of relFiles) {
+    const full = path.join(abs, rel);
+    if (!/@(Component|Directive|Pipe)\s*\(/.test(fs.readFileSync(full, "utf-8"))) continue;
+    const sf = parseTsFile(full);
+    for (const decorator of ["Component", "Directive", "Pipe"]) {
+      for (const c of findDecoratedClasses(sf, decorator)) {
+        const flag = c.meta && getProperty(c.meta, "standalone");
+        const standalone = flag ? flag.kind === ts.SyntaxKind.TrueKeyword : defaultStandalone;
+        if (standalone) names.add(c.className);
+      }
+    }
+  }
+  return [...names];
+}
+
+// Collect every `loadChildren` reference (dynamic import or legacy string) in the given files
+export function collectLazyRoutes(abs: string, relFiles: string[]): LazyRouteRef[] {
+  const out: LazyRouteRef[] = [];
+  for (const rel of relFiles) {
+    const full = path.join(abs, rel);
+    const sf = parseTsFile(full);
+    walk(sf, n => {
+      if (!ts.isPropertyAssignment(n) || propertyNameText(n.name) !== "loadChildren") return;
+      const ref = readLoadTarget(n.initializer);
+      if (!ref) return;
+      out.push({
+        file: toPosix(rel),
+        line: lineOf(sf, n.getStart()),
+        importPath: ref.importPath,
+        className: ref.className,
+        resolved: resolveLazyTarget(abs, full, ref.importPath, ref.legacy),
+        legacy: ref.legacy,
+      });
+    });
+  }
+  return out;
+}
+
+/**
+ * Read the target of a `loadChildren` / `loadComponent` initializer:
+ * `() => import('./x').then(m => m.X)`, `() => import('./x')` (default export)
+ * or the legacy `'./x#X'` string.
+ */
+export function readLoadTarget(init: ts.Expression): { importPath: string; className?: string; legacy: boolean } | undefined {
+  const legacyStr = stringValue(init);
+  if (legacyStr !== undefined) {
+    const [importPath, className] = legacyStr.split("#");
+    return { importPath, className, legacy: true };
+  }
+
+  let importPath: string | undefined;
+  let className: string | undefined;
+  walk(init, n => {
+    if (ts.isCallExpression(n) && n.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      importPath = stringValue(n.arguments[0]);
+    }
+    // .then(m => m.X) or .then(({ X }) => X)
+    if (ts.isCallExpression(n) && ts.isPropertyAccessExpression(n.expression) && n.expression.name.text === "then") {
+      const cb = n.arguments[0];
+      if (cb && (ts.isArrowFunction(cb) || ts.isFunctionExpression(cb))) {
+        const body = ts.isBlock(cb.body) ? cb.body.statements.find(ts.isReturnStatement)?.expression : cb.body;
+        if (body) {
+          const b = unwrapExpression(body);
+          if (ts.isPropertyAccessExpression(b)) className = b.name.text;
+          else if (ts.isElementAccessExpression(b)) className = stringValue(b.argumentExpression);
+          else if (ts.isIdentifier(b)) className = b.text;
+        }
+      }
+    }
+  });
+  return importPath ? { importPath, className, legacy: false } : undefined;
+}
+
+// Legacy strings were resolved from the app root; dynamic imports from the routing file
+export function resolveLazyTarget(abs: string, fromFileAbs: string, importPath: string, legacy: boolean): string | undefined {
+  if (!legacy && !importPath.startsWith(".")) return undefined;
+  const bases = [path.dirname(fromFileAbs)];
+  if (legacy) bases.push(abs, path.join(abs, "src"));
+  for (const b of bases) {
+    const hit = resolveTsFile(path.resolve(b, importPath));
+    if (hit) return toPosix(path.relative(abs, hit));
+  }
+  return undefined;
+}
@@ -1,72 +1,68 @@
-import { run } from "./run.js";
+import semver from "semver";
+import { getRegistryClient, Packument, RegistryClient } from "./registry.js";
 
-const latestCache = new Map<string, string | undefined>();
+// In-memory packument cache per client, so swapping the backend never serves stale data
+const packumentCache = new WeakMap<RegistryClient, Map<string, Promise<Packument | null>>>();
 
-export async function getLatestVersion(pkgName: string): Promise<string | undefined> {
+export function getPackument(pkgName: string): Promise<Packument | null> {
+  const client = getRegistryClient();
+  let cache = packumentCache.get(client);
+  if (!cache) packumentCache.set(client, cache = new Map());
 
-  if (latestCache.has(pkgName)) return latestCache.get(pkgName);
+  let pending = cache.get(pkgName);
+  if (!pending) {
+    pending = client.getPackument(pkgName).catch(() => null);
+    cache.set(pkgName, pending);
+  }
+  return pending;
+}
 
-  // Get all versions and find the latest stable one
-  const { code, stdout } = await run("npm", ["view", pkgName, "versions", "--json"], process.cwd());
+export async function getLatestVersion(pkgName: string): Promise<string | undefined> {
+  const doc = await getPackument(pkgName);
+  if (!doc) return undefined;
 
-  let ver: string | undefined;
-  if (code === 0 && stdout) {
-    try {
-      const versions = JSON.parse(stdout);
-      if (Array.isArray(versions)) {
-        // Filter out pre-release versions (beta, alpha, rc, etc.)
-        const stableVersions = versions.filter((v: string) => {
-          // Exclude versions with pre-release identifiers
-          return !v.includes('-') && !v.includes('beta') && !v.includes('alpha') && !v.includes('rc');
-        });
-        
-        if (stableVersions.length > 0) {
-          // Sort versions and get the latest stable one
-          stableVersions.sort((a, b) => {
-            const aParts = a.split('.').map(Number);
-            const bParts = b.split('.').map(Number);
-            for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
-              const aPart = aParts[i] || 0;
-              const bPart = bParts[i] || 0;
-              if (aPart !== bPart) return aPart - bPart;
-            }
-            return 0;
-          });
-          ver = stableVersions[stableVersions.length - 1];
-        }
-      }
-    } catch {
-      // Fallback: try to get the latest version without filtering
-      const { code: fallbackCode, stdout: fallbackStdout } = await run("npm", ["view", pkgName, "version"], process.cwd());
-      if (fallbackCode === 0 && fallbackStdout) {
-        const fallbackVer = fallbackStdout.trim();
-        // Only use it if it's not a pre-release version
-        if (!fallbackVer.includes('-') && !fallbackVer.includes('beta') && !fallbackVer.includes('alpha') && !fallbackVer.includes('rc')) {
-          ver = fallbackVer;
-        }
-      }
-    }
-  }
+  // Latest stable release; ignore pre-release versions (beta, alpha, rc, etc.)
+  const stableVersions = Object.keys(doc.versions).filter(v => semver.valid(v) && !semver.prerelease(v));
+  if (stableVersions.length > 0) return semver.rsort(stableVersions)[0];
 
-  latestCache.set(pkgName, ver);
-  return ver;
+  const tagged = doc["dist-tags"].latest;
+  return tagged && !semver.prerelease(tagged) ? tagged : undefined;
 }
 
 export async function getPeerDeps(name: string, version: string) {
-  const spec = version ? `${name}@${version}` : name;
-  const { code, stdout } = await run("npm", ["view", spec, "--json"], process.cwd());
-  if (code !== 0) return null;
-  try {
-    const obj = JSON.parse(stdout || "{}") || {};
-    return {
-      peerDependencies: obj.peerDependencies || {},
-      peerDependenciesMeta: obj.peerDependenciesMeta || {},
-    };
-  } catch {
-    return { peerDependencies: {}, peerDependenciesMeta: {} };
-  }
+  const doc = await getPackument(name);
+  if (!doc) return null;
+
+  // `version` may be an exact version, a range or a dist-tag
+  const versions = Object.keys(doc.versions);
+  const picked = !version ? doc["dist-tags"].latest
+    : doc.versions[version] ? version
+    : doc["dist-tags"][version] ?? (semver.validRange(version) ? semver.maxSatisfying(versions, version) : null);
+  const meta = picked ? doc.versions[picked] : undefined;
+  if (doc.incomplete && !meta?.peerDependencies) return null;
+  return {
+    peerDependencies: meta?.peerDependencies || {},
+    peerDependenciesMeta: meta?.peerDependenciesMeta || {},
+  };
+}
+
+export type VersionPeers = {
+  version: string;
+  peerDependencies: Record<string, string>;
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+};
+
+// Every published version with its peerDependencies; null when the registry only gave the latest version's
+export async function getVersionPeers(pkgName: string): Promise<VersionPeers[] | null> {
+  const doc = await getPackument(pkgName);
+  if (!doc || doc.incomplete) return null;
+  return Object.values(doc.versions).map(v => ({
+    version: v.version,
+    peerDependencies: v.peerDependencies || {},
+    peerDependenciesMeta: v.peerDependenciesMeta || {},
+  }));
 }
 
 export function clearLatestCache() {
-  latestCache.clear();
+  packumentCache.delete(getRegistryClient());
 }
@@ -0,0 +1,215 @@
+import semver from "semver";
+import { getVersionPeers, VersionPeers } from "./npm.js";
+
+export type SolverPackage = {
+  name: string;
+  preferred?: string;   // range tried first (e.g. the strategy's pick or the old spec)
+  locked?: string;      // range every candidate must satisfy (e.g. Angular framework major)
+};
+
+export type SolverOptions = {
+  maxCandidates?: number; // versions considered per package, default 40
+  maxSteps?: number;      // search budget across all components, default 50000
+  maxAdded?: number;      // missing peers that may be pulled in, default 50
+  lockFor?: (name: string) => string | undefined; // `locked` range for pulled-in peers
+};
+
+export type SolverResult = {
+  consistent: boolean;
+  versions: Record<string, string>;                                   // resolved exact versions
+  added: Array<{ name: string; version?: string; requiredBy: string }>; // missing required peers pulled in
+  unresolved: Array<{ name: string; reason: string }>;                // no registry data / no candidates
+  conflicts: string[];                                                // why no consistent set exists
+  steps: number;
+};
+
+type Candidate = { version: string; peers: Record<string, string>; optional: Set<string> };
+
+const satisfies = (v: string, range: string) => {
+  try { return semver.satisfies(v, range, { includePrerelease: true }); } catch { return false; }
+};
+
+// Candidate versions, preferred range first, then newest first; capped
+function buildDomain(all: VersionPeers[], pkg: SolverPackage, maxCandidates: number): Candidate[] {
+  let pool = all.filter(v => semver.valid(v.version));
+  const stable = pool.filter(v => !semver.prerelease(v.version));
+  const wantsPre = [pkg.preferred, pkg.locked].some(r => r && /-/.test(r));
+  if (stable.length && !wantsPre) pool = stable;
+  if (pkg.locked) pool = pool.filter(v => satisfies(v.version, pkg.locked!));
+  pool.sort((a, b) => semver.rcompare(a.version, b.version));
+
+  const preferred = pkg.preferred && semver.validRange(pkg.preferred) ? pool.filter(v => satisfies(v.version, pkg.preferred!)) : [];
+  const rest = pool.filter(v => !preferred.includes(v));
+  return [...preferred, ...rest].slice(0, maxCandidates).map(v => ({
+    version: v.version,
+    peers: v.peerDependencies,
+    optional: new Set(Object.entries(v.peerDependenciesMeta ?? {}).filter(([, m]) => m?.optional).map(([n]) => n)),
+  }));
+}
+
+/**
+ * Pick one version per package so that every peerDependency range between
+ * the chosen versions holds (optional peers only constrain when present).
+ * Missing required peers are pulled in. Packages are split into independent
+ * peer-connected components and each component is solved by backtracking,
+ * newest/preferred versions first. When no consistent set exists, `conflicts`
+ * explains the constraints that could not be met.
+ */
+export async function solvePeerConstraints(pkgs: SolverPackage[], opts: SolverOptions = {}): Promise<SolverResult> {
+  const { maxCandidates = 40, maxSteps = 50000, maxAdded = 50, lockFor } = opts;
+
+  const wanted = new Map<string, SolverPackage>(pkgs.map(p => [p.name, p]));
+  const domains = new Map<string, Candidate[]>();
+  const added: SolverResult["added"] = [];
+  const unresolved: SolverResult["unresolved"] = [];
+
+  //#region Load domains (+ closure over missing required peers)
+
+  const queue = [...wanted.keys()];
+  while (queue.length) {
+    const name = queue.shift()!;
+    const all = await getVersionPeers(name);
+    if (!all || !all.length) {
+      unresolved.push({ name, reason: "no registry data" });
+      continue;
+    }
+    const dom = buildDomain(all, wanted.get(name)!, maxCandidates);
+    if (!dom.length) {
+      unresolved.push({ name, reason: `no published version satisfies ${wanted.get(name)!.locked ?? wanted.get(name)!.preferred}` });
+      continue;
+    }
+    domains.set(name, dom);
+
+    // Required peers of the preferred candidate that nobody declared
+    for (const [peer, range] of Object.entries(dom[0].peers)) {
+      if (wanted.has(peer) || dom[0].optional.has(peer) || added.length >= maxAdded) continue;
+      wanted.set(peer, { name: peer, preferred: range, locked: lockFor?.(peer) });
+      added.push({ name: peer, requiredBy: name });
+      queue.push(peer);
+    }
+  }
+
+  //#endregion
+
+  //#region Components of the peer graph
+
+  const names = [...domains.keys()];
+  const related = new Map<string, Set<string>>(names.map(n => [n, new Set<string>()]));
+  for (const n of names) {
+    for (const c of domains.get(n)!) {
+      for (const peer of Object.keys(c.peers)) {
+        if (!domains.has(peer) || peer === n) continue;
+        related.get(n)!.add(peer);
+        related.get(peer)!.add(n);
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  const components: string[][] = [];
+  for (const n of names) {
+    if (seen.has(n)) continue;
+    const comp: string[] = [];
+    const stack = [n];
+    seen.add(n);
+    while (stack.length) {
+      const cur = stack.pop()!;
+      comp.push(cur);
+      for (const r of related.get(cur)!) if (!seen.has(r)) { seen.add(r); stack.push(r); }
+    }
+    // Locked packages first (smallest domains), then most connected
+    comp.sort((a, b) =>
+      Number(!!wanted.get(b)?.locked) - Number(!!wanted.get(a)?.locked) ||
+      related.get(b)!.size - related.get(a)!.size);
+    components.push(comp);
+  }
+
+  //#endregion
+
+  //#region Backtracking per component
+
+  const versions: Record<string, string> = {};
+  const conflicts: string[] = [];
+  let steps = 0;
+  let consistent = true;
+
+  for (const comp of components) {
+    const assigned = new Map<string, Candidate>();
+    let deepest = { index: -1, name: "", reasons: [] as string[] };
+    let exhausted = false;
+
+    const conflictOf = (name: string, cand: Candidate): string | undefined => {
+      for (const [peer, range] of Object.entries(cand.peers)) {
+        const other = assigned.get(peer);
+        if (other && !satisfies(other.version, range)) return `${name}@${cand.version} needs ${peer} ${range} (have ${other.version})`;
+      }
+      for (const [other, oc] of assigned) {
+        const range = oc.peers[name];
+        if (range && !satisfies(cand.version, range)) return `${other}@${oc.version} needs ${name} ${range}`;
+      }
+      return undefined;
+    };
+
+    // Forward check: every unassigned neighbour must keep at least one usable candidate
+    const neighboursViable = (name: string): string | undefined => {
+      for (const n of related.get(name)!) {
+        if (assigned.has(n)) continue;
+        if (!domains.get(n)!.some(c => !conflictOf(n, c))) {
+          const sample = conflictOf(n, domains.get(n)![0]);
+          return `leaves no version of ${n}${sample ? ` (${sample})` : ""}`;
+        }
+      }
+      return undefined;
+    };
+
+    const search = (i: number): boolean => {
+      if (i === comp.length) return true;
+      const name = comp[i];
+      const reasons: string[] = [];
+      for (const cand of domains.get(name)!) {
+        if (++steps > maxSteps) { exhausted = true; return false; }
+        const why = conflictOf(name, cand);
+        if (why) { reasons.push(why); continue; }
+        assigned.set(name, cand);
+        const dead = neighboursViable(name);
+        if (dead) {
+          reasons.push(`${name}@${cand.version} ${dead}`);
+          assigned.delete(name);
+          continue;
+        }
+        if (search(i + 1)) return true;
+        assigned.delete(name);
+        if (exhausted) return false;
+      }
+      if (i >= deepest.index) deepest = { index: i, name, reasons };
+      return false;
+    };
+
+    if (search(0)) {
+      for (const [n, c] of assigned) versions[n] = c.version;
+      continue;
+    }
+
+    consistent = false;
+    if (exhausted) {
+      conflicts.push(`Search budget exhausted while resolving ${comp.join(", ")}; pin some of these packages manually.`);
+    } else {
+      // Group reasons that only differ by version numbers
+      const groups = new Map<string, { first: string; count: number }>();
+      for (const r of deepest.reasons) {
+        const key = r.replace(/@\d[\w.+-]*/g, "").replace(/\s*\(have [^)]*\)/g, "");
+        const g = groups.get(key);
+        if (g) g.count++; else groups.set(key, { first: r, count: 1 });
+      }
+      const summary = [...groups.values()].slice(0, 5).map(g => g.count > 1 ? `${g.first} [+${g.count - 1} similar]` : g.first);
+      conflicts.push(`No version of ${deepest.name} fits the other choices: ${summary.join("; ") || "no candidates"}`);
+    }
+    // Best effort: preferred candidates for the whole component
+    for (const n of comp) versions[n] = domains.get(n)![0].version;
+  }
+
+  //#endregion
+
+  for (const a of added) a.version = versions[a.name];
+  return { consistent, versions, added, unresolved, conflicts, steps };
+}
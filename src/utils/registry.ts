@@ -0,0 +1,305 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { run } from "./run.js";
+
+export type PackumentVersion = {
+  version: string;
+  peerDependencies?: Record<string, string>;
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+  deprecated?: string;
+};
+
+// Subset of the npm packument every backend must provide
+export type Packument = {
+  name: string;
+  "dist-tags": Record<string, string>;
+  versions: Record<string, PackumentVersion>;
+  // Peers only known for the latest version (`npm view` fallback); not cached nor used for peer solving
+  incomplete?: boolean;
+};
+
+// Entry of the registry's bulk advisory endpoint (`npm audit` uses the same data)
+export type BulkAdvisory = {
+  id: number | string;
+  title: string;
+  url?: string;
+  severity: string;
+  vulnerable_versions: string;
+};
+
+export type RegistryClient = {
+  kind: string;
+  getPackument: (name: string) => Promise<Packument | null>;
+  // Advisories for the given name -> versions; absent on offline backends
+  getAdvisories?: (query: Record<string, string[]>) => Promise<Record<string, BulkAdvisory[]> | null>;
+};
+
+// Trim a full or abbreviated packument down to the fields we use
+function toPackument(name: string, doc: any): Packument | null {
+  if (!doc || typeof doc !== "object" || !doc.versions) return null;
+  const versions: Record<string, PackumentVersion> = {};
+  for (const [v, meta] of Object.entries<any>(doc.versions)) {
+    versions[v] = {
+      version: meta?.version ?? v,
+      peerDependencies: meta?.peerDependencies || {},
+      peerDependenciesMeta: meta?.peerDependenciesMeta || {},
+      ...(meta?.deprecated ? { deprecated: String(meta.deprecated) } : {}),
+    };
+  }
+  return { name: doc.name ?? name, "dist-tags": doc["dist-tags"] || {}, versions };
+}
+
+// File name for a package inside a cache or mirror directory ("@scope/pkg" -> "@scope%2fpkg.json")
+function fileNameFor(name: string): string {
+  return name.replace("/", "%2f") + ".json";
+}
+
+//#region npm CLI backend
+
+// Registry requests that take longer are dropped (then retried through the npm CLI)
+const FETCH_TIMEOUT_MS = 30_000;
+
+// `key=value` lines of an .npmrc, `${VAR}` expanded like npm does
+function readNpmrc(file: string): Record<string, string> {
+  const entries: Record<string, string> = {};
+  let text: string;
+  try {
+    text = fs.readFileSync(file, "utf-8");
+  } catch {
+    return entries;
+  }
+  for (const line of text.split(/\r?\n/)) {
+    const m = /^\s*([^#;=\s][^=]*?)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!m) continue;
+    const value = m[2].replace(/^(["'])(.*)\1$/, "$2");
+    entries[m[1]] = value.replace(/\$\{([^}]+)\}/g, (_, name) => process.env[name] ?? "");
+  }
+  return entries;
+}
+
+/**
+ * Authorization header for `registry` from the project and user .npmrc
+ * (`npm config get` refuses to print tokens). Credentials are looked up by
+ * the registry URL without its protocol, then by each shorter path down to the host.
+ */
+function authHeaderFor(registry: string, npmrc: Record<string, string>): string | undefined {
+  const url = new URL(registry);
+  const segments = url.pathname.split("/").filter(Boolean);
+  for (let i = segments.length; i >= 0; i--) {
+    const key = `//${url.host}/${segments.slice(0, i).map(s => s + "/").join("")}`;
+    if (npmrc[`${key}:_authToken`]) return `Bearer ${npmrc[`${key}:_authToken`]}`;
+    if (npmrc[`${key}:_auth`]) return `Basic ${npmrc[`${key}:_auth`]}`;
+    const user = npmrc[`${key}:username`], password = npmrc[`${key}:_password`];
+    if (user && password) {
+      return `Basic ${Buffer.from(`${user}:${Buffer.from(password, "base64").toString()}`).toString("base64")}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Uses the registry npm is configured with (`npm config get registry`) and
+ * the credentials of the .npmrc files for it. Fetches the abbreviated
+ * packument directly; if that fails (proxy or auth only npm knows about)
+ * falls back to `npm view --json`, which only carries the peers of the latest
+ * version and is therefore marked incomplete.
+ */
+export function createNpmCliClient(): RegistryClient {
+  let registryUrl: string | undefined;
+  let authHeader: Promise<string | undefined> | undefined;
+
+  async function getRegistryUrl(): Promise<string> {
+    if (registryUrl) return registryUrl;
+    const { code, stdout } = await run("npm", ["config", "get", "registry"], process.cwd());
+    const url = code === 0 && stdout.startsWith("http") ? stdout : "https://registry.npmjs.org/";
+    registryUrl = url.endsWith("/") ? url : url + "/";
+    return registryUrl;
+  }
+
+  function getAuthHeader(registry: string): Promise<string | undefined> {
+    authHeader ??= (async () => {
+      const { code, stdout } = await run("npm", ["config", "get", "userconfig"], process.cwd());
+      const userconfig = code === 0 && stdout ? stdout : path.join(os.homedir(), ".npmrc");
+      // The project .npmrc wins over the user one
+      return authHeaderFor(registry, { ...readNpmrc(userconfig), ...readNpmrc(path.join(process.cwd(), ".npmrc")) });
+    })();
+    return authHeader;
+  }
+
+  async function headersFor(registry: string, headers: Record<string, string>): Promise<Record<string, string>> {
+    const auth = await getAuthHeader(registry);
+    return auth ? { ...headers, authorization: auth } : headers;
+  }
+
+  async function viaCli(name: string): Promise<Packument | null> {
+    const { code, stdout } = await run("npm", ["view", name, "--json"], process.cwd());
+    if (code !== 0 || !stdout) return null;
+    try {
+      const latest = JSON.parse(stdout);
+      if (!latest || !Array.isArray(latest.versions)) return null;
+      const versions: Record<string, PackumentVersion> = {};
+      for (const v of latest.versions as string[]) versions[v] = { version: v };
+      versions[latest.version] = {
+        version: latest.version,
+        peerDependencies: latest.peerDependencies || {},
+        peerDependenciesMeta: latest.peerDependenciesMeta || {},
+      };
+      return { name, "dist-tags": latest["dist-tags"] || {}, versions, incomplete: true };
+    } catch {
+      return null;
+    }
+  }
+
+  return {
+    kind: "npm",
+    async getPackument(name) {
+      try {
+        const registry = await getRegistryUrl();
+        const res = await fetch(registry + name.replace("/", "%2f"), {
+          headers: await headersFor(registry, { accept: "application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8" }),
+          signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        });
+        if (res.status === 404) return null;
+        if (res.ok) {
+          const doc = toPackument(name, await res.json());
+          if (doc) return doc;
+        }
+      } catch {
+        // network, timeout or parse error: let npm try with its own config
+      }
+      return viaCli(name);
+    },
+    async getAdvisories(query) {
+      try {
+        const registry = await getRegistryUrl();
+        const res = await fetch(registry + "-/npm/v1/security/advisories/bulk", {
+          method: "POST",
+          headers: await headersFor(registry, { "content-type": "application/json" }),
+          body: JSON.stringify(query),
+          signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        });
+        return res.ok ? await res.json() as Record<string, BulkAdvisory[]> : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+//#endregion
+
+//#region On-disk cache backend
+
+/**
+ * Persistent metadata cache in front of another client. Entries younger than
+ * `ttlMs` are served from disk; older ones are refreshed from `upstream` and
+ * still served when the upstream is unreachable. Without an upstream (offline)
+ * every cached entry is served regardless of age.
+ */
+export function createDiskCacheClient(dir: string, upstream: RegistryClient | null, ttlMs: number): RegistryClient {
+  const fileFor = (name: string) => path.join(dir, fileNameFor(name));
+
+  function readEntry(name: string): { fetchedAt: number; packument: Packument } | null {
+    try {
+      const entry = JSON.parse(fs.readFileSync(fileFor(name), "utf-8"));
+      return entry?.packument ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return {
+    kind: upstream ? `cache(${upstream.kind})` : "cache(offline)",
+    async getPackument(name) {
+      const cached = readEntry(name);
+      if (cached && (!upstream || Date.now() - cached.fetchedAt < ttlMs)) return cached.packument;
+      if (!upstream) return null;
+
+      const fresh = await upstream.getPackument(name);
+      if (!fresh) return cached?.packument ?? null;
+      if (fresh.incomplete) return cached?.packument ?? fresh;
+      try {
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(fileFor(name), JSON.stringify({ fetchedAt: Date.now(), packument: fresh }));
+      } catch {
+        // read-only cache dir: keep going without persisting
+      }
+      return fresh;
+    },
+    // Advisories change too often to cache; ask the upstream when online
+    getAdvisories: upstream?.getAdvisories,
+  };
+}
+
+//#endregion
+
+//#region Fixture / mirror directory backend
+
+/**
+ * Reads packument JSON files from a local directory, never touching the
+ * network. Accepts `<dir>/@scope%2fpkg.json`, `<dir>/@scope/pkg.json` and
+ * `<dir>/<pkg>/index.json` (the layout of a static registry mirror). Full and
+ * abbreviated packuments both work.
+ */
+export function createMirrorClient(dir: string): RegistryClient {
+  return {
+    kind: "mirror",
+    async getPackument(name) {
+      const candidates = [
+        path.join(dir, fileNameFor(name)),
+        path.join(dir, name + ".json"),
+        path.join(dir, name, "index.json"),
+      ];
+      for (const file of candidates) {
+        if (!fs.existsSync(file)) continue;
+        try {
+          return toPackument(name, JSON.parse(fs.readFileSync(file, "utf-8")));
+        } catch {
+          return null;
+        }
+      }
+      return null;
+    },
+  };
+}
+
+//#endregion
+
+//#region Active client
+
+let activeClient: RegistryClient | undefined;
+
+/**
+ * Client built from the environment:
+ * - MCP_REGISTRY_MIRROR: directory of packument JSON files (offline, wins over the rest)
+ * - MCP_REGISTRY_CACHE_DIR: persistent cache in front of the npm CLI
+ * - MCP_REGISTRY_CACHE_TTL: cache lifetime in hours (default 24)
+ * - MCP_REGISTRY_OFFLINE=1: only serve what is already in the cache
+ */
+export function createRegistryClientFromEnv(env: NodeJS.ProcessEnv = process.env): RegistryClient {
+  if (env.MCP_REGISTRY_MIRROR) return createMirrorClient(path.resolve(env.MCP_REGISTRY_MIRROR));
+
+  const offline = env.MCP_REGISTRY_OFFLINE === "1" || env.MCP_REGISTRY_OFFLINE === "true";
+  if (env.MCP_REGISTRY_CACHE_DIR) {
+    const hours = Number(env.MCP_REGISTRY_CACHE_TTL);
+    const ttlMs = (Number.isFinite(hours) && hours >= 0 ? hours : 24) * 3600_000;
+    return createDiskCacheClient(path.resolve(env.MCP_REGISTRY_CACHE_DIR), offline ? null : createNpmCliClient(), ttlMs);
+  }
+  if (offline) {
+    return { kind: "offline", getPackument: async () => null };
+  }
+  return createNpmCliClient();
+}
+
+export function getRegistryClient(): RegistryClient {
+  if (!activeClient) activeClient = createRegistryClientFromEnv();
+  return activeClient;
+}
+
+// Swap the backend (e.g. a mirror in CI); pass undefined to go back to the environment default
+export function setRegistryClient(client: RegistryClient | undefined) {
+  activeClient = client;
+}
+
+//#endregion
@@ -0,0 +1,431 @@
+import path from "path";
+import ts from "typescript";
+import {
+  arrayElementNames,
+  findDecoratedClasses,
+  getImportBindings,
+  getProperty,
+  getTopLevelConsts,
+  lineOf,
+  parseTsFile,
+  parseTsSource,
+  propertyNameText,
+  stringValue,
+  unwrapExpression,
+  walk,
+} from "./ast.js";
+import { readLoadTarget, resolveLazyTarget, resolveRelativeImport } from "./ng_modules.js";
+import { addNamedImports, applyEdits, quoteStyle, TextEdit } from "./codemod.js";
+
+export type RouteLoadRef = {
+  importPath: string;
+  className?: string;     // undefined for default exports
+  resolved?: string;      // project-relative target file, when it exists on disk
+  legacy?: boolean;       // 'path#Class' string syntax
+};
+
+export type RouteNode = {
+  path?: string;
+  pathMatch?: string;
+  component?: string;
+  redirectTo?: string;
+  loadChildren?: RouteLoadRef;
+  loadComponent?: RouteLoadRef;
+  canActivate?: string[];
+  canActivateChild?: string[];
+  canDeactivate?: string[];
+  canMatch?: string[];
+  canLoad?: string[];
+  resolve?: Record<string, string>;
+  title?: string;
+  data?: string;          // source text of the data object
+  outlet?: string;
+  children?: RouteNode[];
+  loadedChildren?: RouteNode[]; // routes found behind loadChildren (filled by the tree builder)
+  source: { file: string; line: number };
+};
+
+export type RouteSetKind = "forRoot" | "forChild" | "provideRouter" | "routesConst";
+
+export type RouteSet = {
+  kind: RouteSetKind;
+  file: string;
+  line: number;
+  name?: string;          // const name for routesConst ("default" for default exports)
+  exported?: boolean;
+  ownerModule?: string;   // @NgModule class whose decorator holds forRoot/forChild
+  routes: RouteNode[];
+};
+
+// Shared parse cache + identifier resolution bookkeeping across files
+export type RouteContext = {
+  abs: string;
+  sources: Map<string, ts.SourceFile>;
+  referenced: Set<string>;  // "file#const" keys resolved through identifiers
+};
+
+const GUARD_KEYS = ["canActivate", "canActivateChild", "canDeactivate", "canMatch", "canLoad"] as const;
+
+const toPosix = (p: string) => p.replace(/\\/g, "/");
+const compact = (s: string) => s.replace(/\s+/g, " ").trim();
+
+export function createRouteContext(abs: string): RouteContext {
+  return { abs, sources: new Map(), referenced: new Set() };
+}
+
+export function getSource(ctx: RouteContext, absFile: string): ts.SourceFile {
+  let sf = ctx.sources.get(absFile);
+  if (!sf) {
+    sf = parseTsFile(absFile);
+    ctx.sources.set(absFile, sf);
+  }
+  return sf;
+}
+
+function relOf(ctx: RouteContext, sf: ts.SourceFile) {
+  return toPosix(path.relative(ctx.abs, sf.fileName));
+}
+
+// Is this variable declared as Routes / Route[] / Array<Route>?
+function isRoutesType(type: ts.TypeNode | undefined): boolean {
+  if (!type) return false;
+  const t = type.getText();
+  return /^(Routes|Route\[\]|Array<Route>)$/.test(t.replace(/\s+/g, ""));
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+  return !!(ts.canHaveModifiers(node) && ts.getModifiers(node)?.some(m => m.kind === ts.SyntaxKind.ExportKeyword));
+}
+
+/**
+ * Resolve an identifier to its initializer: same-file const first, then a
+ * relative import's exported const (following `import { A as B }`).
+ */
+export function resolveIdentifier(ctx: RouteContext, sf: ts.SourceFile, name: string): { sf: ts.SourceFile; expr: ts.Expression } | undefined {
+  const local = getTopLevelConsts(sf).get(name);
+  if (local) {
+    ctx.referenced.add(`${relOf(ctx, sf)}#${name}`);
+    return { sf, expr: local };
+  }
+  const binding = getImportBindings(sf).get(name);
+  if (!binding) return undefined;
+  const target = resolveRelativeImport(sf.fileName, binding.from);
+  if (!target) return undefined;
+  const tsf = getSource(ctx, target);
+  if (binding.imported === "default") {
+    const def = tsf.statements.find(ts.isExportAssignment);
+    if (!def) return undefined;
+    const e = unwrapExpression(def.expression);
+    return ts.isIdentifier(e) ? resolveIdentifier(ctx, tsf, e.text) : { sf: tsf, expr: def.expression };
+  }
+  const init = getTopLevelConsts(tsf).get(binding.imported);
+  if (!init) return undefined;
+  ctx.referenced.add(`${relOf(ctx, tsf)}#${binding.imported}`);
+  return { sf: tsf, expr: init };
+}
+
+// Read a Routes array (literal, spread, identifier or imported const) into RouteNodes
+export function readRoutes(ctx: RouteContext, sf: ts.SourceFile, expr: ts.Expression | undefined, seen = new Set<string>()): RouteNode[] {
+  if (!expr) return [];
+  const e = unwrapExpression(expr);
+  if (ts.isArrayLiteralExpression(e)) {
+    return e.elements.flatMap(el => ts.isSpreadElement(el) ? readRoutes(ctx, sf, el.expression, seen) : readRoutes(ctx, sf, el, seen));
+  }
+  if (ts.isObjectLiteralExpression(e)) return [readRoute(ctx, sf, e, seen)];
+  if (ts.isIdentifier(e)) {
+    const key = `${sf.fileName}#${e.text}`;
+    if (seen.has(key)) return [];
+    seen.add(key);
+    const hit = resolveIdentifier(ctx, sf, e.text);
+    return hit ? readRoutes(ctx, hit.sf, hit.expr, seen) : [];
+  }
+  return [];
+}
+
+function readLoadRef(ctx: RouteContext, sf: ts.SourceFile, init: ts.Expression): RouteLoadRef | undefined {
+  const ref = readLoadTarget(init);
+  if (!ref) return undefined;
+  return {
+    importPath: ref.importPath,
+    className: ref.className,
+    resolved: resolveLazyTarget(ctx.abs, sf.fileName, ref.importPath, ref.legacy),
+    legacy: ref.legacy || undefined,
+  };
+}
+
+export function readRoute(ctx: RouteContext, sf: ts.SourceFile, obj: ts.ObjectLiteralExpression, seen = new Set<string>()): RouteNode {
+  const consts = getTopLevelConsts(sf);
+  const node: RouteNode = { source: { file: relOf(ctx, sf), line: lineOf(sf, obj.getStart()) } };
+  const text = (e: ts.Expression) => stringValue(e) ?? compact(e.getText());
+
+  for (const p of obj.properties) {
+    if (!ts.isPropertyAssignment(p) && !ts.isShorthandPropertyAssignment(p)) continue;
+    const key = propertyNameText(p.name);
+    const init = ts.isPropertyAssignment(p) ? p.initializer : p.name;
+    switch (key) {
+      case "path": node.path = text(init); break;
+      case "pathMatch": node.pathMatch = text(init); break;
+      case "redirectTo": node.redirectTo = text(init); break;
+      case "title": node.title = text(init); break;
+      case "outlet": node.outlet = text(init); break;
+      case "component": node.component = compact(init.getText()); break;
+      case "data": node.data = compact(init.getText()); break;
+      case "loadChildren": node.loadChildren = readLoadRef(ctx, sf, init); break;
+      case "loadComponent": node.loadComponent = readLoadRef(ctx, sf, init); break;
+      case "children": node.children = readRoutes(ctx, sf, init, seen); break;
+      case "resolve": {
+        const r = unwrapExpression(init);
+        if (ts.isObjectLiteralExpression(r)) {
+          node.resolve = {};
+          for (const rp of r.properties) {
+            if (ts.isPropertyAssignment(rp)) node.resolve[propertyNameText(rp.name) ?? rp.name.getText()] = compact(rp.initializer.getText());
+            if (ts.isShorthandPropertyAssignment(rp)) node.resolve[rp.name.text] = rp.name.text;
+          }
+        } else {
+          node.resolve = { "*": compact(init.getText()) };
+        }
+        break;
+      }
+    }
+  }
+  for (const key of GUARD_KEYS) {
+    const init = getProperty(obj, key);
+    if (init) node[key] = arrayElementNames(init, consts);
+  }
+  return node;
+}
+
+// Find every route declaration in a file: forRoot/forChild/provideRouter calls and Routes-typed consts
+export function findRouteSets(ctx: RouteContext, absFile: string): RouteSet[] {
+  const sf = getSource(ctx, absFile);
+  const file = relOf(ctx, sf);
+  const modules = findDecoratedClasses(sf, "NgModule");
+  const ownerOf = (n: ts.Node) => modules.find(m => n.getStart() >= m.decorator.getStart() && n.getEnd() <= m.decorator.getEnd())?.className;
+  const sets: RouteSet[] = [];
+
+  walk(sf, n => {
+    if (ts.isCallExpression(n)) {
+      const callee = unwrapExpression(n.expression);
+      let kind: RouteSetKind | undefined;
+      if (ts.isPropertyAccessExpression(callee) && callee.expression.getText() === "RouterModule") {
+        if (callee.name.text === "forRoot") kind = "forRoot";
+        if (callee.name.text === "forChild") kind = "forChild";
+      } else if (ts.isIdentifier(callee) && callee.text === "provideRouter") {
+        kind = "provideRouter";
+      }
+      if (kind) {
+        sets.push({ kind, file, line: lineOf(sf, n.getStart()), ownerModule: ownerOf(n), routes: readRoutes(ctx, sf, n.arguments[0]) });
+      }
+    }
+    if (ts.isVariableStatement(n) && n.parent === sf) {
+      for (const d of n.declarationList.declarations) {
+        if (!ts.isIdentifier(d.name) || !d.initializer) continue;
+        const init = d.initializer;
+        const typed = isRoutesType(d.type) || (ts.isSatisfiesExpression(init) || ts.isAsExpression(init)) && isRoutesType(init.type);
+        if (!typed) continue;
+        sets.push({
+          kind: "routesConst",
+          file,
+          line: lineOf(sf, d.getStart()),
+          name: d.name.text,
+          exported: hasExportModifier(n),
+          routes: readRoutes(ctx, sf, init),
+        });
+      }
+    }
+    if (ts.isExportAssignment(n) && n.parent === sf) {
+      const e = n.expression;
+      if ((ts.isSatisfiesExpression(e) || ts.isAsExpression(e)) && isRoutesType(e.type)) {
+        sets.push({ kind: "routesConst", file, line: lineOf(sf, n.getStart()), name: "default", exported: true, routes: readRoutes(ctx, sf, e) });
+      }
+    }
+  });
+
+  return sets;
+}
+
+//#region Route wiring
+
+// An identifier a route refers to, and the module to import it from when the file lacks it
+export type RouteRef = { name: string; from?: string };
+
+export type RouteToAdd = {
+  path: string;
+  parentPath?: string;         // nest under this route ("admin", or "admin/users" through children)
+  component?: RouteRef;        // eager: component: X
+  loadComponent?: RouteRef;    // lazy: loadComponent: () => import(from).then(m => m.X)
+  guards?: Partial<Record<(typeof GUARD_KEYS)[number], RouteRef[]>>;
+  title?: string;
+  data?: Record<string, unknown>;
+};
+
+// `value` as a TypeScript literal, strings in the file's quotes
+function literal(value: unknown, q: string): string {
+  if (typeof value === "string") return q + value.replace(/\\/g, "\\\\").replace(new RegExp(q, "g"), `\\${q}`).replace(/\n/g, "\\n") + q;
+  if (Array.isArray(value)) return `[${value.map(v => literal(v, q)).join(", ")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).map(([k, v]) => `${/^[A-Za-z_$][\w$]*$/.test(k) ? k : literal(k, q)}: ${literal(v, q)}`);
+    return entries.length ? `{ ${entries.join(", ")} }` : "{}";
+  }
+  return value === undefined ? "undefined" : JSON.stringify(value);
+}
+
+function renderRoute(route: RouteToAdd, q: string): string {
+  const parts = [`path: ${literal(route.path, q)}`];
+  if (route.loadComponent) {
+    parts.push(`loadComponent: () => import(${literal(route.loadComponent.from ?? "", q)}).then(m => m.${route.loadComponent.name})`);
+  } else if (route.component) {
+    parts.push(`component: ${route.component.name}`);
+  }
+  for (const key of GUARD_KEYS) {
+    const refs = route.guards?.[key];
+    if (refs?.length) parts.push(`${key}: [${refs.map(r => r.name).join(", ")}]`);
+  }
+  if (route.title !== undefined) parts.push(`title: ${literal(route.title, q)}`);
+  if (route.data) parts.push(`data: ${literal(route.data, q)}`);
+  return `{ ${parts.join(", ")} }`;
+}
+
+// The routes array a file registers: the argument of forRoot/forChild/provideRouter, else a Routes-typed const
+function findRoutesArray(sf: ts.SourceFile): ts.ArrayLiteralExpression | undefined {
+  const consts = getTopLevelConsts(sf);
+  const arrayOf = (e: ts.Expression | undefined): ts.ArrayLiteralExpression | undefined => {
+    const u = e && unwrapExpression(e);
+    if (u && ts.isArrayLiteralExpression(u)) return u;
+    const init = u && ts.isIdentifier(u) ? consts.get(u.text) : undefined;
+    return init && ts.isArrayLiteralExpression(unwrapExpression(init)) ? unwrapExpression(init) as ts.ArrayLiteralExpression : undefined;
+  };
+  let called: ts.ArrayLiteralExpression | undefined;
+  let typed: ts.ArrayLiteralExpression | undefined;
+  walk(sf, n => {
+    if (!called && ts.isCallExpression(n)) {
+      const callee = unwrapExpression(n.expression);
+      const isRouter = ts.isPropertyAccessExpression(callee)
+        ? callee.expression.getText(sf) === "RouterModule" && (callee.name.text === "forRoot" || callee.name.text === "forChild")
+        : ts.isIdentifier(callee) && callee.text === "provideRouter";
+      if (isRouter) called = arrayOf(n.arguments[0]);
+    }
+    if (!typed && ts.isVariableStatement(n) && n.parent === sf) {
+      for (const d of n.declarationList.declarations) {
+        const init = d.initializer;
+        if (!typed && init && (isRoutesType(d.type) || (ts.isSatisfiesExpression(init) || ts.isAsExpression(init)) && isRoutesType(init.type))) typed = arrayOf(init);
+      }
+    }
+    if (!typed && ts.isExportAssignment(n) && n.parent === sf) {
+      const e = n.expression;
+      if ((ts.isSatisfiesExpression(e) || ts.isAsExpression(e)) && isRoutesType(e.type)) typed = arrayOf(e);
+    }
+  });
+  return called ?? typed;
+}
+
+const routeObjects = (arr: ts.ArrayLiteralExpression) =>
+  arr.elements.map(e => unwrapExpression(e)).filter(ts.isObjectLiteralExpression);
+
+// Route under `routes` whose path (joined through children and componentless '' routes) is `full`
+function findRoute(sf: ts.SourceFile, routes: ts.ArrayLiteralExpression, full: string): ts.ObjectLiteralExpression | undefined {
+  const consts = getTopLevelConsts(sf);
+  for (const obj of routeObjects(routes)) {
+    const p = stringValue(getProperty(obj, "path"));
+    if (p === undefined) continue;
+    if (p === full) return obj;
+    const rest = p === "" ? full : full.startsWith(`${p}/`) ? full.slice(p.length + 1) : undefined;
+    const children = getProperty(obj, "children");
+    const init = children && ts.isIdentifier(unwrapExpression(children)) ? consts.get((unwrapExpression(children) as ts.Identifier).text) : children;
+    const arr = init && unwrapExpression(init);
+    const hit = rest !== undefined && arr && ts.isArrayLiteralExpression(arr) ? findRoute(sf, arr, rest) : undefined;
+    if (hit) return hit;
+  }
+  return undefined;
+}
+
+// Leading whitespace of the line `pos` is on
+function indentAt(code: string, pos: number): string {
+  const start = code.lastIndexOf("\n", pos - 1) + 1;
+  return /^[ \t]*/.exec(code.slice(start))![0];
+}
+
+/**
+ * Adds a route to the routes array of a routing file, through the AST: a
+ * `Routes`-typed const (exported or not, `satisfies Routes` included) or the
+ * array given to `RouterModule.forRoot/forChild` or `provideRouter`. With
+ * `parentPath` the route goes into that route's `children` (created when
+ * missing). A path already routed at that level is refused, and so is a file
+ * without a routes array; `error` then says why and the code is unchanged.
+ * The route lands before a trailing `**` route, and imports are added for the
+ * component and guards that carry a `from`.
+ */
+export function addRoute(fileName: string, code: string, route: RouteToAdd): { code: string; error?: string } {
+  const sf = parseTsSource(fileName, code);
+  const q = quoteStyle(sf);
+  const routes = findRoutesArray(sf);
+  if (!routes) return { code, error: "no routes array found (Routes const, RouterModule.forRoot/forChild or provideRouter)" };
+
+  const edits: TextEdit[] = [];
+  const snippet = renderRoute(route, q);
+  const parentPath = route.parentPath?.replace(/^\/+|\/+$/g, "");
+  let target = routes;
+  if (parentPath) {
+    const parent = findRoute(sf, routes, parentPath);
+    if (!parent) return { code, error: `parent route '${parentPath}' not found` };
+    const children = getProperty(parent, "children");
+    const consts = getTopLevelConsts(sf);
+    const init = children && ts.isIdentifier(unwrapExpression(children)) ? consts.get((unwrapExpression(children) as ts.Identifier).text) : children;
+    const arr = init && unwrapExpression(init);
+    if (arr && ts.isArrayLiteralExpression(arr)) {
+      target = arr;
+    } else if (children) {
+      return { code, error: `children of '${parentPath}' is not an array literal; add the route by hand` };
+    } else if (getProperty(parent, "loadChildren")) {
+      return { code, error: `'${parentPath}' loads its children lazily; wire the route in the file it loads` };
+    } else {
+      const last = parent.properties[parent.properties.length - 1];
+      const multiline = parent.getText(sf).includes("\n");
+      const inner = last ? indentAt(code, last.getStart(sf)) : indentAt(code, parent.getStart(sf)) + "  ";
+      const text = multiline
+        ? `,\n${inner}children: [\n${inner}  ${snippet},\n${inner}]`
+        : `, children: [${snippet}]`;
+      edits.push(last ? { start: last.end, end: last.end, text } : { start: parent.getStart(sf) + 1, end: parent.end - 1, text: ` children: [${snippet}] ` });
+    }
+  }
+
+  if (!edits.length) {
+    const clash = routeObjects(target).find(o => stringValue(getProperty(o, "path")) === route.path && !getProperty(o, "outlet"));
+    if (clash) {
+      return { code, error: `path '${route.path}' is already routed${parentPath ? ` under '${parentPath}'` : ""} (line ${lineOf(sf, clash.getStart(sf))})` };
+    }
+    const elements = target.elements;
+    const last = elements[elements.length - 1];
+    const multiline = target.getText(sf).includes("\n");
+    if (!last) {
+      const outer = indentAt(code, target.getStart(sf));
+      edits.push({ start: target.getStart(sf) + 1, end: target.end - 1, text: `\n${outer}  ${snippet}\n${outer}` });
+    } else {
+      const indent = indentAt(code, last.getStart(sf));
+      const wildcard = ts.isObjectLiteralExpression(unwrapExpression(last)) && stringValue(getProperty(unwrapExpression(last) as ts.ObjectLiteralExpression, "path")) === "**";
+      if (wildcard) {
+        edits.push({ start: last.getStart(sf), end: last.getStart(sf), text: `${snippet},${multiline ? `\n${indent}` : " "}` });
+      } else {
+        const comma = code.slice(last.end, target.end - 1).indexOf(",");
+        edits.push(comma >= 0
+          ? { start: last.end + comma + 1, end: last.end + comma + 1, text: multiline ? `\n${indent}${snippet},` : ` ${snippet},` }
+          : { start: last.end, end: last.end, text: multiline ? `,\n${indent}${snippet}` : `, ${snippet}` });
+      }
+    }
+  }
+
+  // New import lines share one insertion point; keep them in order
+  const refs = [route.loadComponent ? undefined : route.component, ...GUARD_KEYS.flatMap(k => route.guards?.[k] ?? [])]
+    .filter((r): r is RouteRef => !!r?.from);
+  const byModule = new Map<string, string[]>();
+  for (const r of refs) byModule.set(r.from!, [...byModule.get(r.from!) ?? [], r.name]);
+  const importEdits = [...byModule].flatMap(([from, names]) => addNamedImports(sf, from, names));
+  for (const e of importEdits) {
+    const same = edits.find(x => x.start === e.start && x.end === e.start && e.end === e.start && importEdits.includes(x));
+    if (same) same.text += e.text;
+    else edits.push(e);
+  }
+  return { code: applyEdits(code, edits) };
+}
+
+//#endregion
@@ -0,0 +1,368 @@
+import path from "path";
+import ts from "typescript";
+import { getImportBindings, lineOf, parseTsSource, walk } from "./ast.js";
+import { addNamedImports, applyEdits, pickNonOverlapping, removeUnusedNamedImports, TextEdit } from "./codemod.js";
+import { readTextSafe } from "./scan.js";
+
+export type RxjsRuleId =
+  | "rxjs-compat-import"
+  | "patch-operator-import"
+  | "patch-static-creation"
+  | "to-promise"
+  | "result-selector"
+  | "throw-error-value"
+  | "subscribe-callbacks";
+
+export type RxjsFinding = {
+  ruleId: RxjsRuleId;
+  title: string;
+  file: string;
+  line: number;
+  snippet: string;
+  status: "removed" | "deprecated";
+  deprecatedIn: number;   // rxjs major
+  removedIn?: number;
+  replacement: string;
+  fixable: boolean;       // migrate_rxjs can rewrite it
+};
+
+type Hit = {
+  node: ts.Node;
+  edits?: TextEdit[];
+  imports?: Array<{ name: string; from: string }>;
+  fixable?: boolean;      // overrides !!edits (fixed once other rewrites in the file are done)
+};
+
+type RxjsRule = {
+  id: RxjsRuleId;
+  title: string;
+  deprecatedIn: number;
+  removedIn?: number;
+  replacement: string;
+  // `targetRxjsMajor` keeps rewrites to APIs the target rxjs has
+  find: (sf: ts.SourceFile, targetRxjsMajor: number) => Hit[];
+};
+
+//#region Helpers
+
+const RXJS_MODULES = /^rxjs(-compat)?(\/|$)/;
+
+// rxjs 5 deep paths that resolve to the `rxjs` entry point (not rxjs/Rx, which also patches every operator)
+const ROOT_SYMBOL_PATHS = /^rxjs(-compat)?\/(Observable|Subject|BehaviorSubject|ReplaySubject|AsyncSubject|Subscription|Subscriber|Observer|Notification|Scheduler)$/;
+
+// Observable.<name>() static creation methods patched in by `rxjs/add/observable/*`
+const STATIC_CREATION: Record<string, string> = {
+  of: "of", from: "from", fromPromise: "from", fromEvent: "fromEvent", fromEventPattern: "fromEventPattern",
+  interval: "interval", timer: "timer", merge: "merge", concat: "concat", combineLatest: "combineLatest",
+  forkJoin: "forkJoin", zip: "zip", race: "race", defer: "defer", range: "range", bindCallback: "bindCallback",
+  bindNodeCallback: "bindNodeCallback", pairs: "pairs", using: "using", if: "iif",
+  empty: "EMPTY", never: "NEVER", throw: "throwError",
+};
+
+const FLATTENING = ["mergeMap", "switchMap", "concatMap", "exhaustMap", "flatMap"];
+const FLATTENING_TO = ["mergeMapTo", "switchMapTo", "concatMapTo"];
+const COMBINING = ["forkJoin", "combineLatest", "zip"];
+
+const isFunctionLike = (e: ts.Expression | undefined): e is ts.ArrowFunction | ts.FunctionExpression =>
+  !!e && (ts.isArrowFunction(e) || ts.isFunctionExpression(e));
+
+const isNullish = (e: ts.Expression) =>
+  e.kind === ts.SyntaxKind.NullKeyword || (ts.isIdentifier(e) && e.text === "undefined");
+
+// Wrap an expression so it can be called or spread into a larger one
+const callable = (sf: ts.SourceFile, e: ts.Expression) =>
+  ts.isIdentifier(e) || ts.isPropertyAccessExpression(e) ? e.getText(sf) : `(${e.getText(sf)})`;
+
+// Local names imported from any rxjs module, mapped to the exported name and module
+function rxjsBindings(sf: ts.SourceFile) {
+  return new Map([...getImportBindings(sf)].filter(([, b]) => RXJS_MODULES.test(b.from)));
+}
+
+// Module an operator import should come from: the file's existing operators import, else rxjs/operators
+function operatorsModule(sf: ts.SourceFile): string {
+  return [...rxjsBindings(sf).values()].some(b => b.from === "rxjs") && ![...rxjsBindings(sf).values()].some(b => b.from === "rxjs/operators")
+    ? "rxjs"
+    : "rxjs/operators";
+}
+
+function calls(sf: ts.SourceFile, match: (call: ts.CallExpression) => boolean): ts.CallExpression[] {
+  const out: ts.CallExpression[] = [];
+  walk(sf, n => { if (ts.isCallExpression(n) && match(n)) out.push(n); });
+  return out;
+}
+
+const calleeName = (call: ts.CallExpression) => ts.isIdentifier(call.expression) ? call.expression.text : undefined;
+
+const argsRange = (call: ts.CallExpression) => ({ start: call.arguments.pos, end: call.arguments.end });
+
+// `(a, b) => expr` with plain identifier parameters: parameter names and body text
+function simpleArrow(sf: ts.SourceFile, e: ts.Expression | undefined): { params: string[]; body: string } | undefined {
+  if (!e || !ts.isArrowFunction(e) || ts.isBlock(e.body)) return undefined;
+  if (!e.parameters.every(p => ts.isIdentifier(p.name) && !p.type && !p.initializer && !p.dotDotDotToken)) return undefined;
+  return { params: e.parameters.map(p => (p.name as ts.Identifier).text), body: e.body.getText(sf) };
+}
+
+/**
+ * Projection for a flattening operator without its result selector. Simple
+ * arrows are inlined (`x => from(get(x)).pipe(map(y => x + y))`); anything
+ * else is called with the four selector arguments.
+ */
+function projectWithSelector(sf: ts.SourceFile, inner: (outer: string[]) => string, project: ts.Expression, selector: ts.Expression, isProjection = true): string {
+  const p = isProjection ? simpleArrow(sf, project) : undefined;
+  const s = simpleArrow(sf, selector);
+  // Borrow the selector's names unless the projection already mentions them
+  const free = (name: string | undefined) => name && !new RegExp(`\\b${name.replace(/\$/g, "\\$")}\\b`).test(project.getText(sf)) ? name : undefined;
+  const outer = [p?.params[0] ?? free(s?.params[0]) ?? "outerValue", p?.params[1] ?? free(s?.params[2]) ?? "outerIndex"];
+
+  // The selector's outer parameters must line up with the projection's and its inner ones must not shadow them
+  const inlined = !!s && (!s.params[0] || s.params[0] === outer[0]) && (!s.params[2] || s.params[2] === outer[1]) &&
+    ![s.params[1], s.params[3]].some(n => n && outer.includes(n));
+  // A projection that is called (not inlined) receives both outer arguments
+  const usesOuterIndex = !inlined || (s?.params.length ?? 0) > 2 || (isProjection && (p ? p.params.length > 1 : true));
+
+  let mapper: string;
+  if (inlined) {
+    const innerParams = [s!.params[1] ?? (s!.params[3] ? "_value" : undefined), s!.params[3]].filter(Boolean) as string[];
+    mapper = `${innerParams.length === 1 ? innerParams[0] : `(${innerParams.join(", ")})`} => ${s!.body}`;
+  } else {
+    mapper = `(innerValue, innerIndex) => ${callable(sf, selector)}(${outer[0]}, innerValue, ${outer[1]}, innerIndex)`;
+  }
+  const outerParams = usesOuterIndex ? `(${outer.join(", ")})` : outer[0];
+  return `${outerParams} => from(${inner(outer)}).pipe(map(${mapper}))`;
+}
+
+//#endregion
+
+// Rule catalog. Versions are rxjs majors.
+export const RXJS_RULES: RxjsRule[] = [
+  {
+    id: "rxjs-compat-import",
+    title: "rxjs 5 deep import / rxjs-compat",
+    deprecatedIn: 6,
+    removedIn: 7,
+    replacement: "import from 'rxjs' (classes, creation functions) or 'rxjs/operators'",
+    find: sf => sf.statements.filter(ts.isImportDeclaration).flatMap((st): Hit[] => {
+      const spec = (st.moduleSpecifier as ts.StringLiteral).text;
+      if (!/^rxjs-compat(\/|$)/.test(spec) && !/^rxjs\/(Rx|[A-Z]\w*|observable\/\w+|operators\/\w+|operator\/\w+|scheduler\/\w+|util\/\w+)$/.test(spec)) return [];
+      const named = st.importClause?.namedBindings;
+      const onlyNamed = !!named && ts.isNamedImports(named) && !st.importClause?.name;
+      let target: string | undefined;
+      if (ROOT_SYMBOL_PATHS.test(spec)) target = "rxjs";
+      else if (/^rxjs(-compat)?\/observable\/\w+$/.test(spec) && onlyNamed && (named as ts.NamedImports).elements.every(e => /^[a-z]/.test((e.propertyName ?? e.name).text))) target = "rxjs";
+      else if (/^rxjs(-compat)?\/operators\/\w+$/.test(spec)) target = "rxjs/operators";
+      if (!target || !onlyNamed) return [{ node: st }];
+      const q = st.moduleSpecifier.getText(sf)[0];
+      return [{ node: st, edits: [{ start: st.moduleSpecifier.getStart(sf), end: st.moduleSpecifier.end, text: `${q}${target}${q}` }] }];
+    }),
+  },
+  {
+    id: "patch-operator-import",
+    title: "Patch import (rxjs/add/...)",
+    deprecatedIn: 6,
+    removedIn: 7,
+    replacement: "pipeable operators inside .pipe(...) and standalone creation functions",
+    find: sf => sf.statements.filter(ts.isImportDeclaration).flatMap((st): Hit[] => {
+      const m = /^rxjs(?:-compat)?\/add\/(observable|operator)\/(\w+)$/.exec((st.moduleSpecifier as ts.StringLiteral).text);
+      if (!m) return [];
+      // Static patches go away once every Observable.<name>() is rewritten; prototype patches need a manual .pipe() rewrite
+      if (m[1] === "operator") return [{ node: st }];
+      const used = new RegExp(`\\bObservable\\s*\\.\\s*${m[2]}\\b`).test(sf.text);
+      return [{ node: st, fixable: true, edits: used ? undefined : [{ start: st.getFullStart(), end: st.end, text: "" }] }];
+    }),
+  },
+  {
+    id: "patch-static-creation",
+    title: "Observable.<creation>() static method",
+    deprecatedIn: 6,
+    removedIn: 7,
+    replacement: "standalone creation functions (of, from, throwError(() => e), EMPTY, NEVER, ...)",
+    find: (sf, targetRxjsMajor) => {
+      const observable = [...rxjsBindings(sf)].find(([, b]) => b.imported === "Observable")?.[0];
+      if (!observable) return [];
+      return calls(sf, c => ts.isPropertyAccessExpression(c.expression) && c.expression.expression.getText(sf) === observable && !!STATIC_CREATION[c.expression.name.text])
+        .map(c => {
+          const name = (c.expression as ts.PropertyAccessExpression).name.text;
+          const fn = STATIC_CREATION[name];
+          if (fn === "EMPTY" || fn === "NEVER") {
+            return { node: c, edits: [{ start: c.getStart(sf), end: c.end, text: fn }], imports: [{ name: fn, from: "rxjs" }] };
+          }
+          if (fn === "throwError") {
+            const arg = c.arguments[0];
+            const value = !arg ? "undefined" : ts.isObjectLiteralExpression(arg) ? `(${arg.getText(sf)})` : arg.getText(sf);
+            // The factory form only exists from rxjs 7 on
+            const text = targetRxjsMajor >= 7 ? `throwError(() => ${value})` : `throwError(${arg ? arg.getText(sf) : ""})`;
+            return { node: c, edits: [{ start: c.getStart(sf), end: c.end, text }], imports: [{ name: fn, from: "rxjs" }] };
+          }
+          return { node: c, edits: [{ start: c.expression.getStart(sf), end: c.expression.end, text: fn }], imports: [{ name: fn, from: "rxjs" }] };
+        });
+    },
+  },
+  {
+    id: "to-promise",
+    title: "Observable.toPromise()",
+    deprecatedIn: 7,
+    removedIn: 8,
+    replacement: "lastValueFrom(obs) / firstValueFrom(obs) (rejects with EmptyError when nothing is emitted)",
+    find: (sf, targetRxjsMajor) => calls(sf, c => ts.isPropertyAccessExpression(c.expression) && c.expression.name.text === "toPromise" && c.arguments.length === 0)
+      .map(c => {
+        // lastValueFrom/firstValueFrom came with rxjs 7: reported, not rewritten
+        if (targetRxjsMajor < 7) return { node: c };
+        const source = (c.expression as ts.PropertyAccessExpression).expression;
+        // `.pipe(..., take(1))` / `.pipe(..., first())` only ever emit once
+        const lastOp = ts.isCallExpression(source) && ts.isPropertyAccessExpression(source.expression) && source.expression.name.text === "pipe"
+          ? source.arguments[source.arguments.length - 1] : undefined;
+        const single = !!lastOp && ts.isCallExpression(lastOp) && (/^first$/.test(lastOp.expression.getText(sf)) || (lastOp.expression.getText(sf) === "take" && lastOp.arguments[0]?.getText(sf) === "1"));
+        const fn = single ? "firstValueFrom" : "lastValueFrom";
+        return {
+          node: c,
+          edits: [{ start: source.getStart(sf), end: source.getStart(sf), text: `${fn}(` }, { start: source.end, end: c.end, text: ")" }],
+          imports: [{ name: fn, from: "rxjs" }],
+        };
+      }),
+  },
+  {
+    id: "result-selector",
+    title: "Result selector argument",
+    deprecatedIn: 6,
+    removedIn: 8,
+    replacement: "map inside the projection: switchMap(a => from(inner(a)).pipe(map(b => select(a, b))))",
+    find: sf => {
+      const rx = rxjsBindings(sf);
+      const hits: Hit[] = [];
+      for (const c of calls(sf, c => !!calleeName(c) && rx.has(calleeName(c)!))) {
+        const binding = rx.get(calleeName(c)!)!;
+        const op = binding.imported;
+        const [a0, a1, ...rest] = c.arguments;
+        const range = argsRange(c);
+
+        if (FLATTENING.includes(op) && isFunctionLike(a1)) {
+          const p = simpleArrow(sf, a0);
+          const text = projectWithSelector(sf, outer => p ? p.body : `${callable(sf, a0)}(${outer.join(", ")})`, a0, a1);
+          hits.push({
+            node: c,
+            edits: [{ start: range.start, end: range.end, text: [text, ...rest.map(r => r.getText(sf))].join(", ") }],
+            imports: [{ name: "from", from: "rxjs" }, { name: "map", from: operatorsModule(sf) }],
+          });
+        } else if (FLATTENING_TO.includes(op) && isFunctionLike(a1)) {
+          const flat = op.replace(/To$/, "");
+          const text = `${flat}(${projectWithSelector(sf, () => a0.getText(sf), a0, a1, false)})`;
+          hits.push({
+            node: c,
+            edits: [{ start: c.getStart(sf), end: c.end, text: rest.length ? text.replace(/\)$/, `, ${rest.map(r => r.getText(sf)).join(", ")})`) : text }],
+            imports: [{ name: flat, from: binding.from }, { name: "from", from: "rxjs" }, { name: "map", from: operatorsModule(sf) }],
+          });
+        } else if (COMBINING.includes(op) && binding.from === "rxjs" && c.arguments.length >= 2 && isFunctionLike(c.arguments[c.arguments.length - 1])) {
+          const sources = c.arguments.slice(0, -1);
+          const selector = c.arguments[c.arguments.length - 1] as ts.Expression;
+          const list = sources.length === 1 && ts.isArrayLiteralExpression(sources[0]) ? sources[0].getText(sf) : `[${sources.map(s => s.getText(sf)).join(", ")}]`;
+          hits.push({
+            node: c,
+            edits: [{ start: c.getStart(sf), end: c.end, text: `${c.expression.getText(sf)}(${list}).pipe(map(values => ${callable(sf, selector)}(...values)))` }],
+            imports: [{ name: "map", from: operatorsModule(sf) }],
+          });
+        }
+      }
+      return hits;
+    },
+  },
+  {
+    id: "throw-error-value",
+    title: "throwError(value)",
+    deprecatedIn: 7,
+    removedIn: 8,
+    replacement: "throwError(() => value)",
+    find: (sf, targetRxjsMajor) => {
+      const rx = rxjsBindings(sf);
+      return calls(sf, c => !!calleeName(c) && rx.get(calleeName(c)!)?.imported === "throwError" && c.arguments.length === 1 && !isFunctionLike(c.arguments[0]))
+        .map(c => {
+          // rxjs 6 would emit the factory itself as the error
+          if (targetRxjsMajor < 7) return { node: c };
+          const arg = c.arguments[0];
+          return { node: c, edits: [{ start: arg.getStart(sf), end: arg.end, text: `() => ${ts.isObjectLiteralExpression(arg) ? `(${arg.getText(sf)})` : arg.getText(sf)}` }] };
+        });
+    },
+  },
+  {
+    id: "subscribe-callbacks",
+    title: "subscribe() / tap() with several callbacks",
+    deprecatedIn: 7,
+    removedIn: 8,
+    replacement: "an observer object: subscribe({ next, error, complete })",
+    find: sf => {
+      const rx = rxjsBindings(sf);
+      // Other subscribe(topic, options) APIs share the name; only callbacks make it an rxjs call
+      const isCallback = (a: ts.Expression) => isFunctionLike(a) || ts.isIdentifier(a) || ts.isPropertyAccessExpression(a) || isNullish(a);
+      return calls(sf, c => c.arguments.length >= 2 && c.arguments.length <= 3 && c.arguments.every(isCallback) && (
+        (ts.isPropertyAccessExpression(c.expression) && c.expression.name.text === "subscribe") ||
+        (!!calleeName(c) && rx.get(calleeName(c)!)?.imported === "tap")))
+        .map(c => {
+          // Without an rxjs import the receiver's type is unknown: reported, not rewritten
+          if (!rx.size) return { node: c };
+          const keys = ["next", "error", "complete"];
+          const props = c.arguments.map((a, i) => isNullish(a) ? "" : `${keys[i]}: ${a.getText(sf)}`).filter(Boolean);
+          return { node: c, edits: [{ start: c.arguments.pos, end: c.arguments.end, text: `{ ${props.join(", ")} }` }] };
+        });
+    },
+  },
+];
+
+// Files that cannot hold any of the patterns are not parsed
+const MAY_MATCH = /rxjs|toPromise|subscribe/;
+
+function ruleHits(sf: ts.SourceFile, rules: RxjsRule[], targetRxjsMajor: number): Array<{ rule: RxjsRule; hit: Hit }> {
+  return rules.flatMap(rule => rule.find(sf, targetRxjsMajor).map(hit => ({ rule, hit })));
+}
+
+// Findings in one file's source text
+export function scanRxjsSource(file: string, code: string, targetRxjsMajor: number): RxjsFinding[] {
+  if (!MAY_MATCH.test(code)) return [];
+  const sf = parseTsSource(file, code);
+  return ruleHits(sf, RXJS_RULES, targetRxjsMajor).map(({ rule, hit }) => ({
+    ruleId: rule.id,
+    title: rule.title,
+    file: file.replace(/\\/g, "/"),
+    line: lineOf(sf, hit.node.getStart(sf)),
+    snippet: hit.node.getText(sf).replace(/\s+/g, " ").slice(0, 120),
+    status: rule.removedIn !== undefined && rule.removedIn <= targetRxjsMajor ? "removed" : "deprecated",
+    deprecatedIn: rule.deprecatedIn,
+    removedIn: rule.removedIn,
+    replacement: rule.replacement,
+    fixable: hit.fixable ?? !!hit.edits,
+  }));
+}
+
+export function scanRxjs(abs: string, relFiles: string[], targetRxjsMajor: number): RxjsFinding[] {
+  return relFiles.flatMap(rel => scanRxjsSource(rel, readTextSafe(path.join(abs, rel)), targetRxjsMajor));
+}
+
+/**
+ * Rewrite the fixable patterns of one file for `targetRxjsMajor`. Nested hits
+ * are picked up on later passes, after the enclosing rewrite has been applied.
+ */
+export function rewriteRxjs(fileName: string, code: string, ruleIds?: RxjsRuleId[], targetRxjsMajor = 7): { code: string; applied: Array<{ ruleId: RxjsRuleId; line: number }> } {
+  const rules = ruleIds ? RXJS_RULES.filter(r => ruleIds.includes(r.id)) : RXJS_RULES;
+  const applied: Array<{ ruleId: RxjsRuleId; line: number }> = [];
+  let current = code;
+  if (!MAY_MATCH.test(code)) return { code, applied };
+  for (let pass = 0; pass < 8; pass++) {
+    const sf = parseTsSource(fileName, current);
+    const groups = ruleHits(sf, rules, targetRxjsMajor)
+      .filter(h => h.hit.edits?.length)
+      .map(h => ({ ...h, edits: h.hit.edits! }));
+    const picked = pickNonOverlapping(groups);
+    if (!picked.length) break;
+
+    const byModule = new Map<string, string[]>();
+    for (const p of picked) {
+      applied.push({ ruleId: p.rule.id, line: lineOf(sf, p.hit.node.getStart(sf)) });
+      for (const imp of p.hit.imports ?? []) byModule.set(imp.from, [...(byModule.get(imp.from) ?? []), imp.name]);
+    }
+    const importEdits = [...byModule].flatMap(([from, names]) => addNamedImports(sf, from, names));
+    current = applyEdits(current, [...picked.flatMap(p => p.edits), ...importEdits]);
+  }
+  // *MapTo operators replaced by their *Map counterpart
+  if (applied.some(a => a.ruleId === "result-selector")) {
+    current = applyEdits(current, removeUnusedNamedImports(parseTsSource(fileName, current), FLATTENING_TO));
+  }
+  return { code: current, applied };
+}
@@ -3,6 +3,21 @@ import path from "path";
 import { globby } from "globby";
 
 
+// Application/library sources across CLI and Nx layouts
+export const SOURCE_GLOBS = [
+    "src/**/*.ts",
+    "apps/**/src/**/*.ts",
+    "libs/**/src/**/*.ts",
+    "projects/**/src/**/*.ts"
+];
+
+export const IGNORE_GLOBS = [
+    "**/node_modules/**",
+    "**/dist/**",
+    "**/.angular/**",
+    "**/.git/**"
+];
+
 // List files by glob relative to base directory
 export async function listFilesByGlob(base: string, patterns: string[], ignore: string[] = []) {
     return globby(patterns, { cwd: base, dot: false, ignore });
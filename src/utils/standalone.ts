@@ -0,0 +1,410 @@
+import path from "path";
+import ts from "typescript";
+import { findDecoratedClasses, getImportMap, getProperty, parseTsFile, parseTsSource, stringValue } from "./ast.js";
+import { addNamedImports, applyEdits, TextEdit } from "./codemod.js";
+import { readNgModules, NgModuleInfo } from "./ng_modules.js";
+import { materialModuleFor } from "./material.js";
+import { readTextSafe } from "./scan.js";
+import { COMMON_PIPES, TemplateElement, templateBindings } from "./templates.js";
+
+export type StandaloneImport = {
+  name: string;     // class added to `imports: [...]`
+  from: string;     // module specifier, relative to the component for project classes
+  reason: string;   // what in the template needs it
+};
+
+export type StandaloneInference = {
+  imports: StandaloneImport[];
+  unresolved: string[];   // elements and pipes nothing in the project or the known libraries provides
+  notes: string[];
+};
+
+// A simple CSS selector as Angular matches it: `button[mat-button]:not(.x)`
+type SimpleSelector = { element?: string; attrs: string[]; classes: string[]; not: SimpleSelector[] };
+
+export type ProjectDeclarable = {
+  kind: "component" | "directive" | "pipe";
+  className: string;
+  file: string;                 // relative to the project root, forward slashes
+  selector?: SimpleSelector[];  // components and directives
+  pipe?: string;                // pipes
+  standalone: boolean;
+};
+
+export type DeclarableIndex = {
+  abs: string;
+  declarables: ProjectDeclarable[];
+  modules: NgModuleInfo[];
+};
+
+//#region Catalogs
+
+// Framework directives by selector, as declared in @angular/common, forms and router
+const FRAMEWORK_DIRECTIVES: Array<{ selector: string; name: string; from: string }> = [
+  { selector: "[ngIf]", name: "NgIf", from: "@angular/common" },
+  { selector: "[ngFor][ngForOf]", name: "NgForOf", from: "@angular/common" },
+  { selector: "[ngSwitch]", name: "NgSwitch", from: "@angular/common" },
+  { selector: "[ngSwitchCase]", name: "NgSwitchCase", from: "@angular/common" },
+  { selector: "[ngSwitchDefault]", name: "NgSwitchDefault", from: "@angular/common" },
+  { selector: "[ngClass]", name: "NgClass", from: "@angular/common" },
+  { selector: "[ngStyle]", name: "NgStyle", from: "@angular/common" },
+  { selector: "[ngTemplateOutlet]", name: "NgTemplateOutlet", from: "@angular/common" },
+  { selector: "[ngComponentOutlet]", name: "NgComponentOutlet", from: "@angular/common" },
+  { selector: "[ngPlural]", name: "NgPlural", from: "@angular/common" },
+  { selector: "[ngPluralCase]", name: "NgPluralCase", from: "@angular/common" },
+  { selector: "img[ngSrc]", name: "NgOptimizedImage", from: "@angular/common" },
+  // A bare <form> only gets NgForm through FormsModule when something else asks for it
+  { selector: "[ngModel]:not([formControlName]):not([formControl]),[ngModelGroup],[ngForm],ng-form,form[ngSubmit]:not([formGroup])", name: "FormsModule", from: "@angular/forms" },
+  { selector: "[formGroup],[formControl],[formControlName],[formGroupName],[formArrayName],[formArray]", name: "ReactiveFormsModule", from: "@angular/forms" },
+  { selector: "[routerLink]", name: "RouterLink", from: "@angular/router" },
+  { selector: "[routerLinkActive]", name: "RouterLinkActive", from: "@angular/router" },
+  { selector: "router-outlet", name: "RouterOutlet", from: "@angular/router" },
+];
+
+// `#ref="exportAs"` names that need a framework import of their own
+const FRAMEWORK_EXPORTS: Record<string, { name: string; from: string }> = {
+  ngModel: { name: "FormsModule", from: "@angular/forms" },
+  ngModelGroup: { name: "FormsModule", from: "@angular/forms" },
+  ngForm: { name: "FormsModule", from: "@angular/forms" },
+  routerLinkActive: { name: "RouterLinkActive", from: "@angular/router" },
+};
+
+// NgModules of an application shell or state setup, never needed by a template
+export const NON_TEMPLATE_MODULES = /^(BrowserModule|BrowserAnimationsModule|NoopAnimationsModule|HttpClientModule|HttpClientJsonpModule|ServiceWorkerModule|StoreModule|EffectsModule|StoreDevtoolsModule|StoreRouterConnectingModule)$/;
+
+//#endregion
+
+//#region Selectors
+
+function parseSimple(part: string): SimpleSelector {
+  const not: SimpleSelector[] = [];
+  const rest = part.replace(/:not\(([^()]*)\)/g, (_m, inner: string) => {
+    not.push(parseSimple(inner));
+    return "";
+  }).trim();
+  return {
+    element: /^[A-Za-z][\w-]*/.exec(rest)?.[0].toLowerCase(),
+    attrs: [...rest.matchAll(/\[\s*([^\]=~|^$*\s]+)[^\]]*\]/g)].map(m => m[1]),
+    classes: [...rest.matchAll(/\.([\w-]+)/g)].map(m => m[1]),
+    not,
+  };
+}
+
+// Selector list split on top-level commas (`:not(a, b)` stays whole)
+function parseSelector(selector: string): SimpleSelector[] {
+  const parts: string[] = [];
+  let depth = 0, start = 0;
+  for (let i = 0; i < selector.length; i++) {
+    if (selector[i] === "(") depth++;
+    else if (selector[i] === ")") depth--;
+    else if (selector[i] === "," && !depth) {
+      parts.push(selector.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(selector.slice(start));
+  return parts.map(p => p.trim()).filter(Boolean).map(parseSimple);
+}
+
+function matchesSimple(s: SimpleSelector, el: TemplateElement): boolean {
+  if (s.element && s.element !== el.tag) return false;
+  const attrs = new Set(el.attrs.map(a => a.toLowerCase()));
+  if (!s.attrs.every(a => attrs.has(a.toLowerCase()))) return false;
+  if (!s.classes.every(c => el.classes.includes(c))) return false;
+  return !s.not.some(n => matchesSimple(n, el));
+}
+
+const matching = (selector: SimpleSelector[], el: TemplateElement) => selector.find(s => matchesSimple(s, el));
+
+// `<app-user-card appHighlight>`: the element with the attributes that matched
+const describe = (s: SimpleSelector, el: TemplateElement) => `<${el.tag}${s.attrs.map(a => ` ${a}`).join("")}>`;
+
+//#endregion
+
+//#region Index
+
+/**
+ * Components, directives and pipes of a project with their selectors, plus its
+ * NgModules. `defaultStandalone` is true from Angular 19.
+ */
+export function buildDeclarableIndex(abs: string, tsFiles: string[], defaultStandalone: boolean): DeclarableIndex {
+  const declarables: ProjectDeclarable[] = [];
+  const moduleFiles: string[] = [];
+  for (const rel of tsFiles) {
+    const text = readTextSafe(path.join(abs, rel));
+    if (/@NgModule\s*\(/.test(text)) moduleFiles.push(rel);
+    if (!/@(Component|Directive|Pipe)\s*\(/.test(text)) continue;
+    const sf = parseTsFile(path.join(abs, rel));
+    const file = rel.replace(/\\/g, "/");
+    for (const decorator of ["Component", "Directive", "Pipe"]) {
+      for (const c of findDecoratedClasses(sf, decorator)) {
+        const flag = c.meta && getProperty(c.meta, "standalone");
+        const standalone = flag ? flag.kind === ts.SyntaxKind.TrueKeyword : defaultStandalone;
+        if (decorator === "Pipe") {
+          const name = c.meta && stringValue(getProperty(c.meta, "name"));
+          if (name) declarables.push({ kind: "pipe", className: c.className, file, pipe: name, standalone });
+          continue;
+        }
+        const selector = c.meta && stringValue(getProperty(c.meta, "selector"));
+        declarables.push({ kind: decorator === "Component" ? "component" : "directive", className: c.className, file, selector: selector ? parseSelector(selector) : undefined, standalone });
+      }
+    }
+  }
+  return { abs, declarables, modules: readNgModules(abs, moduleFiles) };
+}
+
+//#endregion
+
+//#region Inference
+
+// Import specifier of a project file as seen from another one (`../shared/shared.module`)
+function relativeSpecifier(fromFile: string, toFile: string): string {
+  const rel = path.posix.relative(path.posix.dirname(fromFile), toFile.replace(/\.ts$/, ""));
+  return rel.startsWith(".") ? rel : `./${rel}`;
+}
+
+// NgModules exporting a class, directly or through an exported module
+function exportersOf(modules: NgModuleInfo[], className: string, seen = new Set<string>()): NgModuleInfo[] {
+  const out: NgModuleInfo[] = [];
+  for (const m of modules) {
+    if (seen.has(m.name) || !m.exports.includes(className)) continue;
+    seen.add(m.name);
+    out.push(m, ...exportersOf(modules, m.name, seen));
+  }
+  return out;
+}
+
+// A project declarable a template uses, with the element or pipe that needs it
+export type TemplateUse = { declarable: ProjectDeclarable; reason: string; element?: string };
+
+function usesOf(index: DeclarableIndex, elements: TemplateElement[], pipes: string[]): TemplateUse[] {
+  const uses: TemplateUse[] = [];
+  for (const el of elements) {
+    for (const d of index.declarables) {
+      const s = d.selector && matching(d.selector, el);
+      if (s) uses.push({ declarable: d, reason: describe(s, el), element: s.element });
+    }
+  }
+  for (const name of pipes) {
+    const own = index.declarables.find(d => d.pipe === name);
+    if (own) uses.push({ declarable: own, reason: `| ${name}` });
+  }
+  return uses;
+}
+
+// Project components, directives and pipes used by a template, by selector and pipe name
+export function templateDeclarables(index: DeclarableIndex, template: string): TemplateUse[] {
+  const { elements, pipes } = templateBindings(template);
+  return usesOf(index, elements, pipes);
+}
+
+// Whether a module imports one of `targets`, directly or through other local modules (an import cycle)
+function dependsOn(modules: NgModuleInfo[], m: NgModuleInfo, targets: Set<string>, seen = new Set<string>()): boolean {
+  return m.dependsOn.some(name => {
+    if (targets.has(name)) return true;
+    if (seen.has(name)) return false;
+    seen.add(name);
+    const next = modules.find(x => x.name === name);
+    return !!next && dependsOn(modules, next, targets, seen);
+  });
+}
+
+/**
+ * What a component's template needs in `imports: [...]` once the component is
+ * standalone: framework directives and pipes, Material modules, and project
+ * declarables (standalone ones directly, the others through an NgModule that
+ * exports them). `componentFile` is relative to the project root.
+ */
+export function inferStandaloneImports(index: DeclarableIndex, componentFile: string, className: string, template: string): StandaloneInference {
+  const imports = new Map<string, StandaloneImport>();
+  const unresolved = new Set<string>();
+  const notes: string[] = [];
+  const add = (name: string, from: string, reason: string) => {
+    if (name !== className && !imports.has(name)) imports.set(name, { name, from, reason });
+  };
+
+  const owners = index.modules.filter(m => m.declarations.includes(className));
+  const ownerNames = new Set(owners.map(m => m.name));
+  const sameModule = new Set<string>();
+
+  // Standalone classes directly; others through an exporting module that does not declare this component
+  const useDeclarable = (d: ProjectDeclarable, reason: string) => {
+    if (d.className === className) return;
+    if (d.standalone) return add(d.className, relativeSpecifier(componentFile, d.file), reason);
+    const exporter = exportersOf(index.modules, d.className).find(m => !ownerNames.has(m.name) && !m.declarations.includes(className) && !dependsOn(index.modules, m, ownerNames));
+    if (exporter) return add(exporter.name, relativeSpecifier(componentFile, exporter.path), `${reason} (exported by ${exporter.name})`);
+    if (owners.some(m => m.declarations.includes(d.className))) {
+      sameModule.add(d.className);
+      return add(d.className, relativeSpecifier(componentFile, d.file), reason);
+    }
+    const cyclic = exportersOf(index.modules, d.className).find(m => !ownerNames.has(m.name));
+    notes.push(cyclic
+      ? `${reason}: ${d.className} (${d.file}) is exported by ${cyclic.name}, which imports ${className}'s module; importing it would be circular, make ${d.className} standalone`
+      : `${reason}: ${d.className} (${d.file}) is not standalone and no NgModule exports it; make it standalone or export it`);
+  };
+
+  const { elements, pipes } = templateBindings(template);
+  const uses = usesOf(index, elements, pipes);
+  const projectElements = new Set(uses.map(u => u.element));
+  for (const el of elements) {
+    let known = projectElements.has(el.tag);
+    for (const f of FRAMEWORK_DIRECTIVES) {
+      const s = matching(parseSelector(f.selector), el);
+      if (!s) continue;
+      add(f.name, f.from, describe(s, el));
+      known ||= s.element === el.tag;
+    }
+    for (const ref of el.refs) {
+      const hit = FRAMEWORK_EXPORTS[ref];
+      if (hit && !(ref === "ngForm" && el.attrs.includes("formGroup"))) add(hit.name, hit.from, `#ref="${ref}"`);
+    }
+    for (const name of [el.tag, ...el.attrs]) {
+      const mat = materialModuleFor(name);
+      if (!mat) continue;
+      add(mat.name, mat.from, name === el.tag ? `<${el.tag}>` : `<${el.tag} ${name}>`);
+      known ||= name === el.tag;
+    }
+    if (!known && el.tag.includes("-") && !el.tag.startsWith("ng-")) unresolved.add(`<${el.tag}>`);
+  }
+
+  for (const u of uses) useDeclarable(u.declarable, u.reason);
+  for (const name of pipes) {
+    if (uses.some(u => u.declarable.pipe === name)) continue;
+    if (COMMON_PIPES[name]) add(COMMON_PIPES[name], "@angular/common", `| ${name}`);
+    else unresolved.add(`| ${name}`);
+  }
+
+  if (sameModule.size) {
+    notes.push(`${[...sameModule].join(", ")} ${sameModule.size === 1 ? "is" : "are"} declared next to ${className} in ${owners.map(m => m.name).join(", ")}; make ${sameModule.size === 1 ? "it" : "them"} standalone too, or export ${sameModule.size === 1 ? "it" : "them"} from a shared NgModule`);
+  }
+
+  // Third-party modules of the declaring NgModule are the likely source of whatever is left
+  const libraries = owners.flatMap(m => {
+    const map = getImportMap(parseTsFile(path.join(index.abs, m.path)));
+    return m.imports
+      .filter(name => !NON_TEMPLATE_MODULES.test(name))
+      .map(name => ({ name, from: map.get(name) }))
+      .filter((x): x is { name: string; from: string } => !!x.from && !x.from.startsWith(".") && !x.from.startsWith("@angular/"));
+  });
+  if (libraries.length && unresolved.size) {
+    for (const lib of libraries) add(lib.name, lib.from, `imported by ${owners.map(m => m.name).join(", ")}`);
+    notes.push(`Carried over ${libraries.map(l => l.name).join(", ")} from the declaring NgModule for ${[...unresolved].join(", ")}; drop the ones the template does not need`);
+  } else if (libraries.length) {
+    notes.push(`Not carried over from the declaring NgModule: ${libraries.map(l => l.name).join(", ")}; add them if the template uses their attribute directives`);
+  }
+
+  return { imports: [...imports.values()], unresolved: [...unresolved], notes };
+}
+
+//#endregion
+
+//#region Decorator rewrite
+
+// Edit adding properties to decorator metadata, after `selector` (else first), in the object's layout
+function insertProperties(sf: ts.SourceFile, meta: ts.ObjectLiteralExpression, added: string[]): TextEdit {
+  const code = sf.text;
+  const props = meta.properties;
+  const multiline = meta.getText(sf).includes("\n");
+  const first = props[0];
+  const lineStart = first ? code.lastIndexOf("\n", first.getStart(sf)) + 1 : 0;
+  const lead = first ? code.slice(lineStart, first.getStart(sf)) : "";
+  const sep = multiline ? `,\n${/^\s*$/.test(lead) ? lead : "  "}` : ", ";
+  const selector = props.find(p => ts.isPropertyAssignment(p) && p.name.getText(sf) === "selector");
+  const after = selector ? props[props.indexOf(selector) + 1] : first;
+  if (!first) return { start: meta.getStart(sf), end: meta.end, text: `{ ${added.join(", ")} }` };
+  if (after) return { start: after.getStart(sf), end: after.getStart(sf), text: `${added.join(sep)}${sep}` };
+  return { start: selector!.end, end: selector!.end, text: `${sep}${added.join(sep)}` };
+}
+
+/**
+ * Add `standalone: false` to the components, directives and pipes of a file
+ * that do not set the flag: how classes written before Angular 19 stay
+ * declared in their NgModule once standalone is the default. `except` names
+ * classes being made standalone instead.
+ */
+export function markNotStandalone(fileName: string, code: string, except: string[] = []): { code: string; classes: string[] } {
+  const sf = parseTsSource(fileName, code);
+  const edits: TextEdit[] = [];
+  const classes: string[] = [];
+  for (const decorator of ["Component", "Directive", "Pipe"]) {
+    for (const c of findDecoratedClasses(sf, decorator)) {
+      if (!c.meta || getProperty(c.meta, "standalone") || except.includes(c.className)) continue;
+      edits.push(insertProperties(sf, c.meta, ["standalone: false"]));
+      classes.push(c.className);
+    }
+  }
+  return { code: edits.length ? applyEdits(code, edits) : code, classes };
+}
+
+/**
+ * Make `className` standalone with the given imports: `standalone: true` below
+ * Angular 19 (and `standalone: false` dropped from 19 on), `imports` added
+ * after `selector` or merged into an existing array, and the TypeScript
+ * imports for every new entry. Directives and pipes only get the flag.
+ */
+export function convertToStandalone(
+  fileName: string,
+  code: string,
+  className: string,
+  imports: StandaloneImport[],
+  standaloneByDefault: boolean,
+  decorator: "Component" | "Directive" | "Pipe" = "Component",
+): { code: string; changed: boolean; notes: string[] } {
+  const notes: string[] = [];
+  const sf = parseTsSource(fileName, code);
+  const comp = findDecoratedClasses(sf, decorator).find(c => c.className === className);
+  if (!comp?.meta) return { code, changed: false, notes: [`@${decorator} of ${className} not found or not an object literal`] };
+  const meta = comp.meta;
+  const edits: TextEdit[] = [];
+  const added: string[] = [];
+
+  const props = meta.properties;
+  const flag = props.find(p => ts.isPropertyAssignment(p) && p.name.getText(sf) === "standalone") as ts.PropertyAssignment | undefined;
+  const isTrue = flag?.initializer.kind === ts.SyntaxKind.TrueKeyword;
+  if (!standaloneByDefault && !isTrue) {
+    if (flag) edits.push({ start: flag.initializer.getStart(sf), end: flag.initializer.end, text: "true" });
+    else added.push("standalone: true");
+  } else if (standaloneByDefault && flag && !isTrue) {
+    const k = props.indexOf(flag);
+    edits.push(k < props.length - 1
+      ? { start: flag.getStart(sf), end: props[k + 1].getStart(sf), text: "" }
+      : { start: k > 0 ? props[k - 1].end : flag.getStart(sf), end: flag.end, text: "" });
+    notes.push("Dropped standalone: false (components are standalone by default from Angular 19)");
+  }
+
+  const existing = props.find(p => ts.isPropertyAssignment(p) && p.name.getText(sf) === "imports") as ts.PropertyAssignment | undefined;
+  let wanted = imports;
+  if (existing && ts.isArrayLiteralExpression(existing.initializer)) {
+    const arr = existing.initializer;
+    const present = new Set(arr.elements.map(e => e.getText(sf)));
+    wanted = imports.filter(i => !present.has(i.name));
+    const last = arr.elements[arr.elements.length - 1];
+    if (wanted.length) {
+      edits.push(last
+        ? { start: last.end, end: last.end, text: `, ${wanted.map(i => i.name).join(", ")}` }
+        : { start: arr.getStart(sf) + 1, end: arr.end - 1, text: wanted.map(i => i.name).join(", ") });
+    }
+  } else if (existing) {
+    wanted = [];
+    notes.push(`imports of ${className} is not an array literal; add ${imports.map(i => i.name).join(", ")} by hand`);
+  } else if (imports.length) {
+    added.push(`imports: [${imports.map(i => i.name).join(", ")}]`);
+  }
+
+  if (added.length) edits.push(insertProperties(sf, meta, added));
+
+  const byModule = new Map<string, string[]>();
+  for (const i of wanted) byModule.set(i.from, [...byModule.get(i.from) ?? [], i.name]);
+  // New import lines share one insertion point; keep them in order
+  const importEdits = [...byModule].flatMap(([from, names]) => addNamedImports(sf, from, names));
+  for (const e of importEdits) {
+    const same = edits.find(x => x.start === e.start && x.end === e.start && e.end === e.start && importEdits.includes(x));
+    if (same) same.text += e.text;
+    else edits.push(e);
+  }
+
+  const out = applyEdits(code, edits);
+  return { code: out, changed: out !== code, notes };
+}
+
+//#endregion
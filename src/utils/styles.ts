@@ -0,0 +1,424 @@
+import fs from "fs";
+import path from "path";
+import { applyEdits, pickNonOverlapping, TextEdit } from "./codemod.js";
+import { readTextSafe } from "./scan.js";
+
+export type StyleRuleId =
+  | "deep-combinator"
+  | "tilde-import"
+  | "import-to-use"
+  | "node-sass-syntax"
+  | "slash-division"
+  | "material-theming"
+  | "asset-url";
+
+export type StyleFinding = {
+  ruleId: StyleRuleId;
+  file: string;
+  line: number;
+  snippet: string;
+  message: string;
+  since?: number;         // Angular / Material major the change came with
+  fixable: boolean;       // rewritten when styles are copied with rewriteStyles
+  url?: string;           // asset-url: the referenced path and whether it resolves in the project
+  resolved?: string;
+  exists?: boolean;
+};
+
+export type StyleAnalysis = {
+  files: number;
+  byRule: Partial<Record<StyleRuleId, number>>;
+  fixable: number;
+  missingUrls: number;
+  findings: StyleFinding[];
+};
+
+type Lang = "css" | "scss" | "sass" | "less";
+
+type StyleSource = {
+  file: string;
+  lang: Lang;
+  code: string;
+  masked: string;         // comments blanked out, offsets and lines unchanged
+  targetMajor: number;
+};
+
+type Hit = {
+  start: number;
+  end: number;
+  message?: string;
+  since?: number;
+  edits?: TextEdit[];
+  use?: string;           // module the rewrite needs (`sass:math`), added with the file's leading @use rules
+  useAs?: string;         // its namespace, when not the default one
+  url?: string;
+};
+
+type StyleRule = {
+  id: StyleRuleId;
+  langs: Lang[];
+  message: string;
+  find: (src: StyleSource) => Hit[];
+};
+
+export const STYLE_GLOBS = ["**/*.css", "**/*.scss", "**/*.sass", "**/*.less"];
+
+//#region Helpers
+
+const langOf = (file: string): Lang => {
+  const ext = path.extname(file).slice(1).toLowerCase();
+  return ext === "scss" || ext === "sass" || ext === "less" ? ext : "css";
+};
+
+export const isStyleFile = (file: string) => /\.(css|scss|sass|less)$/i.test(file);
+
+// Blank out comments (strings are left alone) so patterns in them are not reported
+function maskComments(code: string, lang: Lang): string {
+  const out = code.split("");
+  let quote = "";
+  for (let i = 0; i < code.length; i++) {
+    const ch = code[i];
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote || ch === "\n") quote = "";
+      continue;
+    }
+    if (ch === "\"" || ch === "'") { quote = ch; continue; }
+    if (ch === "/" && code[i + 1] === "*") {
+      const end = code.indexOf("*/", i + 2);
+      const stop = end < 0 ? code.length : end + 2;
+      for (let k = i; k < stop; k++) if (out[k] !== "\n") out[k] = " ";
+      i = stop - 1;
+    } else if (lang !== "css" && ch === "/" && code[i + 1] === "/" && code[i - 1] !== ":") {
+      const end = code.indexOf("\n", i);
+      const stop = end < 0 ? code.length : end;
+      for (let k = i; k < stop; k++) out[k] = " ";
+      i = stop - 1;
+    }
+  }
+  return out.join("");
+}
+
+export const maskStyleComments = (file: string, code: string) => maskComments(code, langOf(file));
+
+function lineAt(code: string, pos: number): number {
+  let line = 1;
+  for (let i = 0; i < pos && i < code.length; i++) if (code[i] === "\n") line++;
+  return line;
+}
+
+function matches(re: RegExp, text: string): RegExpExecArray[] {
+  const out: RegExpExecArray[] = [];
+  const g = new RegExp(re.source, re.flags.includes("g") ? re.flags : re.flags + "g");
+  let m: RegExpExecArray | null;
+  while ((m = g.exec(text))) {
+    out.push(m);
+    if (m[0] === "") g.lastIndex++;
+  }
+  return out;
+}
+
+// Declarations `prop: value` (and Sass `$var: value`) with the offset of the value
+function declarations(masked: string): Array<{ prop: string; value: string; valueStart: number }> {
+  return matches(/(^|[;{}\n])\s*(\$?[\w-]+)\s*:(?!:)\s*([^;{}\n]+)/, masked).map(m => ({
+    prop: m[2],
+    value: m[3],
+    valueStart: m.index + m[0].length - m[3].length,
+  }));
+}
+
+// Leading position for a new `@use`: after @charset and the file's existing @use rules
+function useInsertionPoint(masked: string): number {
+  let pos = 0;
+  for (const m of matches(/^[ \t]*@(charset|use)\b[^;\n]*;?[ \t]*\n?/m, masked)) {
+    if (masked.slice(pos, m.index).trim()) break;
+    pos = m.index + m[0].length;
+  }
+  return pos;
+}
+
+// Sass namespace of `@use '@angular/material'` (mat by default)
+function materialNamespace(masked: string): string | undefined {
+  const m = /@use\s+['"]@angular\/material['"](?:\s+as\s+([\w-]+|\*))?/.exec(masked);
+  if (!m) return undefined;
+  return m[1] ?? "mat";
+}
+
+//#endregion
+
+//#region Angular Material theming
+
+const MATERIAL_COLORS = "red|pink|purple|deep-purple|indigo|blue|light-blue|cyan|teal|green|light-green|lime|yellow|amber|orange|deep-orange|brown|grey|gray|blue-grey|blue-gray";
+
+// Angular Material 12: `@import '~@angular/material/theming'` globals to the `mat` module
+const MATERIAL_V12_RENAMES: Array<[RegExp, string]> = [
+  [/(?<![\w-])mat-core-theme\(/g, "mat.core-theme("],
+  [/(?<![\w-])mat-core\(/g, "mat.core("],
+  [/(?<![\w-])mat-light-theme\(/g, "mat.define-light-theme("],
+  [/(?<![\w-])mat-dark-theme\(/g, "mat.define-dark-theme("],
+  [/(?<![\w-])mat-palette\(/g, "mat.define-palette("],
+  [/(?<![\w-])mat-typography-config\(/g, "mat.define-typography-config("],
+  [/(?<![\w-])mat-typography-level\(/g, "mat.define-typography-level("],
+  [/(?<![\w-])mat-color\(/g, "mat.get-color-from-palette("],
+  [/(?<![\w-])mat-contrast\(/g, "mat.get-contrast-color-from-palette("],
+  [/(?<![\w-])mat-elevation\(/g, "mat.elevation("],
+  [/(?<![\w-])mat-base-typography\(/g, "mat.typography-hierarchy("],
+  [/(?<![\w-])angular-material-theme\(/g, "mat.all-component-themes("],
+  [/(?<![\w-])angular-material-color\(/g, "mat.all-component-colors("],
+  [/(?<![\w-])angular-material-typography\(/g, "mat.all-component-typographies("],
+  [/(?<![\w-])mat-([\w-]+)-(theme|color|typography|density)\(/g, "mat.$1-$2("],
+  [new RegExp(`\\$mat-(${MATERIAL_COLORS})\\b`, "g"), "mat.$$$1-palette"],
+];
+
+// Angular Material 18: Material 2 theming functions and palettes gained an `m2-` prefix
+const MATERIAL_M2_FUNCTIONS = [
+  "define-light-theme", "define-dark-theme", "define-palette", "define-typography-config", "define-typography-level",
+  "get-color-from-palette", "get-contrast-color-from-palette", "get-color-config", "get-typography-config", "get-density-config",
+];
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\-]/g, "\\$&");
+
+function materialHits(src: StyleSource): Hit[] {
+  const { masked, targetMajor } = src;
+  const hits: Hit[] = [];
+
+  const v12 = /@import\s+['"]~?@angular\/material\/theming['"]\s*;?/.exec(masked);
+  if (v12 && targetMajor >= 12) {
+    // The @use goes with the leading @use rules: Sass rejects it after another @import
+    const lineEnd = /^[ \t]*\n/.exec(masked.slice(v12.index + v12[0].length));
+    const alone = !masked.slice(masked.lastIndexOf("\n", v12.index - 1) + 1, v12.index).trim() && lineEnd;
+    const edits: TextEdit[] = [alone
+      ? { start: masked.lastIndexOf("\n", v12.index - 1) + 1, end: v12.index + v12[0].length + lineEnd[0].length, text: "" }
+      : { start: v12.index, end: v12.index + v12[0].length, text: "" }];
+    // The specific renames come first; the generic component patterns skip what they already cover
+    for (const [re, to] of MATERIAL_V12_RENAMES) {
+      for (const m of matches(re, masked)) {
+        if (edits.some(e => m.index < e.end && e.start < m.index + m[0].length)) continue;
+        edits.push({ start: m.index, end: m.index + m[0].length, text: m[0].replace(new RegExp(re.source), to) });
+      }
+    }
+    hits.push({ start: v12.index, end: v12.index + v12[0].length, since: 12, edits, use: "@angular/material", useAs: "mat", message: "@angular/material/theming globals were replaced by the @angular/material Sass module in v12" });
+  }
+
+  const ns = materialNamespace(masked);
+  if (!ns) return hits;
+  const prefix = ns === "*" ? "(?<![\\w.$-])" : `(?<![\\w-])${escapeRe(ns)}\\.`;
+  const qualified = (name: string) => ns === "*" ? name : `${ns}.${name}`;
+
+  if (targetMajor >= 18) {
+    for (const m of matches(new RegExp(`${prefix}(${MATERIAL_M2_FUNCTIONS.join("|")})\\(`), masked)) {
+      const nameStart = m.index + m[0].length - m[1].length - 1;
+      hits.push({ start: m.index, end: m.index + m[0].length, since: 18, edits: [{ start: nameStart, end: nameStart, text: "m2-" }], message: `${qualified(m[1])}() is ${qualified(`m2-${m[1]}`)}() from Material 18` });
+    }
+    for (const m of matches(new RegExp(`${prefix}\\$(${MATERIAL_COLORS})-palette\\b`), masked)) {
+      const nameStart = m.index + m[0].length - m[1].length - "-palette".length;
+      hits.push({ start: m.index, end: m.index + m[0].length, since: 18, edits: [{ start: nameStart, end: nameStart, text: "m2-" }], message: `$${m[1]}-palette is $m2-${m[1]}-palette from Material 18` });
+    }
+  }
+  if (targetMajor >= 17) {
+    for (const m of matches(new RegExp(`${prefix}((all-)?legacy-[\\w-]+|define-legacy-typography-config)\\b`), masked)) {
+      hits.push({ start: m.index, end: m.index + m[0].length, since: 17, message: "Legacy (pre-MDC) component styles were removed in Material 17; theme the MDC components instead" });
+    }
+  }
+  if (targetMajor >= 19) {
+    for (const m of matches(new RegExp(`^([ \\t]*)@include\\s+${ns === "*" ? "" : `${escapeRe(ns)}\\.`}core\\(\\s*\\)\\s*;`, "m"), masked)) {
+      const indent = m[1];
+      hits.push({
+        start: m.index + indent.length,
+        end: m.index + m[0].length,
+        since: 19,
+        edits: [{ start: m.index + indent.length, end: m.index + m[0].length, text: `@include ${qualified("elevation-classes")}();\n${indent}@include ${qualified("app-background")}();` }],
+        message: `${qualified("core")}() is deprecated from Material 19; include elevation-classes() and app-background()`,
+      });
+    }
+  }
+  return hits;
+}
+
+//#endregion
+
+// Properties where `/` separates values rather than dividing
+const SLASH_SEPARATED = /^(font|grid-area|grid-row|grid-column|grid-template|grid|aspect-ratio|border-radius|border-image|inset)$/;
+const SLASH_OPERAND = "\\$[\\w-]+|\\d+(?:\\.\\d+)?[a-z%]*";
+
+export const STYLE_RULES: StyleRule[] = [
+  {
+    id: "deep-combinator",
+    langs: ["css", "scss", "sass", "less"],
+    message: "/deep/ and >>> are not supported by Sass or the esbuild builder; use ::ng-deep (itself deprecated) or move the styles out of view encapsulation",
+    find: ({ masked }) => matches(/\/deep\/|>>>/, masked).map(m => ({
+      start: m.index,
+      end: m.index + m[0].length,
+      edits: [{ start: m.index, end: m.index + m[0].length, text: "::ng-deep" }],
+    })),
+  },
+  {
+    id: "tilde-import",
+    langs: ["css", "scss", "sass", "less"],
+    message: "`~` node_modules imports were a webpack feature; drop the tilde",
+    find: ({ masked }) => matches(/(@(?:import|use|forward)\s+['"]|url\(\s*['"]?)~(?=[@\w])/, masked).map(m => {
+      const tilde = m.index + m[0].length - 1;
+      return { start: m.index, end: m.index + m[0].length, edits: [{ start: tilde, end: tilde + 1, text: "" }] };
+    }),
+  },
+  {
+    id: "import-to-use",
+    langs: ["scss", "sass"],
+    message: "Sass @import is deprecated (removed in Dart Sass 3); move to @use / @forward, which namespace variables and mixins",
+    find: ({ masked }) => matches(/@import\s+([^;\n]+)/, masked)
+      // Plain CSS imports stay valid
+      .filter(m => !/^(url\(|['"]?(https?:)?\/\/)|\.css['"]?\s*$/.test(m[1].trim()))
+      .filter(m => !/@angular\/material\/theming/.test(m[1]))
+      .map(m => ({ start: m.index, end: m.index + m[0].length })),
+  },
+  {
+    id: "node-sass-syntax",
+    langs: ["scss", "sass"],
+    message: "node-sass (LibSass) only syntax that Dart Sass rejects",
+    find: ({ masked }) => matches(/@extend\s+([^;{}\n]+)/, masked).flatMap(m => {
+      const selector = m[1].replace(/!optional/, "").trim();
+      // Dart Sass only extends simple selectors: `.a`, `%placeholder`, `button`
+      if (!/[\s>+~,]|[^\s][.#:[]/.test(selector)) return [];
+      return [{ start: m.index, end: m.index + m[0].length, message: `@extend ${selector}: Dart Sass only extends simple selectors; extend a placeholder (%name) instead` }];
+    }),
+  },
+  {
+    id: "slash-division",
+    langs: ["scss", "sass"],
+    message: "`/` as division is deprecated in Dart Sass; use math.div(a, b) from sass:math",
+    find: ({ masked }) => declarations(masked).flatMap(d => {
+      if (SLASH_SEPARATED.test(d.prop) || /calc\(|url\(|#\{/.test(d.value)) return [];
+      return matches(new RegExp(`(\\([^()]*\\)|${SLASH_OPERAND})\\s*\\/\\s*(\\([^()]*\\)|${SLASH_OPERAND})`), d.value)
+        .filter(m => m[1].startsWith("$") || m[2].startsWith("$") || m[1].startsWith("(") || m[2].startsWith("("))
+        .map(m => {
+          const start = d.valueStart + m.index;
+          const simple = !m[1].startsWith("(") && !m[2].startsWith("(");
+          return simple
+            ? { start, end: start + m[0].length, edits: [{ start, end: start + m[0].length, text: `math.div(${m[1]}, ${m[2]})` }], use: "sass:math" }
+            : { start, end: start + m[0].length };
+        });
+    }),
+  },
+  {
+    id: "material-theming",
+    langs: ["scss", "sass"],
+    message: "Angular Material theming API changed",
+    find: materialHits,
+  },
+  {
+    id: "asset-url",
+    langs: ["css", "scss", "sass", "less"],
+    message: "url() reference to a file the build has to resolve",
+    find: ({ masked, code }) => matches(/url\(\s*(['"]?)([^'")\s]+)\1\s*\)/, masked)
+      .filter(m => !/^(data:|https?:|\/\/|#|~|\$|@|var\()|#\{/.test(m[2]))
+      .map(m => ({ start: m.index, end: m.index + m[0].length, url: code.slice(m.index, m.index + m[0].length).match(/url\(\s*(['"]?)([^'")\s]+)\1/)![2] })),
+  },
+];
+
+function ruleHits(src: StyleSource, rules: StyleRule[]): Array<{ rule: StyleRule; hit: Hit }> {
+  return rules.filter(r => r.langs.includes(src.lang)).flatMap(rule => rule.find(src).map(hit => ({ rule, hit })));
+}
+
+function toSource(file: string, code: string, targetMajor: number): StyleSource {
+  const lang = langOf(file);
+  return { file: file.replace(/\\/g, "/"), lang, code, masked: maskComments(code, lang), targetMajor };
+}
+
+/**
+ * Where a url() points: relative to the stylesheet, or for `/x` and `assets/x`
+ * to the source root or `public/` folder the CLI serves. `planned` are files
+ * that count as present although they are not on disk yet.
+ */
+export function resolveStyleUrl(abs: string, file: string, url: string, planned: string[] = []): { resolved: string; exists: boolean } {
+  const clean = url.replace(/[?#].*$/, "");
+  const candidates = clean.startsWith("/")
+    ? [path.posix.join("src", clean), path.posix.join("public", clean)]
+    : [path.posix.join(path.posix.dirname(file), clean), ...(/^assets\//.test(clean) ? [path.posix.join("src", clean)] : [])];
+  const found = candidates.map(c => path.posix.normalize(c)).find(c => planned.includes(c) || fs.existsSync(path.join(abs, c)));
+  return { resolved: found ?? path.posix.normalize(candidates[0]), exists: !!found };
+}
+
+/**
+ * Findings of one stylesheet. With `abs`, url() references are resolved
+ * against that project.
+ */
+export function scanStyleSource(file: string, code: string, targetMajor: number, abs?: string, planned?: string[]): StyleFinding[] {
+  const src = toSource(file, code, targetMajor);
+  return ruleHits(src, STYLE_RULES).map(({ rule, hit }) => {
+    const finding: StyleFinding = {
+      ruleId: rule.id,
+      file: src.file,
+      line: lineAt(code, hit.start),
+      snippet: code.slice(hit.start, hit.end).replace(/\s+/g, " ").slice(0, 120),
+      message: hit.message ?? rule.message,
+      since: hit.since,
+      fixable: !!hit.edits?.length,
+    };
+    if (hit.url) {
+      finding.url = hit.url;
+      if (abs) Object.assign(finding, resolveStyleUrl(abs, src.file, hit.url, planned));
+    }
+    return finding;
+  });
+}
+
+export function analyzeStyles(abs: string, relFiles: string[], targetMajor: number): StyleAnalysis {
+  const findings = relFiles.filter(isStyleFile).flatMap(rel => scanStyleSource(rel, readTextSafe(path.join(abs, rel)), targetMajor, abs));
+  const byRule: StyleAnalysis["byRule"] = {};
+  for (const f of findings) byRule[f.ruleId] = (byRule[f.ruleId] ?? 0) + 1;
+  return {
+    files: relFiles.filter(isStyleFile).length,
+    byRule,
+    fixable: findings.filter(f => f.fixable).length,
+    missingUrls: findings.filter(f => f.ruleId === "asset-url" && f.exists === false).length,
+    findings,
+  };
+}
+
+/**
+ * Apply the safe rewrites to one stylesheet: ::ng-deep, tilde removal,
+ * math.div, Material theming renames. Overlapping ones go on a later pass.
+ */
+export function rewriteStyles(file: string, code: string, targetMajor: number, ruleIds?: StyleRuleId[]): { code: string; applied: Array<{ ruleId: StyleRuleId; line: number }> } {
+  const rules = ruleIds ? STYLE_RULES.filter(r => ruleIds.includes(r.id)) : STYLE_RULES;
+  const applied: Array<{ ruleId: StyleRuleId; line: number }> = [];
+  let current = code;
+  for (let pass = 0; pass < 4; pass++) {
+    const src = toSource(file, current, targetMajor);
+    const groups = ruleHits(src, rules)
+      .filter(h => h.hit.edits?.length)
+      .map(h => ({ ...h, edits: h.hit.edits! }));
+    const picked = pickNonOverlapping(groups);
+    if (!picked.length) break;
+
+    const edits = picked.flatMap(p => p.edits);
+    for (const p of picked) applied.push({ ruleId: p.rule.id, line: lineAt(current, p.hit.start) });
+    const uses = new Map(picked.filter(p => p.hit.use).map(p => [p.hit.use!, p.hit.useAs]));
+    const added = [...uses]
+      .filter(([use]) => !new RegExp(`@use\\s+['"]${escapeRe(use)}['"]`).test(src.masked))
+      .map(([use, as]) => `@use '${use}'${as ? ` as ${as}` : ""}${src.lang === "sass" ? "" : ";"}\n`);
+    if (added.length) {
+      const at = useInsertionPoint(src.masked);
+      edits.push({ start: at, end: at, text: added.join("") + (at === 0 ? "\n" : "") });
+    }
+    current = applyEdits(current, edits);
+  }
+  return { code: current, applied };
+}
+
+export type StyleCopy = {
+  file: string;                 // path in the new project
+  applied: Array<{ ruleId: StyleRuleId; line: number }>;
+  remaining: StyleFinding[];    // what still needs a hand, including url() targets missing in the new project
+};
+
+/**
+ * Rewrite a stylesheet on its way into the new project. url() targets are
+ * checked in the new project; `planned` lists files the same run copies there.
+ */
+export function rewriteStylesForCopy(newRoot: string, file: string, code: string, targetMajor: number, planned: string[] = []): StyleCopy & { code: string } {
+  const rewritten = rewriteStyles(file, code, targetMajor);
+  const remaining = scanStyleSource(file, rewritten.code, targetMajor, newRoot, planned)
+    .filter(f => f.ruleId !== "asset-url" || f.exists === false);
+  return { file: file.replace(/\\/g, "/"), code: rewritten.code, applied: rewritten.applied, remaining };
+}
@@ -0,0 +1,561 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+import { findDecoratedClasses, getProperty, lineOf, parseTsFile, stringValue } from "./ast.js";
+import { readTextSafe } from "./scan.js";
+
+export type TemplateUsage = {
+  ngIf: number;
+  ngFor: number;
+  ngSwitch: number;
+  ngSwitchCase: number;       // *ngSwitchCase and *ngSwitchDefault
+  ngTemplate: number;
+  ngTemplateOutlet: number;
+  ngContainer: number;
+  customStructural: number;   // *appX directives, left alone by the control-flow migration
+  controlFlowBlocks: number;  // @if / @for / @switch / @defer already in use
+};
+
+// One *ngIf / *ngFor / [ngSwitch] / case or <ng-template>, where it is
+export type LegacyDirectiveUsage = {
+  directive: "ngIf" | "ngFor" | "ngSwitch" | "ngSwitchCase" | "ngTemplate";
+  file: string;
+  line: number;
+  snippet: string;
+};
+
+export type ControlFlowRule =
+  | "ngFor-without-trackBy"
+  | "ngIf-else-template"
+  | "ngSwitchCase-not-direct-child"
+  | "unescaped-at"
+  | "unescaped-brace";
+
+export type ControlFlowIssue = {
+  rule: ControlFlowRule;
+  severity: "blocker" | "review";   // blocker: fails to compile or migrate; review: check the migrated output
+  file: string;
+  line: number;
+  snippet: string;
+  message: string;
+};
+
+export type Declarable = { className: string; file: string };
+
+// An element as directive matching sees it: tag, bound and plain attribute names, classes, exportAs references
+export type TemplateElement = { tag: string; attrs: string[]; classes: string[]; refs: string[] };
+
+export type TemplateSource = {
+  file: string;          // .html file, or the component .ts for inline templates
+  owner?: string;        // component .ts file
+  component?: string;    // component class name
+  inline: boolean;
+  text: string;
+  lineOffset: number;    // lines before the template starts in `file`
+};
+
+export type TemplateIndex = {
+  sources: TemplateSource[];
+  selectors: Map<string, Declarable>;   // element selector -> component / directive
+  pipes: Map<string, Declarable>;       // pipe name -> class
+};
+
+export type TemplateInfo = {
+  file: string;
+  component?: string;
+  inline: boolean;
+  usage: TemplateUsage;
+  components: Array<Declarable & { selector: string }>;   // project components used by element selector
+  pipes: Array<{ name: string; source: "common" | "project" | "unknown"; className?: string; file?: string }>;
+  unknownElements: string[];   // neither HTML nor a project selector (library, or a missing declaration)
+  directives: LegacyDirectiveUsage[];
+  issues: ControlFlowIssue[];
+};
+
+export type TemplateAnalysis = {
+  templates: number;
+  inline: number;
+  usage: TemplateUsage;
+  pipes: Array<{ name: string; templates: number; source: "common" | "project" | "unknown"; className?: string }>;
+  customElements: Array<{ selector: string; className: string; file: string; templates: number }>;
+  unknownElements: Array<{ name: string; templates: number; package?: string }>;
+  controlFlow: {
+    legacyTemplates: number;     // templates using *ngIf / *ngFor / [ngSwitch]
+    alreadyMigrated: number;     // built-in control flow only
+    ready: number;               // legacy templates with no blocker
+    blocked: number;
+    directives: LegacyDirectiveUsage[];
+    issues: ControlFlowIssue[];
+  };
+};
+
+// @angular/common pipes available through CommonModule, by template name
+export const COMMON_PIPES: Record<string, string> = {
+  async: "AsyncPipe",
+  currency: "CurrencyPipe",
+  date: "DatePipe",
+  i18nPlural: "I18nPluralPipe",
+  i18nSelect: "I18nSelectPipe",
+  json: "JsonPipe",
+  keyvalue: "KeyValuePipe",
+  lowercase: "LowerCasePipe",
+  number: "DecimalPipe",
+  percent: "PercentPipe",
+  slice: "SlicePipe",
+  titlecase: "TitleCasePipe",
+  uppercase: "UpperCasePipe",
+};
+
+// Element prefixes of common libraries, to tell unknown elements apart from missing declarations
+const LIBRARY_ELEMENTS: Array<[string, string]> = [
+  ["router-outlet", "@angular/router"],
+  ["mat-", "@angular/material"],
+  ["cdk-", "@angular/cdk"],
+  ["ion-", "@ionic/angular"],
+  ["nz-", "ng-zorro-antd"],
+  ["p-", "primeng"],
+];
+
+const HTML_ELEMENTS = new Set((
+  "html head body title base link meta style script noscript template slot main header footer nav section article aside " +
+  "h1 h2 h3 h4 h5 h6 hgroup address p hr pre blockquote ol ul li menu dl dt dd figure figcaption div a em strong small s " +
+  "cite q dfn abbr ruby rt rp data time code var samp kbd sub sup i b u mark bdi bdo span br wbr ins del picture source " +
+  "img iframe embed object param video audio track map area table caption colgroup col tbody thead tfoot tr td th form " +
+  "label input button select datalist optgroup option textarea output progress meter fieldset legend details summary " +
+  "dialog canvas svg math search center font"
+).split(" "));
+
+const ANGULAR_ELEMENTS = new Set(["ng-container", "ng-template", "ng-content"]);
+const VOID_ELEMENTS = new Set("area base br col embed hr img input link meta param source track wbr".split(" "));
+
+const emptyUsage = (): TemplateUsage => ({
+  ngIf: 0, ngFor: 0, ngSwitch: 0, ngSwitchCase: 0, ngTemplate: 0, ngTemplateOutlet: 0, ngContainer: 0, customStructural: 0, controlFlowBlocks: 0,
+});
+
+//#region Index (component templates, selectors and pipes)
+
+// First element names of a selector list: "app-card, [appCard]" -> ["app-card"]
+function elementSelectors(selector: string): string[] {
+  return selector.split(",").map(s => /^\s*([A-Za-z][\w-]*)/.exec(s)?.[1]).filter((s): s is string => !!s);
+}
+
+/**
+ * Templates of the given component files (inline or `templateUrl`) plus any
+ * other `.html` files, with the project's element selectors and pipe names.
+ */
+export function buildTemplateIndex(abs: string, tsFiles: string[], htmlFiles: string[] = []): TemplateIndex {
+  const sources: TemplateSource[] = [];
+  const selectors = new Map<string, Declarable>();
+  const pipes = new Map<string, Declarable>();
+  const seen = new Set<string>();
+
+  for (const rel of tsFiles) {
+    const full = path.join(abs, rel);
+    if (!/@(Component|Directive|Pipe)\s*\(/.test(readTextSafe(full))) continue;
+    const sf = parseTsFile(full);
+    const file = rel.replace(/\\/g, "/");
+
+    for (const decorator of ["Component", "Directive"]) {
+      for (const c of findDecoratedClasses(sf, decorator)) {
+        const selector = c.meta && stringValue(getProperty(c.meta, "selector"));
+        for (const s of selector ? elementSelectors(selector) : []) selectors.set(s, { className: c.className, file });
+        if (decorator !== "Component" || !c.meta) continue;
+
+        const inline = getProperty(c.meta, "template");
+        if (inline && (ts.isStringLiteral(inline) || ts.isNoSubstitutionTemplateLiteral(inline))) {
+          sources.push({ file, owner: file, component: c.className, inline: true, text: inline.text, lineOffset: lineOf(sf, inline.getStart()) - 1 });
+        }
+        const url = stringValue(getProperty(c.meta, "templateUrl"));
+        const htmlAbs = url ? path.resolve(path.dirname(full), url) : undefined;
+        if (htmlAbs && fs.existsSync(htmlAbs)) {
+          const htmlRel = path.relative(abs, htmlAbs).replace(/\\/g, "/");
+          seen.add(htmlRel);
+          sources.push({ file: htmlRel, owner: file, component: c.className, inline: false, text: readTextSafe(htmlAbs), lineOffset: 0 });
+        }
+      }
+    }
+    for (const p of findDecoratedClasses(sf, "Pipe")) {
+      const name = p.meta && stringValue(getProperty(p.meta, "name"));
+      if (name) pipes.set(name, { className: p.className, file });
+    }
+  }
+
+  // Unreferenced templates still count; the host page is not a template
+  for (const rel of htmlFiles) {
+    const file = rel.replace(/\\/g, "/");
+    if (seen.has(file) || path.posix.basename(file) === "index.html") continue;
+    sources.push({ file, inline: false, text: readTextSafe(path.join(abs, rel)), lineOffset: 0 });
+  }
+
+  return { sources, selectors, pipes };
+}
+
+//#endregion
+
+//#region Template scanner
+
+type Element = { tag: string; attrs: Map<string, string>; line: number; snippet: string; isSwitch: boolean };
+
+// Pipe names in a binding expression ("a | async", "d | date:'short'"), ignoring `||`
+function pipesIn(expr: string): string[] {
+  return [...expr.matchAll(/(?<!\|)\|(?!\|)\s*([A-Za-z_$][\w$]*)/g)].map(m => m[1]);
+}
+
+// Block syntax that is legal inside text once control flow is available
+const BLOCK_OPENER = /@(?:(if|for|switch|defer)|else\s+if|else|empty|case|default|placeholder|loading|error)\b\s*(?:\((?:[^()]|\([^()]*\))*\))?\s*\{|@let\s+[\w$]+\s*=[^;]*;/g;
+
+// Text `@` that starts a block from Angular 17; others (e-mail addresses, handles) stay text
+const BLOCK_AT = /@(?:\{|(?:if|else|for|empty|switch|case|default|defer|placeholder|loading|error|let)\b)/;
+
+const ICU = /\{\s*[\w.]+\s*,\s*(plural|select)\s*,/;
+
+function readTag(text: string, start: number): { tag: string; attrs: Map<string, string>; end: number; selfClosing: boolean } {
+  const name = /^<([A-Za-z][\w:.-]*)/.exec(text.slice(start, start + 200))![1];
+  const attrs = new Map<string, string>();
+  let i = start + name.length + 1;
+  const isSpace = (c: string | undefined) => c !== undefined && /\s/.test(c);
+  while (i < text.length) {
+    while (isSpace(text[i])) i++;
+    if (text[i] === ">") return { tag: name, attrs, end: i + 1, selfClosing: false };
+    if (text.startsWith("/>", i)) return { tag: name, attrs, end: i + 2, selfClosing: true };
+    const attr = /^[^\s"'>\/=]+/.exec(text.slice(i, i + 300))?.[0];
+    if (!attr) { i++; continue; }
+    i += attr.length;
+    let j = i;
+    while (isSpace(text[j])) j++;
+    let value = "";
+    if (text[j] === "=") {
+      j++;
+      while (isSpace(text[j])) j++;
+      const q = text[j];
+      if (q === "\"" || q === "'") {
+        const close = text.indexOf(q, j + 1);
+        value = text.slice(j + 1, close < 0 ? text.length : close);
+        i = close < 0 ? text.length : close + 1;
+      } else {
+        value = /^[^\s>]*/.exec(text.slice(j, j + 500))![0];
+        i = j + value.length;
+      }
+    }
+    attrs.set(attr, value);
+  }
+  return { tag: name, attrs, end: text.length, selfClosing: false };
+}
+
+/**
+ * Structural directive usage, pipes, elements and control-flow migration
+ * issues of one template. Elements are matched against the index's selectors.
+ */
+export function analyzeTemplate(source: TemplateSource, index: Pick<TemplateIndex, "selectors" | "pipes">): TemplateInfo {
+  const { text } = source;
+  const usage = emptyUsage();
+  const directives: LegacyDirectiveUsage[] = [];
+  const issues: ControlFlowIssue[] = [];
+  const pipeNames = new Set<string>();
+  const elements = new Set<string>();
+  const elseRefs: Array<{ ref: string; el: Element }> = [];
+  const templateRefs = new Set<string>();
+  const braceCandidates: number[] = [];
+
+  const lineStarts = [0];
+  for (let k = 0; k < text.length; k++) if (text[k] === "\n") lineStarts.push(k + 1);
+  const lineAt = (pos: number) => {
+    let lo = 0, hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= pos) lo = mid; else hi = mid - 1;
+    }
+    return source.lineOffset + lo + 1;
+  };
+  const issue = (rule: ControlFlowRule, severity: ControlFlowIssue["severity"], line: number, snippet: string, message: string) =>
+    issues.push({ rule, severity, file: source.file, line, snippet, message });
+  const use = (directive: LegacyDirectiveUsage["directive"], el: Element) => {
+    usage[directive]++;
+    directives.push({ directive, file: source.file, line: el.line, snippet: el.snippet });
+  };
+
+  const stack: Element[] = [];
+  const onText = (chunk: string, start: number) => {
+    let rest = chunk.replace(/\{\{([\s\S]*?)\}\}/g, (m, expr: string) => {
+      pipesIn(expr).forEach(p => pipeNames.add(p));
+      return " ".repeat(m.length);
+    });
+    rest = rest.replace(BLOCK_OPENER, (m, main?: string) => {
+      if (main) usage.controlFlowBlocks++;
+      return " ".repeat(m.length);
+    });
+    const at = rest.search(BLOCK_AT);
+    if (at >= 0) {
+      issue("unescaped-at", "blocker", lineAt(start + at), chunk.trim().replace(/\s+/g, " ").slice(0, 120),
+        "A literal @ in text is a block start from Angular 17; write &#64;");
+    }
+    if (ICU.test(rest)) return;
+    const open = rest.indexOf("{");
+    if (open >= 0) {
+      issue("unescaped-brace", "blocker", lineAt(start + open), chunk.trim().replace(/\s+/g, " ").slice(0, 120),
+        "A literal { in text breaks block parsing from Angular 17; write &#123;");
+    }
+    const close = rest.indexOf("}");
+    if (close >= 0) braceCandidates.push(start + close);
+  };
+
+  const onElement = (el: Element, parent: Element | undefined, inSvg: boolean) => {
+    const tag = el.tag.toLowerCase();
+    if (tag === "ng-container") usage.ngContainer++;
+    if (tag === "ng-template") use("ngTemplate", el);
+    if (!inSvg && !HTML_ELEMENTS.has(tag) && !ANGULAR_ELEMENTS.has(tag)) elements.add(tag);
+
+    for (const [name, value] of el.attrs) {
+      const exprs = /^(\[|\*|bind-)/.test(name) ? [value] : [...value.matchAll(/\{\{([\s\S]*?)\}\}/g)].map(m => m[1]);
+      for (const e of exprs) pipesIn(e).forEach(p => pipeNames.add(p));
+      if (tag === "ng-template" && (name.startsWith("#") || name.startsWith("ref-"))) templateRefs.add(name.replace(/^(#|ref-)/, ""));
+
+      switch (name) {
+        case "*ngIf":
+        case "[ngIf]": {
+          use("ngIf", el);
+          for (const m of value.matchAll(/(?<![.\w$])(?:else|then)\s*:?\s*([A-Za-z_$][\w$]*)/g)) elseRefs.push({ ref: m[1], el });
+          break;
+        }
+        case "[ngIfElse]":
+        case "[ngIfThen]":
+          if (/^[A-Za-z_$][\w$]*$/.test(value.trim())) elseRefs.push({ ref: value.trim(), el });
+          break;
+        case "*ngFor":
+          use("ngFor", el);
+          if (!/\btrackBy\s*:/.test(value)) {
+            issue("ngFor-without-trackBy", "review", el.line, el.snippet, "@for needs a track expression; add trackBy or choose a unique key so the migration does not fall back to identity tracking");
+          }
+          break;
+        case "[ngForOf]":
+          use("ngFor", el);
+          if (!el.attrs.has("[ngForTrackBy]")) {
+            issue("ngFor-without-trackBy", "review", el.line, el.snippet, "@for needs a track expression; add [ngForTrackBy] or choose a unique key");
+          }
+          break;
+        case "[ngSwitch]":
+          use("ngSwitch", el);
+          el.isSwitch = true;
+          break;
+        case "*ngSwitchCase":
+        case "[ngSwitchCase]":
+        case "*ngSwitchDefault":
+        case "ngSwitchDefault":
+          use("ngSwitchCase", el);
+          if (!parent?.isSwitch) {
+            issue("ngSwitchCase-not-direct-child", "review", el.line, el.snippet, "@case / @default blocks must sit directly inside @switch; move the case up to the [ngSwitch] element");
+          }
+          break;
+        case "*ngTemplateOutlet":
+        case "[ngTemplateOutlet]":
+          usage.ngTemplateOutlet++;
+          break;
+        default:
+          if (name.startsWith("*")) usage.customStructural++;
+      }
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    if (text.startsWith("<!--", i)) {
+      const end = text.indexOf("-->", i + 4);
+      i = end < 0 ? text.length : end + 3;
+      continue;
+    }
+    if (text[i] === "<" && text[i + 1] === "/") {
+      const m = /^<\/([A-Za-z][\w:.-]*)\s*>/.exec(text.slice(i, i + 200));
+      if (m) {
+        const idx = stack.map(e => e.tag.toLowerCase()).lastIndexOf(m[1].toLowerCase());
+        if (idx >= 0) stack.length = idx;
+        i += m[0].length;
+        continue;
+      }
+    }
+    if (text[i] === "<" && /[A-Za-z]/.test(text[i + 1] ?? "")) {
+      const t = readTag(text, i);
+      const el: Element = { tag: t.tag, attrs: t.attrs, line: lineAt(i), snippet: text.slice(i, t.end).replace(/\s+/g, " ").slice(0, 120), isSwitch: false };
+      const inSvg = stack.some(e => e.tag.toLowerCase() === "svg");
+      onElement(el, stack[stack.length - 1], inSvg);
+      i = t.end;
+      const lower = t.tag.toLowerCase();
+      if (lower === "script" || lower === "style") {
+        const close = text.toLowerCase().indexOf(`</${lower}`, i);
+        i = close < 0 ? text.length : close;
+      } else if (!t.selfClosing && !VOID_ELEMENTS.has(lower)) {
+        stack.push(el);
+      }
+      continue;
+    }
+    let next = i + 1;
+    while (next < text.length && !(text[next] === "<" && /[A-Za-z\/!]/.test(text[next + 1] ?? ""))) next++;
+    onText(text.slice(i, next), i);
+    i = next;
+  }
+
+  // Closing braces are only stray when no block could own them
+  if (!usage.controlFlowBlocks && braceCandidates.length) {
+    const pos = braceCandidates[0];
+    issue("unescaped-brace", "blocker", lineAt(pos), text.slice(Math.max(0, pos - 40), pos + 40).trim().replace(/\s+/g, " "),
+      "A literal } in text breaks block parsing from Angular 17; write &#125;");
+  }
+
+  for (const { ref, el } of elseRefs) {
+    const uses = [...text.matchAll(new RegExp(`(?<![#\\w$-])${ref.replace(/\$/g, "\\$")}\\b`, "g"))].length;
+    if (!templateRefs.has(ref)) {
+      issue("ngIf-else-template", "blocker", el.line, el.snippet, `#${ref} is not an <ng-template> of this template (input or ViewChild?); write the @else branch by hand`);
+    } else if (uses > 1) {
+      issue("ngIf-else-template", "review", el.line, el.snippet, `<ng-template #${ref}> is referenced elsewhere too; it stays and @else renders it through ngTemplateOutlet`);
+    } else {
+      issue("ngIf-else-template", "review", el.line, el.snippet, `<ng-template #${ref}> moves into the @else block; check bindings that relied on its context`);
+    }
+  }
+
+  const components: TemplateInfo["components"] = [];
+  const unknownElements: string[] = [];
+  for (const tag of elements) {
+    const hit = index.selectors.get(tag);
+    if (hit) components.push({ selector: tag, ...hit });
+    else unknownElements.push(tag);
+  }
+
+  return {
+    file: source.file,
+    component: source.component,
+    inline: source.inline,
+    usage,
+    components,
+    pipes: [...pipeNames].map(name => {
+      const own = index.pipes.get(name);
+      if (own) return { name, source: "project" as const, ...own };
+      return COMMON_PIPES[name] ? { name, source: "common" as const, className: COMMON_PIPES[name] } : { name, source: "unknown" as const };
+    }),
+    unknownElements,
+    directives,
+    issues: issues.sort((a, b) => a.line - b.line),
+  };
+}
+
+// `*dir="let x of xs; trackBy: f"` binds `dir`, `dirOf` and `dirTrackBy`
+function microsyntaxKeys(dir: string, value: string): string[] {
+  const keys = [dir];
+  value.split(/[;,]/).forEach((part, k) => {
+    const let_ = /^\s*let\s+[\w$]+(\s*=\s*[\w$]+)?\s*/.exec(part);
+    if (k === 0 && !let_) return;   // the directive's own expression
+    const key = /^([A-Za-z_$][\w$]*)\s*:?\s+\S/.exec(part.slice(let_?.[0].length ?? 0).trim() + " ")?.[1];
+    if (key && key !== "let" && key !== "as") keys.push(dir + key[0].toUpperCase() + key.slice(1));
+  });
+  return keys;
+}
+
+/**
+ * Elements of a template with the names directive selectors match against
+ * (`[x]`, `(x)`, `[(x)]` and `*x` as `x`, microsyntax keys as `xOf`), their
+ * `#ref="exportAs"` references, and every pipe used in the template.
+ */
+export function templateBindings(text: string): { elements: TemplateElement[]; pipes: string[] } {
+  const elements: TemplateElement[] = [];
+  const pipes = new Set<string>();
+  const onText = (chunk: string) => {
+    for (const m of chunk.matchAll(/\{\{([\s\S]*?)\}\}/g)) pipesIn(m[1]).forEach(p => pipes.add(p));
+    for (const m of chunk.matchAll(BLOCK_OPENER)) pipesIn(m[0]).forEach(p => pipes.add(p));
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    if (text.startsWith("<!--", i)) {
+      const end = text.indexOf("-->", i + 4);
+      i = end < 0 ? text.length : end + 3;
+      continue;
+    }
+    if (text[i] === "<" && /[A-Za-z]/.test(text[i + 1] ?? "")) {
+      const t = readTag(text, i);
+      const el: TemplateElement = { tag: t.tag.toLowerCase(), attrs: [], classes: [], refs: [] };
+      for (const [name, value] of t.attrs) {
+        const exprs = /^(\[|\*|bind-)/.test(name) ? [value] : [...value.matchAll(/\{\{([\s\S]*?)\}\}/g)].map(m => m[1]);
+        for (const e of exprs) pipesIn(e).forEach(p => pipes.add(p));
+        if (/^(#|ref-)/.test(name)) {
+          if (value.trim()) el.refs.push(value.trim());
+          continue;
+        }
+        if (/^(let-|@|\[(attr|class|style)\.)/.test(name)) continue;
+        if (name === "class") el.classes.push(...value.split(/\s+/).filter(Boolean));
+        const bound = /^(?:\[\(|\[|\(|\*|bindon-|bind-|on-)?(.+?)(?:\)\]|\]|\))?$/.exec(name)![1];
+        el.attrs.push(...(name.startsWith("*") ? microsyntaxKeys(bound, value) : [bound]));
+      }
+      elements.push(el);
+      i = t.end;
+      const lower = el.tag;
+      if (lower === "script" || lower === "style") {
+        const close = text.toLowerCase().indexOf(`</${lower}`, i);
+        i = close < 0 ? text.length : close;
+      }
+      continue;
+    }
+    let next = i + 1;
+    while (next < text.length && !(text[next] === "<" && /[A-Za-z!]/.test(text[next + 1] ?? ""))) next++;
+    onText(text.slice(i, next));
+    i = next;
+  }
+
+  return { elements, pipes: [...pipes] };
+}
+
+//#endregion
+
+// Library a non-project element most likely comes from
+function libraryOf(tag: string): string | undefined {
+  return LIBRARY_ELEMENTS.find(([prefix]) => prefix.endsWith("-") ? tag.startsWith(prefix) : tag === prefix)?.[1];
+}
+
+const usesLegacy = (u: TemplateUsage) => u.ngIf + u.ngFor + u.ngSwitch + u.ngSwitchCase > 0;
+
+// Project-wide template report: directive counts, pipes, elements and control-flow readiness
+export function analyzeTemplates(abs: string, tsFiles: string[], htmlFiles: string[]): TemplateAnalysis {
+  const index = buildTemplateIndex(abs, tsFiles, htmlFiles);
+  const infos = index.sources.map(s => analyzeTemplate(s, index));
+
+  const usage = emptyUsage();
+  const pipes = new Map<string, TemplateAnalysis["pipes"][number]>();
+  const custom = new Map<string, TemplateAnalysis["customElements"][number]>();
+  const unknown = new Map<string, TemplateAnalysis["unknownElements"][number]>();
+  for (const t of infos) {
+    for (const k of Object.keys(usage) as Array<keyof TemplateUsage>) usage[k] += t.usage[k];
+    for (const p of t.pipes) {
+      const entry = pipes.get(p.name) ?? { name: p.name, templates: 0, source: p.source, className: p.className };
+      entry.templates++;
+      pipes.set(p.name, entry);
+    }
+    for (const c of t.components) {
+      const entry = custom.get(c.selector) ?? { selector: c.selector, className: c.className, file: c.file, templates: 0 };
+      entry.templates++;
+      custom.set(c.selector, entry);
+    }
+    for (const name of t.unknownElements) {
+      const entry = unknown.get(name) ?? { name, templates: 0, package: libraryOf(name) };
+      entry.templates++;
+      unknown.set(name, entry);
+    }
+  }
+
+  const legacy = infos.filter(t => usesLegacy(t.usage));
+  const blocked = infos.filter(t => t.issues.some(x => x.severity === "blocker"));
+  const byCount = <T extends { templates: number }>(m: Map<string, T>) => [...m.values()].sort((a, b) => b.templates - a.templates);
+
+  return {
+    templates: infos.length,
+    inline: infos.filter(t => t.inline).length,
+    usage,
+    pipes: byCount(pipes),
+    customElements: byCount(custom),
+    unknownElements: byCount(unknown),
+    controlFlow: {
+      legacyTemplates: legacy.length,
+      alreadyMigrated: infos.filter(t => t.usage.controlFlowBlocks > 0 && !usesLegacy(t.usage)).length,
+      ready: legacy.filter(t => !blocked.includes(t)).length,
+      blocked: blocked.length,
+      directives: infos.flatMap(t => t.directives),
+      issues: infos.flatMap(t => t.issues),
+    },
+  };
+}
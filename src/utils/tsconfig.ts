@@ -0,0 +1,130 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+
+const toPosix = (p: string) => p.replace(/\\/g, "/");
+
+/**
+ * Compiler options of a project's root tsconfig (`extends` followed). Nx keeps
+ * the path aliases in `tsconfig.base.json`, which is used when `tsconfig.json`
+ * has none.
+ */
+export function readCompilerOptions(abs: string): ts.CompilerOptions {
+  const read = (name: string): ts.CompilerOptions | undefined => {
+    const file = path.join(abs, name);
+    if (!fs.existsSync(file)) return undefined;
+    const { config, error } = ts.readConfigFile(file, ts.sys.readFile);
+    if (error || !config) return undefined;
+    // Only the options matter; no file list is needed
+    return ts.parseJsonConfigFileContent({ ...config, files: [], include: [] }, ts.sys, abs, undefined, file).options;
+  };
+  const root = read("tsconfig.json");
+  if (root?.paths) return root;
+  return read("tsconfig.base.json") ?? root ?? {};
+}
+
+/**
+ * Project file an import specifier points to, relative to `abs`: relative
+ * imports and tsconfig path aliases. `null` for packages and anything outside
+ * the project; `undefined` when a relative or aliased import does not resolve.
+ */
+export function resolveProjectImport(abs: string, fromFileAbs: string, spec: string, options: ts.CompilerOptions): string | null | undefined {
+  const resolved = ts.resolveModuleName(spec, fromFileAbs, { ...options, allowJs: true, resolveJsonModule: true }, ts.sys).resolvedModule;
+  if (resolved && !resolved.isExternalLibraryImport) {
+    const rel = toPosix(path.relative(abs, resolved.resolvedFileName));
+    return rel.startsWith("..") || rel.includes("node_modules/") ? null : rel;
+  }
+  if (resolved) return null;
+  return spec.startsWith(".") || matchesAlias(spec, options) ? undefined : null;
+}
+
+// Whether a specifier matches one of the `paths` patterns
+export function matchesAlias(spec: string, options: ts.CompilerOptions): boolean {
+  return Object.keys(options.paths ?? {}).some(pattern => {
+    const star = pattern.indexOf("*");
+    return star < 0 ? spec === pattern : spec.startsWith(pattern.slice(0, star)) && spec.endsWith(pattern.slice(star + 1));
+  });
+}
+
+export type PathAlias = {
+  pattern: string;     // `paths` key, e.g. "@core/*"
+  targets: string[];   // relative to the project root, e.g. "src/app/core/*"
+};
+
+const TS_EXT = /(\.d)?\.[cm]?tsx?$/;
+
+// Directory `paths` targets are relative to: baseUrl, else the tsconfig declaring them
+function pathsBase(abs: string, options: ts.CompilerOptions): string {
+  return options.baseUrl ?? (options.pathsBasePath as string | undefined) ?? abs;
+}
+
+// The `paths` entry a specifier resolves through; the longest prefix wins, as in the compiler
+export function matchAlias(abs: string, spec: string, options: ts.CompilerOptions): PathAlias | undefined {
+  let best: PathAlias | undefined;
+  let bestPrefix = -1;
+  for (const [pattern, subs] of Object.entries(options.paths ?? {})) {
+    const star = pattern.indexOf("*");
+    const prefix = star < 0 ? Number.MAX_SAFE_INTEGER : star;
+    const hit = star < 0
+      ? spec === pattern
+      : spec.length >= pattern.length - 1 && spec.startsWith(pattern.slice(0, star)) && spec.endsWith(pattern.slice(star + 1));
+    if (!hit || prefix <= bestPrefix) continue;
+    best = { pattern, targets: subs.map(s => toPosix(path.relative(abs, path.resolve(pathsBase(abs, options), s)))) };
+    bestPrefix = prefix;
+  }
+  return best;
+}
+
+// Specifiers the `paths` of `options` offer for a project file (relative to `abs`), most specific first
+export function aliasesFor(abs: string, fileRel: string, options: ts.CompilerOptions): string[] {
+  const stem = fileRel.replace(TS_EXT, "");
+  const forms = path.posix.basename(stem) === "index" ? [stem, path.posix.dirname(stem)] : [stem];
+  const found: Array<{ spec: string; prefix: number }> = [];
+  for (const [pattern, subs] of Object.entries(options.paths ?? {})) {
+    for (const sub of subs) {
+      const target = toPosix(path.relative(abs, path.resolve(pathsBase(abs, options), sub))).replace(TS_EXT, "");
+      const star = target.indexOf("*");
+      for (const form of forms) {
+        if (star < 0) {
+          if (form === target && !pattern.includes("*")) found.push({ spec: pattern, prefix: Number.MAX_SAFE_INTEGER });
+          continue;
+        }
+        const [pre, post] = [target.slice(0, star), target.slice(star + 1)];
+        if (form.length < pre.length + post.length || !form.startsWith(pre) || !form.endsWith(post)) continue;
+        found.push({ spec: pattern.replace("*", form.slice(pre.length, form.length - post.length)), prefix: pre.length });
+      }
+    }
+  }
+  return [...new Set(found.sort((a, b) => b.prefix - a.prefix).map(f => f.spec))];
+}
+
+/**
+ * Adds `paths` entries to the tsconfig holding the project's aliases
+ * (tsconfig.base.json in Nx workspaces). Targets are relative to the project
+ * root; patterns the file already has are left alone. Comments inside the
+ * file are not kept. Returns nothing when there is no tsconfig or nothing to add.
+ */
+export function addPathAliases(abs: string, aliases: PathAlias[]): { file: string; before: string; after: string; added: string[] } | undefined {
+  const parse = (name: string) => {
+    const text = fs.existsSync(path.join(abs, name)) ? fs.readFileSync(path.join(abs, name), "utf-8") : undefined;
+    const config = text === undefined ? undefined : ts.parseConfigFileTextToJson(name, text).config;
+    return config ? { name, text: text!, config } : undefined;
+  };
+  const root = parse("tsconfig.json");
+  const target = root?.config.compilerOptions?.paths ? root : parse("tsconfig.base.json") ?? root;
+  if (!target) return undefined;
+
+  const compilerOptions = target.config.compilerOptions ??= {};
+  const paths: Record<string, string[]> = compilerOptions.paths ??= {};
+  const base = compilerOptions.baseUrl ? path.posix.normalize(compilerOptions.baseUrl) : undefined;
+  const added: string[] = [];
+  for (const a of aliases) {
+    if (paths[a.pattern]) continue;
+    // Without baseUrl the compiler only accepts targets starting with ./
+    paths[a.pattern] = a.targets.map(t => base ? path.posix.relative(base, t) : `./${t}`);
+    added.push(a.pattern);
+  }
+  if (!added.length) return undefined;
+  const header = /^\s*(\/\*[\s\S]*?\*\/\s*)/.exec(target.text)?.[1] ?? "";
+  return { file: target.name, before: target.text, after: header + JSON.stringify(target.config, null, 2) + "\n", added };
+}
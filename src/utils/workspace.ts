@@ -0,0 +1,113 @@
+import fs from "fs";
+import path from "path";
+import semver from "semver";
+import { NEWEST_KNOWN_RELEASE } from "./angular_versions.js";
+import { IGNORE_GLOBS, listFilesByGlob } from "./scan.js";
+
+export type TestRunner = "karma" | "jest" | "vitest" | "web-test-runner" | "unknown" | "none";
+
+export type WorkspaceProject = {
+  name: string;
+  projectType: "application" | "library" | "unknown";
+  root: string;            // relative to the workspace, forward slashes ("" for the default CLI project)
+  sourceRoot: string;
+  config: "angular.json" | "workspace.json" | "project.json";
+  buildBuilder?: string;   // builder (Angular CLI) or executor (Nx) of the build target
+  main?: string;           // build entry point, relative to the workspace
+  testBuilder?: string;
+};
+
+const toPosix = (p: string) => p.replace(/\\/g, "/").replace(/\/$/, "");
+
+function readJson(file: string): any {
+  try { return JSON.parse(fs.readFileSync(file, "utf-8")); } catch { return null; }
+}
+
+function toProject(name: string, cfg: any, config: WorkspaceProject["config"], fallbackRoot = ""): WorkspaceProject {
+  const targets = cfg?.architect ?? cfg?.targets ?? {};
+  const build = targets.build;
+  const test = targets.test;
+  const root = toPosix(cfg?.root ?? fallbackRoot);
+  const options = build?.options ?? {};
+  const main = options.browser ?? options.main;
+  return {
+    name,
+    projectType: cfg?.projectType === "application" || cfg?.projectType === "library" ? cfg.projectType : "unknown",
+    root,
+    sourceRoot: toPosix(cfg?.sourceRoot ?? (root ? `${root}/src` : "src")),
+    config,
+    buildBuilder: build?.builder ?? build?.executor,
+    main: typeof main === "string" ? toPosix(main) : undefined,
+    testBuilder: test?.builder ?? test?.executor,
+  };
+}
+
+/**
+ * Every project of an Angular CLI or Nx workspace. Reads `angular.json` /
+ * `workspace.json` (inline configs or paths to project folders) and any
+ * `project.json` not already listed there.
+ */
+export async function readWorkspaceProjects(abs: string): Promise<WorkspaceProject[]> {
+  const projects: WorkspaceProject[] = [];
+  const roots = new Set<string>();
+
+  for (const config of ["angular.json", "workspace.json"] as const) {
+    const ws = readJson(path.join(abs, config));
+    if (!ws?.projects) continue;
+    for (const [name, entry] of Object.entries<any>(ws.projects)) {
+      if (projects.some(p => p.name === name)) continue;
+      // Nx workspace.json v2 may map a name to the folder holding its project.json
+      const cfg = typeof entry === "string" ? readJson(path.join(abs, entry, "project.json")) : entry;
+      const p = toProject(name, cfg, typeof entry === "string" ? "project.json" : config, typeof entry === "string" ? entry : "");
+      projects.push(p);
+      roots.add(p.root);
+    }
+  }
+
+  const projectJsons = await listFilesByGlob(abs, ["**/project.json"], IGNORE_GLOBS);
+  for (const rel of projectJsons.sort()) {
+    const root = toPosix(path.posix.dirname(toPosix(rel)));
+    const dirRoot = root === "." ? "" : root;
+    if (roots.has(dirRoot)) continue;
+    const cfg = readJson(path.join(abs, rel));
+    if (!cfg) continue;
+    const name = cfg.name ?? path.posix.basename(dirRoot || toPosix(abs));
+    if (projects.some(p => p.name === name)) continue;
+    projects.push(toProject(name, cfg, "project.json", dirRoot));
+    roots.add(dirRoot);
+  }
+
+  return projects;
+}
+
+const JEST_CONFIGS = ["jest.config.ts", "jest.config.js", "jest.config.cjs", "jest.config.mjs"];
+const VITEST_CONFIGS = ["vitest.config.ts", "vitest.config.mts", "vite.config.ts", "vite.config.mts"];
+
+// Test runner from the test target, falling back to config files in the project folder
+export function detectTestRunner(abs: string, p: WorkspaceProject): TestRunner {
+  const b = p.testBuilder ?? "";
+  if (b) {
+    if (/karma/.test(b)) return "karma";
+    if (/jest/.test(b)) return "jest";
+    if (/vite|vitest|unit-test/.test(b)) return "vitest";
+    if (/web-test-runner/.test(b)) return "web-test-runner";
+    return "unknown";
+  }
+  const dir = path.join(abs, p.root);
+  if (JEST_CONFIGS.some(f => fs.existsSync(path.join(dir, f)))) return "jest";
+  if (VITEST_CONFIGS.some(f => fs.existsSync(path.join(dir, f)))) return "vitest";
+  if (fs.existsSync(path.join(dir, "karma.conf.js"))) return "karma";
+  return "none";
+}
+
+/** Angular major of a project from its @angular/core range (newest known if unreadable). */
+export function projectAngularMajor(abs: string): number {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(abs, "package.json"), "utf8"));
+    const range = pkg.dependencies?.["@angular/core"] ?? pkg.devDependencies?.["@angular/core"];
+    if (semver.validRange(range)) return semver.minVersion(range)?.major ?? NEWEST_KNOWN_RELEASE;
+  } catch {
+    // fall through
+  }
+  return NEWEST_KNOWN_RELEASE;
+}